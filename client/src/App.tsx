@@ -17,9 +17,12 @@ import SEORecommendations from "@/pages/seo-recommendations";
 import LegalRecommendations from "@/pages/legal-recommendations";
 import ConversionRecommendations from "@/pages/conversion-recommendations";
 import TrustRecommendations from "@/pages/trust-recommendations";
+import CompetitorBenchmarks from "@/pages/competitor-benchmarks";
 import BuyCredits from "@/pages/buy-credits";
 import SubscriptionOnboarding from "@/pages/subscription-onboarding";
 import AdCreator from "@/pages/ad-creator";
+import Admin from "@/pages/admin";
+import AdminUser from "@/pages/admin-user";
 import { AuthProvider } from "@/hooks/useAuth";
 
 function Router() {
@@ -39,10 +42,13 @@ function Router() {
       <Route path="/dashboard/stores/:storeId/legal" component={LegalRecommendations} />
       <Route path="/dashboard/stores/:storeId/conversion" component={ConversionRecommendations} />
       <Route path="/dashboard/stores/:storeId/trust" component={TrustRecommendations} />
+      <Route path="/dashboard/stores/:storeId/competitors" component={CompetitorBenchmarks} />
       <Route path="/dashboard/settings" component={Settings} />
       <Route path="/dashboard/credits" component={BuyCredits} />
       <Route path="/dashboard/ad-creator" component={AdCreator} />
       <Route path="/subscription-onboarding" component={SubscriptionOnboarding} />
+      <Route path="/admin" component={Admin} />
+      <Route path="/admin/users/:userId" component={AdminUser} />
       <Route component={NotFound} />
     </Switch>
   );
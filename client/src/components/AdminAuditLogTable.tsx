@@ -0,0 +1,60 @@
+import { Link } from "wouter";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import type { AdminAuditLog } from "@shared/schema";
+
+const AUDIT_ACTION_LABELS: Record<AdminAuditLog['action'], string> = {
+  user_search: 'Searched users',
+  user_view: 'Viewed user',
+  credits_grant: 'Granted credits',
+  credits_revoke: 'Revoked credits',
+  store_disconnect: 'Disconnected store',
+  impersonation_start: 'Started impersonation',
+  impersonation_end: 'Ended impersonation',
+  stripe_event_replay: 'Replayed Stripe event',
+  audit_log_view: 'Viewed audit log',
+  stripe_events_view: 'Viewed Stripe events',
+  compliance_requests_view: 'Viewed compliance requests',
+  compliance_export_download: 'Downloaded customer data export',
+};
+
+export default function AdminAuditLogTable({ entries }: { entries: AdminAuditLog[] }) {
+  if (entries.length === 0) {
+    return <p className="text-sm text-muted-foreground">No admin actions recorded yet</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>When</TableHead>
+          <TableHead>Admin</TableHead>
+          <TableHead>Action</TableHead>
+          <TableHead>User</TableHead>
+          <TableHead>Reason</TableHead>
+          <TableHead>Details</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map(entry => (
+          <TableRow key={entry.id}>
+            <TableCell className="whitespace-nowrap">{new Date(entry.createdAt).toLocaleString()}</TableCell>
+            <TableCell>#{entry.adminUserId}</TableCell>
+            <TableCell>{AUDIT_ACTION_LABELS[entry.action]}</TableCell>
+            <TableCell>
+              {entry.targetUserId ? (
+                <Link href={`/admin/users/${entry.targetUserId}`} className="text-blue-600 hover:underline">
+                  #{entry.targetUserId}
+                </Link>
+              ) : '—'}
+              {entry.targetStoreId && <span className="text-muted-foreground"> / store #{entry.targetStoreId}</span>}
+            </TableCell>
+            <TableCell>{entry.reason || '—'}</TableCell>
+            <TableCell className="text-xs text-muted-foreground font-mono">
+              {entry.details ? JSON.stringify(entry.details) : '—'}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
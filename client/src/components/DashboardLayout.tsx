@@ -11,13 +11,16 @@ import {
   LogOut,
   CreditCard,
   Megaphone,
-  Home
+  Home,
+  Shield,
+  Eye
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { useAuth } from '@/hooks/useAuth';
 import { useQuery } from '@tanstack/react-query';
 import { apiRequest } from '@/lib/queryClient';
 import AlexBot from '@/components/AlexBot';
+import NotificationBell from '@/components/NotificationBell';
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -26,7 +29,7 @@ interface DashboardLayoutProps {
 export default function DashboardLayout({ children }: DashboardLayoutProps) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [location] = useLocation();
-  const { user, logout } = useAuth();
+  const { user, logout, impersonatedBy, endImpersonation } = useAuth();
 
   // Fetch current user credits
   const { data: creditsData } = useQuery({
@@ -45,6 +48,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
     { name: 'AI Ad Creator', href: '/dashboard/ad-creator', icon: Megaphone },
     { name: 'Buy Credits', href: '/dashboard/credits', icon: CreditCard },
     { name: 'Settings', href: '/dashboard/settings', icon: Settings },
+    ...(user?.isAdmin ? [{ name: 'Admin', href: '/admin', icon: Shield }] : []),
   ];
 
   const handleLogout = async () => {
@@ -118,6 +122,18 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
 
       {/* Main content */}
       <div className="flex-1 flex flex-col overflow-hidden">
+        {impersonatedBy && (
+          <div className="bg-amber-100 border-b border-amber-300 px-4 py-2 flex items-center justify-between text-sm text-amber-900">
+            <div className="flex items-center">
+              <Eye className="w-4 h-4 mr-2" />
+              Viewing {user?.email} read-only as {impersonatedBy.email}
+            </div>
+            <Button variant="outline" size="sm" onClick={endImpersonation}>
+              End impersonation
+            </Button>
+          </div>
+        )}
+
         {/* Header */}
         <header className="bg-white shadow-sm border-b px-4 py-3 lg:px-6">
           <div className="flex items-center justify-between">
@@ -144,6 +160,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
             </div>
             
             <div className="flex items-center space-x-4">
+              {user && <NotificationBell />}
               <div className="text-sm text-gray-600">
                 Welcome back, {user?.email?.split('@')[0]}!
               </div>
@@ -6,6 +6,7 @@ import { ArrowRight, Search } from "lucide-react";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
+import { waitForAnalysisJob, type AnalysisJobStatus } from "@/lib/analysisJobs";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { landingText } from "@/lib/landingText";
@@ -14,9 +15,10 @@ interface FinalCTASectionProps {
   onAnalysisStart: () => void;
   onAnalysisComplete: (result: any) => void;
   onAnalysisError?: () => void;
+  onAnalysisProgress?: (job: AnalysisJobStatus) => void;
 }
 
-export default function FinalCTASection({ onAnalysisStart, onAnalysisComplete, onAnalysisError }: FinalCTASectionProps) {
+export default function FinalCTASection({ onAnalysisStart, onAnalysisComplete, onAnalysisError, onAnalysisProgress }: FinalCTASectionProps) {
   const [activeTab, setActiveTab] = useState<'shopify' | 'ebay'>('shopify');
   const [storeUrl, setStoreUrl] = useState('');
   const [ebayUsername, setEbayUsername] = useState('');
@@ -49,7 +51,8 @@ export default function FinalCTASection({ onAnalysisStart, onAnalysisComplete, o
 
   const analyzeStoreMutation = useMutation({
     mutationFn: async (data: { storeUrl?: string; ebayUsername?: string; storeType: 'shopify' | 'ebay' }) => {
-      return await apiRequest('POST', '/api/analyze-store', data);
+      const job = await apiRequest('POST', '/api/analyze-store', data);
+      return await waitForAnalysisJob(job.jobId, onAnalysisProgress);
     },
     onSuccess: (result) => {
       onAnalysisComplete(result);
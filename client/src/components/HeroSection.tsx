@@ -4,6 +4,7 @@ import { Input } from "@/components/ui/input";
 import { useMutation, useQueryClient } from "@tanstack/react-query";
 import { motion } from "framer-motion";
 import { apiRequest } from "@/lib/queryClient";
+import { waitForAnalysisJob, type AnalysisJobStatus } from "@/lib/analysisJobs";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/useAuth";
 import { Search, ArrowRight, CheckCircle, BarChart3, Zap } from "lucide-react";
@@ -15,9 +16,10 @@ interface HeroSectionProps {
   onAnalysisStart: () => void;
   onAnalysisComplete: (result: any) => void;
   onAnalysisError?: () => void;
+  onAnalysisProgress?: (job: AnalysisJobStatus) => void;
 }
 
-export default function HeroSection({ onAnalysisStart, onAnalysisComplete, onAnalysisError }: HeroSectionProps) {
+export default function HeroSection({ onAnalysisStart, onAnalysisComplete, onAnalysisError, onAnalysisProgress }: HeroSectionProps) {
   const [activeTab, setActiveTab] = useState<'shopify' | 'ebay'>('shopify');
   const [storeUrl, setStoreUrl] = useState('');
   const [ebayUsername, setEbayUsername] = useState('');
@@ -28,7 +30,8 @@ export default function HeroSection({ onAnalysisStart, onAnalysisComplete, onAna
 
   const analyzeStoreMutation = useMutation({
     mutationFn: async (data: { storeUrl?: string; ebayUsername?: string; storeType: 'shopify' | 'ebay' }) => {
-      return await apiRequest('POST', '/api/analyze-store', data);
+      const job = await apiRequest('POST', '/api/analyze-store', data);
+      return await waitForAnalysisJob(job.jobId, onAnalysisProgress);
     },
     onSuccess: (result) => {
       onAnalysisComplete(result);
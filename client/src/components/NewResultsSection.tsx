@@ -21,6 +21,7 @@ import { Button } from "@/components/ui/button";
 import { useAuth } from "@/hooks/useAuth";
 import AuthModal from "./AuthModal";
 import { getScoreColor, getScoreBadgeColor, formatScorePercentage } from "@shared/utils";
+import type { ScoreBreakdown, CategoryScoreBreakdown } from "@shared/schema";
 
 interface NewResultsSectionProps {
   analysisResult: {
@@ -107,6 +108,10 @@ interface NewResultsSectionProps {
       businessModel: string;
       competitiveAdvantage: string;
     };
+
+    scoreBreakdown?: ScoreBreakdown;
+    degraded?: boolean;
+    analysisData?: any; // Present when a stored analysis row is passed in
   };
 }
 
@@ -117,6 +122,8 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
 
   console.log("NewResultsSection received data:", analysisResult);
 
+  const scoreBreakdown: ScoreBreakdown | undefined = analysisResult.scoreBreakdown || analysisResult.analysisData?.scoreBreakdown;
+
   useEffect(() => {
     console.log("Setting animated score from:", analysisResult.overallScore);
     const timer = setTimeout(() => {
@@ -156,6 +163,19 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
 
   return (
     <div className="max-w-6xl mx-auto p-6 space-y-8">
+      {/* Degraded analysis notice */}
+      {analysisResult.degraded && (
+        <div className="bg-yellow-50 border border-yellow-200 rounded-xl p-4 flex items-start">
+          <AlertTriangle className="w-5 h-5 text-yellow-600 mr-3 mt-0.5 flex-shrink-0" />
+          <div>
+            <h3 className="font-semibold text-yellow-900">Incomplete analysis</h3>
+            <p className="text-sm text-yellow-800">
+              Our AI couldn't produce a reliable score for this store, so scores are not shown. Please run the analysis again.
+            </p>
+          </div>
+        </div>
+      )}
+
       {/* Overall Score Section */}
       <div className="bg-gradient-to-r from-blue-50 to-indigo-100 rounded-2xl p-8">
         <div className="text-center mb-8">
@@ -177,7 +197,7 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
               />
             </svg>
             <div className="absolute inset-0 flex items-center justify-center">
-              <span className="text-3xl font-bold text-gray-900">{animatedScore}</span>
+              <span className="text-3xl font-bold text-gray-900">{analysisResult.degraded ? '—' : animatedScore}</span>
             </div>
           </div>
           <h2 className="text-3xl font-bold text-gray-900 mb-4">Overall Store Score</h2>
@@ -268,7 +288,7 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
                 <h4 className="font-semibold text-gray-900">Design & UX</h4>
               </div>
               <span className={`text-2xl font-bold ${getScoreColor(analysisResult.designScore, 20)}`}>
-                {analysisResult.designScore}/20
+                {analysisResult.degraded ? '—' : analysisResult.designScore}/20
               </span>
             </div>
             <div className="space-y-2 text-sm">
@@ -307,7 +327,7 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
                 <h4 className="font-semibold text-gray-900">Product Analysis</h4>
               </div>
               <span className={`text-2xl font-bold ${getScoreColor(analysisResult.productScore, 25)}`}>
-                {analysisResult.productScore}/25
+                {analysisResult.degraded ? '—' : analysisResult.productScore}/25
               </span>
             </div>
             <div className="space-y-2 text-sm">
@@ -342,7 +362,7 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
                 <h4 className="font-semibold text-gray-900">SEO & Listings</h4>
               </div>
               <span className={`text-2xl font-bold ${getScoreColor(analysisResult.seoScore, 20)}`}>
-                {analysisResult.seoScore}/20
+                {analysisResult.degraded ? '—' : analysisResult.seoScore}/20
               </span>
             </div>
             <div className="space-y-2 text-sm">
@@ -381,7 +401,7 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
                 <h4 className="font-semibold text-gray-900">Trust Signals</h4>
               </div>
               <span className={`text-2xl font-bold ${getScoreColor(analysisResult.trustScore, 15)}`}>
-                {analysisResult.trustScore}/15
+                {analysisResult.degraded ? '—' : analysisResult.trustScore}/15
               </span>
             </div>
             <div className="space-y-2 text-sm">
@@ -418,7 +438,7 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
                 <h4 className="font-semibold text-gray-900">Pricing</h4>
               </div>
               <span className={`text-2xl font-bold ${getScoreColor(analysisResult.pricingScore, 10)}`}>
-                {analysisResult.pricingScore}/10
+                {analysisResult.degraded ? '—' : analysisResult.pricingScore}/10
               </span>
             </div>
             <div className="space-y-2 text-sm">
@@ -447,7 +467,7 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
                 <h4 className="font-semibold text-gray-900">Conversion</h4>
               </div>
               <span className={`text-2xl font-bold ${getScoreColor(analysisResult.conversionScore, 10)}`}>
-                {analysisResult.conversionScore}/10
+                {analysisResult.degraded ? '—' : analysisResult.conversionScore}/10
               </span>
             </div>
             <div className="space-y-2 text-sm">
@@ -478,6 +498,40 @@ export default function NewResultsSection({ analysisResult }: NewResultsSectionP
             </div>
           </div>
         </div>
+
+        {/* Rule-based score breakdown */}
+        {scoreBreakdown && !analysisResult.degraded && (
+          <div className="mt-8 border-t pt-6">
+            <h4 className="font-semibold text-gray-900 mb-4">How These Scores Were Calculated</h4>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {(Object.entries(scoreBreakdown) as Array<[string, CategoryScoreBreakdown]>).map(([category, breakdown]) => (
+                <div key={category} className="text-sm">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="flex items-center font-medium text-gray-900 capitalize">
+                      {getCategoryIcon(category)}
+                      <span className="ml-2">{category}</span>
+                    </span>
+                    <span className="text-gray-600">{breakdown.score}/{breakdown.maxScore}</span>
+                  </div>
+                  {breakdown.source === 'ai' ? (
+                    <p className="text-gray-500">Estimated by AI (no store data available for automated checks)</p>
+                  ) : (
+                    <ul className="space-y-1">
+                      {breakdown.rules.map((rule) => (
+                        <li key={rule.id} className="flex justify-between">
+                          <span className={rule.passed ? 'text-green-600' : 'text-red-600'}>
+                            {rule.passed ? '✓' : '✗'} {rule.label}{rule.detail ? ` (${rule.detail})` : ''}
+                          </span>
+                          <span className="text-gray-500 ml-2 flex-shrink-0">{rule.points}/{rule.maxPoints}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
       </div>
 
       {/* AI Suggestions */}
@@ -0,0 +1,119 @@
+import { Link } from 'wouter';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Bell, TrendingDown, TrendingUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { apiRequest } from '@/lib/queryClient';
+
+interface Notification {
+  id: number;
+  userStoreId: number | null;
+  type: 'score_change';
+  title: string;
+  message: string;
+  data: {
+    analysisId: number;
+    changes: Array<{ category: string; delta: number }>;
+  } | null;
+  isRead: boolean;
+  createdAt: string;
+}
+
+export default function NotificationBell() {
+  const queryClient = useQueryClient();
+
+  const { data: notifications = [] } = useQuery<Notification[]>({
+    queryKey: ['/api/notifications'],
+    queryFn: async () => {
+      return await apiRequest('GET', '/api/notifications');
+    },
+    refetchInterval: 60000 // Scheduled analyses finish in the background
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: (id: number) => apiRequest('POST', `/api/notifications/${id}/read`),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  const markAllReadMutation = useMutation({
+    mutationFn: () => apiRequest('POST', '/api/notifications/read-all'),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/notifications'] });
+    },
+  });
+
+  const unreadCount = notifications.filter(notification => !notification.isRead).length;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="relative">
+          <Bell className="w-5 h-5" />
+          {unreadCount > 0 && (
+            <span className="absolute -top-1 -right-1 bg-red-500 text-white text-xs rounded-full h-5 min-w-5 px-1 flex items-center justify-center">
+              {unreadCount}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-80 p-0">
+        <div className="flex items-center justify-between px-4 py-3 border-b">
+          <span className="font-semibold text-sm">Notifications</span>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto p-0 text-xs"
+              onClick={() => markAllReadMutation.mutate()}
+              disabled={markAllReadMutation.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <div className="max-h-96 overflow-y-auto">
+          {notifications.length === 0 ? (
+            <p className="px-4 py-6 text-sm text-gray-500 text-center">No notifications yet</p>
+          ) : (
+            notifications.map(notification => {
+              const overall = notification.data?.changes.find(change => change.category === 'overall');
+              const isDrop = overall ? overall.delta < 0 : false;
+
+              return (
+                <div
+                  key={notification.id}
+                  className={`px-4 py-3 border-b last:border-b-0 ${notification.isRead ? '' : 'bg-blue-50'}`}
+                  onClick={() => !notification.isRead && markReadMutation.mutate(notification.id)}
+                >
+                  <div className="flex items-start space-x-2">
+                    {isDrop ? (
+                      <TrendingDown className="w-4 h-4 mt-0.5 text-red-500 flex-shrink-0" />
+                    ) : (
+                      <TrendingUp className="w-4 h-4 mt-0.5 text-green-500 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-sm font-medium text-gray-900">{notification.title}</p>
+                      <p className="text-xs text-gray-600 mt-1">{notification.message}</p>
+                      <div className="flex items-center justify-between mt-2">
+                        <span className="text-xs text-gray-400">
+                          {new Date(notification.createdAt).toLocaleDateString()}
+                        </span>
+                        {notification.data?.analysisId && (
+                          <Link href={`/analysis/${notification.data.analysisId}`}>
+                            <span className="text-xs text-blue-600 hover:underline cursor-pointer">View analysis</span>
+                          </Link>
+                        )}
+                      </div>
+                    </div>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -14,11 +14,20 @@ export interface User {
   createdAt: string;
 }
 
+// Set while an admin is viewing this account through the admin console
+export interface Impersonation {
+  id: number;
+  email: string;
+  expiresAt: string;
+}
+
 interface AuthContextType {
   user: User | null;
+  impersonatedBy: Impersonation | null;
   login: (email: string, password: string) => Promise<void>;
   register: (email: string, password: string, name?: string) => Promise<any>;
   logout: () => Promise<void>;
+  endImpersonation: () => Promise<void>;
   isAuthenticated: boolean;
   isLoading: boolean;
 }
@@ -27,6 +36,7 @@ const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
 export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const [user, setUser] = useState<User | null>(null);
+  const [impersonatedBy, setImpersonatedBy] = useState<Impersonation | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -37,9 +47,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     try {
       const userData = await apiRequest('GET', '/api/auth/me');
       setUser(userData.user);
+      setImpersonatedBy(userData.impersonatedBy ?? null);
     } catch (error) {
       // Not authenticated, which is fine
       setUser(null);
+      setImpersonatedBy(null);
     } finally {
       setIsLoading(false);
     }
@@ -67,14 +79,24 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       await apiRequest('POST', '/api/auth/logout', {});
     } finally {
       setUser(null);
+      setImpersonatedBy(null);
     }
   };
 
+  const endImpersonation = async () => {
+    const viewedUserId = user?.id;
+    await apiRequest('POST', '/api/admin/impersonation/end', {});
+    // Reload so no data cached for the impersonated account survives
+    window.location.href = viewedUserId ? `/admin/users/${viewedUserId}` : '/admin';
+  };
+
   const value = {
     user,
+    impersonatedBy,
     login,
     register,
     logout,
+    endImpersonation,
     isAuthenticated: !!user,
     isLoading,
   };
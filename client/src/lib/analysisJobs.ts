@@ -0,0 +1,51 @@
+import { apiRequest } from "./queryClient";
+
+export type AnalysisJobStage = 'queued' | 'fetching' | 'screenshot' | 'ai' | 'saving' | 'done';
+
+export interface AnalysisJobStatus {
+  jobId: number;
+  status: 'queued' | 'running' | 'completed' | 'failed';
+  stage: AnalysisJobStage;
+  progress: number;
+  attempts: number;
+  error: string | null;
+  analysisId: number | null;
+  competitorAnalysisId: number | null;
+  analysis?: any;
+  competitorAnalysis?: any;
+}
+
+export const ANALYSIS_STAGE_LABELS: Record<AnalysisJobStage, string> = {
+  queued: 'Waiting in queue...',
+  fetching: 'Fetching store content...',
+  screenshot: 'Capturing store screenshot...',
+  ai: 'Running AI analysis...',
+  saving: 'Saving results...',
+  done: 'Analysis complete',
+};
+
+const POLL_INTERVAL_MS = 1500;
+
+/**
+ * Polls an analysis job until it finishes and resolves with the stored analysis
+ * (the competitor analysis for competitor benchmark jobs).
+ * Throws with the job's error message if the analysis failed.
+ */
+export async function waitForAnalysisJob(
+  jobId: number,
+  onUpdate?: (job: AnalysisJobStatus) => void
+): Promise<any> {
+  while (true) {
+    const job: AnalysisJobStatus = await apiRequest('GET', `/api/analysis-jobs/${jobId}`);
+    onUpdate?.(job);
+
+    if (job.status === 'completed') {
+      return job.analysis ?? job.competitorAnalysis;
+    }
+    if (job.status === 'failed') {
+      throw new Error(job.error || 'Analysis failed. Please try again.');
+    }
+
+    await new Promise(resolve => setTimeout(resolve, POLL_INTERVAL_MS));
+  }
+}
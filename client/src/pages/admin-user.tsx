@@ -0,0 +1,362 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { ArrowLeft, Eye, Unplug, Coins } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DashboardLayout from "@/components/DashboardLayout";
+import AdminAuditLogTable from "@/components/AdminAuditLogTable";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AdminAuditLog, CreditTransaction, StoreAnalysis, User, UserStore, UserSubscription } from "@shared/schema";
+
+interface UserOverview {
+  user: Omit<User, 'passwordHash'>;
+  stores: UserStore[];
+  analyses: Omit<StoreAnalysis, 'analysisData'>[];
+  creditTransactions: CreditTransaction[];
+  subscriptions: UserSubscription[];
+  auditLog: AdminAuditLog[];
+}
+
+export default function AdminUserPage() {
+  const { userId } = useParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [reason, setReason] = useState('');
+  const [creditAction, setCreditAction] = useState<'grant' | 'revoke'>('grant');
+  const [amount, setAmount] = useState('');
+
+  const overviewKey = ['/api/admin/users', userId];
+
+  const { data: overview, isLoading } = useQuery<UserOverview>({
+    queryKey: overviewKey,
+    enabled: !!userId && !!user?.isAdmin
+  });
+
+  const onActionError = (title: string) => (error: any) => {
+    toast({
+      title,
+      description: error.message || "The action failed",
+      variant: "destructive",
+    });
+  };
+
+  const onActionDone = (title: string) => () => {
+    toast({ title });
+    setReason('');
+    queryClient.invalidateQueries({ queryKey: overviewKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/admin/audit-log'] });
+  };
+
+  const creditMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/admin/users/${userId}/credits`, {
+        action: creditAction,
+        amount: parseInt(amount),
+        reason: reason.trim()
+      });
+    },
+    onSuccess: () => {
+      setAmount('');
+      onActionDone(creditAction === 'grant' ? "Credits Granted" : "Credits Revoked")();
+    },
+    onError: onActionError("Credit Adjustment Failed")
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async (storeId: number) => {
+      return apiRequest('POST', `/api/admin/stores/${storeId}/disconnect`, { reason: reason.trim() });
+    },
+    onSuccess: onActionDone("Store Disconnected"),
+    onError: onActionError("Disconnect Failed")
+  });
+
+  const impersonateMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/admin/users/${userId}/impersonate`, { reason: reason.trim() });
+    },
+    onSuccess: () => {
+      // Full reload so the app starts over as the impersonated user
+      window.location.href = '/dashboard';
+    },
+    onError: onActionError("Impersonation Failed")
+  });
+
+  if (!user?.isAdmin) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <p className="text-muted-foreground">Admin access required</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (isLoading || !overview) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading user...</p>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const { user: account, stores, analyses, creditTransactions, subscriptions, auditLog } = overview;
+  const hasReason = reason.trim().length >= 3;
+  const isBusy = creditMutation.isPending || disconnectMutation.isPending || impersonateMutation.isPending;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 p-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href="/admin">
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Admin
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">{account.email}</h1>
+            <p className="text-muted-foreground">
+              #{account.id} {[account.firstName, account.lastName].filter(Boolean).join(' ')} · joined {new Date(account.createdAt).toLocaleDateString()}
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Account</CardTitle>
+            <CardDescription>
+              {account.aiCredits} credits · subscription {account.subscriptionStatus}
+              {account.trialEndsAt && ` · trial ends ${new Date(account.trialEndsAt).toLocaleDateString()}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div>
+              <label className="text-sm font-medium">Reason</label>
+              <Input
+                placeholder="Ticket number or a short explanation, required for every action below"
+                value={reason}
+                onChange={(event) => setReason(event.target.value)}
+              />
+            </div>
+
+            <form
+              className="flex flex-col md:flex-row gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                creditMutation.mutate();
+              }}
+            >
+              <Select value={creditAction} onValueChange={(value) => setCreditAction(value as 'grant' | 'revoke')}>
+                <SelectTrigger className="md:w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="grant">Grant</SelectItem>
+                  <SelectItem value="revoke">Revoke</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={1}
+                placeholder="Credits"
+                value={amount}
+                onChange={(event) => setAmount(event.target.value)}
+                className="md:w-36"
+              />
+              <Button type="submit" disabled={!hasReason || !(parseInt(amount) > 0) || isBusy}>
+                <Coins className="h-4 w-4 mr-2" />
+                {creditAction === 'grant' ? 'Grant Credits' : 'Revoke Credits'}
+              </Button>
+            </form>
+
+            {!account.isAdmin && (
+              <Button
+                variant="outline"
+                onClick={() => impersonateMutation.mutate()}
+                disabled={!hasReason || isBusy}
+              >
+                <Eye className="h-4 w-4 mr-2" />
+                View as this user (read-only)
+              </Button>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Stores</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {stores.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No stores</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Store</TableHead>
+                    <TableHead>Platform</TableHead>
+                    <TableHead>Connection</TableHead>
+                    <TableHead>Last analysis</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stores.map(store => (
+                    <TableRow key={store.id}>
+                      <TableCell>
+                        <p className="font-medium">{store.name}</p>
+                        <p className="text-xs text-muted-foreground">#{store.id} {store.storeUrl}</p>
+                      </TableCell>
+                      <TableCell>{store.storeType}</TableCell>
+                      <TableCell>
+                        <Badge variant={store.isConnected ? 'default' : 'secondary'}>{store.connectionStatus}</Badge>
+                      </TableCell>
+                      <TableCell>{store.lastAnalyzedAt ? new Date(store.lastAnalyzedAt).toLocaleDateString() : '—'}</TableCell>
+                      <TableCell className="text-right">
+                        {store.isConnected && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => disconnectMutation.mutate(store.id)}
+                            disabled={!hasReason || isBusy}
+                          >
+                            <Unplug className="h-4 w-4 mr-2" />
+                            Disconnect
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Analyses</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {analyses.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No analyses</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Store</TableHead>
+                    <TableHead>Score</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {analyses.map(analysis => (
+                    <TableRow key={analysis.id}>
+                      <TableCell>{new Date(analysis.createdAt).toLocaleString()}</TableCell>
+                      <TableCell>{analysis.storeUrl}</TableCell>
+                      <TableCell>{analysis.overallScore}/100</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Credit Transactions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {creditTransactions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No transactions</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Description</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {creditTransactions.map(transaction => (
+                    <TableRow key={transaction.id}>
+                      <TableCell>{new Date(transaction.createdAt).toLocaleString()}</TableCell>
+                      <TableCell><Badge variant="outline">{transaction.type}</Badge></TableCell>
+                      <TableCell className={transaction.amount < 0 ? 'text-red-600' : 'text-green-600'}>
+                        {transaction.amount > 0 ? `+${transaction.amount}` : transaction.amount}
+                      </TableCell>
+                      <TableCell>{transaction.description}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Subscriptions</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {subscriptions.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No subscriptions</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Stripe subscription</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Current period</TableHead>
+                    <TableHead>Canceled</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {subscriptions.map(subscription => (
+                    <TableRow key={subscription.id}>
+                      <TableCell className="font-mono text-xs">{subscription.stripeSubscriptionId}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{subscription.status}</Badge>
+                        {subscription.cancelAtPeriodEnd && <Badge variant="outline" className="ml-1">cancels at period end</Badge>}
+                      </TableCell>
+                      <TableCell>
+                        {new Date(subscription.currentPeriodStart).toLocaleDateString()} – {new Date(subscription.currentPeriodEnd).toLocaleDateString()}
+                      </TableCell>
+                      <TableCell>{subscription.canceledAt ? new Date(subscription.canceledAt).toLocaleDateString() : '—'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Admin Actions</CardTitle>
+            <CardDescription>Everything admins have done on this account</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AdminAuditLogTable entries={auditLog} />
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
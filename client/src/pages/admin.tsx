@@ -0,0 +1,256 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { RotateCcw, Search, Shield } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import DashboardLayout from "@/components/DashboardLayout";
+import AdminAuditLogTable from "@/components/AdminAuditLogTable";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import type { AdminAuditLog, ProcessedStripeEvent, StripeEventStatus, User } from "@shared/schema";
+
+type AdminUser = Omit<User, 'passwordHash'>;
+type StripeEventEntry = Omit<ProcessedStripeEvent, 'payload'>;
+
+const STRIPE_EVENT_BADGES: Record<StripeEventStatus, "default" | "secondary" | "destructive" | "outline"> = {
+  processing: 'outline',
+  processed: 'secondary',
+  skipped: 'outline',
+  failed: 'destructive',
+};
+
+export default function AdminPage() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [query, setQuery] = useState('');
+  const [submittedQuery, setSubmittedQuery] = useState<string | null>(null);
+  const [stripeEventFilter, setStripeEventFilter] = useState<StripeEventStatus | 'all'>('failed');
+  const [replayReason, setReplayReason] = useState('');
+
+  const { data: users = [], isFetching: isSearching } = useQuery<AdminUser[]>({
+    queryKey: ['/api/admin/users', submittedQuery],
+    queryFn: async () => {
+      return await apiRequest('GET', `/api/admin/users?q=${encodeURIComponent(submittedQuery || '')}`);
+    },
+    enabled: !!user?.isAdmin && submittedQuery !== null
+  });
+
+  const { data: auditLog = [] } = useQuery<AdminAuditLog[]>({
+    queryKey: ['/api/admin/audit-log'],
+    enabled: !!user?.isAdmin
+  });
+
+  const { data: stripeEvents = [] } = useQuery<StripeEventEntry[]>({
+    queryKey: ['/api/admin/stripe-events', stripeEventFilter],
+    queryFn: async () => {
+      const status = stripeEventFilter === 'all' ? '' : `?status=${stripeEventFilter}`;
+      return await apiRequest('GET', `/api/admin/stripe-events${status}`);
+    },
+    enabled: !!user?.isAdmin
+  });
+
+  const replayMutation = useMutation({
+    mutationFn: async (eventId: string): Promise<StripeEventEntry> => {
+      return await apiRequest('POST', `/api/admin/stripe-events/${eventId}/replay`, { reason: replayReason.trim() });
+    },
+    onSuccess: (event) => {
+      toast({
+        title: event.status === 'failed' ? "Replay Failed Again" : "Event Replayed",
+        description: event.detail || `${event.type} is now ${event.status}`,
+        variant: event.status === 'failed' ? "destructive" : "default",
+      });
+      setReplayReason('');
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/stripe-events'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/admin/audit-log'] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Replay Failed",
+        description: error.message || "The event could not be replayed",
+        variant: "destructive",
+      });
+    }
+  });
+
+  if (!user?.isAdmin) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <p className="text-muted-foreground">Admin access required</p>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6 p-6">
+        {/* Header */}
+        <div>
+          <h1 className="text-2xl font-bold tracking-tight flex items-center">
+            <Shield className="h-6 w-6 mr-2 text-blue-600" />
+            Admin
+          </h1>
+          <p className="text-muted-foreground">
+            Look up accounts, adjust credits and help users. Every action here is recorded in the audit log.
+          </p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Users</CardTitle>
+            <CardDescription>Search by email, name or user id</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex gap-2"
+              onSubmit={(event) => {
+                event.preventDefault();
+                setSubmittedQuery(query.trim());
+              }}
+            >
+              <Input
+                placeholder="jane@example.com"
+                value={query}
+                onChange={(event) => setQuery(event.target.value)}
+              />
+              <Button type="submit" disabled={isSearching}>
+                <Search className="h-4 w-4 mr-2" />
+                Search
+              </Button>
+            </form>
+
+            {submittedQuery !== null && !isSearching && users.length === 0 && (
+              <p className="text-sm text-muted-foreground">No users match "{submittedQuery}"</p>
+            )}
+
+            {users.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>User</TableHead>
+                    <TableHead>Credits</TableHead>
+                    <TableHead>Subscription</TableHead>
+                    <TableHead>Joined</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map(result => (
+                    <TableRow key={result.id}>
+                      <TableCell>
+                        <Link href={`/admin/users/${result.id}`} className="font-medium text-blue-600 hover:underline">
+                          {result.email}
+                        </Link>
+                        <p className="text-xs text-muted-foreground">
+                          #{result.id} {[result.firstName, result.lastName].filter(Boolean).join(' ')}
+                        </p>
+                      </TableCell>
+                      <TableCell>{result.aiCredits}</TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{result.subscriptionStatus}</Badge>
+                        {result.isAdmin && <Badge className="ml-1">admin</Badge>}
+                      </TableCell>
+                      <TableCell>{new Date(result.createdAt).toLocaleDateString()}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Stripe Webhooks</CardTitle>
+            <CardDescription>
+              Every Stripe event is handled once. Failed events can be replayed from the copy kept when they arrived.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="flex gap-2">
+              <Select value={stripeEventFilter} onValueChange={(value) => setStripeEventFilter(value as StripeEventStatus | 'all')}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="failed">Failed</SelectItem>
+                  <SelectItem value="skipped">Skipped</SelectItem>
+                  <SelectItem value="processing">Processing</SelectItem>
+                  <SelectItem value="processed">Processed</SelectItem>
+                  <SelectItem value="all">All</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                placeholder="Reason for replaying, e.g. fixed the plan lookup"
+                value={replayReason}
+                onChange={(event) => setReplayReason(event.target.value)}
+              />
+            </div>
+
+            {stripeEvents.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No events</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Sent</TableHead>
+                    <TableHead>Event</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Attempts</TableHead>
+                    <TableHead>Detail</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {stripeEvents.map(event => (
+                    <TableRow key={event.id}>
+                      <TableCell className="whitespace-nowrap">{new Date(event.eventCreatedAt).toLocaleString()}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{event.type}</p>
+                        <p className="text-xs text-muted-foreground">{event.id}</p>
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={STRIPE_EVENT_BADGES[event.status]}>{event.status}</Badge>
+                      </TableCell>
+                      <TableCell>{event.attempts}</TableCell>
+                      <TableCell className="text-xs text-muted-foreground max-w-md">{event.detail}</TableCell>
+                      <TableCell>
+                        {event.status === 'failed' && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={replayReason.trim().length < 3 || replayMutation.isPending}
+                            onClick={() => replayMutation.mutate(event.id)}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Replay
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Audit Log</CardTitle>
+            <CardDescription>Recent actions taken by admins</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <AdminAuditLogTable entries={auditLog} />
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,10 +1,14 @@
 import { useState, useEffect } from 'react';
 import { useParams, useLocation } from 'wouter';
 import { useMutation, useQuery } from '@tanstack/react-query';
-import { ArrowLeft, Zap, AlertCircle, CheckCircle, Clock, ShoppingBag, DollarSign, Tag, FileText, ExternalLink } from 'lucide-react';
+import { ArrowLeft, Zap, AlertCircle, CheckCircle, Clock, ShoppingBag, DollarSign, Tag, FileText, ExternalLink, RotateCcw } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Progress } from '@/components/ui/progress';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
@@ -43,6 +47,28 @@ interface Store {
   aiRecommendationsCount: number;
 }
 
+interface BulkJobItem {
+  id: number;
+  shopifyProductId: string;
+  productTitle: string | null;
+  status: 'pending' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+  optimizedValue: string | null;
+  error: string | null;
+}
+
+interface BulkJob {
+  id: number;
+  optimizationType: string;
+  status: 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+  totalItems: number;
+  succeededItems: number;
+  failedItems: number;
+  creditsUsed: number;
+  cancelRequestedAt: string | null;
+  error: string | null;
+  items: BulkJobItem[];
+}
+
 export default function AIRecommendations() {
   const { storeId } = useParams<{ storeId: string }>();
   const [, setLocation] = useLocation();
@@ -53,9 +79,12 @@ export default function AIRecommendations() {
   const [bulkType, setBulkType] = useState<string>('');
   const [expandedRecommendation, setExpandedRecommendation] = useState<string | null>(null);
   const [filter, setFilter] = useState<'all' | 'to-optimize' | 'optimized'>('all');
+  const [revertSince, setRevertSince] = useState('');
+  const [bulkJobId, setBulkJobId] = useState<number | null>(null);
   
   // State for AI suggestion previews
   const [previewingSuggestion, setPreviewingSuggestion] = useState<{
+    draftId: number;
     productId: string;
     type: string;
     suggestion: string;
@@ -183,6 +212,7 @@ export default function AIRecommendations() {
     },
     onSuccess: (data: any) => {
       setPreviewingSuggestion({
+        draftId: data.draftId,
         productId: data.product.id,
         type: data.product.type,
         suggestion: data.suggestion,
@@ -201,16 +231,14 @@ export default function AIRecommendations() {
 
   // Apply single recommendation
   const applyRecommendationMutation = useMutation({
-    mutationFn: async ({ productId, recommendationType, suggestion }: { 
-      productId: string; 
-      recommendationType: string; 
-      suggestion: string; 
+    mutationFn: async ({ draftId, content }: { 
+      draftId: number; 
+      content: string; 
     }) => {
+      // The draft is applied exactly as previewed, including any edits made in the modal
       return await apiRequest('POST', `/api/shopify/apply-recommendation`, {
-        storeId,
-        productId,
-        recommendationType,
-        suggestion,
+        draftId,
+        content,
       });
     },
     onSuccess: () => {
@@ -259,16 +287,13 @@ export default function AIRecommendations() {
         productIds,
       });
     },
-    onSuccess: (data: { appliedCount: number; creditsUsed: number }) => {
-      queryClient.invalidateQueries({ queryKey: ['/api/shopify/products', storeId] });
-      queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/ai-recommendations', storeId] });
-      queryClient.invalidateQueries({ queryKey: ['/api/shopify/optimized-products', storeId] });
+    onSuccess: (job: BulkJob) => {
       setShowBulkModal(false);
       setSelectedProducts([]);
+      setBulkJobId(job.id);
       toast({
-        title: "Bulk Update Complete",
-        description: `Updated ${data.appliedCount} products using ${data.creditsUsed} credits`,
+        title: "Bulk Update Started",
+        description: `Optimizing ${job.totalItems} products in the background`,
       });
     },
     onError: (error: any) => {
@@ -281,6 +306,108 @@ export default function AIRecommendations() {
     },
   });
 
+  // Poll the running bulk job until it finishes
+  const { data: bulkJob } = useQuery<BulkJob>({
+    queryKey: ['/api/bulk-optimization-jobs', bulkJobId],
+    queryFn: async () => await apiRequest('GET', `/api/bulk-optimization-jobs/${bulkJobId}`),
+    enabled: !!bulkJobId,
+    refetchInterval: (query) => {
+      const status = query.state.data?.status;
+      return status === 'queued' || status === 'running' ? 2000 : false;
+    },
+  });
+  const bulkJobActive = bulkJob?.status === 'queued' || bulkJob?.status === 'running';
+
+  useEffect(() => {
+    if (!bulkJob || bulkJobActive) return;
+
+    queryClient.invalidateQueries({ queryKey: ['/api/shopify/products', storeId] });
+    queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/ai-recommendations', storeId] });
+    queryClient.invalidateQueries({ queryKey: ['/api/shopify/optimized-products', storeId] });
+    toast({
+      title: bulkJob.status === 'completed' ? "Bulk Update Complete" : `Bulk Update ${bulkJob.status === 'cancelled' ? 'Cancelled' : 'Failed'}`,
+      description: bulkJob.error && bulkJob.status === 'failed'
+        ? bulkJob.error
+        : `Updated ${bulkJob.succeededItems} products using ${bulkJob.creditsUsed} credits` +
+          (bulkJob.failedItems > 0 ? `, ${bulkJob.failedItems} failed` : ''),
+      variant: bulkJob.status === 'failed' ? "destructive" : undefined,
+    });
+  }, [bulkJob?.id, bulkJobActive]);
+
+  const cancelBulkMutation = useMutation({
+    mutationFn: async (jobId: number) => {
+      return await apiRequest('POST', `/api/bulk-optimization-jobs/${jobId}/cancel`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/bulk-optimization-jobs', bulkJobId] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Cancel Failed",
+        description: error.message || "Failed to cancel bulk update",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const invalidateOptimizationQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/shopify/products', storeId] });
+    queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/shopify/optimized-products', storeId] });
+  };
+
+  // Undo a single applied optimization
+  const revertOptimizationMutation = useMutation({
+    mutationFn: async (optimizationId: number) => {
+      return await apiRequest('POST', `/api/optimizations/${optimizationId}/revert`, { refundCredit: true });
+    },
+    onSuccess: (data: { creditsRefunded: number }) => {
+      invalidateOptimizationQueries();
+      toast({
+        title: "Change Reverted",
+        description: data.creditsRefunded > 0
+          ? `The original value is back and ${data.creditsRefunded} credit was refunded`
+          : "The original value has been restored in Shopify",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revert Failed",
+        description: error.message || "Failed to revert optimization",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Undo every optimization applied since a date
+  const revertSinceMutation = useMutation({
+    mutationFn: async (since: string) => {
+      return await apiRequest('POST', `/api/stores/${storeId}/optimizations/revert`, {
+        since: new Date(since).toISOString(),
+        refundCredit: true,
+      });
+    },
+    onSuccess: (data: { revertedCount: number; creditsRefunded: number; failed: Array<{ optimizationId: number; error: string }> }) => {
+      invalidateOptimizationQueries();
+      setRevertSince('');
+      toast({
+        title: "Changes Reverted",
+        description: `Reverted ${data.revertedCount} changes` +
+          (data.creditsRefunded > 0 ? `, refunded ${data.creditsRefunded} credits` : '') +
+          (data.failed.length > 0 ? `. ${data.failed.length} could not be reverted.` : ''),
+        variant: data.failed.length > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Revert Failed",
+        description: error.message || "Failed to revert optimizations",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleBulkApply = (type: string) => {
     const relevantProducts = productOptimizations[type as keyof typeof productOptimizations]?.map(p => p.id) || [];
     
@@ -330,6 +457,11 @@ export default function AIRecommendations() {
     return optimizedProducts[productId] && optimizedProducts[productId][type];
   };
 
+  // Live optimization record for a product field, used to undo it
+  const getOptimizationId = (productId: string, type: string): number | undefined => {
+    return optimizedProducts[productId]?.[type]?.id;
+  };
+
   // Create product-based optimization opportunities for each tab, excluding already optimized products
   const productOptimizations = {
     title: products.filter(p => 
@@ -396,7 +528,6 @@ export default function AIRecommendations() {
   );
   
   const isShopifyConnected = (store.isConnected || 
-                             store.shopifyAccessToken || 
                              store.connectionStatus === 'connected' ||
                              recommendations.length > 0 || 
                              store.aiRecommendationsCount > 0) && !hasConnectionError;
@@ -537,7 +668,7 @@ export default function AIRecommendations() {
                   size="sm"
                   className="w-full"
                   onClick={() => handleBulkApply(type)}
-                  disabled={applyBulkMutation.isPending || products.length === 0}
+                  disabled={applyBulkMutation.isPending || bulkJobActive || products.length === 0}
                 >
                   {products.length > 0 ? `Optimize All (${products.length} credits)` : 'All Optimized'}
                 </Button>
@@ -546,6 +677,107 @@ export default function AIRecommendations() {
           ))}
         </div>
 
+        {/* Bulk update progress and per-product results */}
+        {bulkJob && (
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-lg capitalize">Bulk {bulkJob.optimizationType} update</CardTitle>
+                  <CardDescription>
+                    {bulkJob.succeededItems + bulkJob.failedItems} of {bulkJob.totalItems} processed
+                    {' • '}{bulkJob.succeededItems} updated
+                    {bulkJob.failedItems > 0 && ` • ${bulkJob.failedItems} failed`}
+                    {' • '}{bulkJob.creditsUsed} credits used
+                  </CardDescription>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Badge variant={bulkJob.status === 'failed' ? 'destructive' : 'secondary'} className="capitalize">
+                    {bulkJob.cancelRequestedAt && bulkJobActive ? 'cancelling' : bulkJob.status}
+                  </Badge>
+                  {bulkJobActive ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => cancelBulkMutation.mutate(bulkJob.id)}
+                      disabled={cancelBulkMutation.isPending || !!bulkJob.cancelRequestedAt}
+                    >
+                      Cancel
+                    </Button>
+                  ) : (
+                    <Button variant="ghost" size="sm" onClick={() => setBulkJobId(null)}>
+                      Dismiss
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <Progress value={((bulkJob.succeededItems + bulkJob.failedItems) / bulkJob.totalItems) * 100} />
+              <div className="max-h-72 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Result</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {bulkJob.items.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell className="font-medium">
+                          {item.productTitle || products.find((p: any) => String(p.id) === item.shopifyProductId)?.title || item.shopifyProductId}
+                        </TableCell>
+                        <TableCell>
+                          <Badge
+                            variant={item.status === 'failed' ? 'destructive' : item.status === 'succeeded' ? 'default' : 'outline'}
+                            className="capitalize"
+                          >
+                            {item.status}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground max-w-md truncate">
+                          {item.status === 'failed' ? item.error : item.optimizedValue?.replace(/<[^>]*>/g, '') || ''}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Undo recent changes */}
+        <Card>
+          <CardContent className="p-4 flex flex-col md:flex-row md:items-center md:justify-between gap-3">
+            <div>
+              <p className="font-medium text-sm">Undo recent changes</p>
+              <p className="text-xs text-muted-foreground">
+                Restore the original values of every product optimization applied since a date
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Input
+                type="date"
+                value={revertSince}
+                onChange={(e) => setRevertSince(e.target.value)}
+                className="w-40"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => revertSinceMutation.mutate(revertSince)}
+                disabled={!revertSince || revertSinceMutation.isPending}
+              >
+                <RotateCcw className="h-3 w-3 mr-1" />
+                {revertSinceMutation.isPending ? 'Reverting...' : 'Revert All Since'}
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+
         {/* Detailed Recommendations */}
         <Tabs defaultValue="all" className="w-full">
           <TabsList className="grid w-full grid-cols-5">
@@ -651,7 +883,7 @@ export default function AIRecommendations() {
                     </div>
                     <Button
                       onClick={() => handleBulkApply(type)}
-                      disabled={applyBulkMutation.isPending || toOptimizeProducts.length === 0}
+                      disabled={applyBulkMutation.isPending || bulkJobActive || toOptimizeProducts.length === 0}
                       variant="outline"
                     >
                       Optimize All ({toOptimizeProducts.length} credits)
@@ -747,6 +979,17 @@ export default function AIRecommendations() {
                                 
                                 {/* Action Buttons */}
                                 <div className="ml-4 flex-shrink-0 space-x-2">
+                                  {getOptimizationId(product.id, type) && (
+                                    <Button
+                                      size="sm"
+                                      variant="ghost"
+                                      onClick={() => revertOptimizationMutation.mutate(getOptimizationId(product.id, type)!)}
+                                      disabled={revertOptimizationMutation.isPending}
+                                    >
+                                      <RotateCcw className="h-3 w-3 mr-1" />
+                                      Undo
+                                    </Button>
+                                  )}
                                   <Button
                                     size="sm"
                                     variant="outline"
@@ -839,13 +1082,16 @@ export default function AIRecommendations() {
                      previewingSuggestion.type === 'pricing' ? 'NEW PRICING GENERATED WITH AI' :
                      'NEW OPTIMIZATION GENERATED WITH AI'}
                   </h5>
-                  <div className="p-3 bg-green-50 border border-green-200 rounded-md">
-                    <div className="max-h-48 overflow-y-auto">
-                      <p className="text-sm font-medium break-words whitespace-pre-wrap">
-                        {previewingSuggestion.suggestion}
-                      </p>
-                    </div>
-                  </div>
+                  <Textarea
+                    value={previewingSuggestion.suggestion}
+                    onChange={(e) => setPreviewingSuggestion({ ...previewingSuggestion, suggestion: e.target.value })}
+                    disabled={applyRecommendationMutation.isPending}
+                    rows={previewingSuggestion.type === 'description' ? 8 : 3}
+                    className="text-sm font-medium bg-green-50 border-green-200"
+                  />
+                  <p className="text-xs text-muted-foreground mt-1">
+                    You can edit this before applying. Exactly this text will be published.
+                  </p>
                 </div>
               </div>
 
@@ -871,12 +1117,11 @@ export default function AIRecommendations() {
                 <Button 
                   onClick={() => 
                     applyRecommendationMutation.mutate({
-                      productId: previewingSuggestion.productId,
-                      recommendationType: previewingSuggestion.type,
-                      suggestion: previewingSuggestion.suggestion,
+                      draftId: previewingSuggestion.draftId,
+                      content: previewingSuggestion.suggestion,
                     })
                   }
-                  disabled={applyRecommendationMutation.isPending}
+                  disabled={applyRecommendationMutation.isPending || !previewingSuggestion.suggestion.trim()}
                 >
                   {applyRecommendationMutation.isPending ? (
                     <>
@@ -0,0 +1,334 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useParams, Link } from "wouter";
+import { ArrowLeft, Plus, Trash2, RefreshCw, Target, CheckCircle, XCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import DashboardLayout from "@/components/DashboardLayout";
+import { useAuth } from "@/hooks/useAuth";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { waitForAnalysisJob } from "@/lib/analysisJobs";
+import { COMPETITOR_BENCHMARKS } from "@shared/constants";
+import type { BenchmarkProfile, CompetitorComparison, PriceRangeSummary, ScoreCategory } from "@shared/schema";
+
+const CATEGORY_ROWS: Array<{ category: ScoreCategory; label: string; max: number }> = [
+  { category: 'design', label: 'Design', max: 20 },
+  { category: 'product', label: 'Product', max: 25 },
+  { category: 'seo', label: 'SEO', max: 20 },
+  { category: 'trust', label: 'Trust', max: 15 },
+  { category: 'pricing', label: 'Pricing', max: 10 },
+  { category: 'conversion', label: 'Conversion', max: 10 },
+];
+
+const formatPriceRange = (range: PriceRangeSummary | null) =>
+  range ? `${range.min.toFixed(2)} – ${range.max.toFixed(2)} (median ${range.median.toFixed(2)})` : '—';
+
+const formatScore = (profile: BenchmarkProfile | null, category?: ScoreCategory) => {
+  if (!profile || profile.overallScore === null) return '—';
+  return category ? profile.categoryScores?.[category] ?? '—' : profile.overallScore;
+};
+
+export default function CompetitorBenchmarksPage() {
+  const { storeId } = useParams();
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [storeUrl, setStoreUrl] = useState('');
+  const [name, setName] = useState('');
+  const [analyzingId, setAnalyzingId] = useState<number | null>(null);
+
+  const comparisonKey = ['/api/stores', storeId, 'competitor-comparison'];
+
+  const { data: comparison, isLoading } = useQuery<CompetitorComparison>({
+    queryKey: comparisonKey,
+    enabled: !!storeId && !!user
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async () => {
+      return apiRequest('POST', `/api/stores/${storeId}/competitors`, {
+        storeUrl: storeUrl.trim(),
+        name: name.trim() || undefined
+      });
+    },
+    onSuccess: () => {
+      setStoreUrl('');
+      setName('');
+      queryClient.invalidateQueries({ queryKey: comparisonKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Couldn't Add Competitor",
+        description: error.message || "Failed to add the competitor",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const removeMutation = useMutation({
+    mutationFn: async (competitorId: number) => {
+      return apiRequest('DELETE', `/api/competitors/${competitorId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: comparisonKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Remove",
+        description: error.message || "Failed to remove the competitor",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const analyzeMutation = useMutation({
+    mutationFn: async (competitorId: number) => {
+      setAnalyzingId(competitorId);
+      const job = await apiRequest('POST', `/api/competitors/${competitorId}/analyze`);
+      return await waitForAnalysisJob(job.jobId);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Competitor Analyzed",
+        description: "The comparison has been updated with the new analysis",
+      });
+      queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
+      queryClient.invalidateQueries({ queryKey: comparisonKey });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Analysis Failed",
+        description: error.message || "Failed to analyze the competitor",
+        variant: "destructive",
+      });
+    },
+    onSettled: () => setAnalyzingId(null)
+  });
+
+  if (isLoading || !comparison) {
+    return (
+      <DashboardLayout>
+        <div className="flex items-center justify-center min-h-[400px]">
+          <div className="text-center">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600 mx-auto mb-4"></div>
+            <p className="text-muted-foreground">Loading competitor benchmarks...</p>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const { store, competitors, suggestions } = comparison;
+  const canAddMore = competitors.length < COMPETITOR_BENCHMARKS.MAX_PER_STORE;
+  const trustSignals = Array.from(new Map(
+    [store, ...competitors.map(entry => entry.profile)]
+      .flatMap(profile => profile?.trustSignals || [])
+      .map(signal => [signal.id, signal.label] as const)
+  ));
+
+  const signalCell = (profile: BenchmarkProfile | null, id: string) => {
+    const signal = profile?.trustSignals.find(item => item.id === id);
+    if (!signal) return <span className="text-muted-foreground">—</span>;
+    return signal.passed
+      ? <CheckCircle className="h-4 w-4 text-green-600" />
+      : <XCircle className="h-4 w-4 text-red-500" />;
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex items-center space-x-4">
+          <Link href={`/dashboard/stores/${storeId}/recommendations`}>
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back to Recommendations
+            </Button>
+          </Link>
+          <div>
+            <h1 className="text-2xl font-bold tracking-tight">Competitor Benchmarks</h1>
+            <p className="text-muted-foreground">
+              Compare your store with up to {COMPETITOR_BENCHMARKS.MAX_PER_STORE} competitor storefronts
+            </p>
+          </div>
+        </div>
+
+        {/* Competitors */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Competitors</CardTitle>
+            <CardDescription>
+              Each analysis uses {COMPETITOR_BENCHMARKS.CREDIT_COST} credit and runs the same storefront checks as your own store
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {competitors.map(({ competitor, profile }) => (
+              <div key={competitor.id} className="flex items-center justify-between p-3 border rounded-lg">
+                <div>
+                  <p className="font-medium">{competitor.name}</p>
+                  <p className="text-sm text-muted-foreground">{competitor.storeUrl}</p>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {profile?.analyzedAt ? `Analyzed ${new Date(profile.analyzedAt).toLocaleDateString()}` : 'Not analyzed yet'}
+                  </p>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <Button
+                    size="sm"
+                    onClick={() => analyzeMutation.mutate(competitor.id)}
+                    disabled={analyzeMutation.isPending}
+                  >
+                    <RefreshCw className={`h-4 w-4 mr-2 ${analyzingId === competitor.id ? 'animate-spin' : ''}`} />
+                    {analyzingId === competitor.id ? 'Analyzing...' : profile ? 'Re-analyze' : 'Analyze'}
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => removeMutation.mutate(competitor.id)}
+                    disabled={removeMutation.isPending || analyzingId === competitor.id}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+
+            {canAddMore && (
+              <form
+                className="flex flex-col md:flex-row gap-2"
+                onSubmit={(event) => {
+                  event.preventDefault();
+                  addMutation.mutate();
+                }}
+              >
+                <Input
+                  placeholder="https://competitor-store.com"
+                  value={storeUrl}
+                  onChange={(event) => setStoreUrl(event.target.value)}
+                />
+                <Input
+                  placeholder="Name (optional)"
+                  value={name}
+                  onChange={(event) => setName(event.target.value)}
+                  className="md:w-48"
+                />
+                <Button type="submit" disabled={!storeUrl.trim() || addMutation.isPending}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Competitor
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+
+        {competitors.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Comparison</CardTitle>
+              <CardDescription>
+                {store.analysisId ? 'Based on the latest analysis of each store' : 'Analyze your store to compare scores'}
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead></TableHead>
+                    <TableHead>Your Store</TableHead>
+                    {competitors.map(({ competitor }) => (
+                      <TableHead key={competitor.id}>{competitor.name}</TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  <TableRow>
+                    <TableCell className="font-medium">Overall</TableCell>
+                    <TableCell>{formatScore(store)}</TableCell>
+                    {competitors.map(({ competitor, profile }) => (
+                      <TableCell key={competitor.id}>{formatScore(profile)}</TableCell>
+                    ))}
+                  </TableRow>
+                  {CATEGORY_ROWS.map(({ category, label, max }) => (
+                    <TableRow key={category}>
+                      <TableCell className="font-medium">{label} <span className="text-muted-foreground">/{max}</span></TableCell>
+                      <TableCell>{formatScore(store, category)}</TableCell>
+                      {competitors.map(({ competitor, profile }) => (
+                        <TableCell key={competitor.id}>{formatScore(profile, category)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-medium">Price range</TableCell>
+                    <TableCell>{formatPriceRange(store.priceRange)}</TableCell>
+                    {competitors.map(({ competitor, profile }) => (
+                      <TableCell key={competitor.id}>{formatPriceRange(profile?.priceRange ?? null)}</TableCell>
+                    ))}
+                  </TableRow>
+                  {trustSignals.map(([id, label]) => (
+                    <TableRow key={id}>
+                      <TableCell className="font-medium">{label}</TableCell>
+                      <TableCell>{signalCell(store, id)}</TableCell>
+                      {competitors.map(({ competitor, profile }) => (
+                        <TableCell key={competitor.id}>{signalCell(profile, id)}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell className="font-medium">Main categories</TableCell>
+                    <TableCell>{store.mainCategories.join(', ') || '—'}</TableCell>
+                    {competitors.map(({ competitor, profile, sharedCategories }) => (
+                      <TableCell key={competitor.id}>
+                        <div className="flex flex-wrap gap-1">
+                          {(profile?.mainCategories || []).map(category => (
+                            <Badge key={category} variant={sharedCategories.includes(category) ? 'default' : 'secondary'}>
+                              {category}
+                            </Badge>
+                          ))}
+                        </div>
+                      </TableCell>
+                    ))}
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
+        {suggestions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <Target className="h-5 w-5 mr-2 text-blue-600" />
+                Where Competitors Are Ahead
+              </CardTitle>
+              <CardDescription>
+                Suggestions drawn from the differences above
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {suggestions.map((suggestion, index) => (
+                  <div key={index} className="p-3 bg-muted/50 rounded-lg">
+                    <div className="flex items-center justify-between">
+                      <h4 className="font-medium text-sm">{suggestion.title}</h4>
+                      <Badge variant={suggestion.priority === 'high' || suggestion.priority === 'critical' ? 'destructive' : 'secondary'}>
+                        {suggestion.priority}
+                      </Badge>
+                    </div>
+                    <p className="text-sm text-muted-foreground mt-1">{suggestion.description}</p>
+                    <div className="flex items-center justify-between mt-2">
+                      <Badge variant="outline" className="text-xs">{suggestion.category}</Badge>
+                      <span className="text-xs text-muted-foreground">{suggestion.impact}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams } from "wouter";
-import { ArrowLeft, TrendingUp, Eye, Zap, ShoppingCart, Target, MousePointer } from "lucide-react";
+import { ArrowLeft, TrendingUp, Eye, Zap, ShoppingCart, Target, MousePointer, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -11,6 +11,38 @@ import DashboardLayout from "@/components/DashboardLayout";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+type ConversionActionType = 'compare_at_badge' | 'free_shipping_bar' | 'low_stock_urgency' | 'sticky_add_to_cart';
+
+// The catalog action a suggestion maps to; 'manual' ones can't be applied automatically
+type SuggestionAction =
+  | { type: ConversionActionType; settings?: { threshold?: number } }
+  | { type: 'manual' };
+
+interface ConversionAction {
+  id: number;
+  suggestionId: string;
+  actionType: ConversionActionType;
+  settings: { threshold?: number };
+  status: 'applied' | 'replaced' | 'reverted';
+  appliedAt: string;
+}
+
+const ACTION_LABELS: Record<ConversionActionType, string> = {
+  compare_at_badge: 'Compare-at price badges',
+  free_shipping_bar: 'Free shipping threshold banner',
+  low_stock_urgency: 'Low-stock urgency message',
+  sticky_add_to_cart: 'Sticky add-to-cart bar',
+};
+
+const describeAction = (action: { type: ConversionActionType; settings?: { threshold?: number } }) => {
+  switch (action.type) {
+    case 'free_shipping_bar': return `${ACTION_LABELS[action.type]} (free shipping from ${action.settings?.threshold})`;
+    case 'low_stock_urgency': return `${ACTION_LABELS[action.type]} (at ${action.settings?.threshold ?? 5} units or fewer)`;
+    default: return ACTION_LABELS[action.type];
+  }
+};
 
 interface ConversionSuggestion {
   id: string;
@@ -23,6 +55,7 @@ interface ConversionSuggestion {
     current: string;
     recommended: string;
     implementation: string;
+    action?: SuggestionAction;
   };
 }
 
@@ -35,6 +68,7 @@ export default function ConversionRecommendationsPage() {
   const params = useParams();
   const storeId = params.storeId;
   const { user } = useAuth();
+  const { toast } = useToast();
   const [previewingSuggestion, setPreviewingSuggestion] = useState<ConversionSuggestion | null>(null);
 
   const { data: recommendations, isLoading } = useQuery<ConversionRecommendations>({
@@ -47,20 +81,62 @@ export default function ConversionRecommendationsPage() {
     enabled: !!user
   });
 
+  // Actions installed in the store's theme
+  const { data: conversionActions = [] } = useQuery<ConversionAction[]>({
+    queryKey: ['/api/stores', storeId, 'conversion-actions'],
+    enabled: !!storeId && !!user
+  });
+  const liveActions = conversionActions.filter(action => action.status === 'applied');
+
   const applyMutation = useMutation({
-    mutationFn: async (data: { suggestionId: string; changes: any }) => {
+    mutationFn: async (data: { suggestionId: string; action: SuggestionAction }) => {
       return apiRequest('POST', `/api/apply-conversion-recommendation`, {
         storeId: parseInt(storeId!),
         suggestionId: data.suggestionId,
-        changes: data.changes
+        action: data.action
       });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
       queryClient.invalidateQueries({ queryKey: [`/api/conversion-recommendations/${storeId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stores', storeId, 'conversion-actions'] });
+      toast({
+        title: "Optimization Live",
+        description: "The change was added to your live theme. You can revert it at any time.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Apply Optimization",
+        description: error.message || "Failed to update your store theme",
+        variant: "destructive",
+      });
+    }
+  });
+
+  const revertMutation = useMutation({
+    mutationFn: async (actionId: number) => {
+      return apiRequest('POST', `/api/conversion-actions/${actionId}/revert`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores', storeId, 'conversion-actions'] });
+      toast({
+        title: "Optimization Removed",
+        description: "The change was removed from your theme",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Revert",
+        description: error.message || "Failed to remove the change from your theme",
+        variant: "destructive",
+      });
     }
   });
 
+  const isAutomatic = (suggestion: ConversionSuggestion) =>
+    !!suggestion.suggestions.action && suggestion.suggestions.action.type !== 'manual';
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'critical': return 'text-red-600 bg-red-50 border-red-200';
@@ -160,6 +236,35 @@ export default function ConversionRecommendationsPage() {
           </CardContent>
         </Card>
 
+        {/* Live Optimizations */}
+        {liveActions.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Live in Your Theme</CardTitle>
+              <CardDescription>Conversion optimizations currently installed. Reverting removes them from the theme.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {liveActions.map((action) => (
+                <div key={action.id} className="flex items-center justify-between p-2 border rounded-lg">
+                  <div>
+                    <p className="text-sm font-medium">{describeAction({ type: action.actionType, settings: action.settings })}</p>
+                    <p className="text-xs text-muted-foreground">Applied {new Date(action.appliedAt).toLocaleString()}</p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => revertMutation.mutate(action.id)}
+                    disabled={revertMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Revert
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Conversion Recommendations */}
         {recommendations?.suggestions && recommendations.suggestions.length > 0 ? (
           <div className="space-y-4">
@@ -202,7 +307,9 @@ export default function ConversionRecommendationsPage() {
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
                       <span className="text-sm text-muted-foreground">
-                        Preview conversion improvements before applying
+                        {suggestion.suggestions.action && suggestion.suggestions.action.type !== 'manual'
+                          ? `Adds: ${describeAction(suggestion.suggestions.action)}`
+                          : 'Manual change, no credit charged'}
                       </span>
                     </div>
                     
@@ -219,20 +326,22 @@ export default function ConversionRecommendationsPage() {
                         size="sm"
                         onClick={() => applyMutation.mutate({
                           suggestionId: suggestion.id,
-                          changes: suggestion.suggestions
+                          action: suggestion.suggestions.action!
                         })}
-                        disabled={applyMutation.isPending || (userCredits?.credits || 0) < 1}
+                        disabled={applyMutation.isPending || !isAutomatic(suggestion) || (userCredits?.credits || 0) < 1}
                       >
                         {applyMutation.isPending ? (
                           <>
                             <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-2"></div>
                             Applying...
                           </>
-                        ) : (
+                        ) : isAutomatic(suggestion) ? (
                           <>
                             <Zap className="h-4 w-4 mr-2" />
                             Apply (1 credit)
                           </>
+                        ) : (
+                          'Manual'
                         )}
                       </Button>
                     </div>
@@ -370,6 +479,16 @@ export default function ConversionRecommendationsPage() {
                   </div>
                 </div>
 
+                {/* Store change */}
+                <div className="p-3 border rounded-lg">
+                  <h5 className="font-medium text-sm mb-1">Store Change:</h5>
+                  <p className="text-sm text-gray-700">
+                    {previewingSuggestion.suggestions.action && previewingSuggestion.suggestions.action.type !== 'manual'
+                      ? `${describeAction(previewingSuggestion.suggestions.action)} is added to your live theme and can be reverted at any time.`
+                      : 'This suggestion has to be made manually, following the guide below. No credit is charged.'}
+                  </p>
+                </div>
+
                 {/* Implementation Details */}
                 <div className="p-3 bg-gray-50 rounded-lg">
                   <h5 className="font-medium text-sm mb-2">Implementation Guide:</h5>
@@ -396,22 +515,24 @@ export default function ConversionRecommendationsPage() {
                     onClick={() => {
                       applyMutation.mutate({
                         suggestionId: previewingSuggestion.id,
-                        changes: previewingSuggestion.suggestions
+                        action: previewingSuggestion.suggestions.action!
                       });
                       setPreviewingSuggestion(null);
                     }}
-                    disabled={applyMutation.isPending || (userCredits?.credits || 0) < 1}
+                    disabled={applyMutation.isPending || !isAutomatic(previewingSuggestion) || (userCredits?.credits || 0) < 1}
                   >
                     {applyMutation.isPending ? (
                       <>
                         <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-2"></div>
                         Applying...
                       </>
-                    ) : (
+                    ) : isAutomatic(previewingSuggestion) ? (
                       <>
                         <Zap className="h-4 w-4 mr-2" />
                         Apply Changes (1 credit)
                       </>
+                    ) : (
+                      'Manual change'
                     )}
                   </Button>
                 </div>
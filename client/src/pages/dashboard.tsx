@@ -6,6 +6,7 @@ import { Input } from '@/components/ui/input';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { apiRequest, queryClient } from '@/lib/queryClient';
+import { waitForAnalysisJob } from '@/lib/analysisJobs';
 import { useToast } from '@/hooks/use-toast';
 import { useAuth } from '@/hooks/useAuth';
 import DashboardLayout from '@/components/DashboardLayout';
@@ -64,7 +65,8 @@ export default function Dashboard() {
 
   const analyzeMutation = useMutation({
     mutationFn: async (data: { storeUrl?: string; ebayUsername?: string; storeType: string }) => {
-      return await apiRequest('POST', '/api/analyze-store', data);
+      const job = await apiRequest('POST', '/api/analyze-store', data);
+      return await waitForAnalysisJob(job.jobId);
     },
     onSuccess: (data) => {
       console.log("✅ Dashboard received analysis result:", data);
@@ -35,10 +35,25 @@ interface DesignSuggestion {
     current?: string;
     recommended: string;
     cssChanges?: string;
+    themeSettings?: {
+      colors?: Record<string, string>;
+      typography?: Record<string, string>;
+    };
     preview?: string;
   };
 }
 
+interface ThemePreview {
+  id: number;
+  suggestionId: string;
+  recommendation: string;
+  previewThemeName: string;
+  status: 'creating' | 'preview' | 'published' | 'discarded' | 'failed';
+  settingsChanged: string[];
+  previewUrl: string | null;
+  createdAt: string;
+}
+
 export default function DesignRecommendations() {
   const { storeId } = useParams();
   const [, setLocation] = useLocation();
@@ -78,12 +93,13 @@ export default function DesignRecommendations() {
         changes,
       });
     },
-    onSuccess: () => {
+    onSuccess: (data: { preview: ThemePreview }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
       queryClient.invalidateQueries({ queryKey: ['/api/design-recommendations', storeId] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stores', storeId, 'theme-previews'] });
       toast({
-        title: "Design Applied",
-        description: "Your store design has been updated successfully",
+        title: "Preview Theme Created",
+        description: `"${data.preview.previewThemeName}" is ready to preview. Publish it when you're happy with it.`,
       });
     },
     onError: (error: any) => {
@@ -95,6 +111,38 @@ export default function DesignRecommendations() {
     },
   });
 
+  // Unpublished theme copies created from applied suggestions
+  const { data: themePreviews = [] } = useQuery<ThemePreview[]>({
+    queryKey: ['/api/stores', storeId, 'theme-previews'],
+    queryFn: async () => {
+      return await apiRequest('GET', `/api/stores/${storeId}/theme-previews`);
+    },
+    enabled: !!storeId && !!user,
+  });
+  const openPreviews = themePreviews.filter(preview => preview.status === 'preview');
+
+  const themePreviewMutation = useMutation({
+    mutationFn: async ({ previewId, action }: { previewId: number; action: 'publish' | 'discard' }) => {
+      return await apiRequest('POST', `/api/theme-previews/${previewId}/${action}`);
+    },
+    onSuccess: (_data, { action }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores', storeId, 'theme-previews'] });
+      toast({
+        title: action === 'publish' ? "Theme Published" : "Preview Discarded",
+        description: action === 'publish'
+          ? "The preview theme is now live. Your previous theme is still in your Shopify theme library."
+          : "The preview theme was removed from your store",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Theme Update Failed",
+        description: error.message || "Failed to update the preview theme",
+        variant: "destructive",
+      });
+    },
+  });
+
   const designCategories = [
     {
       id: 'colors',
@@ -186,6 +234,53 @@ export default function DesignRecommendations() {
           </CardHeader>
         </Card>
 
+        {/* Preview themes waiting for a decision */}
+        {openPreviews.length > 0 && (
+          <Card className="mb-8">
+            <CardHeader>
+              <CardTitle>Preview Themes</CardTitle>
+              <CardDescription>
+                Applied suggestions live in unpublished copies of your theme until you publish them
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              {openPreviews.map((preview) => (
+                <div key={preview.id} className="flex flex-col md:flex-row md:items-center md:justify-between gap-3 p-3 border rounded-lg">
+                  <div>
+                    <p className="font-medium text-sm">{preview.previewThemeName}</p>
+                    <p className="text-sm text-muted-foreground">{preview.recommendation}</p>
+                  </div>
+                  <div className="flex items-center space-x-2 shrink-0">
+                    {preview.previewUrl && (
+                      <Button variant="outline" size="sm" asChild>
+                        <a href={preview.previewUrl} target="_blank" rel="noopener noreferrer">
+                          <Eye className="h-4 w-4 mr-2" />
+                          View
+                        </a>
+                      </Button>
+                    )}
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      onClick={() => themePreviewMutation.mutate({ previewId: preview.id, action: 'discard' })}
+                      disabled={themePreviewMutation.isPending}
+                    >
+                      Discard
+                    </Button>
+                    <Button
+                      size="sm"
+                      onClick={() => themePreviewMutation.mutate({ previewId: preview.id, action: 'publish' })}
+                      disabled={themePreviewMutation.isPending}
+                    >
+                      Publish
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {isLoading ? (
           <div className="flex items-center justify-center py-12">
             <div className="text-center">
@@ -317,12 +412,12 @@ export default function DesignRecommendations() {
                               {applyDesignMutation.isPending ? (
                                 <>
                                   <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-2"></div>
-                                  Applying...
+                                  Creating preview...
                                 </>
                               ) : (
                                 <>
                                   <Zap className="h-4 w-4 mr-2" />
-                                  Apply (1 credit)
+                                  Apply to Preview Theme (1 credit)
                                 </>
                               )}
                             </Button>
@@ -613,12 +708,12 @@ export default function DesignRecommendations() {
                   {applyDesignMutation.isPending ? (
                     <>
                       <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-2"></div>
-                      Applying...
+                      Creating preview...
                     </>
                   ) : (
                     <>
                       <Zap className="h-4 w-4 mr-2" />
-                      Apply Changes (1 credit)
+                      Create Preview Theme (1 credit)
                     </>
                   )}
                 </Button>
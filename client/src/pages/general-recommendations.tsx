@@ -19,7 +19,8 @@ import {
   Zap,
   TrendingUp,
   Shield,
-  Globe
+  Globe,
+  Users
 } from "lucide-react";
 
 interface StoreAnalysis {
@@ -142,6 +143,18 @@ export default function GeneralRecommendations() {
       actionText: 'Generate Pages',
       color: 'bg-gray-500',
     },
+    {
+      id: 'competitors',
+      title: 'Competitor Benchmarks',
+      description: 'Compare scores, prices and trust signals with competitor stores',
+      icon: Users,
+      score: storeAnalysis?.overallScore || 0,
+      maxScore: 100,
+      suggestions: [],
+      route: `/dashboard/stores/${storeId}/competitors`,
+      actionText: 'Compare Stores',
+      color: 'bg-red-500',
+    },
   ];
 
   // Show loading state while data is being fetched
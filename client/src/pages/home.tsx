@@ -13,10 +13,12 @@ import PricingSection from "@/components/PricingSection";
 import FAQSection from "@/components/FAQSection";
 import FinalCTASection from "@/components/FinalCTASection";
 import Footer from "@/components/Footer";
+import type { AnalysisJobStatus } from "@/lib/analysisJobs";
 
 export default function Home() {
   const [currentView, setCurrentView] = useState<'hero' | 'loading' | 'results'>('hero');
   const [analysisResult, setAnalysisResult] = useState(null);
+  const [analysisJob, setAnalysisJob] = useState<AnalysisJobStatus | null>(null);
   const { isAuthenticated, isLoading } = useAuth();
   const [, setLocation] = useLocation();
 
@@ -28,6 +30,7 @@ export default function Home() {
   // }, [isAuthenticated, isLoading, setLocation]);
 
   const handleAnalysisStart = () => {
+    setAnalysisJob(null);
     setCurrentView('loading');
   };
 
@@ -44,6 +47,10 @@ export default function Home() {
     }, 100);
   };
 
+  const handleAnalysisProgress = (job: AnalysisJobStatus) => {
+    setAnalysisJob(job);
+  };
+
   const handleAnalysisError = () => {
     setCurrentView('hero');
     setAnalysisResult(null);
@@ -68,6 +75,7 @@ export default function Home() {
             onAnalysisStart={handleAnalysisStart}
             onAnalysisComplete={handleAnalysisComplete}
             onAnalysisError={handleAnalysisError}
+            onAnalysisProgress={handleAnalysisProgress}
           />
           <SocialProofSection />
           <FeaturesSection />
@@ -79,11 +87,14 @@ export default function Home() {
             onAnalysisStart={handleAnalysisStart}
             onAnalysisComplete={handleAnalysisComplete}
             onAnalysisError={handleAnalysisError}
+            onAnalysisProgress={handleAnalysisProgress}
           />
         </>
       )}
       
-      {currentView === 'loading' && <LoadingSection />}
+      {currentView === 'loading' && (
+        <LoadingSection stage={analysisJob?.stage} progress={analysisJob?.progress} />
+      )}
       
       {currentView === 'results' && analysisResult && (
         <NewResultsSection analysisResult={analysisResult} />
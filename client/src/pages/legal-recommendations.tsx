@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams } from "wouter";
-import { ArrowLeft, Shield, Eye, Zap, FileText, Scale, Lock } from "lucide-react";
+import { ArrowLeft, Shield, Eye, Zap, FileText, Scale, Lock, History, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -13,6 +13,62 @@ import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+type LegalDocumentType = 'refund' | 'privacy' | 'terms' | 'shipping' | 'imprint';
+
+interface LegalDocumentVersion {
+  id: number;
+  documentType: LegalDocumentType;
+  version: number;
+  source: 'generated' | 'imported' | 'rollback';
+  title: string;
+  body: string;
+  restoredFromVersionId: number | null;
+  createdAt: string;
+}
+
+interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
+interface LegalDocumentPreview {
+  title: string;
+  body: string;
+  diff: DiffLine[] | null;
+}
+
+const DOCUMENT_LABELS: Record<LegalDocumentType, string> = {
+  refund: 'Refund Policy',
+  privacy: 'Privacy Policy',
+  terms: 'Terms of Service',
+  shipping: 'Shipping Policy',
+  imprint: 'Imprint',
+};
+
+const SOURCE_LABELS: Record<LegalDocumentVersion['source'], string> = {
+  generated: 'Generated',
+  imported: 'Previous Shopify version',
+  rollback: 'Rollback',
+};
+
+// Strips tags so diff lines read as text
+const toText = (html: string) => html.replace(/<[^>]+>/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&').replace(/\s+/g, ' ').trim();
+
+function DiffView({ diff }: { diff: DiffLine[] }) {
+  return (
+    <div className="border rounded-lg max-h-[400px] overflow-y-auto text-xs font-mono">
+      {diff.filter(line => toText(line.line)).map((line, index) => (
+        <div
+          key={index}
+          className={`px-3 py-1 ${line.type === 'added' ? 'bg-green-50 text-green-800' : line.type === 'removed' ? 'bg-red-50 text-red-800 line-through' : 'text-gray-600'}`}
+        >
+          {line.type === 'added' ? '+ ' : line.type === 'removed' ? '- ' : '  '}{toText(line.line)}
+        </div>
+      ))}
+    </div>
+  );
+}
+
 interface LegalSuggestion {
   id: string;
   type: 'privacy' | 'terms' | 'returns' | 'shipping' | 'cookies' | 'gdpr';
@@ -24,6 +80,7 @@ interface LegalSuggestion {
     current: string;
     recommended: string;
     implementation: string;
+    documentType?: LegalDocumentType | null;
   };
 }
 
@@ -38,6 +95,7 @@ export default function LegalRecommendationsPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const [previewingSuggestion, setPreviewingSuggestion] = useState<LegalSuggestion | null>(null);
+  const [diffingVersion, setDiffingVersion] = useState<LegalDocumentVersion | null>(null);
 
   const { data: recommendations, isLoading } = useQuery<LegalRecommendations>({
     queryKey: [`/api/legal-recommendations/${storeId}`],
@@ -49,22 +107,43 @@ export default function LegalRecommendationsPage() {
     enabled: !!user
   });
 
+  // Documents published to the store, newest version first per document
+  const { data: documents = [] } = useQuery<LegalDocumentVersion[]>({
+    queryKey: ['/api/stores', storeId, 'legal-documents'],
+    enabled: !!storeId && !!user
+  });
+  const documentHistory = documents.reduce<Partial<Record<LegalDocumentType, LegalDocumentVersion[]>>>((groups, document) => {
+    (groups[document.documentType] ||= []).push(document);
+    return groups;
+  }, {});
+
+  // The document applying the previewed suggestion would publish
+  const previewDocumentType = previewingSuggestion?.suggestions.documentType;
+  const { data: documentPreview, isLoading: isPreviewLoading, error: previewError } = useQuery<LegalDocumentPreview>({
+    queryKey: ['/api/stores', storeId, 'legal-documents', previewDocumentType, 'preview'],
+    enabled: !!storeId && !!previewDocumentType
+  });
+
+  const { data: versionDiff } = useQuery<{ against: LegalDocumentVersion | null; diff: DiffLine[] }>({
+    queryKey: ['/api/legal-documents', diffingVersion?.id, 'diff'],
+    enabled: !!diffingVersion
+  });
+
   const applyMutation = useMutation({
-    mutationFn: async (data: { suggestionId: string; changes: any }) => {
-      console.log('Applying legal recommendation:', data);
+    mutationFn: async (data: { suggestionId: string; documentType: LegalDocumentType }) => {
       return apiRequest('POST', `/api/apply-legal-recommendation`, {
         storeId: parseInt(storeId!),
         suggestionId: data.suggestionId,
-        changes: data.changes
+        documentType: data.documentType
       });
     },
-    onSuccess: (data) => {
-      console.log('Legal recommendation applied successfully:', data);
+    onSuccess: (data: { message: string }) => {
       queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
       queryClient.invalidateQueries({ queryKey: [`/api/legal-recommendations/${storeId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stores', storeId, 'legal-documents'] });
       toast({
         title: "Success!",
-        description: "Legal page optimization has been applied successfully.",
+        description: data.message,
       });
     },
     onError: (error: any) => {
@@ -78,6 +157,27 @@ export default function LegalRecommendationsPage() {
     }
   });
 
+  const rollbackMutation = useMutation({
+    mutationFn: async (versionId: number) => {
+      return apiRequest('POST', `/api/legal-documents/${versionId}/rollback`);
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores', storeId, 'legal-documents'] });
+      setDiffingVersion(null);
+      toast({
+        title: "Rolled Back",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Rollback Failed",
+        description: error.message || 'Failed to roll back the document',
+        variant: "destructive",
+      });
+    }
+  });
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'critical': return 'text-red-600 bg-red-50 border-red-200';
@@ -177,6 +277,55 @@ export default function LegalRecommendationsPage() {
           </CardContent>
         </Card>
 
+        {/* Published Documents */}
+        {documents.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center space-x-2">
+                <History className="h-5 w-5" />
+                <span>Published Documents</span>
+              </CardTitle>
+              <CardDescription>
+                Every published version is kept. Review what changed or roll back to an earlier version.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {(Object.keys(documentHistory) as LegalDocumentType[]).map((documentType) => (
+                <div key={documentType} className="space-y-2">
+                  <h4 className="font-medium text-sm">{DOCUMENT_LABELS[documentType]}</h4>
+                  {documentHistory[documentType]!.map((version, index) => (
+                    <div key={version.id} className="flex items-center justify-between p-2 border rounded-lg">
+                      <div className="flex items-center space-x-2">
+                        <span className="text-sm font-medium">v{version.version}</span>
+                        <Badge variant="outline">{SOURCE_LABELS[version.source]}</Badge>
+                        {index === 0 && <Badge className="text-green-600 bg-green-50 border-green-200">LIVE</Badge>}
+                        <span className="text-xs text-muted-foreground">{new Date(version.createdAt).toLocaleString()}</span>
+                      </div>
+                      <div className="flex items-center space-x-2">
+                        <Button variant="outline" size="sm" onClick={() => setDiffingVersion(version)}>
+                          <Eye className="h-4 w-4 mr-2" />
+                          Changes
+                        </Button>
+                        {index > 0 && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => rollbackMutation.mutate(version.id)}
+                            disabled={rollbackMutation.isPending}
+                          >
+                            <RotateCcw className="h-4 w-4 mr-2" />
+                            Roll back
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Legal Recommendations */}
         {recommendations?.suggestions && recommendations.suggestions.length > 0 ? (
           <div className="space-y-4">
@@ -236,20 +385,22 @@ export default function LegalRecommendationsPage() {
                         size="sm"
                         onClick={() => applyMutation.mutate({
                           suggestionId: suggestion.id,
-                          changes: suggestion.suggestions
+                          documentType: suggestion.suggestions.documentType!
                         })}
-                        disabled={applyMutation.isPending || (userCredits?.credits || 0) < 1}
+                        disabled={applyMutation.isPending || !suggestion.suggestions.documentType || (userCredits?.credits || 0) < 1}
                       >
                         {applyMutation.isPending ? (
                           <>
                             <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-2"></div>
-                            Applying...
+                            Publishing...
                           </>
-                        ) : (
+                        ) : suggestion.suggestions.documentType ? (
                           <>
                             <Zap className="h-4 w-4 mr-2" />
-                            Apply (1 credit)
+                            Publish {DOCUMENT_LABELS[suggestion.suggestions.documentType]} (1 credit)
                           </>
+                        ) : (
+                          'Manual change'
                         )}
                       </Button>
                     </div>
@@ -382,6 +533,25 @@ export default function LegalRecommendationsPage() {
                   </div>
                 </div>
 
+                {/* Document that will be published */}
+                {previewDocumentType && (
+                  <div className="space-y-2">
+                    <h5 className="font-medium text-sm">{DOCUMENT_LABELS[previewDocumentType]} that will be published:</h5>
+                    {isPreviewLoading ? (
+                      <p className="text-sm text-muted-foreground">Generating document from your store details...</p>
+                    ) : previewError ? (
+                      <p className="text-sm text-red-600">{(previewError as Error).message}</p>
+                    ) : documentPreview?.diff ? (
+                      <DiffView diff={documentPreview.diff} />
+                    ) : documentPreview && (
+                      <div
+                        className="prose prose-sm max-w-none p-4 border rounded-lg max-h-[400px] overflow-y-auto"
+                        dangerouslySetInnerHTML={{ __html: documentPreview.body }}
+                      />
+                    )}
+                  </div>
+                )}
+
                 {/* Implementation Details */}
                 <div className="p-3 bg-gray-50 rounded-lg">
                   <h5 className="font-medium text-sm mb-2">Implementation Guide:</h5>
@@ -408,22 +578,24 @@ export default function LegalRecommendationsPage() {
                     onClick={() => {
                       applyMutation.mutate({
                         suggestionId: previewingSuggestion.id,
-                        changes: previewingSuggestion.suggestions
+                        documentType: previewDocumentType!
                       });
                       setPreviewingSuggestion(null);
                     }}
-                    disabled={applyMutation.isPending || (userCredits?.credits || 0) < 1}
+                    disabled={applyMutation.isPending || !previewDocumentType || !documentPreview || (userCredits?.credits || 0) < 1}
                   >
                     {applyMutation.isPending ? (
                       <>
                         <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-2"></div>
-                        Applying...
+                        Publishing...
                       </>
-                    ) : (
+                    ) : previewDocumentType ? (
                       <>
                         <Zap className="h-4 w-4 mr-2" />
-                        Apply Changes (1 credit)
+                        Publish to Store (1 credit)
                       </>
+                    ) : (
+                      'Manual change'
                     )}
                   </Button>
                 </div>
@@ -431,6 +603,23 @@ export default function LegalRecommendationsPage() {
             )}
           </DialogContent>
         </Dialog>
+
+        {/* Version Changes */}
+        <Dialog open={!!diffingVersion} onOpenChange={() => setDiffingVersion(null)}>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>
+                {diffingVersion && `${DOCUMENT_LABELS[diffingVersion.documentType]} v${diffingVersion.version}`}
+              </DialogTitle>
+              <DialogDescription>
+                {versionDiff?.against
+                  ? `Changes since version ${versionDiff.against.version}`
+                  : 'First recorded version of this document'}
+              </DialogDescription>
+            </DialogHeader>
+            {versionDiff && <DiffView diff={versionDiff.diff} />}
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
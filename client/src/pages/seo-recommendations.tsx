@@ -7,10 +7,53 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Link } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+// A concrete change the server can make through the Shopify Admin API
+interface SEOOperation {
+  resource: 'product' | 'collection' | 'image' | 'shop';
+  id?: string;
+  productId?: string;
+  field: 'seo_title' | 'seo_description' | 'handle' | 'alt' | 'meta_description';
+  value: string;
+}
+
+interface SEOChange {
+  resource: SEOOperation['resource'];
+  id: string;
+  title: string | null;
+  field: SEOOperation['field'];
+  before: string | null;
+  after: string;
+  redirect?: { from: string; to: string };
+}
+
+interface SEOApplyResult {
+  message: string;
+  changes: SEOChange[];
+  failed: Array<{ operation: SEOOperation; error: string }>;
+}
+
+const FIELD_LABELS: Record<SEOOperation['field'], string> = {
+  seo_title: 'SEO title',
+  seo_description: 'Meta description',
+  handle: 'URL handle',
+  alt: 'Image alt text',
+  meta_description: 'Home page meta description',
+};
+
+const describeOperation = (operation: SEOOperation) => {
+  switch (operation.resource) {
+    case 'image': return `Image ${operation.id} of product ${operation.productId}`;
+    case 'shop': return 'Store';
+    default: return `${operation.resource === 'product' ? 'Product' : 'Collection'} ${operation.id}`;
+  }
+};
 
 interface SEOSuggestion {
   id: string;
@@ -23,6 +66,7 @@ interface SEOSuggestion {
     current: string;
     recommended: string;
     implementation: string;
+    operations?: SEOOperation[];
   };
 }
 
@@ -35,7 +79,9 @@ export default function SEORecommendationsPage() {
   const params = useParams();
   const storeId = params.storeId;
   const { user } = useAuth();
+  const { toast } = useToast();
   const [previewingSuggestion, setPreviewingSuggestion] = useState<SEOSuggestion | null>(null);
+  const [applyResult, setApplyResult] = useState<SEOApplyResult | null>(null);
 
   // Fetch SEO recommendations
   const { data: recommendations, isLoading } = useQuery<SEORecommendations>({
@@ -58,12 +104,27 @@ export default function SEORecommendationsPage() {
         changes: data.changes
       });
     },
-    onSuccess: () => {
+    onSuccess: (data: SEOApplyResult) => {
       queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
       queryClient.invalidateQueries({ queryKey: [`/api/seo-recommendations/${storeId}`] });
+      setApplyResult(data);
+      toast({
+        title: "SEO Changes Applied",
+        description: data.message,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Apply SEO Changes",
+        description: error.message || "Failed to update your store",
+        variant: "destructive",
+      });
     }
   });
 
+  const canApply = (suggestion: SEOSuggestion) =>
+    (suggestion.suggestions.operations?.length || 0) > 0 && (userCredits?.credits || 0) >= 1;
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'critical': return 'text-red-600 bg-red-50 border-red-200';
@@ -205,7 +266,9 @@ export default function SEORecommendationsPage() {
                   <div className="flex items-center justify-between">
                     <div className="flex items-center space-x-2">
                       <span className="text-sm text-muted-foreground">
-                        Preview changes before applying
+                        {suggestion.suggestions.operations?.length
+                          ? `${suggestion.suggestions.operations.length} changes to your store, preview before applying`
+                          : 'Needs to be made manually, see the preview for how'}
                       </span>
                     </div>
                     
@@ -224,18 +287,20 @@ export default function SEORecommendationsPage() {
                           suggestionId: suggestion.id,
                           changes: suggestion.suggestions
                         })}
-                        disabled={applyMutation.isPending || (userCredits?.credits || 0) < 1}
+                        disabled={applyMutation.isPending || !canApply(suggestion)}
                       >
                         {applyMutation.isPending ? (
                           <>
                             <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-2"></div>
                             Applying...
                           </>
-                        ) : (
+                        ) : suggestion.suggestions.operations?.length ? (
                           <>
                             <Zap className="h-4 w-4 mr-2" />
                             Apply (1 credit)
                           </>
+                        ) : (
+                          'Manual change'
                         )}
                       </Button>
                     </div>
@@ -354,6 +419,24 @@ export default function SEORecommendationsPage() {
                   </div>
                 </div>
 
+                {/* Changes that will be made */}
+                {previewingSuggestion.suggestions.operations?.length ? (
+                  <div className="p-3 border rounded-lg">
+                    <h5 className="font-medium text-sm mb-2">Changes to your store:</h5>
+                    <ul className="space-y-1">
+                      {previewingSuggestion.suggestions.operations.map((operation, index) => (
+                        <li key={index} className="text-sm text-gray-700">
+                          <span className="font-medium">{describeOperation(operation)}</span>
+                          {' · '}{FIELD_LABELS[operation.field]}: <span className="text-green-700">{operation.value}</span>
+                          {operation.field === 'handle' && (
+                            <span className="text-muted-foreground"> (the old URL will redirect here)</span>
+                          )}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                ) : null}
+
                 {/* Implementation Details */}
                 <div className="p-3 bg-gray-50 rounded-lg">
                   <h5 className="font-medium text-sm mb-2">Implementation Guide:</h5>
@@ -384,18 +467,20 @@ export default function SEORecommendationsPage() {
                       });
                       setPreviewingSuggestion(null);
                     }}
-                    disabled={applyMutation.isPending || (userCredits?.credits || 0) < 1}
+                    disabled={applyMutation.isPending || !canApply(previewingSuggestion)}
                   >
                     {applyMutation.isPending ? (
                       <>
                         <div className="animate-spin rounded-full h-3 w-3 border-b-2 border-white mr-2"></div>
                         Applying...
                       </>
-                    ) : (
+                    ) : previewingSuggestion.suggestions.operations?.length ? (
                       <>
                         <Zap className="h-4 w-4 mr-2" />
                         Apply Changes (1 credit)
                       </>
+                    ) : (
+                      'Manual change'
                     )}
                   </Button>
                 </div>
@@ -403,6 +488,61 @@ export default function SEORecommendationsPage() {
             )}
           </DialogContent>
         </Dialog>
+
+        {/* Applied changes */}
+        <Dialog open={!!applyResult} onOpenChange={() => setApplyResult(null)}>
+          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>SEO Changes Applied</DialogTitle>
+              <DialogDescription>{applyResult?.message}</DialogDescription>
+            </DialogHeader>
+            {applyResult && (
+              <div className="space-y-4">
+                {applyResult.changes.length > 0 && (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Resource</TableHead>
+                        <TableHead>Field</TableHead>
+                        <TableHead>Before</TableHead>
+                        <TableHead>After</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {applyResult.changes.map((change, index) => (
+                        <TableRow key={index}>
+                          <TableCell className="font-medium">{change.title || change.id}</TableCell>
+                          <TableCell>{FIELD_LABELS[change.field]}</TableCell>
+                          <TableCell className="text-muted-foreground">{change.before || '—'}</TableCell>
+                          <TableCell>
+                            {change.after}
+                            {change.redirect && (
+                              <div className="text-xs text-muted-foreground mt-1">
+                                Redirect: {change.redirect.from} → {change.redirect.to}
+                              </div>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+                {applyResult.failed.length > 0 && (
+                  <div className="p-3 bg-red-50 border border-red-200 rounded-lg">
+                    <h5 className="font-medium text-sm text-red-800 mb-1">Not applied:</h5>
+                    <ul className="space-y-1">
+                      {applyResult.failed.map((failure, index) => (
+                        <li key={index} className="text-sm text-red-700">
+                          {describeOperation(failure.operation)} · {FIELD_LABELS[failure.operation.field]}: {failure.error}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </DialogContent>
+        </Dialog>
       </div>
     </DashboardLayout>
   );
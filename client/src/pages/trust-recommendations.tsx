@@ -1,7 +1,7 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
 import { useParams } from "wouter";
-import { ArrowLeft, Shield, Eye, Zap, Star, Users, Award, Heart } from "lucide-react";
+import { ArrowLeft, Shield, Eye, Zap, Star, Users, Award, Heart, RotateCcw } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -13,9 +13,24 @@ import { useAuth } from "@/hooks/useAuth";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 
+type TrustType = 'reviews' | 'testimonials' | 'badges' | 'security' | 'guarantees' | 'contact' | 'general';
+
+// A product or page the trust optimizer added content to
+interface TrustOptimizationChange {
+  id: number;
+  suggestionId: string;
+  trustType: TrustType;
+  resourceType: 'product' | 'page';
+  resourceId: string;
+  resourceTitle: string;
+  createdResource: boolean;
+  status: 'applied' | 'removed';
+  updatedAt: string;
+}
+
 interface TrustSuggestion {
   id: string;
-  type: 'reviews' | 'testimonials' | 'badges' | 'security' | 'guarantees' | 'contact';
+  type: TrustType;
   title: string;
   description: string;
   impact: string;
@@ -49,11 +64,24 @@ export default function TrustRecommendationsPage() {
     enabled: !!user
   });
 
+  // Content the optimizer has added to the store, grouped by trust type
+  const { data: trustChanges = [] } = useQuery<TrustOptimizationChange[]>({
+    queryKey: ['/api/stores', storeId, 'trust-optimizations'],
+    enabled: !!storeId && !!user
+  });
+  const appliedByType = trustChanges
+    .filter(change => change.status === 'applied')
+    .reduce<Partial<Record<TrustType, TrustOptimizationChange[]>>>((groups, change) => {
+      (groups[change.trustType] ||= []).push(change);
+      return groups;
+    }, {});
+
   const applyMutation = useMutation({
-    mutationFn: async (data: { suggestionId: string; changes: any }) => {
+    mutationFn: async (data: { suggestionId: string; type: TrustType; changes: any }) => {
       return apiRequest('POST', `/api/apply-trust-recommendation`, {
         storeId: parseInt(storeId!),
         suggestionId: data.suggestionId,
+        type: data.type,
         changes: data.changes
       });
     },
@@ -72,6 +100,7 @@ export default function TrustRecommendationsPage() {
       });
       queryClient.invalidateQueries({ queryKey: ['/api/credits'] });
       queryClient.invalidateQueries({ queryKey: [`/api/trust-recommendations/${storeId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/stores', storeId, 'trust-optimizations'] });
     },
     onError: (error: any) => {
       toast({
@@ -82,6 +111,28 @@ export default function TrustRecommendationsPage() {
     }
   });
 
+  const removeMutation = useMutation({
+    mutationFn: async (type: TrustType) => {
+      return apiRequest('POST', `/api/stores/${storeId}/trust-optimizations/${type}/remove`);
+    },
+    onSuccess: (data: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores', storeId, 'trust-optimizations'] });
+      toast({
+        title: "Trust Content Removed",
+        description: data.failed?.length > 0 ?
+          `Removed from ${data.removed.length} places. ${data.failed.length} couldn't be updated, try again to finish.` :
+          "The content we added was removed from your store",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to Remove",
+        description: error.message || "Failed to remove the trust content from your store",
+        variant: "destructive",
+      });
+    }
+  });
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'critical': return 'text-red-600 bg-red-50 border-red-200';
@@ -181,6 +232,37 @@ export default function TrustRecommendationsPage() {
           </CardContent>
         </Card>
 
+        {/* Applied Trust Content */}
+        {Object.keys(appliedByType).length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Applied to Your Store</CardTitle>
+              <CardDescription>Trust content currently in your store. Applying again updates it in place; removing strips only what was added.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {(Object.entries(appliedByType) as [TrustType, TrustOptimizationChange[]][]).map(([type, changes]) => (
+                <div key={type} className="flex items-center justify-between p-2 border rounded-lg">
+                  <div>
+                    <p className="text-sm font-medium">{type.toUpperCase()}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {changes.map(change => `${change.resourceType === 'product' ? 'Product' : 'Page'}: ${change.resourceTitle}`).join(', ')}
+                    </p>
+                  </div>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => removeMutation.mutate(type)}
+                    disabled={removeMutation.isPending}
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Trust Recommendations */}
         {recommendations?.suggestions && recommendations.suggestions.length > 0 ? (
           <div className="space-y-4">
@@ -240,6 +322,7 @@ export default function TrustRecommendationsPage() {
                         size="sm"
                         onClick={() => applyMutation.mutate({
                           suggestionId: suggestion.id,
+                          type: suggestion.type,
                           changes: suggestion.suggestions
                         })}
                         disabled={applyMutation.isPending || (userCredits?.credits || 0) < 1}
@@ -450,6 +533,7 @@ export default function TrustRecommendationsPage() {
                     onClick={() => {
                       applyMutation.mutate({
                         suggestionId: previewingSuggestion.id,
+                        type: previewingSuggestion.type,
                         changes: previewingSuggestion.suggestions
                       });
                       setPreviewingSuggestion(null);
@@ -7,15 +7,19 @@ import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
 import { Textarea } from '@/components/ui/textarea';
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { toast } from '@/hooks/use-toast';
 import DashboardLayout from '@/components/DashboardLayout';
 import { Store, Plus, Settings, Trash2, Zap, ExternalLink, LinkIcon, CheckCircle, Clock, AlertCircle, Target } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
+import { waitForAnalysisJob } from '@/lib/analysisJobs';
 
 export default function UserStores() {
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
   const [isShopifyDialogOpen, setIsShopifyDialogOpen] = useState(false);
   const [shopifyDomain, setShopifyDomain] = useState('');
+  const [wooCommerceStoreId, setWooCommerceStoreId] = useState<number | null>(null);
+  const [wooCredentials, setWooCredentials] = useState({ consumerKey: '', consumerSecret: '' });
 
   const [newStore, setNewStore] = useState({
     name: '',
@@ -26,7 +30,7 @@ export default function UserStores() {
 
   const queryClient = useQueryClient();
 
-  // Listen for popup messages from Shopify OAuth callback
+  // Listen for popup messages from the Shopify and eBay OAuth callbacks
   useEffect(() => {
     const handleMessage = (event: MessageEvent) => {
       if (event.data === 'shopify-connected') {
@@ -43,6 +47,18 @@ export default function UserStores() {
           description: "There was an error connecting your Shopify store.",
           variant: "destructive",
         });
+      } else if (event.data === 'ebay-connected') {
+        queryClient.invalidateQueries({ queryKey: ['/api/stores'] });
+        toast({
+          title: "Store Connected",
+          description: "Your eBay seller account has been successfully connected! Listings are syncing now.",
+        });
+      } else if (event.data === 'ebay-error') {
+        toast({
+          title: "Connection Failed",
+          description: "There was an error connecting your eBay seller account.",
+          variant: "destructive",
+        });
       }
     };
 
@@ -93,9 +109,10 @@ export default function UserStores() {
   });
 
   const analyzeStoreMutation = useMutation({
-    mutationFn: (storeId: number) => {
+    mutationFn: async (storeId: number) => {
       console.log('🔄 Starting analysis mutation for store ID:', storeId);
-      return apiRequest('POST', `/api/shopify/analyze/${storeId}`);
+      const job = await apiRequest('POST', `/api/stores/${storeId}/analyze`);
+      return await waitForAnalysisJob(job.jobId);
     },
     onSuccess: (data: any) => {
       console.log('🚀 Analysis mutation onSuccess triggered');
@@ -142,6 +159,27 @@ export default function UserStores() {
     },
   });
 
+  const updateScheduleMutation = useMutation({
+    mutationFn: ({ storeId, schedule }: { storeId: number; schedule: string }) =>
+      apiRequest('PUT', `/api/stores/${storeId}/schedule`, { schedule }),
+    onSuccess: (_data, { schedule }) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/stores'] });
+      toast({
+        title: "Schedule Updated",
+        description: schedule === 'off'
+          ? "Automatic re-analysis has been turned off."
+          : `This store will be re-analyzed ${schedule}. You'll be notified when scores change.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to update schedule",
+        variant: "destructive",
+      });
+    },
+  });
+
   const connectShopifyMutation = useMutation({
     mutationFn: (data: { shopDomain: string; userStoreId?: number }) => 
       apiRequest('POST', '/api/shopify/connect', data),
@@ -169,6 +207,43 @@ export default function UserStores() {
     },
   });
 
+  // Reconnects a saved store: OAuth platforms answer with a consent URL, WooCommerce connects with its keys right away
+  const connectStoreMutation = useMutation({
+    mutationFn: ({ storeId, ...input }: { storeId: number; consumerKey?: string; consumerSecret?: string }) =>
+      apiRequest('POST', `/api/stores/${storeId}/connect`, input),
+    onSuccess: (data: { authUrl?: string }) => {
+      if (data.authUrl) {
+        const popup = window.open(
+          data.authUrl,
+          'store-oauth',
+          'width=600,height=700,scrollbars=yes,resizable=yes'
+        );
+
+        setTimeout(() => {
+          if (popup && !popup.closed) {
+            popup.close();
+          }
+        }, 300000);
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: ['/api/stores'] });
+      setWooCommerceStoreId(null);
+      setWooCredentials({ consumerKey: '', consumerSecret: '' });
+      toast({
+        title: "Store Connected",
+        description: "Your store has been successfully connected! Products are syncing now.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Connection Failed",
+        description: error.message || "Failed to connect store.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const handleAddStore = () => {
     if (!newStore.name || !newStore.storeUrl) {
       toast({
@@ -187,12 +262,11 @@ export default function UserStores() {
 
   const handleReconnectStore = (storeId: number) => {
     const store = stores.find((s: any) => s.id === storeId);
-    if (store && store.shopifyDomain) {
-      // For reconnection, directly trigger OAuth with store ID
-      connectShopifyMutation.mutate({ 
-        shopDomain: store.shopifyDomain,
-        userStoreId: storeId 
-      });
+    if (store?.storeType === 'woocommerce') {
+      setWooCommerceStoreId(storeId);
+    } else if (store) {
+      // For reconnection, directly trigger the platform's OAuth for this store
+      connectStoreMutation.mutate({ storeId });
     }
   };
 
@@ -214,12 +288,26 @@ export default function UserStores() {
     connectShopifyMutation.mutate({ shopDomain: shopifyDomain });
   };
 
+  const handleConnectWooCommerce = () => {
+    if (!wooCommerceStoreId || !wooCredentials.consumerKey || !wooCredentials.consumerSecret) {
+      toast({
+        title: "Missing Information",
+        description: "Please enter your WooCommerce consumer key and secret.",
+        variant: "destructive",
+      });
+      return;
+    }
+    connectStoreMutation.mutate({ storeId: wooCommerceStoreId, ...wooCredentials });
+  };
+
   const getStoreTypeColor = (storeType: string) => {
     switch (storeType) {
       case 'shopify':
         return 'bg-green-100 text-green-800';
       case 'ebay':
         return 'bg-blue-100 text-blue-800';
+      case 'woocommerce':
+        return 'bg-purple-100 text-purple-800';
       case 'amazon':
         return 'bg-orange-100 text-orange-800';
       default:
@@ -400,6 +488,31 @@ export default function UserStores() {
                       </div>
                     )}
 
+                    <div className="flex items-center justify-between text-sm">
+                      <span className="text-gray-600">Auto re-analysis:</span>
+                      <Select
+                        value={store.analysisSchedule || 'off'}
+                        onValueChange={(schedule) => updateScheduleMutation.mutate({ storeId: store.id, schedule })}
+                        disabled={updateScheduleMutation.isPending}
+                      >
+                        <SelectTrigger className="h-8 w-28 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="off">Off</SelectItem>
+                          <SelectItem value="daily">Daily</SelectItem>
+                          <SelectItem value="weekly">Weekly</SelectItem>
+                          <SelectItem value="monthly">Monthly</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    {store.analysisSchedule !== 'off' && store.nextScheduledAnalysisAt && (
+                      <div className="text-sm text-gray-500">
+                        Next analysis: {new Date(store.nextScheduledAnalysisAt).toLocaleDateString()}
+                      </div>
+                    )}
+
                     {store.isConnected && store.lastSyncAt && (
                       <div className="text-sm text-gray-500">
                         Last sync: {new Date(store.lastSyncAt).toLocaleDateString()}
@@ -434,11 +547,11 @@ export default function UserStores() {
                             size="sm" 
                             variant="outline"
                             onClick={() => handleReconnectStore(store.id)}
-                            disabled={connectShopifyMutation.isPending}
+                            disabled={connectStoreMutation.isPending}
                             className="flex-1"
                           >
                             <Settings className="mr-2 h-4 w-4" />
-                            {store.isConnected ? 'Reconnect' : 'Connect Shopify'}
+                            {store.isConnected ? 'Reconnect' : store.storeType === 'woocommerce' ? 'Connect WooCommerce' : store.storeType === 'ebay' ? 'Connect eBay' : 'Connect Shopify'}
                           </Button>
                         )}
                       </div>
@@ -450,7 +563,7 @@ export default function UserStores() {
                               size="sm" 
                               variant="outline"
                               onClick={() => handleReconnectStore(store.id)}
-                              disabled={connectShopifyMutation.isPending}
+                              disabled={connectStoreMutation.isPending}
                               className="border-orange-300 text-orange-700 hover:bg-orange-50"
                             >
                               <Settings className="mr-2 h-4 w-4" />
@@ -516,6 +629,55 @@ export default function UserStores() {
           </DialogContent>
         </Dialog>
 
+        {/* WooCommerce Connection Dialog */}
+        <Dialog open={wooCommerceStoreId !== null} onOpenChange={(open) => !open && setWooCommerceStoreId(null)}>
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Connect Your WooCommerce Store</DialogTitle>
+              <CardDescription>
+                Create a REST API key with Read/Write permissions under WooCommerce → Settings → Advanced → REST API.
+              </CardDescription>
+            </DialogHeader>
+            <div className="space-y-4">
+              <div>
+                <Label htmlFor="wooConsumerKey">Consumer Key</Label>
+                <Input
+                  id="wooConsumerKey"
+                  value={wooCredentials.consumerKey}
+                  onChange={(e) => setWooCredentials({ ...wooCredentials, consumerKey: e.target.value.trim() })}
+                  placeholder="ck_..."
+                  className="mt-1"
+                />
+              </div>
+              <div>
+                <Label htmlFor="wooConsumerSecret">Consumer Secret</Label>
+                <Input
+                  id="wooConsumerSecret"
+                  type="password"
+                  value={wooCredentials.consumerSecret}
+                  onChange={(e) => setWooCredentials({ ...wooCredentials, consumerSecret: e.target.value.trim() })}
+                  placeholder="cs_..."
+                  className="mt-1"
+                />
+              </div>
+              <div className="flex justify-end space-x-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setWooCommerceStoreId(null)}
+                >
+                  Cancel
+                </Button>
+                <Button
+                  onClick={handleConnectWooCommerce}
+                  disabled={connectStoreMutation.isPending}
+                >
+                  {connectStoreMutation.isPending ? 'Connecting...' : 'Connect to WooCommerce'}
+                </Button>
+              </div>
+            </div>
+          </DialogContent>
+        </Dialog>
+
         {/* Add Store Dialog */}
         <Dialog open={isAddDialogOpen} onOpenChange={setIsAddDialogOpen}>
           <DialogContent>
@@ -532,13 +694,26 @@ export default function UserStores() {
                   placeholder="My Awesome Store"
                 />
               </div>
+              <div>
+                <Label htmlFor="storeType">Platform</Label>
+                <Select value={newStore.storeType} onValueChange={(storeType) => setNewStore({ ...newStore, storeType })}>
+                  <SelectTrigger id="storeType">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="shopify">Shopify</SelectItem>
+                    <SelectItem value="woocommerce">WooCommerce</SelectItem>
+                    <SelectItem value="ebay">eBay</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
               <div>
                 <Label htmlFor="storeUrl">Store URL</Label>
                 <Input
                   id="storeUrl"
                   value={newStore.storeUrl}
                   onChange={(e) => setNewStore({ ...newStore, storeUrl: e.target.value })}
-                  placeholder="https://mystore.myshopify.com"
+                  placeholder={newStore.storeType === 'woocommerce' ? 'https://mystore.com' : newStore.storeType === 'ebay' ? 'https://www.ebay.com/str/mystore' : 'https://mystore.myshopify.com'}
                 />
               </div>
               <div>
@@ -0,0 +1,60 @@
+/**
+ * One-off migration that seals every platform credential on user_stores with the credential vault.
+ *
+ *   npx tsx scripts/encrypt-store-credentials.ts [--dry-run]
+ *
+ * Plaintext values are encrypted; values sealed under an older key in CREDENTIAL_VAULT_KEYS are
+ * rewrapped with the active (first) key, which is also how a key rotation is finished. Safe to
+ * run repeatedly: values already sealed under the active key are left alone.
+ */
+import { eq } from "drizzle-orm";
+import { db, pool } from "../server/db";
+import { userStores, type UserStore } from "../shared/schema";
+import { STORE_CREDENTIAL_FIELDS, resealCredential } from "../server/services/credentialVault";
+
+const dryRun = process.argv.includes("--dry-run");
+
+async function main() {
+  const stores = await db.select().from(userStores);
+  let updatedStores = 0;
+  let updatedValues = 0;
+  const failed: number[] = [];
+
+  for (const store of stores) {
+    const updates: Partial<UserStore> = {};
+    try {
+      for (const field of STORE_CREDENTIAL_FIELDS) {
+        const value = store[field];
+        if (!value) continue;
+        const resealed = resealCredential(value);
+        if (resealed) updates[field] = resealed;
+      }
+    } catch (error: any) {
+      console.error(`Store ${store.id}: ${error.message}`);
+      failed.push(store.id);
+      continue;
+    }
+
+    const count = Object.keys(updates).length;
+    if (count === 0) continue;
+
+    if (!dryRun) {
+      await db.update(userStores).set(updates).where(eq(userStores.id, store.id));
+    }
+    updatedStores++;
+    updatedValues += count;
+  }
+
+  console.log(`${dryRun ? "Would seal" : "Sealed"} ${updatedValues} credentials on ${updatedStores} of ${stores.length} stores`);
+  if (failed.length > 0) {
+    console.log(`Skipped stores ${failed.join(", ")}; configure the keys they were sealed with and run again`);
+    process.exitCode = 1;
+  }
+}
+
+main()
+  .catch(error => {
+    console.error("Credential migration failed:", error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,261 @@
+/**
+ * In-memory WooCommerce server for trying the WooCommerce integration locally.
+ *
+ *   npx tsx scripts/mock-woocommerce.ts
+ *
+ * Start the app with WOOCOMMERCE_ALLOW_LOCAL=true, since local store URLs are refused otherwise,
+ * then add a WooCommerce store with the URL http://localhost:8089 and connect it with
+ * consumer key ck_mock and secret cs_mock. MOCK_WOOCOMMERCE_PORT, MOCK_WOOCOMMERCE_KEY
+ * and MOCK_WOOCOMMERCE_SECRET override the defaults. Edits live until the process exits.
+ */
+import express, { type Request, type Response, type NextFunction } from "express";
+
+const PORT = parseInt(process.env.MOCK_WOOCOMMERCE_PORT || "8089", 10);
+const CONSUMER_KEY = process.env.MOCK_WOOCOMMERCE_KEY || "ck_mock";
+const CONSUMER_SECRET = process.env.MOCK_WOOCOMMERCE_SECRET || "cs_mock";
+
+const now = () => new Date().toISOString().replace(/\.\d{3}Z$/, "");
+
+interface MockVariation {
+  id: number;
+  sku: string;
+  regular_price: string;
+  sale_price: string;
+  manage_stock: boolean;
+  stock_quantity: number | null;
+  attributes: { name: string; option: string }[];
+  date_modified_gmt: string;
+}
+
+interface MockProduct extends MockVariation {
+  name: string;
+  slug: string;
+  type: "simple" | "variable";
+  status: string;
+  description: string;
+  categories: { id: number; name: string }[];
+  tags: { id: number; name: string }[];
+  images: { id: number; src: string; alt: string }[];
+  date_created_gmt: string;
+  variationList: MockVariation[];
+}
+
+let nextId = 1000;
+const tagIds = new Map<string, number>();
+const tagId = (name: string) => {
+  if (!tagIds.has(name)) tagIds.set(name, nextId++);
+  return tagIds.get(name)!;
+};
+
+function seedProduct(fields: Partial<MockProduct> & Pick<MockProduct, "name" | "regular_price">): MockProduct {
+  const id = nextId++;
+  return {
+    id,
+    slug: fields.name.toLowerCase().replace(/[^a-z0-9]+/g, "-"),
+    type: "simple",
+    status: "publish",
+    description: "",
+    sku: `MOCK-${id}`,
+    sale_price: "",
+    manage_stock: true,
+    stock_quantity: 12,
+    attributes: [],
+    categories: [{ id: 15, name: "Uncategorized" }],
+    tags: [],
+    images: [{ id: nextId++, src: `https://picsum.photos/seed/${id}/800/800`, alt: "" }],
+    date_created_gmt: now(),
+    date_modified_gmt: now(),
+    variationList: [],
+    ...fields,
+  };
+}
+
+const products: MockProduct[] = [
+  seedProduct({
+    name: "Organic Cotton T-Shirt",
+    regular_price: "24.00",
+    description: "<p>Soft tee.</p>",
+    categories: [{ id: 16, name: "Apparel" }],
+    tags: [{ id: tagId("cotton"), name: "cotton" }],
+  }),
+  seedProduct({ name: "Ceramic Coffee Mug", regular_price: "18.00", sale_price: "14.00", categories: [{ id: 17, name: "Kitchen" }] }),
+  seedProduct({ name: "Canvas Tote Bag", regular_price: "32.00", stock_quantity: 3, images: [] }),
+  seedProduct({
+    name: "Merino Wool Beanie",
+    type: "variable",
+    regular_price: "",
+    description: "<p>Warm beanie in two colours.</p>",
+    categories: [{ id: 16, name: "Apparel" }],
+    variationList: ["Charcoal", "Navy"].map(option => ({
+      id: nextId++,
+      sku: `BEANIE-${option.toUpperCase()}`,
+      regular_price: "29.00",
+      sale_price: "",
+      manage_stock: true,
+      stock_quantity: 8,
+      attributes: [{ name: "Colour", option }],
+      date_modified_gmt: now(),
+    })),
+  }),
+];
+
+const effectivePrice = (item: MockVariation) => item.sale_price || item.regular_price;
+
+function serializeVariation(variation: MockVariation) {
+  return { ...variation, price: effectivePrice(variation), on_sale: !!variation.sale_price };
+}
+
+function serializeProduct(product: MockProduct) {
+  const { variationList, ...fields } = product;
+  const prices = product.type === "variable" ? variationList.map(effectivePrice) : [effectivePrice(product)];
+  return {
+    ...fields,
+    price: prices.sort((a, b) => parseFloat(a) - parseFloat(b))[0] || "",
+    on_sale: product.type === "variable" ? variationList.some(v => !!v.sale_price) : !!product.sale_price,
+    variations: variationList.map(variation => variation.id),
+  };
+}
+
+// Mirrors WordPress' pagination headers and 1-based `page`/`per_page` parameters
+function paginate<T>(req: Request, res: Response, items: T[]): T[] {
+  const perPage = Math.min(parseInt(String(req.query.per_page || "10"), 10) || 10, 100);
+  const page = parseInt(String(req.query.page || "1"), 10) || 1;
+  res.set("X-WP-Total", String(items.length));
+  res.set("X-WP-TotalPages", String(Math.max(1, Math.ceil(items.length / perPage))));
+  return items.slice((page - 1) * perPage, page * perPage);
+}
+
+function applyPriceFields(item: MockVariation, body: any) {
+  if (body.regular_price !== undefined) item.regular_price = String(body.regular_price);
+  if (body.sale_price !== undefined) item.sale_price = String(body.sale_price);
+  item.date_modified_gmt = now();
+}
+
+function requireKeys(req: Request, res: Response, next: NextFunction) {
+  const [scheme, encoded] = (req.headers.authorization || "").split(" ");
+  const [key, secret] = Buffer.from(encoded || "", "base64").toString().split(":");
+  if (scheme !== "Basic" || key !== CONSUMER_KEY || secret !== CONSUMER_SECRET) {
+    return res.status(401).json({ code: "woocommerce_rest_cannot_view", message: "Sorry, you cannot list resources.", data: { status: 401 } });
+  }
+  next();
+}
+
+function findProduct(req: Request, res: Response): MockProduct | undefined {
+  const product = products.find(p => p.id === parseInt(req.params.id, 10));
+  if (!product) {
+    res.status(404).json({ code: "woocommerce_rest_product_invalid_id", message: "Invalid ID.", data: { status: 404 } });
+  }
+  return product;
+}
+
+const app = express();
+app.use(express.json());
+
+const api = express.Router();
+api.use(requireKeys);
+
+api.get("/products", (req, res) => {
+  const modifiedAfter = req.query.modified_after ? new Date(`${String(req.query.modified_after).replace(/Z$/, "")}Z`) : null;
+  const matching = products.filter(p => !modifiedAfter || new Date(`${p.date_modified_gmt}Z`) > modifiedAfter);
+  res.json(paginate(req, res, matching).map(serializeProduct));
+});
+
+api.get("/products/:id", (req, res) => {
+  const product = findProduct(req, res);
+  if (product) res.json(serializeProduct(product));
+});
+
+api.put("/products/:id", (req, res) => {
+  const product = findProduct(req, res);
+  if (!product) return;
+  if (req.body.name !== undefined) product.name = String(req.body.name);
+  if (req.body.description !== undefined) product.description = String(req.body.description);
+  if (Array.isArray(req.body.tags)) {
+    product.tags = req.body.tags.map((tag: { name: string }) => ({ id: tagId(tag.name), name: tag.name }));
+  }
+  applyPriceFields(product, req.body);
+  res.json(serializeProduct(product));
+});
+
+api.get("/products/:id/variations", (req, res) => {
+  const product = findProduct(req, res);
+  if (product) res.json(paginate(req, res, product.variationList).map(serializeVariation));
+});
+
+api.get("/products/:id/variations/:variationId", (req, res) => {
+  const product = findProduct(req, res);
+  if (!product) return;
+  const variation = product.variationList.find(v => v.id === parseInt(req.params.variationId, 10));
+  if (!variation) return res.status(404).json({ code: "woocommerce_rest_invalid_id", message: "Invalid ID.", data: { status: 404 } });
+  res.json(serializeVariation(variation));
+});
+
+api.put("/products/:id/variations/:variationId", (req, res) => {
+  const product = findProduct(req, res);
+  if (!product) return;
+  const variation = product.variationList.find(v => v.id === parseInt(req.params.variationId, 10));
+  if (!variation) return res.status(404).json({ code: "woocommerce_rest_invalid_id", message: "Invalid ID.", data: { status: 404 } });
+  applyPriceFields(variation, req.body);
+  product.date_modified_gmt = variation.date_modified_gmt;
+  res.json(serializeVariation(variation));
+});
+
+api.get("/settings/general", (_req, res) => {
+  res.json([
+    { id: "woocommerce_store_address", value: "1 Market Street" },
+    { id: "woocommerce_store_address_2", value: "" },
+    { id: "woocommerce_store_city", value: "San Francisco" },
+    { id: "woocommerce_store_postcode", value: "94105" },
+    { id: "woocommerce_default_country", value: "US:CA" },
+    { id: "woocommerce_currency", value: "USD" },
+    { id: "woocommerce_email_from_address", value: "hello@mock-store.test" },
+  ]);
+});
+
+app.use("/wp-json/wc/v3", api);
+
+// Public Store API, as read by storefront analyses; prices are in minor units
+app.get("/wp-json/wc/store/v1/products", (req, res) => {
+  const minor = (value: string) => value ? String(Math.round(parseFloat(value) * 100)) : "";
+  res.json(paginate(req, res, products.filter(p => p.status === "publish")).map(product => {
+    const serialized = serializeProduct(product);
+    return {
+      id: product.id,
+      name: product.name,
+      slug: product.slug,
+      description: product.description,
+      categories: product.categories,
+      tags: product.tags,
+      images: product.images,
+      prices: {
+        price: minor(serialized.price),
+        regular_price: minor(product.regular_price || serialized.price),
+        sale_price: minor(serialized.price),
+        currency_code: "USD",
+        currency_minor_unit: 2,
+      },
+    };
+  }));
+});
+
+app.get("/", (_req, res) => {
+  const items = products
+    .filter(p => p.status === "publish")
+    .map(p => `<li class="product"><a href="/product/${p.slug}"><img src="${p.images[0]?.src || ""}" alt="${p.images[0]?.alt || ""}"><h2>${p.name}</h2></a><span class="price">$${serializeProduct(p).price}</span></li>`)
+    .join("\n");
+  res.type("html").send(`<!DOCTYPE html>
+<html lang="en">
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>Mock Woo Store</title><meta name="description" content="A local WooCommerce mock store"></head>
+<body class="woocommerce">
+<header><h1>Mock Woo Store</h1><nav><a href="/shop">Shop</a> <a href="/contact">Contact</a></nav></header>
+<main><ul class="products">
+${items}
+</ul></main>
+<footer><a href="/privacy-policy">Privacy Policy</a> <a href="/refund_returns">Refund and Returns Policy</a></footer>
+</body>
+</html>`);
+});
+
+app.listen(PORT, () => {
+  console.log(`Mock WooCommerce store on http://localhost:${PORT} (key ${CONSUMER_KEY}, secret ${CONSUMER_SECRET})`);
+});
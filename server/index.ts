@@ -1,8 +1,14 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
+import { analysisJobQueue } from "./services/analysisJobQueue";
+import { analysisScheduler } from "./services/analysisScheduler";
+import { bulkOptimizationQueue } from "./services/bulkOptimizationQueue";
+import { creditReservationSweeper } from "./services/creditReservations";
 import { setupVite, serveStatic, log } from "./vite";
 
 const app = express();
+// Webhook signatures are computed over the raw body, so webhook routes must bypass JSON parsing
+app.use('/api/webhooks', express.raw({ type: 'application/json' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: false }));
 
@@ -73,6 +79,10 @@ app.use((req, res, next) => {
       reusePort: true,
     }, () => {
       log(`serving on port ${port}`);
+      analysisJobQueue.start();
+      analysisScheduler.start();
+      bulkOptimizationQueue.start();
+      creditReservationSweeper.start();
     });
   } catch (error) {
     console.error('Failed to start server:', error);
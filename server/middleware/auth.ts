@@ -60,6 +60,26 @@ export function requireAdmin(req: Request, res: Response, next: NextFunction) {
   next();
 }
 
+// An impersonated session can still leave: end the impersonation or log out
+const IMPERSONATION_EXIT_PATHS = ['/api/admin/impersonation/end', '/api/auth/logout'];
+// GET endpoints that write anyway: the OAuth callbacks store platform credentials on the account
+const IMPERSONATION_BLOCKED_READS = ['/api/shopify/callback', '/api/ebay/callback'];
+
+/**
+ * Keeps admin impersonation read-only: anything but a plain read is refused on those sessions
+ */
+export function restrictImpersonatedSessions(req: Request, res: Response, next: NextFunction) {
+  if (!req.session?.impersonatedBy || IMPERSONATION_EXIT_PATHS.includes(req.path)) {
+    return next();
+  }
+
+  const isRead = ['GET', 'HEAD', 'OPTIONS'].includes(req.method) && !IMPERSONATION_BLOCKED_READS.includes(req.path);
+  if (!isRead) {
+    return res.status(403).json({ error: 'Impersonated sessions are read-only' });
+  }
+  next();
+}
+
 export async function requireSubscription(req: Request, res: Response, next: NextFunction) {
   if (!req.user) {
     return res.status(401).json({ error: 'Authentication required' });
@@ -93,25 +113,6 @@ export async function requireSubscription(req: Request, res: Response, next: Nex
   }
 }
 
-export function checkCredits(minimumCredits: number = 1) {
-  return async (req: Request, res: Response, next: NextFunction) => {
-    if (!req.user) {
-      return res.status(401).json({ error: 'Authentication required' });
-    }
-
-    const userCredits = await storage.getUserCredits(req.user.id);
-    if (userCredits < minimumCredits) {
-      return res.status(402).json({ 
-        error: 'Insufficient credits', 
-        creditsRequired: minimumCredits,
-        creditsAvailable: userCredits
-      });
-    }
-    
-    next();
-  };
-}
-
 export function checkSubscription(req: Request, res: Response, next: NextFunction) {
   return async (req: Request, res: Response, next: NextFunction) => {
     if (!req.user) {
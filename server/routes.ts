@@ -1,9 +1,10 @@
 import express, { type Request, type Response, type Express } from "express";
 import { createServer, type Server } from "http";
 import cookieParser from "cookie-parser";
+import { ZodError } from "zod";
 import { storage } from "./storage";
-import { ANALYSIS, CREDITS } from "@shared/constants";
-import { handleApiError, handleAuthError, handleInsufficientCreditsError, asyncHandler } from "@shared/errorHandler";
+import { ANALYSIS, CREDITS, THEME_CUSTOMIZATION, LEGAL_DOCUMENTS, CONVERSION_ACTIONS, TRUST_OPTIMIZATION, COMPETITOR_BENCHMARKS, ADMIN_CONSOLE, STRIPE_EVENTS } from "@shared/constants";
+import { handleApiError, handleAuthError, handleInsufficientCreditsError, asyncHandler, HttpError } from "@shared/errorHandler";
 import { 
   analyzeStoreRequestSchema, 
   registerUserSchema, 
@@ -12,21 +13,56 @@ import {
   createSubscriptionSchema,
   updateSubscriptionSchema,
   updatePaymentMethodSchema,
-  createTrialSubscriptionSchema
+  createTrialSubscriptionSchema,
+  updateStoreScheduleSchema,
+  revertOptimizationSchema,
+  revertStoreOptimizationsSchema,
+  updateSuggestionDraftSchema,
+  createBulkOptimizationSchema,
+  applyDesignSchema,
+  applySeoRecommendationSchema,
+  applyLegalRecommendationSchema,
+  applyConversionRecommendationSchema,
+  applyTrustRecommendationSchema,
+  createCompetitorSchema,
+  adminCreditAdjustmentSchema,
+  adminReasonRequestSchema,
+  stripeEventStatusSchema
 } from "@shared/schema";
-import { analyzeShopifyStore, analyzeEbayStore } from "./services/storeAnalyzer";
-import { authenticateUser, requireAuth, requireAdmin, requireSubscription, checkCredits, checkSubscription } from "./middleware/auth";
+import { authenticateUser, requireAuth, requireAdmin, requireSubscription, checkSubscription, restrictImpersonatedSessions } from "./middleware/auth";
 import { 
   generateShopifyAuthUrl, 
   exchangeCodeForToken, 
   getShopInfo, 
-  getStoreProducts, 
-  createShopifyAnalysisContent,
-  fetchStoreProducts,
   updateProduct,
-  validateWebhookSignature
+  validateWebhookSignature,
+  registerStoreWebhooks,
+  isValidShopDomain,
+  verifyShopifyQueryHmac
 } from "./services/shopifyIntegration";
-import { analyzeStoreWithAI } from "./services/openai";
+import { consumeOAuthState, OAuthStateError } from "./services/oauthState";
+import { sealCredential, STORE_CREDENTIAL_FIELDS } from "./services/credentialVault";
+import { analysisJobQueue } from "./services/analysisJobQueue";
+import { getNextScheduledAnalysisAt } from "./services/analysisScheduler";
+import { requestProductSync, isProductSyncRunning, getMirroredProducts, getMirroredProduct, refreshMirroredProduct } from "./services/shopifyProductSync";
+import { getPlatformAdapter, canSyncProducts, notConnectedMessage } from "./services/storePlatforms";
+import { exchangeEbayCode, connectEbayStore } from "./services/ebayIntegration";
+import { handleShopifyWebhook } from "./services/shopifyWebhooks";
+import { recordComplianceRequest, processComplianceRequest } from "./services/shopifyCompliance";
+import { revertOptimization, revertOptimizationsSince } from "./services/optimizationRevert";
+import { getOwnedDraft, updateDraftContent, approveDraft, applyDraft } from "./services/suggestionDrafts";
+import { bulkOptimizationQueue } from "./services/bulkOptimizationQueue";
+import { reserveCredits, InsufficientCreditsError, type CreditHold } from "./services/creditReservations";
+import { createDesignPreview, publishThemePreview, discardThemePreview, getPreviewUrl } from "./services/shopifyThemes";
+import { applySeoOperations, getSeoContext } from "./services/shopifySeo";
+import { applyConversionAction, revertConversionAction } from "./services/conversionActions";
+import { applyTrustOptimization, removeTrustOptimization } from "./services/shopifyTrustOptimization";
+import { addStoreCompetitor, buildCompetitorComparison } from "./services/competitorBenchmarks";
+import { recordAdminAction, getUserOverview, adjustUserCredits, forceDisconnectStore, startImpersonation, endImpersonation, replayStripeEvent } from "./services/adminConsole";
+import { processStripeEvent } from "./services/stripeEvents";
+import { publishLegalDocument, rollbackLegalDocument, renderLegalDocumentForStore, diffLegalDocuments, getOwnedLegalDocumentVersion } from "./services/legalDocuments";
+import type { AnalysisJob, ComplianceTopic, LegalDocumentType, SuggestionDraftStatus, User, UserStore } from "@shared/schema";
+import { completeChat, generateImage } from "./services/llmProvider";
 import { generateDynamicWelcome, generateContextualResponse, extractConversationInsights, type UserContext } from "./services/alexConversational";
 import { subscriptionService } from "./services/subscriptionService";
 import { ALEX } from "@shared/constants";
@@ -35,6 +71,116 @@ import Stripe from "stripe";
 // Initialize Stripe if key is available
 const stripe = process.env.STRIPE_SECRET_KEY ? new Stripe(process.env.STRIPE_SECRET_KEY) : null;
 
+// Keep the product mirror in step with edits the app just made.
+// The Shopify update already succeeded, so a failed refresh is only logged.
+async function refreshProductMirror(store: UserStore, productId: string): Promise<void> {
+  try {
+    await refreshMirroredProduct(store, productId);
+  } catch (error) {
+    console.error(`Failed to refresh mirrored product ${productId}:`, error);
+  }
+}
+
+// Client-facing view of an analysis job (payload and lock fields stay server-side)
+function serializeAnalysisJob(job: AnalysisJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    stage: job.stage,
+    progress: job.progress,
+    attempts: job.attempts,
+    error: job.status === 'failed' ? job.error : null,
+    analysisId: job.analysisId,
+    competitorAnalysisId: job.competitorAnalysisId,
+  };
+}
+
+// Client-facing view of a store: credential columns never leave the server, sealed or not
+function serializeUserStore(store: UserStore) {
+  const view: Partial<UserStore> = { ...store };
+  for (const field of STORE_CREDENTIAL_FIELDS) {
+    delete view[field];
+  }
+  return view;
+}
+
+// Client-facing view of a user for the admin console
+function serializeUser(user: User) {
+  const { passwordHash, ...view } = user;
+  return view;
+}
+
+/**
+ * Shared handler for the three Shopify GDPR webhooks: verify, record the audit entry,
+ * acknowledge, then carry out the request in the background
+ */
+function complianceWebhookHandler(topic: ComplianceTopic) {
+  return async (req: Request, res: Response) => {
+    try {
+      const hmacHeader = req.get('X-Shopify-Hmac-Sha256');
+      if (!hmacHeader || !validateWebhookSignature(req.body.toString(), hmacHeader)) {
+        return res.status(401).json({ error: 'Unauthorized' });
+      }
+
+      const payload = JSON.parse(req.body.toString());
+      const request = await recordComplianceRequest(topic, payload);
+      console.log(`Shopify ${topic} received for ${request.shopDomain}, audit record ${request.id}`);
+
+      res.status(200).json({ message: `${topic} request received` });
+
+      processComplianceRequest(request).catch(error => {
+        console.error(`Error processing ${topic} request ${request.id}:`, error);
+      });
+    } catch (error) {
+      console.error(`Error processing ${topic} webhook:`, error);
+      res.status(500).json({ error: 'Internal server error' });
+    }
+  };
+}
+
+/**
+ * Shared error response for the admin console routes
+ */
+function handleAdminError(res: Response, error: unknown, message: string) {
+  if (error instanceof HttpError) {
+    return res.status(error.statusCode).json({ error: error.message });
+  }
+  if (error instanceof ZodError) {
+    return res.status(400).json({ error: "Invalid request data", details: error.errors });
+  }
+  console.error(`${message}:`, error);
+  res.status(500).json({ error: message });
+}
+
+/**
+ * Shared handler for publishing or discarding a theme preview the user owns
+ */
+function themePreviewActionHandler(action: 'publish' | 'discard') {
+  return async (req: Request, res: Response) => {
+    try {
+      const preview = await storage.getThemePreview(parseInt(req.params.id));
+      const store = preview ? await storage.getUserStore(preview.userStoreId) : undefined;
+      if (!preview || !store || preview.userId !== req.user!.id || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Theme preview not found" });
+      }
+      if (!store.shopifyAccessToken) {
+        return res.status(400).json({ error: "Store not connected to Shopify" });
+      }
+
+      const updated = action === 'publish'
+        ? await publishThemePreview(store, preview)
+        : await discardThemePreview(store, preview);
+      res.json({ ...updated, previewUrl: getPreviewUrl(store, updated) });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error(`Error trying to ${action} theme preview:`, error);
+      res.status(500).json({ error: `Failed to ${action} theme preview` });
+    }
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   
   // Add cookie parser middleware
@@ -42,6 +188,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Add authentication middleware to all routes
   app.use(authenticateUser);
+
+  // Support staff impersonating a user can look but not change anything
+  app.use(restrictImpersonatedSessions);
   
   // Handle Shopify callback at root level (in case redirect URI is set to root)
   app.get("/", (req: Request, res: Response, next) => {
@@ -159,7 +308,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Get current user
   app.get("/api/auth/me", requireAuth, async (req: Request, res: Response) => {
     const { passwordHash, ...userWithoutPassword } = req.user!;
-    res.json({ user: userWithoutPassword });
+    const admin = req.session?.impersonatedBy ? await storage.getUserById(req.session.impersonatedBy) : undefined;
+    res.json({
+      user: userWithoutPassword,
+      impersonatedBy: admin ? { id: admin.id, email: admin.email, expiresAt: req.session.expiresAt } : null
+    });
   });
 
   // ================ USER STORES ROUTES ================
@@ -168,7 +321,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.get("/api/stores", requireAuth, requireSubscription, async (req: Request, res: Response) => {
     try {
       const stores = await storage.getUserStores(req.user!.id);
-      res.json(stores);
+      res.json(stores.map(serializeUserStore));
     } catch (error) {
       console.error("Error fetching user stores:", error);
       res.status(500).json({ error: "Failed to fetch stores" });
@@ -188,7 +341,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         ebayUsername: validatedData.ebayUsername,
       });
 
-      res.status(201).json(store);
+      res.status(201).json(serializeUserStore(store));
     } catch (error) {
       console.error("Error creating store:", error);
       res.status(400).json({ 
@@ -211,13 +364,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = createUserStoreSchema.partial().parse(req.body);
       const updatedStore = await storage.updateUserStore(id, validatedData);
 
-      res.json(updatedStore);
+      res.json(updatedStore && serializeUserStore(updatedStore));
     } catch (error) {
       console.error("Error updating store:", error);
       res.status(400).json({ error: "Failed to update store" });
     }
   });
 
+  // Update a store's recurring re-analysis schedule
+  app.put("/api/stores/:id/schedule", requireAuth, requireSubscription, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const store = await storage.getUserStore(id);
+      
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const validatedData = updateStoreScheduleSchema.parse(req.body);
+      const updatedStore = await storage.updateUserStore(id, {
+        analysisSchedule: validatedData.schedule,
+        // Counting from the last analysis lets an overdue store run on the next scheduler check
+        nextScheduledAnalysisAt: getNextScheduledAnalysisAt(validatedData.schedule, store.lastAnalyzedAt || new Date()),
+        ...(validatedData.scoreAlertThreshold !== undefined ? { scoreAlertThreshold: validatedData.scoreAlertThreshold } : {}),
+      });
+
+      res.json(updatedStore && serializeUserStore(updatedStore));
+    } catch (error) {
+      console.error("Error updating store schedule:", error);
+      res.status(400).json({ 
+        error: "Failed to update store schedule", 
+        details: error instanceof Error ? error.message : "Unknown error" 
+      });
+    }
+  });
+
   // Delete user store
   app.delete("/api/stores/:id", requireAuth, requireSubscription, async (req: Request, res: Response) => {
     try {
@@ -236,6 +417,47 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // ================ NOTIFICATION ROUTES ================
+
+  // Get user's notifications
+  app.get("/api/notifications", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const limit = parseInt(req.query.limit as string) || 20;
+      const notifications = await storage.getUserNotifications(req.user!.id, limit);
+      res.json(notifications);
+    } catch (error) {
+      console.error("Error fetching notifications:", error);
+      res.status(500).json({ error: "Failed to fetch notifications" });
+    }
+  });
+
+  // Mark a notification as read
+  app.post("/api/notifications/:id/read", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const notification = await storage.markNotificationRead(parseInt(req.params.id), req.user!.id);
+      
+      if (!notification) {
+        return res.status(404).json({ error: "Notification not found" });
+      }
+
+      res.json(notification);
+    } catch (error) {
+      console.error("Error marking notification read:", error);
+      res.status(500).json({ error: "Failed to update notification" });
+    }
+  });
+
+  // Mark all notifications as read
+  app.post("/api/notifications/read-all", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const updated = await storage.markAllNotificationsRead(req.user!.id);
+      res.json({ updated });
+    } catch (error) {
+      console.error("Error marking notifications read:", error);
+      res.status(500).json({ error: "Failed to update notifications" });
+    }
+  });
+
   // ================ STORE ANALYSIS ROUTES ================
   
   // Store analysis endpoint - Allow guests but give better features to authenticated users
@@ -247,62 +469,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const validatedData = analyzeStoreRequestSchema.parse(req.body);
       console.log("Request validated:", validatedData);
       
-      // Check credits for authenticated users
-      if (req.user) {
-        const userCredits = await storage.getUserCredits(req.user.id);
-        if (userCredits < CREDITS.ANALYSIS_COST) {
-          return handleInsufficientCreditsError(res, CREDITS.ANALYSIS_COST, userCredits);
-        }
-      }
-      
-      let result;
-      let userStoreId = validatedData.userStoreId;
-      
-      if (validatedData.storeType === 'shopify') {
-        result = await analyzeShopifyStore(validatedData.storeUrl!);
-      } else {
-        result = await analyzeEbayStore(validatedData.ebayUsername!);
-      }
-      
-      // Store the analysis result
-      const storedAnalysis = await storage.createStoreAnalysis({
+      // Fetching, screenshots and the AI call run in the background worker;
+      // the client polls /api/analysis-jobs/:id. Authenticated users' credits are held
+      // when the job is queued and charged on success
+      const job = await analysisJobQueue.enqueue({
         userId: req.user?.id || null,
-        userStoreId: userStoreId || null,
-        storeUrl: validatedData.storeUrl || null,
-        storeType: validatedData.storeType,
-        ebayUsername: validatedData.ebayUsername || null,
-        overallScore: result.overallScore,
-        strengths: result.strengths,
-        warnings: result.warnings,
-        critical: result.critical,
-        designScore: result.designScore,
-        productScore: result.productScore,
-        seoScore: result.seoScore,
-        trustScore: result.trustScore,
-        pricingScore: result.pricingScore,
-        conversionScore: result.conversionScore,
-        analysisData: result,
-        suggestions: result.suggestions,
-        summary: result.summary,
-        storeRecap: result.storeRecap,
-        creditsUsed: req.user ? 1 : 0,
-        contentHash: (result as any).contentHash || null
+        userStoreId: req.user ? validatedData.userStoreId || null : null,
+        jobType: 'storefront',
+        payload: {
+          storeType: validatedData.storeType,
+          storeUrl: validatedData.storeUrl,
+          ebayUsername: validatedData.ebayUsername
+        },
+        creditCost: req.user ? CREDITS.ANALYSIS_COST : 0
       });
-
-      // Deduct credits for authenticated users
-      if (req.user) {
-        await storage.deductCredits(req.user.id, CREDITS.ANALYSIS_COST, "Store analysis", storedAnalysis.id);
-
-        // Update store last analyzed timestamp if userStoreId provided
-        if (userStoreId) {
-          await storage.updateUserStore(userStoreId, { lastAnalyzedAt: new Date() });
-        }
-      }
       
-      console.log("Analysis completed successfully");
-      res.json(storedAnalysis);
+      res.status(202).json(serializeAnalysisJob(job));
       
     } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
       handleApiError(error, "analyze store", res);
     }
   });
@@ -314,6 +501,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(analyses);
   }, "fetch user analyses"));
 
+  // Poll a queued analysis job
+  app.get("/api/analysis-jobs/:id", authenticateUser, async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const job = await storage.getAnalysisJob(id);
+
+      // Guest jobs are readable by id, user jobs only by their owner
+      if (!job || (job.userId && (!req.user || job.userId !== req.user.id))) {
+        return res.status(404).json({ error: "Analysis job not found" });
+      }
+
+      const analysis = job.status === 'completed' && job.analysisId
+        ? await storage.getStoreAnalysis(job.analysisId)
+        : undefined;
+      const competitorAnalysis = job.status === 'completed' && job.competitorAnalysisId
+        ? await storage.getCompetitorAnalysis(job.competitorAnalysisId)
+        : undefined;
+
+      res.json({ ...serializeAnalysisJob(job), analysis, competitorAnalysis });
+    } catch (error) {
+      console.error("Error fetching analysis job:", error);
+      res.status(500).json({ error: "Failed to fetch analysis job" });
+    }
+  });
+
   // Get analysis by ID
   app.get("/api/analysis/:id", authenticateUser, async (req: Request, res: Response) => {
     try {
@@ -385,31 +597,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Store not found" });
       }
 
-      if (!store.shopifyAccessToken) {
-        return res.status(400).json({ error: "Store not connected to Shopify" });
+      if (!canSyncProducts(store)) {
+        return res.status(400).json({ error: notConnectedMessage(store) });
       }
 
-      // Fetch products from Shopify
+      // Serve the full catalog from the local mirror (synced on first view)
+      const platform = getPlatformAdapter(store.storeType);
       try {
-        const products = await fetchStoreProducts(store.shopifyDomain, store.shopifyAccessToken);
+        const products = await platform.listProducts(store);
         res.json(products);
-      } catch (shopifyError: any) {
-        console.error("Shopify API Error:", shopifyError.message);
+      } catch (platformError: any) {
+        console.error(`${platform.name} API Error:`, platformError.message);
         
         // If unauthorized, mark store as disconnected
-        if (shopifyError.message.includes('Unauthorized') || shopifyError.message.includes('401')) {
+        if (platformError.statusCode === 401 || platformError.message.includes('Unauthorized') || platformError.message.includes('401')) {
           await storage.updateUserStore(store.id, {
             isConnected: false,
             connectionStatus: 'disconnected'
           });
           
           return res.status(401).json({ 
-            error: "Shopify connection expired. Please reconnect your store.",
+            error: `${platform.name} connection expired. Please reconnect your store.`,
             needsReconnection: true
           });
         }
         
-        throw shopifyError;
+        throw platformError;
       }
     } catch (error) {
       console.error("Error fetching Shopify products:", error);
@@ -417,6 +630,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start a product catalog sync into the local mirror
+  app.post("/api/shopify/sync/:storeId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.storeId));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      if (!canSyncProducts(store)) {
+        return res.status(400).json({ error: notConnectedMessage(store) });
+      }
+
+      requestProductSync(store, { full: req.body?.full === true });
+      res.status(202).json({ status: 'syncing' });
+    } catch (error) {
+      console.error("Error starting product sync:", error);
+      res.status(500).json({ error: "Failed to start product sync" });
+    }
+  });
+
+  // Product mirror sync status
+  app.get("/api/shopify/sync/:storeId", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.storeId));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      res.json({
+        status: isProductSyncRunning(store.id) ? 'syncing' : store.productSyncStatus,
+        error: store.productSyncError,
+        syncedAt: store.productsSyncedAt,
+        productCount: await storage.getShopifyProductCount(store.id)
+      });
+    } catch (error) {
+      console.error("Error fetching product sync status:", error);
+      res.status(500).json({ error: "Failed to fetch sync status" });
+    }
+  });
+
   // Get optimized products for a store
   app.get("/api/shopify/optimized-products/:storeId", requireAuth, async (req: Request, res: Response) => {
     try {
@@ -429,17 +682,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Store not found" });
       }
 
-      // Get all optimizations for this store
-      const optimizations = await storage.getProductOptimizations(store.id);
+      // Get all live optimizations for this store, newest first
+      const optimizations = (await storage.getProductOptimizations(store.id))
+        .filter(opt => opt.status === 'applied');
       
-      // Group optimizations by product and type
+      // Group optimizations by product and type, keeping the newest so it can be reverted
       const optimizedProducts: Record<string, Record<string, any>> = {};
       
       optimizations.forEach(opt => {
         if (!optimizedProducts[opt.shopifyProductId]) {
           optimizedProducts[opt.shopifyProductId] = {};
         }
+        if (optimizedProducts[opt.shopifyProductId][opt.optimizationType]) return;
         optimizedProducts[opt.shopifyProductId][opt.optimizationType] = {
+          id: opt.id,
           optimizedAt: opt.appliedAt,
           originalValue: opt.originalValue,
           optimizedValue: opt.optimizedValue,
@@ -453,6 +709,64 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Revert a single applied optimization back to the original value
+  app.post("/api/optimizations/:id/revert", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { refundCredit } = revertOptimizationSchema.parse(req.body || {});
+
+      const optimization = await storage.getProductOptimization(parseInt(req.params.id));
+      if (!optimization || optimization.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Optimization not found" });
+      }
+
+      const store = await storage.getUserStore(optimization.userStoreId);
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const result = await revertOptimization(store, optimization, { refundCredit });
+      res.json(result);
+    } catch (error: any) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error reverting optimization:", error);
+      res.status(500).json({ error: "Failed to revert optimization" });
+    }
+  });
+
+  // Revert every product optimization applied to a store since a date
+  app.post("/api/stores/:id/optimizations/revert", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { since, refundCredit } = revertStoreOptimizationsSchema.parse(req.body);
+
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      if (!canSyncProducts(store)) {
+        return res.status(400).json({ error: notConnectedMessage(store) });
+      }
+
+      const result = await revertOptimizationsSince(store, since, { refundCredit });
+      res.json({
+        revertedCount: result.reverted.length,
+        creditsRefunded: result.reverted.reduce((total, item) => total + item.creditsRefunded, 0),
+        failed: result.failed
+      });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error reverting store optimizations:", error);
+      res.status(500).json({ error: "Failed to revert optimizations" });
+    }
+  });
+
   // Get AI recommendations for a store
   app.get("/api/ai-recommendations/:storeId", requireAuth, async (req: Request, res: Response) => {
     try {
@@ -522,20 +836,167 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Generate and apply AI recommendation
-  app.post("/api/shopify/apply-recommendation", requireAuth, checkCredits(1), async (req: Request, res: Response) => {
+  // ================ SUGGESTION DRAFT ROUTES ================
+
+  // List a store's suggestion drafts, optionally filtered by status
+  app.get("/api/stores/:id/suggestion-drafts", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { storeId, productId, recommendationType, suggestion } = req.body;
-      const { user } = req;
-      
-      // Debug: Log the incoming request data
-      console.log(`Debug - Apply recommendation request:`, {
-        storeId,
-        productId,
-        recommendationType,
-        suggestion,
-        userId: user.id
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const status = typeof req.query.status === 'string' ? req.query.status as SuggestionDraftStatus : undefined;
+      res.json(await storage.getSuggestionDrafts(store.id, status));
+    } catch (error) {
+      console.error("Error fetching suggestion drafts:", error);
+      res.status(500).json({ error: "Failed to fetch suggestion drafts" });
+    }
+  });
+
+  // Edit the content a draft will publish
+  app.patch("/api/suggestion-drafts/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { content } = updateSuggestionDraftSchema.parse(req.body);
+      const { draft } = await getOwnedDraft(req.user!.id, parseInt(req.params.id));
+      res.json(await updateDraftContent(draft, content));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error updating suggestion draft:", error);
+      res.status(500).json({ error: "Failed to update suggestion draft" });
+    }
+  });
+
+  // Approve a draft; this is when credits are charged
+  app.post("/api/suggestion-drafts/:id/approve", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { draft } = await getOwnedDraft(req.user!.id, parseInt(req.params.id));
+      res.json(await approveDraft(draft));
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error approving suggestion draft:", error);
+      res.status(500).json({ error: "Failed to approve suggestion draft" });
+    }
+  });
+
+  // Publish an approved draft to Shopify verbatim
+  app.post("/api/suggestion-drafts/:id/apply", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { draft, store } = await getOwnedDraft(req.user!.id, parseInt(req.params.id));
+      res.json(await applyDraft(store, draft));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error applying suggestion draft:", error);
+      res.status(500).json({ error: "Failed to apply suggestion draft" });
+    }
+  });
+
+  // Undo an applied draft through its recorded optimization
+  app.post("/api/suggestion-drafts/:id/revert", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { refundCredit } = revertOptimizationSchema.parse(req.body || {});
+      const { draft, store } = await getOwnedDraft(req.user!.id, parseInt(req.params.id));
+
+      const optimization = draft.optimizationId ? await storage.getProductOptimization(draft.optimizationId) : undefined;
+      if (draft.status !== 'applied' || !optimization) {
+        return res.status(409).json({ error: `Only applied drafts can be reverted, this one is ${draft.status}` });
+      }
+
+      res.json(await revertOptimization(store, optimization, { refundCredit }));
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error reverting suggestion draft:", error);
+      res.status(500).json({ error: "Failed to revert suggestion draft" });
+    }
+  });
+
+  // Discard a draft that was never approved
+  app.delete("/api/suggestion-drafts/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { draft } = await getOwnedDraft(req.user!.id, parseInt(req.params.id));
+      if (draft.status !== 'draft') {
+        return res.status(409).json({ error: `Only drafts can be discarded, this one is ${draft.status}` });
+      }
+
+      await storage.deleteSuggestionDraft(draft.id);
+      res.json({ message: "Draft discarded" });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error discarding suggestion draft:", error);
+      res.status(500).json({ error: "Failed to discard suggestion draft" });
+    }
+  });
+
+  // Approve (if needed) and apply a previewed suggestion draft exactly as shown
+  app.post("/api/shopify/apply-recommendation", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { draftId, content } = req.body;
+      if (!draftId) {
+        return res.status(400).json({ error: "draftId is required, generate a suggestion first" });
+      }
+
+      let { draft, store } = await getOwnedDraft(req.user!.id, parseInt(draftId));
+
+      // The preview modal can send edits along with the approval
+      if (typeof content === 'string' && draft.status === 'draft' && content.trim() !== draft.content) {
+        draft = await updateDraftContent(draft, updateSuggestionDraftSchema.parse({ content }).content);
+      }
+      if (draft.status === 'draft') {
+        draft = await approveDraft(draft);
+      }
+
+      const { draft: applied, optimization } = await applyDraft(store, draft);
+
+      res.json({
+        success: true,
+        draftId: applied.id,
+        optimizationId: optimization.id,
+        suggestion: applied.content,
+        original: optimization.originalValue,
+        product: {
+          id: applied.shopifyProductId,
+          type: applied.optimizationType
+        }
       });
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error applying recommendation:", error);
+      res.status(500).json({ error: "Failed to apply recommendation" });
+    }
+  });
+
+  // Generate AI suggestion preview as a draft (doesn't deduct credits)
+  app.post("/api/shopify/generate-suggestion", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { storeId, productId, recommendationType } = req.body;
+      const { user } = req;
 
       // Get the user's store
       const store = await storage.getUserStore(parseInt(storeId));
@@ -543,39 +1004,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ error: "Store not found" });
       }
 
-      if (!store.shopifyAccessToken) {
-        return res.status(400).json({ error: "Store not connected to Shopify" });
+      if (!canSyncProducts(store)) {
+        return res.status(400).json({ error: notConnectedMessage(store) });
       }
 
-      // Check if store has write permissions for products
-      if (!store.shopifyScope?.includes('write_products')) {
-        return res.status(403).json({ 
-          error: "Insufficient permissions",
-          message: "Your store connection needs write permissions to update products. Please reconnect your store to enable AI optimizations.",
-          needsReconnection: true
-        });
+      const platform = getPlatformAdapter(store.storeType);
+      if (!platform.optimizationTypes.includes(recommendationType)) {
+        return res.status(400).json({ error: `${platform.name} products support ${platform.optimizationTypes.join(', ')} suggestions` });
       }
 
-      // First, fetch the current product data using GraphQL
-      const { fetchSingleProduct } = await import('./services/shopifyIntegration.js');
-      const productData = await fetchSingleProduct(store.shopifyDomain, store.shopifyAccessToken, productId);
-      const currentProduct = productData.product;
+      // Previews read from the local product mirror; applying re-reads live data
+      const currentProduct = await getMirroredProduct(store, productId);
 
       if (!currentProduct) {
         return res.status(404).json({ error: "Product not found" });
       }
 
-      // Generate AI optimization using OpenAI
-      let aiSuggestion = '';
-      const updateData: any = {};
+      // Generate AI suggestion (same logic as apply endpoint but without updating)
+      let suggestion = '';
+      let itemSpecifics = '';
       
       if (recommendationType === 'title') {
-        // Use OpenAI to generate a compelling, conversion-focused product title
-        const openai = await import('openai');
-        const openaiClient = new openai.default({ 
-          apiKey: process.env.OPENAI_API_KEY 
-        });
-
+        // Use the configured LLM to generate a compelling, conversion-focused product title
         const titlePrompt = `You are an expert e-commerce copywriter specializing in conversion optimization. Create a compelling, SEO-optimized product title using market-proven keywords.
 
 Current product title: "${currentProduct.title}"
@@ -594,26 +1044,20 @@ Requirements:
 Generate ONLY the new optimized title without quotes or extra formatting:`;
 
         try {
-          const aiResponse = await openaiClient.chat.completions.create({
-            model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+          const aiResponse = await completeChat({
+            feature: 'productCopy',
             messages: [{ role: "user", content: titlePrompt }],
-            max_tokens: 100,
+            maxTokens: 100,
             temperature: 0.7,
           });
           
-          aiSuggestion = aiResponse.choices[0].message.content?.trim().replace(/^"|"$/g, '') || `Premium ${currentProduct.title} | ${currentProduct.product_type || 'Quality Product'}`;
+          suggestion = aiResponse?.trim().replace(/^"|"$/g, '') || `Premium ${currentProduct.title} | ${currentProduct.product_type || 'Quality Product'}`;
         } catch (error) {
-          console.error('OpenAI title generation failed:', error);
-          aiSuggestion = `Premium ${currentProduct.title} | ${currentProduct.product_type || 'Quality Product'}`;
+          console.error('AI title generation failed:', error);
+          suggestion = `Premium ${currentProduct.title} | ${currentProduct.product_type || 'Quality Product'}`;
         }
-        updateData.title = aiSuggestion;
       } else if (recommendationType === 'description') {
-        // Use OpenAI to generate enhanced description
-        const openai = await import('openai');
-        const openaiClient = new openai.default({ 
-          apiKey: process.env.OPENAI_API_KEY 
-        });
-
+        // Use the configured LLM to generate enhanced description
         const descriptionPrompt = `You are an expert e-commerce copywriter specializing in conversion optimization. Create a compelling product description using market-proven keywords and conversion techniques.
 
 Product: ${currentProduct.title}
@@ -634,317 +1078,89 @@ Requirements:
 Generate ONLY the clean description text without HTML tags, quotes, or extra formatting:`;
 
         try {
-          const aiResponse = await openaiClient.chat.completions.create({
-            model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+          const aiResponse = await completeChat({
+            feature: 'productCopy',
             messages: [{ role: "user", content: descriptionPrompt }],
-            max_tokens: 300,
+            maxTokens: 300,
             temperature: 0.7,
           });
           
-          aiSuggestion = aiResponse.choices[0].message.content?.trim().replace(/^"|"$/g, '') || `Experience the exceptional quality of our ${currentProduct.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.`;
+          suggestion = aiResponse?.trim().replace(/^"|"$/g, '') || `Experience the exceptional quality of our ${currentProduct.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.`;
         } catch (error) {
-          console.error('OpenAI description generation failed:', error);
-          aiSuggestion = `Experience the exceptional quality of our ${currentProduct.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.`;
+          console.error('AI description generation failed:', error);
+          suggestion = `Experience the exceptional quality of our ${currentProduct.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.`;
         }
-        updateData.body_html = `<p>${aiSuggestion}</p>`;
       } else if (recommendationType === 'pricing') {
-        // Use OpenAI to generate optimized pricing with comprehensive market analysis
-        const openai = await import('openai');
-        const openaiClient = new openai.default({ 
-          apiKey: process.env.OPENAI_API_KEY 
-        });
+        const currentPrice = parseFloat(currentProduct.variants?.[0]?.price || '0');
+        suggestion = currentPrice > 10 ? 
+          (Math.floor(currentPrice) - 0.01).toFixed(2) :
+          (currentPrice * 0.95).toFixed(2);
+      } else if (recommendationType === 'item_specifics') {
+        // Item specifics aren't mirrored, so read them from the live listing
+        const listing = await platform.getProduct(store, productId);
+        itemSpecifics = listing?.item_specifics || '';
 
-        const pricingPrompt = `You are an expert e-commerce pricing strategist. Analyze this product and recommend an optimized price based on market psychology, competitive positioning, and conversion optimization.
+        const specificsPrompt = `You are an eBay listing optimization expert. eBay search and filters rank listings on their item specifics, so complete and accurate ones increase visibility.
 
-Product: ${currentProduct.title}
-Product type: ${currentProduct.product_type || 'Product'}
-Vendor: ${currentProduct.vendor || 'Brand'}
-Current price: $${currentProduct.variants?.[0]?.price || 'Unknown'}
-Compare at price: $${currentProduct.variants?.[0]?.compare_at_price || 'None'}
-Product tags: ${currentProduct.tags || 'None'}
-Created: ${currentProduct.created_at || 'Unknown'}
-
-Market Analysis Requirements:
-1. Apply psychological pricing principles (e.g., $19.99 vs $20.00)
-2. Consider product category positioning and market standards  
-3. Factor in competitive landscape and value perception
-4. Account for product lifecycle stage and inventory considerations
-5. Balance conversion optimization with profit margins
-6. Consider seasonal demand patterns if applicable
-
-Pricing Strategy Factors:
-- Premium positioning: Higher-end pricing for luxury/quality perception
-- Value positioning: Competitive pricing for volume sales
-- Psychological anchoring: Use of .99, .95, .97 endings
-- Bundle opportunities: Consider tiered pricing structures
-
-Return ONLY a JSON object with this exact format:
-{
-  "recommendedPrice": "XX.XX",
-  "reasoning": "Brief explanation of pricing strategy used",
-  "priceType": "premium|value|psychological|competitive"
-}`;
+Listing title: "${currentProduct.title}"
+Description: ${currentProduct.body_html?.replace(/<[^>]*>/g, '').substring(0, 300) || 'No description available'}
+Current item specifics:
+${itemSpecifics || 'None'}
+
+Requirements:
+- Keep every current item specific that is accurate
+- Add the item specifics buyers filter on for this kind of product (Brand, Type, Color, Material, Size, Model, etc.) where the title or description supports them
+- Never invent facts that the listing does not support
+- One item specific per line as "Name: value", separating multiple values with commas
+
+Generate ONLY the item specifics lines without extra formatting:`;
 
         try {
-          const aiResponse = await openaiClient.chat.completions.create({
-            model: "gpt-4o",
-            messages: [{ role: "user", content: pricingPrompt }],
-            max_tokens: 200,
+          const aiResponse = await completeChat({
+            feature: 'productCopy',
+            messages: [{ role: "user", content: specificsPrompt }],
+            maxTokens: 300,
             temperature: 0.3,
-            response_format: { type: "json_object" }
           });
-          
-          const pricingData = JSON.parse(aiResponse.choices[0].message.content || '{}');
-          
-          if (pricingData.recommendedPrice && !isNaN(parseFloat(pricingData.recommendedPrice))) {
-            aiSuggestion = pricingData.recommendedPrice;
-            updateData.variants = [{
-              id: currentProduct.variants[0]?.id,
-              price: pricingData.recommendedPrice
-            }];
-          } else {
-            // Fallback to psychological pricing
-            const currentPrice = parseFloat(currentProduct.variants?.[0]?.price || '0');
-            const optimizedPrice = currentPrice > 10 ? 
-              (Math.floor(currentPrice) - 0.01).toFixed(2) : 
-              (currentPrice * 0.95).toFixed(2);
-            aiSuggestion = optimizedPrice;
-            updateData.variants = [{
-              id: currentProduct.variants[0]?.id,
-              price: optimizedPrice
-            }];
-          }
+
+          suggestion = aiResponse?.trim() || itemSpecifics;
         } catch (error) {
-          console.error('OpenAI pricing optimization failed:', error);
-          // Fallback to psychological pricing
-          const currentPrice = parseFloat(currentProduct.variants?.[0]?.price || '0');
-          const optimizedPrice = currentPrice > 10 ? 
-            (Math.floor(currentPrice) - 0.01).toFixed(2) : 
-            (currentPrice * 0.95).toFixed(2);
-          aiSuggestion = optimizedPrice;
-          updateData.variants = [{
-            id: currentProduct.variants[0]?.id,
-            price: optimizedPrice
-          }];
+          console.error('AI item specifics generation failed:', error);
+          suggestion = itemSpecifics;
+        }
+        if (!suggestion) {
+          return res.status(422).json({ error: "No item specifics could be generated for this listing" });
         }
       } else if (recommendationType === 'keywords') {
-        // Use OpenAI to generate optimized keywords/tags
-        const openai = await import('openai');
-        const openaiClient = new openai.default({ 
-          apiKey: process.env.OPENAI_API_KEY 
-        });
-
-        const keywordsPrompt = `You are an expert e-commerce SEO specialist. Generate optimized keywords and tags for this product to improve searchability and categorization.
-
-Product: ${currentProduct.title}
-Product type: ${currentProduct.product_type || 'Product'}
-Vendor: ${currentProduct.vendor || 'Brand'}
-Current tags: ${currentProduct.tags || 'None'}
-Price: $${currentProduct.variants?.[0]?.price || 'Unknown'}
-
-Requirements:
-- Generate 8-12 relevant, high-impact keywords/tags
-- Include both broad and specific search terms
-- Mix of category terms, feature descriptors, and benefit keywords
-- Consider seasonal and trending keywords when applicable
-- Include brand and product type variations
-- Separate keywords with commas
-- Focus on terms customers actually search for
-
-Generate ONLY the comma-separated list of optimized keywords, nothing else:`;
-
-        try {
-          const aiResponse = await openaiClient.chat.completions.create({
-            model: "gpt-4o",
-            messages: [{ role: "user", content: keywordsPrompt }],
-            max_tokens: 150,
-            temperature: 0.7,
-          });
-          
-          aiSuggestion = aiResponse.choices[0].message.content?.trim() || `${currentProduct.product_type || 'product'}, quality, premium, ${currentProduct.vendor || 'brand'}`;
-        } catch (error) {
-          console.error('OpenAI keywords generation failed:', error);
-          // Fallback to basic keyword generation
-          const productType = currentProduct.product_type?.toLowerCase() || '';
-          const vendor = currentProduct.vendor?.toLowerCase() || '';
-          const titleWords = currentProduct.title.toLowerCase().split(' ').filter(word => word.length > 3);
-          aiSuggestion = [
-            ...titleWords.slice(0, 3),
-            productType,
-            vendor,
-            'premium',
-            'quality',
-            'bestseller'
-          ].filter(Boolean).join(', ');
-        }
-        updateData.tags = aiSuggestion;
+        const productType = currentProduct.product_type?.toLowerCase() || '';
+        const titleWords = currentProduct.title.toLowerCase().split(' ').filter(word => word.length > 3);
+        suggestion = [...titleWords.slice(0, 3), productType, 'premium', 'quality'].filter(Boolean).join(', ');
       }
 
-      // Debug: Log the update data being sent to Shopify
-      console.log(`Debug - ${recommendationType} optimization updateData:`, JSON.stringify(updateData, null, 2));
-      
-      // Update product via Shopify API
-      const updateResult = await updateProduct(store.shopifyDomain, store.shopifyAccessToken, productId, updateData);
-      console.log(`Debug - Shopify update result for ${recommendationType}:`, updateResult ? 'Success' : 'Failed');
-
-      // Deduct credit
-      await storage.deductCredits(user.id, 1, `AI optimized ${recommendationType} for "${currentProduct.title}"`);
-
-      // Record the optimization
-      await storage.recordProductOptimization({
+      // Persist the suggestion so the exact text previewed is what gets applied
+      const draft = await storage.createSuggestionDraft({
         userId: user.id,
         userStoreId: store.id,
-        shopifyProductId: productId,
+        shopifyProductId: String(productId),
+        shopifyVariantId: recommendationType === 'pricing' ? currentProduct.variants?.[0]?.id || null : null,
         optimizationType: recommendationType,
         originalValue: recommendationType === 'title' ? currentProduct.title :
-                       recommendationType === 'description' ? (currentProduct.body_html || 'No description') :
+                       recommendationType === 'description' ? currentProduct.body_html :
                        recommendationType === 'pricing' ? currentProduct.variants?.[0]?.price :
-                       currentProduct.tags || 'No tags',
-        optimizedValue: aiSuggestion,
-        creditsUsed: 1,
-      });
-
-      res.json({ 
-        success: true, 
-        suggestion: aiSuggestion,
-        original: recommendationType === 'title' ? currentProduct.title :
-                  recommendationType === 'description' ? (currentProduct.body_html || 'No description') :
-                  recommendationType === 'pricing' ? currentProduct.variants?.[0]?.price :
-                  currentProduct.tags || 'No tags',
-        product: {
-          id: currentProduct.id,
-          title: currentProduct.title,
-          type: currentProduct.product_type,
-          price: currentProduct.variants?.[0]?.price
-        }
+                       recommendationType === 'item_specifics' ? itemSpecifics :
+                       currentProduct.tags,
+        suggestedValue: suggestion,
+        content: suggestion,
       });
-    } catch (error) {
-      console.error("Error applying recommendation:", error);
-      res.status(500).json({ error: "Failed to apply recommendation" });
-    }
-  });
-
-  // Generate AI suggestion preview (doesn't deduct credits)
-  app.post("/api/shopify/generate-suggestion", requireAuth, async (req: Request, res: Response) => {
-    try {
-      const { storeId, productId, recommendationType } = req.body;
-      const { user } = req;
-
-      // Get the user's store
-      const store = await storage.getUserStore(parseInt(storeId));
-      if (!store || store.userId !== user.id) {
-        return res.status(404).json({ error: "Store not found" });
-      }
-
-      if (!store.shopifyAccessToken) {
-        return res.status(400).json({ error: "Store not connected to Shopify" });
-      }
-
-      // Fetch the current product data using GraphQL
-      const { fetchSingleProduct } = await import('./services/shopifyIntegration.js');
-      const productData = await fetchSingleProduct(store.shopifyDomain, store.shopifyAccessToken, productId);
-      const currentProduct = productData.product;
-
-      if (!currentProduct) {
-        return res.status(404).json({ error: "Product not found" });
-      }
-
-      // Generate AI suggestion (same logic as apply endpoint but without updating)
-      let suggestion = '';
-      
-      if (recommendationType === 'title') {
-        // Use OpenAI to generate a compelling, conversion-focused product title
-        const openai = await import('openai');
-        const openaiClient = new openai.default({ 
-          apiKey: process.env.OPENAI_API_KEY 
-        });
-
-        const titlePrompt = `You are an expert e-commerce copywriter specializing in conversion optimization. Create a compelling, SEO-optimized product title using market-proven keywords.
-
-Current product title: "${currentProduct.title}"
-Product type: ${currentProduct.product_type || 'Product'}
-Vendor: ${currentProduct.vendor || 'Unknown'}
-Price: $${currentProduct.variants?.[0]?.price || 'Unknown'}
-
-Requirements:
-- Keep it under 60 characters for optimal display
-- Use high-converting market keywords for this product category
-- Include power words that drive sales (Premium, Professional, Best, Quality, Limited, Exclusive, etc.)
-- Optimize for search engines and customer appeal
-- Focus on benefits and value proposition
-- Use psychological triggers that increase click-through rates
-
-Generate ONLY the new optimized title without quotes or extra formatting:`;
-
-        try {
-          const aiResponse = await openaiClient.chat.completions.create({
-            model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-            messages: [{ role: "user", content: titlePrompt }],
-            max_tokens: 100,
-            temperature: 0.7,
-          });
-          
-          suggestion = aiResponse.choices[0].message.content?.trim().replace(/^"|"$/g, '') || `Premium ${currentProduct.title} | ${currentProduct.product_type || 'Quality Product'}`;
-        } catch (error) {
-          console.error('OpenAI title generation failed:', error);
-          suggestion = `Premium ${currentProduct.title} | ${currentProduct.product_type || 'Quality Product'}`;
-        }
-      } else if (recommendationType === 'description') {
-        // Use OpenAI to generate enhanced description
-        const openai = await import('openai');
-        const openaiClient = new openai.default({ 
-          apiKey: process.env.OPENAI_API_KEY 
-        });
-
-        const descriptionPrompt = `You are an expert e-commerce copywriter specializing in conversion optimization. Create a compelling product description using market-proven keywords and conversion techniques.
-
-Product: ${currentProduct.title}
-Product type: ${currentProduct.product_type || 'Product'}
-Vendor: ${currentProduct.vendor || 'Unknown'}
-Price: $${currentProduct.variants?.[0]?.price || 'Unknown'}
-Current Description: ${currentProduct.body_html?.replace(/<[^>]*>/g, '').substring(0, 200) || 'No description available'}
-
-Requirements:
-- Use high-converting market keywords for this product category
-- Write 2-3 compelling paragraphs (150-250 words total)
-- Include emotional triggers and benefits-focused language
-- Add urgency or scarcity elements where appropriate
-- Use power words that drive action (Exclusive, Limited, Premium, Professional, etc.)
-- Focus on customer problems this product solves
-- End with a clear call-to-action
-
-Generate ONLY the clean description text without HTML tags, quotes, or extra formatting:`;
-
-        try {
-          const aiResponse = await openaiClient.chat.completions.create({
-            model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-            messages: [{ role: "user", content: descriptionPrompt }],
-            max_tokens: 300,
-            temperature: 0.7,
-          });
-          
-          suggestion = aiResponse.choices[0].message.content?.trim().replace(/^"|"$/g, '') || `Experience the exceptional quality of our ${currentProduct.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.`;
-        } catch (error) {
-          console.error('OpenAI description generation failed:', error);
-          suggestion = `Experience the exceptional quality of our ${currentProduct.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.`;
-        }
-      } else if (recommendationType === 'pricing') {
-        const currentPrice = parseFloat(currentProduct.variants?.[0]?.price || '0');
-        suggestion = currentPrice > 10 ? 
-          (Math.floor(currentPrice) - 0.01).toFixed(2) :
-          (currentPrice * 0.95).toFixed(2);
-      } else if (recommendationType === 'keywords') {
-        const productType = currentProduct.product_type?.toLowerCase() || '';
-        const titleWords = currentProduct.title.toLowerCase().split(' ').filter(word => word.length > 3);
-        suggestion = [...titleWords.slice(0, 3), productType, 'premium', 'quality'].filter(Boolean).join(', ');
-      }
 
       res.json({
         success: true,
+        draftId: draft.id,
         suggestion,
         original: recommendationType === 'title' ? currentProduct.title :
                   recommendationType === 'description' ? (currentProduct.body_html?.replace(/<[^>]*>/g, '').substring(0, 100) + '...' || 'No description') :
                   recommendationType === 'pricing' ? currentProduct.variants?.[0]?.price :
+                  recommendationType === 'item_specifics' ? itemSpecifics || 'No item specifics' :
                   currentProduct.tags || 'No tags',
         product: {
           id: currentProduct.id,
@@ -960,346 +1176,287 @@ Generate ONLY the clean description text without HTML tags, quotes, or extra for
     }
   });
 
-  // Apply bulk recommendations
+  // Queue a bulk optimization; the client polls the job for per-product results
   app.post("/api/shopify/apply-bulk-recommendations", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { storeId, recommendationType, productIds } = req.body;
+      const { storeId, recommendationType, productIds } = createBulkOptimizationSchema.parse(req.body);
       const { user } = req;
 
-      // Check if user has enough credits
-      const userCredits = await storage.getUserCredits(user.id);
-      if (userCredits < productIds.length) {
-        return res.status(402).json({ 
-          error: "Insufficient credits",
-          required: productIds.length,
-          available: userCredits
-        });
-      }
-
       // Get the user's store
-      const store = await storage.getUserStore(parseInt(storeId));
+      const store = await storage.getUserStore(storeId);
       if (!store || store.userId !== user.id) {
         return res.status(404).json({ error: "Store not found" });
       }
 
-      if (!store.shopifyAccessToken) {
-        return res.status(400).json({ error: "Store not connected to Shopify" });
+      if (!canSyncProducts(store)) {
+        return res.status(400).json({ error: notConnectedMessage(store) });
       }
 
-      let appliedCount = 0;
-      let creditsUsed = 0;
-
-      // Apply recommendations to each product with real AI generation
-      for (const productId of productIds) {
-        try {
-          // Fetch current product data for AI optimization using GraphQL
-          const { fetchSingleProduct } = await import('./services/shopifyIntegration.js');
-          const productData = await fetchSingleProduct(store.shopifyDomain, store.shopifyAccessToken, productId);
-          const currentProduct = productData.product;
-
-          if (!currentProduct) {
-            console.error(`Product ${productId} not found`);
-            continue;
-          }
+      const platform = getPlatformAdapter(store.storeType);
+      if (!platform.optimizationTypes.includes(recommendationType)) {
+        return res.status(400).json({ error: `${platform.name} products support ${platform.optimizationTypes.join(', ')} optimizations` });
+      }
 
-          const updateData: any = {};
-          
-          if (recommendationType === 'title') {
-            // Use OpenAI to generate optimized title for each product
-            const openai = await import('openai');
-            const openaiClient = new openai.default({ 
-              apiKey: process.env.OPENAI_API_KEY 
-            });
+      // Credits for every product are held now and charged per successful product
+      const job = await bulkOptimizationQueue.enqueue({
+        userId: user.id,
+        userStoreId: store.id,
+        optimizationType: recommendationType,
+        productIds,
+      });
 
-            const titlePrompt = `You are an expert e-commerce copywriter. Create a compelling, SEO-optimized product title that will increase sales and conversions.
+      res.status(202).json(job);
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error queueing bulk recommendations:", error);
+      res.status(500).json({ error: "Failed to apply bulk recommendations" });
+    }
+  });
 
-Current product title: "${currentProduct.title}"
-Product type: ${currentProduct.product_type || 'Product'}
-Price: $${currentProduct.variants?.[0]?.price || 'Unknown'}
+  // Recent bulk optimization runs for a store
+  app.get("/api/stores/:id/bulk-optimization-jobs", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
 
-Requirements:
-- Keep it under 60 characters for optimal display
-- Make it more professional and conversion-focused
-- Include power words that drive sales (Premium, Professional, Best, Quality, etc.)
-- Optimize for search engines and customer appeal
-- Focus on benefits and value proposition
+      res.json(await storage.getBulkOptimizationJobs(store.id));
+    } catch (error) {
+      console.error("Error fetching bulk optimization jobs:", error);
+      res.status(500).json({ error: "Failed to fetch bulk optimization jobs" });
+    }
+  });
 
-Generate ONLY the new optimized title, nothing else:`;
+  // Job progress with the result of every product
+  app.get("/api/bulk-optimization-jobs/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getBulkOptimizationJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Job not found" });
+      }
 
-            try {
-              const aiResponse = await openaiClient.chat.completions.create({
-                model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-                messages: [{ role: "user", content: titlePrompt }],
-                max_tokens: 100,
-                temperature: 0.7,
-              });
-              
-              updateData.title = aiResponse.choices[0].message.content?.trim() || `Premium ${currentProduct.title}`;
-            } catch (error) {
-              console.error('OpenAI title generation failed for bulk update:', error);
-              updateData.title = `Premium ${currentProduct.title}`;
-            }
-          } else if (recommendationType === 'description') {
-            // Use OpenAI to generate personalized description for each product
-            const openai = await import('openai');
-            const openaiClient = new openai.default({ 
-              apiKey: process.env.OPENAI_API_KEY 
-            });
+      const items = await storage.getBulkOptimizationItems(job.id);
+      res.json({ ...job, items });
+    } catch (error) {
+      console.error("Error fetching bulk optimization job:", error);
+      res.status(500).json({ error: "Failed to fetch bulk optimization job" });
+    }
+  });
 
-            const descriptionPrompt = `You are an expert e-commerce copywriter specializing in conversion optimization. Create a compelling product description using market-proven keywords and conversion techniques.
+  app.post("/api/bulk-optimization-jobs/:id/cancel", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const job = await storage.getBulkOptimizationJob(parseInt(req.params.id));
+      if (!job || job.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Job not found" });
+      }
+      if (job.status !== 'queued' && job.status !== 'running') {
+        return res.status(409).json({ error: `Job is already ${job.status}` });
+      }
 
-Product: ${currentProduct.title}
-Product type: ${currentProduct.product_type || 'Product'}
-Vendor: ${currentProduct.vendor || 'Brand'}
-Current price: $${currentProduct.variants?.[0]?.price || 'Unknown'}
-Current description: ${currentProduct.body_html?.replace(/<[^>]*>/g, '').substring(0, 200) || 'No description'}
+      res.json(await bulkOptimizationQueue.cancel(job));
+    } catch (error) {
+      console.error("Error cancelling bulk optimization job:", error);
+      res.status(500).json({ error: "Failed to cancel bulk optimization job" });
+    }
+  });
 
-Requirements:
-- Create a unique, compelling description for THIS specific product
-- Use emotional triggers and benefits-focused language
-- Include relevant SEO keywords naturally
-- Structure with bullet points for key features/benefits
-- Highlight unique selling propositions
-- Focus on customer problems this product solves
-- End with a clear call-to-action
-- Keep it engaging and scannable (150-250 words)
+  // ================ SHOPIFY GDPR WEBHOOK ROUTES ================
+  
+  // Customer data request webhook (GDPR compliance)
+  app.post("/api/webhooks/shopify/customers/data_request", express.raw({ type: 'application/json' }), complianceWebhookHandler('customers/data_request'));
 
-Generate ONLY the clean description text without HTML tags, quotes, or extra formatting:`;
+  // Customer data deletion webhook (GDPR compliance)
+  app.post("/api/webhooks/shopify/customers/redact", express.raw({ type: 'application/json' }), complianceWebhookHandler('customers/redact'));
 
-            try {
-              const aiResponse = await openaiClient.chat.completions.create({
-                model: "gpt-4o",
-                messages: [{ role: "user", content: descriptionPrompt }],
-                max_tokens: 300,
-                temperature: 0.7,
-              });
-              
-              updateData.body_html = `<p>${aiResponse.choices[0].message.content?.trim() || `Experience the exceptional quality of our ${currentProduct.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.`}</p>`;
-            } catch (error) {
-              console.error('OpenAI description generation failed for bulk update:', error);
-              updateData.body_html = `<p>Experience the exceptional quality of our ${currentProduct.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.</p>`;
-            }
-          } else if (recommendationType === 'keywords') {
-            // Use OpenAI to generate optimized keywords/tags for each product
-            const openai = await import('openai');
-            const openaiClient = new openai.default({ 
-              apiKey: process.env.OPENAI_API_KEY 
-            });
+  // Shop data deletion webhook (GDPR compliance)
+  app.post("/api/webhooks/shopify/shop/redact", express.raw({ type: 'application/json' }), complianceWebhookHandler('shop/redact'));
 
-            const keywordsPrompt = `You are an expert e-commerce SEO specialist. Generate optimized keywords and tags for this product to improve searchability and categorization.
+  // Compliance audit trail, shown to Shopify during app review
+  app.get("/api/admin/compliance-requests", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const requests = await storage.getComplianceRequests();
+      await recordAdminAction(req.user!, 'compliance_requests_view');
+      // Export bundles can be large, they are downloaded one at a time below
+      res.json(requests.map(({ exportData, ...request }) => ({ ...request, hasExport: !!exportData })));
+    } catch (error) {
+      console.error('Error fetching compliance requests:', error);
+      res.status(500).json({ error: 'Failed to fetch compliance requests' });
+    }
+  });
 
-Product: ${currentProduct.title}
-Product type: ${currentProduct.product_type || 'Product'}
-Vendor: ${currentProduct.vendor || 'Brand'}
-Current tags: ${currentProduct.tags || 'None'}
-Price: $${currentProduct.variants?.[0]?.price || 'Unknown'}
+  // Download the bundle produced for a customers/data_request
+  app.get("/api/admin/compliance-requests/:id/export", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const request = await storage.getComplianceRequest(parseInt(req.params.id));
+      if (!request || !request.exportData) {
+        return res.status(404).json({ error: 'Export not found' });
+      }
+      await recordAdminAction(req.user!, 'compliance_export_download', { details: { complianceRequestId: request.id } });
 
-Requirements:
-- Generate 8-12 relevant, high-impact keywords/tags
-- Include both broad and specific search terms
-- Mix of category terms, feature descriptors, and benefit keywords
-- Consider seasonal and trending keywords when applicable
-- Include brand and product type variations
-- Separate keywords with commas
-- Focus on terms customers actually search for
+      res.setHeader('Content-Disposition', `attachment; filename="customer-data-request-${request.id}.json"`);
+      res.json(request.exportData);
+    } catch (error) {
+      console.error('Error exporting compliance request:', error);
+      res.status(500).json({ error: 'Failed to export compliance request' });
+    }
+  });
 
-Generate ONLY the comma-separated list of optimized keywords, nothing else:`;
+  // ================ ADMIN CONSOLE ROUTES ================
 
-            try {
-              const aiResponse = await openaiClient.chat.completions.create({
-                model: "gpt-4o",
-                messages: [{ role: "user", content: keywordsPrompt }],
-                max_tokens: 150,
-                temperature: 0.7,
-              });
-              
-              updateData.tags = aiResponse.choices[0].message.content?.trim() || `${currentProduct.product_type || 'product'}, quality, premium, ${currentProduct.vendor || 'brand'}`;
-            } catch (error) {
-              console.error('OpenAI keywords generation failed for bulk update:', error);
-              updateData.tags = `${currentProduct.product_type || 'product'}, quality, premium, ${currentProduct.vendor || 'brand'}`;
-            }
-          } else if (recommendationType === 'pricing') {
-            // Use OpenAI to generate optimized pricing for each product
-            const openai = await import('openai');
-            const openaiClient = new openai.default({ 
-              apiKey: process.env.OPENAI_API_KEY 
-            });
+  // Search users by email, name or id
+  app.get("/api/admin/users", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+      const users = await storage.searchUsers(query, ADMIN_CONSOLE.SEARCH_LIMIT);
+      await recordAdminAction(req.user!, 'user_search', { details: { query, resultCount: users.length } });
+      res.json(users.map(serializeUser));
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to search users');
+    }
+  });
 
-            const pricingPrompt = `You are an expert e-commerce pricing strategist. Analyze this product and recommend an optimized price based on market psychology, competitive positioning, and conversion optimization.
+  // One user's stores, analyses, credit history, subscriptions and past admin actions
+  app.get("/api/admin/users/:id", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const overview = await getUserOverview(parseInt(req.params.id));
+      await recordAdminAction(req.user!, 'user_view', { userId: overview.user.id });
+      res.json({
+        ...overview,
+        user: serializeUser(overview.user),
+        stores: overview.stores.map(serializeUserStore),
+        // Full reports are large; the list links to the analysis itself
+        analyses: overview.analyses.map(({ analysisData, ...analysis }) => analysis),
+      });
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to fetch user');
+    }
+  });
 
-Product: ${currentProduct.title}
-Product type: ${currentProduct.product_type || 'Product'}
-Vendor: ${currentProduct.vendor || 'Brand'}
-Current price: $${currentProduct.variants?.[0]?.price || 'Unknown'}
-Compare at price: $${currentProduct.variants?.[0]?.compare_at_price || 'None'}
-Product tags: ${currentProduct.tags || 'None'}
-Created: ${currentProduct.created_at || 'Unknown'}
-
-Market Analysis Requirements:
-1. Apply psychological pricing principles (e.g., $19.99 vs $20.00)
-2. Consider product category positioning and market standards
-3. Factor in competitive landscape and value perception
-4. Account for product lifecycle stage and inventory considerations
-5. Balance conversion optimization with profit margins
-6. Consider seasonal demand patterns if applicable
-
-Pricing Strategy Factors:
-- Premium positioning: Higher-end pricing for luxury/quality perception
-- Value positioning: Competitive pricing for volume sales
-- Psychological anchoring: Use of .99, .95, .97 endings
-- Bundle opportunities: Consider tiered pricing structures
-
-Return ONLY a JSON object with this exact format:
-{
-  "recommendedPrice": "XX.XX",
-  "reasoning": "Brief explanation of pricing strategy used",
-  "priceType": "premium|value|psychological|competitive"
-}`;
+  // Grant or revoke credits
+  app.post("/api/admin/users/:id/credits", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const request = adminCreditAdjustmentSchema.parse(req.body);
+      const user = await adjustUserCredits(req.user!, parseInt(req.params.id), request);
+      res.json(serializeUser(user));
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to adjust credits');
+    }
+  });
 
-            try {
-              const aiResponse = await openaiClient.chat.completions.create({
-                model: "gpt-4o",
-                messages: [{ role: "user", content: pricingPrompt }],
-                max_tokens: 200,
-                temperature: 0.3,
-                response_format: { type: "json_object" }
-              });
-              
-              const pricingData = JSON.parse(aiResponse.choices[0].message.content || '{}');
-              
-              if (pricingData.recommendedPrice && !isNaN(parseFloat(pricingData.recommendedPrice))) {
-                updateData.variants = [{
-                  id: currentProduct.variants?.[0]?.id,
-                  price: pricingData.recommendedPrice
-                }];
-              } else {
-                // Fallback to psychological pricing
-                const currentPrice = parseFloat(currentProduct.variants?.[0]?.price || '0');
-                if (currentPrice > 0) {
-                  const optimizedPrice = currentPrice % 1 === 0 ? (currentPrice - 0.01).toFixed(2) : currentPrice.toFixed(2);
-                  updateData.variants = [{
-                    id: currentProduct.variants?.[0]?.id,
-                    price: optimizedPrice
-                  }];
-                }
-              }
-            } catch (error) {
-              console.error('OpenAI pricing optimization failed for bulk update:', error);
-              // Fallback to psychological pricing
-              const currentPrice = parseFloat(currentProduct.variants?.[0]?.price || '0');
-              if (currentPrice > 0) {
-                const optimizedPrice = currentPrice % 1 === 0 ? (currentPrice - 0.01).toFixed(2) : currentPrice.toFixed(2);
-                updateData.variants = [{
-                  id: currentProduct.variants?.[0]?.id,
-                  price: optimizedPrice
-                }];
-              }
-            }
-          }
+  // Disconnect a store and drop its platform credentials
+  app.post("/api/admin/stores/:id/disconnect", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { reason } = adminReasonRequestSchema.parse(req.body);
+      const store = await forceDisconnectStore(req.user!, parseInt(req.params.id), reason);
+      res.json(serializeUserStore(store));
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to disconnect store');
+    }
+  });
 
-          if (Object.keys(updateData).length > 0) {
-            console.log(`Debug - Bulk ${recommendationType} updateData for product ${productId}:`, JSON.stringify(updateData, null, 2));
-            const bulkUpdateResult = await updateProduct(store.shopifyDomain, store.shopifyAccessToken, productId, updateData);
-            console.log(`Debug - Bulk Shopify update result for ${recommendationType}:`, bulkUpdateResult ? 'Success' : 'Failed');
-            await storage.deductCredits(user.id, 1, `Bulk ${recommendationType} optimization for "${currentProduct.title}"`);
-            
-            // Record the optimization
-            await storage.recordProductOptimization({
-              userId: user.id,
-              userStoreId: store.id,
-              shopifyProductId: productId,
-              optimizationType: recommendationType,
-              originalValue: recommendationType === 'title' ? currentProduct.title :
-                             recommendationType === 'description' ? (currentProduct.body_html || 'No description') :
-                             recommendationType === 'pricing' ? currentProduct.variants?.[0]?.price :
-                             currentProduct.tags || 'No tags',
-              optimizedValue: recommendationType === 'title' ? updateData.title :
-                              recommendationType === 'description' ? updateData.body_html :
-                              recommendationType === 'pricing' ? updateData.variants?.[0]?.price :
-                              recommendationType === 'keywords' ? updateData.tags :
-                              '',
-              creditsUsed: 1,
-            });
-            
-            appliedCount++;
-            creditsUsed++;
-          }
-        } catch (error) {
-          console.error(`Error updating product ${productId}:`, error);
-          // Continue with other products
-        }
-      }
+  // Sign in as the user, read-only, until the session is ended or expires
+  app.post("/api/admin/users/:id/impersonate", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { reason } = adminReasonRequestSchema.parse(req.body);
+      const session = await startImpersonation(req.user!, req.session.id, parseInt(req.params.id), reason);
 
-      res.json({ 
-        success: true, 
-        appliedCount, 
-        creditsUsed,
-        message: `Successfully updated ${appliedCount} products`
+      res.cookie('sessionId', session.id, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        maxAge: ADMIN_CONSOLE.IMPERSONATION_TTL_MS,
+        sameSite: 'lax'
       });
+      res.json({ session: session.id, expiresAt: session.expiresAt });
     } catch (error) {
-      console.error("Error applying bulk recommendations:", error);
-      res.status(500).json({ error: "Failed to apply bulk recommendations" });
+      handleAdminError(res, error, 'Failed to start impersonation');
     }
   });
 
-  // ================ SHOPIFY GDPR WEBHOOK ROUTES ================
-  
-  // Customer data request webhook (GDPR compliance)
-  app.post("/api/webhooks/shopify/customers/data_request", express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
+  // Called from the impersonated session, so the caller is the user being viewed and not an admin
+  app.post("/api/admin/impersonation/end", requireAuth, async (req: Request, res: Response) => {
     try {
-      const hmacHeader = req.get('X-Shopify-Hmac-Sha256');
-      if (!hmacHeader || !validateWebhookSignature(req.body.toString(), hmacHeader)) {
-        return res.status(401).json({ error: 'Unauthorized' });
-      }
+      const { admin, session } = await endImpersonation(req.session);
 
-      const payload = JSON.parse(req.body.toString());
-      console.log('Customer data request received:', payload);
-      
-      // Log the request for compliance purposes
-      // In production, you would implement actual data export logic
-      res.status(200).json({ message: 'Customer data request received' });
+      res.cookie('sessionId', session.id, {
+        httpOnly: true,
+        secure: process.env.NODE_ENV === 'production',
+        maxAge: 30 * 24 * 60 * 60 * 1000, // 30 days
+        sameSite: 'lax'
+      });
+      res.json({ user: serializeUser(admin), session: session.id });
     } catch (error) {
-      console.error('Error processing customer data request:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      handleAdminError(res, error, 'Failed to end impersonation');
     }
   });
 
-  // Customer data deletion webhook (GDPR compliance)
-  app.post("/api/webhooks/shopify/customers/redact", express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
+  // Admin audit trail, optionally for one user
+  app.get("/api/admin/audit-log", requireAuth, requireAdmin, async (req: Request, res: Response) => {
     try {
-      const hmacHeader = req.get('X-Shopify-Hmac-Sha256');
-      if (!hmacHeader || !validateWebhookSignature(req.body.toString(), hmacHeader)) {
-        return res.status(401).json({ error: 'Unauthorized' });
-      }
+      const targetUserId = req.query.userId ? parseInt(req.query.userId as string) : undefined;
+      const entries = await storage.getAdminAuditLogs({ targetUserId, limit: ADMIN_CONSOLE.AUDIT_LOG_LIMIT });
+      await recordAdminAction(req.user!, 'audit_log_view', { userId: targetUserId ?? null });
+      res.json(entries);
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to fetch audit log');
+    }
+  });
 
-      const payload = JSON.parse(req.body.toString());
-      console.log('Customer data deletion request received:', payload);
-      
-      // In production, implement logic to delete customer data
-      // For now, just acknowledge the request
-      res.status(200).json({ message: 'Customer data deletion request received' });
+  // Stripe webhook ledger, optionally only events in one status
+  app.get("/api/admin/stripe-events", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const status = stripeEventStatusSchema.optional().parse(req.query.status || undefined);
+      const events = await storage.getStripeEvents({ status, limit: STRIPE_EVENTS.LIST_LIMIT });
+      await recordAdminAction(req.user!, 'stripe_events_view', { details: { status: status ?? null } });
+      // Payloads are only needed for replays, which read them from the ledger
+      res.json(events.map(({ payload, ...event }) => event));
     } catch (error) {
-      console.error('Error processing customer data deletion:', error);
-      res.status(500).json({ error: 'Internal server error' });
+      handleAdminError(res, error, 'Failed to fetch Stripe events');
     }
   });
 
-  // Shop data deletion webhook (GDPR compliance)
-  app.post("/api/webhooks/shopify/shop/redact", express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
+  // Run a failed Stripe event again
+  app.post("/api/admin/stripe-events/:id/replay", requireAuth, requireAdmin, async (req: Request, res: Response) => {
+    try {
+      const { reason } = adminReasonRequestSchema.parse(req.body);
+      const { payload, ...event } = await replayStripeEvent(req.user!, req.params.id, reason);
+      res.json(event);
+    } catch (error) {
+      handleAdminError(res, error, 'Failed to replay Stripe event');
+    }
+  });
+
+  // ================ SHOPIFY STORE WEBHOOK ROUTES ================
+
+  // Product, shop and uninstall events subscribed at OAuth time
+  app.post("/api/webhooks/shopify/events", express.raw({ type: 'application/json' }), async (req: Request, res: Response) => {
     try {
       const hmacHeader = req.get('X-Shopify-Hmac-Sha256');
       if (!hmacHeader || !validateWebhookSignature(req.body.toString(), hmacHeader)) {
         return res.status(401).json({ error: 'Unauthorized' });
       }
 
+      const topic = req.get('X-Shopify-Topic');
+      const shopDomain = req.get('X-Shopify-Shop-Domain');
+      if (!topic || !shopDomain) {
+        return res.status(400).json({ error: 'Missing webhook topic or shop domain' });
+      }
+
       const payload = JSON.parse(req.body.toString());
-      console.log('Shop data deletion request received:', payload);
-      
-      // In production, implement logic to delete shop-related data
-      // This includes removing store connections and analysis data
-      res.status(200).json({ message: 'Shop data deletion request received' });
+
+      // Shopify retries anything not acknowledged within 5 seconds, so respond before doing the work
+      res.status(200).json({ message: 'Webhook received' });
+
+      handleShopifyWebhook(topic, shopDomain, payload).catch(error => {
+        console.error(`Error processing Shopify ${topic} webhook:`, error);
+      });
     } catch (error) {
-      console.error('Error processing shop data deletion:', error);
+      console.error('Error processing Shopify webhook:', error);
       res.status(500).json({ error: 'Internal server error' });
     }
   });
@@ -1599,39 +1756,23 @@ Return ONLY a JSON object with this exact format:
          message.toLowerCase().includes('which') || message.toLowerCase().includes('show') ||
          message.toLowerCase().includes('weak') || message.toLowerCase().includes('fix'));
       
-      // Cache product data for 5 minutes to avoid repeated API calls
-      const productDataCache = new Map();
-      const CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
-      
       const storesWithProductData = stores.map(store => ({
         id: store.id,
         name: store.name,
         storeUrl: store.storeUrl,
         shopifyDomain: store.shopifyDomain,
-        shopifyAccessToken: store.shopifyAccessToken,
+        isConnected: !!(store.shopifyAccessToken && store.shopifyDomain),
         lastAnalyzed: allAnalyses.find(a => a.userStoreId === store.id)?.createdAt?.toISOString(),
         productCount: 0, // Will be populated if needed
-        lowPerformingProducts: []
+        lowPerformingProducts: [] as any[]
       }));
 
-      // Fetch product data only when specifically needed, with caching
+      // Fetch product data only when specifically needed, from the local product mirror
       if (needsProductData) {
-        await Promise.all(storesWithProductData.map(async (store) => {
-          if (store.shopifyAccessToken && store.shopifyDomain) {
-            const cacheKey = `${store.shopifyDomain}_products`;
-            const cachedData = productDataCache.get(cacheKey);
-            
-            // Use cached data if available and recent
-            if (cachedData && (Date.now() - cachedData.timestamp) < CACHE_DURATION) {
-              store.productCount = cachedData.productCount;
-              store.lowPerformingProducts = cachedData.lowPerformingProducts;
-              return;
-            }
-            
+        await Promise.all(storesWithProductData.map(async (store, index) => {
+          if (store.isConnected) {
             try {
-              const { fetchStoreProducts } = await import('./services/shopifyIntegration.js');
-              const result = await fetchStoreProducts(store.shopifyDomain, store.shopifyAccessToken);
-              const products = result.products || [];
+              const products = await getMirroredProducts(stores[index]);
               
               // Analyze products for performance issues
               const lowPerformingProducts = products.filter(product => {
@@ -1644,17 +1785,8 @@ Return ONLY a JSON object with this exact format:
                 return issueCount >= 2;
               });
 
-              const productData = {
-                productCount: products.length,
-                lowPerformingProducts: lowPerformingProducts.slice(0, 10),
-                timestamp: Date.now()
-              };
-              
-              // Cache the results
-              productDataCache.set(cacheKey, productData);
-              
-              store.productCount = productData.productCount;
-              store.lowPerformingProducts = productData.lowPerformingProducts;
+              store.productCount = products.length;
+              store.lowPerformingProducts = lowPerformingProducts.slice(0, 10);
             } catch (error) {
               console.error('Alex - Failed to fetch products for store', store.name, ':', error);
             }
@@ -1757,7 +1889,8 @@ Return ONLY a JSON object with this exact format:
   // ================ AI AD GENERATION ROUTES ================
   
   // Generate AI-powered ads
-  app.post("/api/generate-ads", requireAuth, checkCredits(1), async (req: Request, res: Response) => {
+  app.post("/api/generate-ads", requireAuth, async (req: Request, res: Response) => {
+    let hold: CreditHold | undefined;
     try {
       const { storeId, productId, isWholeStore, platform, adStyle, format, variants, targetAudience } = req.body;
       const { user } = req;
@@ -1773,6 +1906,10 @@ Return ONLY a JSON object with this exact format:
         return res.status(404).json({ error: "Store not found" });
       }
 
+      // 1 credit per generation batch, regardless of number of variants
+      const creditsUsed = 1;
+      hold = await reserveCredits(user.id, creditsUsed, 'AI ad generation');
+
       let productData = null;
       let storeData = {
         name: store.name,
@@ -1783,9 +1920,7 @@ Return ONLY a JSON object with this exact format:
       // If product-specific ad, fetch product data
       if (!isWholeStore && productId && store.shopifyAccessToken) {
         try {
-          const { fetchSingleProduct } = await import('./services/shopifyIntegration.js');
-          const result = await fetchSingleProduct(store.shopifyDomain, store.shopifyAccessToken, productId);
-          productData = result.product;
+          productData = await getMirroredProduct(store, productId);
         } catch (error) {
           console.error('Error fetching product data:', error);
           return res.status(400).json({ error: "Failed to fetch product data" });
@@ -1793,11 +1928,6 @@ Return ONLY a JSON object with this exact format:
       }
 
       // Generate AI-powered visual ads
-      const openai = await import('openai');
-      const openaiClient = new openai.default({ 
-        apiKey: process.env.OPENAI_API_KEY 
-      });
-
       const promptBase = `You are a professional creative director and copywriter specializing in high-converting visual ${platform} ads. Create compelling, platform-optimized visual ads with specific design instructions.`;
       
       let productInfo = '';
@@ -1899,19 +2029,19 @@ Return in JSON format:
   ]
 }`;
 
-      console.log('Debug - Generating ads with OpenAI...');
+      console.log('Debug - Generating ads with LLM...');
       
-      const aiResponse = await openaiClient.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const aiResponse = await completeChat({
+        feature: 'ads',
         messages: [{ role: "user", content: adPrompt }],
-        max_tokens: 1500,
+        maxTokens: 1500,
         temperature: 0.8,
-        response_format: { type: "json_object" }
+        responseFormat: 'json'
       });
 
       let adPrompts;
       try {
-        const responseContent = aiResponse.choices[0].message.content || '{}';
+        const responseContent = aiResponse || '{}';
         const parsedResponse = JSON.parse(responseContent);
         
         // Handle DALL-E prompt format
@@ -1946,10 +2076,9 @@ Return in JSON format:
           console.log(`Debug - Generating visual ad ${i + 1} with DALL-E 3...`);
           
           // Generate image with DALL-E 3
-          const imageResponse = await openaiClient.images.generate({
-            model: "dall-e-3",
+          const imageResponse = await generateImage({
+            feature: 'ads',
             prompt: adPrompt.dalle_prompt,
-            n: 1,
             size: platform === 'TikTok' ? "1024x1792" : // 9:16 vertical
                    platform === 'Pinterest' ? "1024x1536" : // 2:3 portrait  
                    platform === 'Instagram' ? "1024x1024" : // 1:1 square
@@ -1958,7 +2087,7 @@ Return in JSON format:
             style: adStyle.toLowerCase().includes('premium') ? "natural" : "vivid"
           });
 
-          const imageUrl = imageResponse.data[0].url;
+          const imageUrl = imageResponse.url;
           
           generatedAds.push({
             headline: adPrompt.headline,
@@ -2006,9 +2135,8 @@ Return in JSON format:
       // Trim to requested number
       generatedAds = generatedAds.slice(0, variants);
 
-      // Deduct credits (1 credit per generation batch, regardless of number of variants)
-      const creditsUsed = 1;
-      await storage.deductCredits(user.id, creditsUsed, `AI ad generation for ${isWholeStore ? store.name : productData?.title || 'product'}`);
+      // A lapsed hold the balance no longer covers answers 402 instead of handing out unpaid ads
+      await hold.charge(`AI ad generation for ${isWholeStore ? store.name : productData?.title || 'product'}`);
 
       console.log(`Debug - Successfully generated ${generatedAds.length} ads using ${creditsUsed} credits`);
 
@@ -2017,8 +2145,13 @@ Return in JSON format:
         creditsUsed 
       });
     } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
       console.error("Error generating ads:", error);
       res.status(500).json({ error: "Failed to generate ads" });
+    } finally {
+      await hold?.release();
     }
   });
 
@@ -2210,38 +2343,29 @@ Return in JSON format:
       return res.status(500).json({ error: "Stripe not configured" });
     }
 
-    try {
-      const sig = req.headers['stripe-signature'];
-      const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
-
-      if (!sig || !webhookSecret) {
-        return res.status(400).json({ error: "Missing signature or webhook secret" });
-      }
+    const sig = req.headers['stripe-signature'];
+    const webhookSecret = process.env.STRIPE_WEBHOOK_SECRET;
 
-      const event = stripe.webhooks.constructEvent(req.body, sig, webhookSecret);
-
-      // Handle subscription events
-      await subscriptionService.handleWebhookEvent(event);
+    if (!sig || !webhookSecret) {
+      return res.status(400).json({ error: "Missing signature or webhook secret" });
+    }
 
-      // Handle one-time credit purchases
-      if (event.type === 'payment_intent.succeeded') {
-        const paymentIntent = event.data.object;
-        const { userId, credits, package: packageType } = paymentIntent.metadata;
-        
-        if (userId && credits) {
-          await storage.addCredits(
-            parseInt(userId), 
-            parseInt(credits), 
-            `Credit purchase - ${packageType} package`,
-            paymentIntent.id
-          );
-        }
-      }
+    let event: Stripe.Event;
+    try {
+      event = stripe.webhooks.constructEvent(req.body, sig, webhookSecret);
+    } catch (error) {
+      console.error("Webhook signature verification failed:", error);
+      return res.status(400).json({ error: "Invalid signature" });
+    }
 
-      res.json({ received: true });
+    try {
+      // Subscription events and one-time credit purchases, each handled once per event id
+      const outcome = await processStripeEvent(event);
+      res.json({ received: true, outcome });
     } catch (error) {
-      console.error("Webhook error:", error);
-      res.status(400).json({ error: "Webhook failed" });
+      // Answering with an error makes Stripe deliver the event again
+      console.error(`Webhook error for Stripe event ${event.id}:`, error);
+      res.status(500).json({ error: "Webhook failed" });
     }
   });
 
@@ -2278,30 +2402,23 @@ Return in JSON format:
       if (!domain.includes('.myshopify.com') && !domain.includes('.')) {
         return res.status(400).json({ error: "Invalid shop domain format" });
       }
+
+      // Reconnecting an existing store: it has to be one of the user's
+      if (userStoreId) {
+        const store = await storage.getUserStore(parseInt(userStoreId));
+        if (!store || store.userId !== req.user!.id) {
+          return res.status(404).json({ error: "Store not found" });
+        }
+      }
       
-      // For development stores, check if they're properly configured
-      console.log('Debug - Attempting OAuth for development store:', domain);
-      
-      // Generate OAuth URL for SaaS application
-      const { authUrl, state } = await generateShopifyAuthUrl(domain, req.user!.id);
-      
-      // Store the userStoreId in the state if provided (for updating existing store)
-      const stateWithStore = userStoreId ? `${state}:${userStoreId}` : state;
-      
-      const finalAuthUrl = authUrl.replace(state, stateWithStore);
-      
-      console.log('Debug - OAuth URL generation:', {
-        shopDomain: domain,
-        userId: req.user!.id,
-        authUrl: finalAuthUrl,
-        redirectUri: process.env.REPLIT_DEV_DOMAIN 
-          ? `https://${process.env.REPLIT_DEV_DOMAIN}/api/shopify/callback`
-          : 'http://localhost:5000/api/shopify/callback',
-        apiKey: process.env.SHOPIFY_API_KEY,
-        apiSecret: process.env.SHOPIFY_API_SECRET ? 'Set' : 'Missing'
-      });
+      // Generate OAuth URL for SaaS application; the state is only redeemable from this session
+      const { authUrl } = await generateShopifyAuthUrl(
+        domain,
+        { userId: req.user!.id, sessionId: req.session.id },
+        userStoreId ? parseInt(userStoreId) : undefined
+      );
       
-      res.json({ authUrl: finalAuthUrl });
+      res.json({ authUrl });
     } catch (error) {
       console.error("Error initiating Shopify OAuth:", error);
       const currentRedirectUri = process.env.REPLIT_DEV_DOMAIN 
@@ -2314,7 +2431,7 @@ Return in JSON format:
 1. App Setup → Distribution → Enable "Public distribution" (not just dev/test mode)
 2. App Setup → URLs → Ensure redirect URI is correct: ${currentRedirectUri}
 3. App must be PUBLIC for any store to use OAuth (like AutoDS works)
-Domain: ${domain} | API Key: ${process.env.SHOPIFY_API_KEY}`
+API Key: ${process.env.SHOPIFY_API_KEY}`
       });
     }
   });
@@ -2347,12 +2464,7 @@ Domain: ${domain} | API Key: ${process.env.SHOPIFY_API_KEY}`
         });
       }
 
-      // Generate design-specific suggestions using OpenAI
-      const openai = await import('openai');
-      const openaiClient = new openai.default({ 
-        apiKey: process.env.OPENAI_API_KEY 
-      });
-
+      // Generate design-specific suggestions using the configured LLM
       const designPrompt = `You are an expert UX/UI designer and conversion optimization specialist. Analyze this e-commerce store data and provide specific design improvement recommendations.
 
 Store Analysis Data:
@@ -2378,7 +2490,11 @@ Please provide 3-6 specific design improvement recommendations in the following
       "suggestions": {
         "current": "Current design element description",
         "recommended": "Specific recommended change",
-        "cssChanges": "CSS changes to implement (if applicable)"
+        "cssChanges": "Valid CSS rules to add to the theme (if applicable)",
+        "themeSettings": {
+          "colors": { "primary": "#hex", "secondary": "#hex", "accent": "#hex", "background": "#hex", "text": "#hex" },
+          "typography": { "heading": "shopify_font_handle e.g. assistant_n4", "body": "shopify_font_handle" }
+        }
       }
     }
   ]
@@ -2392,18 +2508,18 @@ Focus on:
 - Layout improvements for better conversion
 - Trust signal placement and design
 
-Provide actionable, specific recommendations that can be implemented.`;
+Provide actionable, specific recommendations that can be implemented. Only include the themeSettings entries a suggestion actually changes, and omit themeSettings entirely for layout, image and mobile suggestions.`;
 
       try {
-        const aiResponse = await openaiClient.chat.completions.create({
-          model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+        const aiResponse = await completeChat({
+          feature: 'design',
           messages: [{ role: "user", content: designPrompt }],
-          response_format: { type: "json_object" },
-          max_tokens: 1500,
+          responseFormat: 'json',
+          maxTokens: 1500,
           temperature: 0.7,
         });
 
-        const designRecommendations = JSON.parse(aiResponse.choices[0].message.content || '{"suggestions": []}');
+        const designRecommendations = JSON.parse(aiResponse || '{"suggestions": []}');
         
         // Add unique IDs if not present
         designRecommendations.suggestions = designRecommendations.suggestions.map((suggestion: any, index: number) => ({
@@ -2413,7 +2529,7 @@ Provide actionable, specific recommendations that can be implemented.`;
 
         res.json(designRecommendations);
       } catch (error) {
-        console.error('OpenAI design analysis failed:', error);
+        console.error('AI design analysis failed:', error);
         // Fallback design recommendations
         res.json({
           designScore: storeAnalysis.designScore,
@@ -2440,41 +2556,32 @@ Provide actionable, specific recommendations that can be implemented.`;
     }
   });
 
-  // Apply design changes to Shopify store
+  // Apply design changes to an unpublished copy of the store theme for preview
   app.post("/api/shopify/apply-design", requireAuth, async (req: Request, res: Response) => {
+    let hold: CreditHold | undefined;
     try {
-      const { storeId, suggestionId, changes } = req.body;
-      const { user } = req;
-
-      // Check if user has enough credits
-      const userCredits = await storage.getUserCredits(user.id);
-      if (userCredits < 1) {
-        return res.status(402).json({ 
-          error: "Insufficient credits",
-          required: 1,
-          available: userCredits
-        });
-      }
+      const { storeId, suggestionId, changes } = applyDesignSchema.parse(req.body);
+      const user = req.user!;
 
       // Get the user's store
-      const store = await storage.getUserStore(parseInt(storeId));
+      const store = await storage.getUserStore(storeId);
       if (!store || store.userId !== user.id) {
         return res.status(404).json({ error: "Store not found" });
       }
 
-      if (!store.shopifyAccessToken) {
-        return res.status(400).json({ error: "Store not connected to Shopify" });
-      }
+      const description = `Design optimization preview: ${suggestionId}`;
+      hold = await reserveCredits(user.id, THEME_CUSTOMIZATION.CREDIT_COST, description);
+
+      let preview = await createDesignPreview(store, user.id, suggestionId, changes);
 
-      // For now, we'll simulate design application since Shopify theme customization
-      // requires more complex API calls and theme asset management
-      // In a real implementation, this would:
-      // 1. Update theme settings via Admin API
-      // 2. Modify theme assets (CSS, liquid files)
-      // 3. Update theme customizations
+      // Charged once the preview theme exists; if the hold lapsed and the balance ran out meanwhile the copy is removed again
+      const charged = await hold.commit(description);
+      if (!charged) {
+        await discardThemePreview(store, preview);
+        return handleInsufficientCreditsError(res, THEME_CUSTOMIZATION.CREDIT_COST, await storage.getUserCredits(user.id));
+      }
 
-      // Deduct credits
-      await storage.deductCredits(user.id, 1, `Design optimization applied: ${suggestionId}`);
+      preview = (await storage.updateThemePreview(preview.id, { creditsUsed: THEME_CUSTOMIZATION.CREDIT_COST }))!;
 
       // Record the design optimization
       await storage.recordProductOptimization({
@@ -2484,72 +2591,91 @@ Provide actionable, specific recommendations that can be implemented.`;
         optimizationType: 'design',
         originalValue: changes.current || 'Current design',
         optimizedValue: changes.recommended,
-        creditsUsed: 1,
+        creditsUsed: THEME_CUSTOMIZATION.CREDIT_COST,
       });
 
       res.json({ 
         success: true, 
-        message: "Design changes have been applied to your store theme",
-        suggestion: changes.recommended
+        message: "A preview theme with these design changes was created. Publish it to make it live.",
+        suggestion: changes.recommended,
+        preview: { ...preview, previewUrl: getPreviewUrl(store, preview) }
       });
     } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
       console.error("Error applying design changes:", error);
       res.status(500).json({ error: "Failed to apply design changes" });
+    } finally {
+      await hold?.release();
+    }
+  });
+
+  // Theme previews created from design suggestions
+  app.get("/api/stores/:id/theme-previews", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const previews = await storage.getThemePreviews(store.id);
+      res.json(previews.map(preview => ({ ...preview, previewUrl: getPreviewUrl(store, preview) })));
+    } catch (error) {
+      console.error("Error fetching theme previews:", error);
+      res.status(500).json({ error: "Failed to fetch theme previews" });
     }
   });
 
+  app.post("/api/theme-previews/:id/publish", requireAuth, themePreviewActionHandler('publish'));
+  app.post("/api/theme-previews/:id/discard", requireAuth, themePreviewActionHandler('discard'));
+
   // Shopify OAuth callback (handles both installation and authorization)
   app.get("/api/shopify/callback", async (req: Request, res: Response) => {
     try {
-      console.log('Debug - Shopify callback received:', req.query);
-      const { code, state, shop, hmac, host, timestamp } = req.query;
-      
-      // Handle app installation (when redirected without code)
-      if (!code && shop && hmac) {
-        console.log('Debug - App installation detected, redirecting to OAuth');
-        // This is an app installation, redirect to proper OAuth flow
-        const shopDomain = shop as string;
-        const installUrl = `https://${shopDomain}/admin/oauth/authorize?` +
-          `client_id=${process.env.SHOPIFY_API_KEY}&` +
-          `scope=read_products,write_products,write_content&` +
-          `redirect_uri=${encodeURIComponent(process.env.REPLIT_DEV_DOMAIN ? `https://${process.env.REPLIT_DEV_DOMAIN}/api/shopify/callback` : 'http://localhost:5000/api/shopify/callback')}&` +
-          `state=install_${Date.now()}`;
-        
-        return res.redirect(installUrl);
-      }
-      
-      // Handle OAuth authorization (when code is present)
-      if (!code || !shop) {
-        console.log('Debug - Missing required OAuth parameters:', { code: !!code, shop: !!shop });
-        return res.status(400).send("Missing required OAuth parameters");
+      const { code, state, shop } = req.query;
+      const rawQuery = req.originalUrl.split('?')[1] || '';
+
+      // Installs and OAuth callbacks are both signed by Shopify
+      if (!isValidShopDomain(shop) || !verifyShopifyQueryHmac(rawQuery)) {
+        console.log('Debug - Rejected Shopify callback with invalid shop or hmac:', { shop });
+        return res.status(400).send("Invalid Shopify request");
       }
       
-      // Parse state to get userId and optionally userStoreId
-      const stateParts = (state as string).split(':');
-      let userId: number;
-      let userStoreId: number | null = null;
-      
-      // Handle installation state (install_timestamp) vs regular OAuth state (hash:userId)
-      if ((state as string).startsWith('install_')) {
-        console.log('Debug - Installation flow detected, using session user');
-        // For installation flow, we need to get the current user from session
-        if (!req.user?.id) {
-          console.log('Debug - Installation without authenticated user');
+      // Handle app installation (when redirected without code): start the regular state-checked flow
+      if (!code) {
+        if (!req.user || !req.session) {
           return res.redirect('/login?error=auth_required&message=' + encodeURIComponent('Please log in to connect your Shopify store.'));
         }
-        userId = req.user.id;
-        console.log('Debug - Using session userId:', userId);
-      } else {
-        console.log('Debug - Regular OAuth flow detected');
-        // Regular OAuth state parsing
-        userId = stateParts.length >= 3 ? parseInt(stateParts[2]) : parseInt(stateParts[1]);
-        userStoreId = stateParts.length >= 4 ? parseInt(stateParts[3]) : null;
-        
-        if (!userId || isNaN(userId)) {
-          console.log('Debug - State parsing failed:', { state, stateParts, userId, userStoreId });
-          return res.status(400).send("Invalid state parameter");
+
+        const { authUrl } = await generateShopifyAuthUrl(shop, { userId: req.user.id, sessionId: req.session.id });
+        return res.redirect(authUrl);
+      }
+      
+      // The state must be one we issued, unused, unexpired and redeemed on the session that requested it
+      let oauthState;
+      try {
+        oauthState = await consumeOAuthState('shopify', state, req.session?.id);
+      } catch (error) {
+        if (error instanceof OAuthStateError) {
+          return res.status(error.statusCode).send(error.message);
         }
+        throw error;
       }
+
+      // Consent requested for a myshopify.com domain has to come back from that shop (custom domains resolve to one)
+      if (isValidShopDomain(oauthState.shopDomain) && oauthState.shopDomain.toLowerCase() !== shop.toLowerCase()) {
+        return res.status(400).send("The shop doesn't match the connection request");
+      }
+
+      const userId = oauthState.userId;
+      const userStoreId = oauthState.userStoreId;
       
       // Exchange code for access token
       let access_token, scope;
@@ -2583,11 +2709,12 @@ Provide actionable, specific recommendations that can be implemented.`;
         store.name === shopInfo.name
       );
 
+      let connectedStore: UserStore | undefined;
       if (existingStore) {
         // Update existing store with new token and permissions
         console.log('Debug - Updating existing store:', existingStore.id);
-        await storage.updateUserStore(existingStore.id, {
-          shopifyAccessToken: access_token,
+        connectedStore = await storage.updateUserStore(existingStore.id, {
+          shopifyAccessToken: sealCredential(access_token),
           shopifyDomain: shop as string,
           shopifyScope: scope,
           isConnected: true,
@@ -2599,8 +2726,8 @@ Provide actionable, specific recommendations that can be implemented.`;
       } else if (userStoreId) {
         // Update specific store (from reconnection)
         console.log('Debug - Updating specified store:', userStoreId);
-        await storage.updateUserStore(userStoreId, {
-          shopifyAccessToken: access_token,
+        connectedStore = await storage.updateUserStore(userStoreId, {
+          shopifyAccessToken: sealCredential(access_token),
           shopifyDomain: shop as string,
           shopifyScope: scope,
           isConnected: true,
@@ -2612,12 +2739,12 @@ Provide actionable, specific recommendations that can be implemented.`;
       } else {
         // Create new store only if none exists
         console.log('Debug - Creating new store for:', shopInfo.name);
-        await storage.createUserStore({
+        connectedStore = await storage.createUserStore({
           userId,
           name: shopInfo.name,
           storeUrl: `https://${shopInfo.domain}`,
           storeType: 'shopify',
-          shopifyAccessToken: access_token,
+          shopifyAccessToken: sealCredential(access_token),
           shopifyDomain: shop as string,
           shopifyScope: scope,
           isConnected: true,
@@ -2625,6 +2752,16 @@ Provide actionable, specific recommendations that can be implemented.`;
           lastSyncAt: new Date()
         });
       }
+
+      // Mirror the full catalog in the background so product pages are ready
+      if (connectedStore) {
+        requestProductSync(connectedStore, { full: true });
+      }
+
+      // Keep the mirror and connection state current as the merchant edits in Shopify admin
+      registerStoreWebhooks(shop as string, access_token).catch(error => {
+        console.error('Failed to register Shopify webhooks:', error);
+      });
       
       // Check if this is from a popup window (has opener)
       // If so, close the popup; otherwise redirect normally
@@ -2672,96 +2809,121 @@ Provide actionable, specific recommendations that can be implemented.`;
           </body>
         </html>
       `);
-    }
-  });
-  
-  // Trigger automatic analysis for connected Shopify store
-  app.post("/api/shopify/analyze/:storeId", requireAuth, async (req: Request, res: Response) => {
+    }
+  });
+  
+  // Connect a saved store to its platform: OAuth platforms answer with a consent URL, key-based ones connect right away
+  app.post("/api/stores/:id/connect", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const connection = await getPlatformAdapter(store.storeType).connect(store, req.body, req.session.id);
+      if ('authUrl' in connection) {
+        return res.json({ authUrl: connection.authUrl });
+      }
+
+      // Pull the catalog in the background so the first product view is quick
+      requestProductSync(connection.store);
+
+      res.json({ success: true, storeId: store.id });
+    } catch (error) {
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error connecting store:", error);
+      res.status(500).json({ error: "Failed to connect store" });
+    }
+  });
+
+  // Trigger analysis of a connected store from its platform's API
+  app.post("/api/stores/:id/analyze", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      if (!store.isConnected || !canSyncProducts(store)) {
+        return res.status(400).json({ error: notConnectedMessage(store) });
+      }
+
+      const job = await analysisJobQueue.enqueue({
+        userId: req.user!.id,
+        userStoreId: store.id,
+        jobType: getPlatformAdapter(store.storeType).analysisJobType,
+        payload: {
+          storeType: store.storeType,
+          storeUrl: store.storeUrl || undefined,
+          ebayUsername: store.ebayUsername || undefined
+        },
+        creditCost: CREDITS.ANALYSIS_COST
+      });
+
+      res.status(202).json(serializeAnalysisJob(job));
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      console.error("Error analyzing store:", error);
+      res.status(500).json({ error: "Failed to analyze store" });
+    }
+  });
+
+  // eBay redirects here (via the RuName) after the seller grants or declines consent
+  app.get("/api/ebay/callback", async (req: Request, res: Response) => {
+    const { code, state } = req.query;
+    const respond = (connected: boolean, message: string) => res.send(`
+        <html>
+          <head><title>${connected ? 'Connection Successful' : 'Connection Failed'}</title></head>
+          <body>
+            <script>
+              if (window.opener) {
+                window.opener.postMessage('${connected ? 'ebay-connected' : 'ebay-error'}', '*');
+                window.close();
+              } else {
+                window.location.href = '/dashboard/stores?${connected ? 'connected=true' : 'error=connection_failed'}';
+              }
+            </script>
+            <div style="text-align: center; font-family: Arial, sans-serif; margin-top: 50px;">
+              <h2>${connected ? 'Successfully Connected!' : 'Connection Failed'}</h2>
+              <p>${message}</p>
+              <p><em>This window will close automatically...</em></p>
+            </div>
+          </body>
+        </html>
+      `);
+
     try {
-      const storeId = parseInt(req.params.storeId);
-      const store = await storage.getUserStore(storeId);
-      
-      if (!store || store.userId !== req.user!.id) {
-        return res.status(404).json({ error: "Store not found" });
-      }
-      
-      if (!store.isConnected || !store.shopifyAccessToken) {
-        return res.status(400).json({ error: "Store not connected to Shopify" });
+      if (!code) {
+        return respond(false, 'eBay did not authorize the connection.');
       }
-      
-      // Check user credits
-      const userCredits = await storage.getUserCredits(req.user!.id);
-      if (userCredits < 1) {
-        return res.status(402).json({ 
-          error: 'Insufficient credits', 
-          creditsRequired: 1,
-          creditsAvailable: userCredits
-        });
+
+      const oauthState = await consumeOAuthState('ebay', state, req.session?.id);
+
+      const store = oauthState.userStoreId ? await storage.getUserStore(oauthState.userStoreId) : undefined;
+      if (!store || store.userId !== oauthState.userId || store.storeType !== 'ebay') {
+        return res.status(400).send("Invalid state parameter");
       }
-      
-      // Get store products for comprehensive analysis
-      const products = await getStoreProducts(
-        store.shopifyDomain!, 
-        store.shopifyAccessToken, 
-        100
-      );
-      
-      // Get shop info
-      const shopInfo = await getShopInfo(
-        store.shopifyDomain!, 
-        store.shopifyAccessToken
-      );
-      
-      // Create analysis content from Shopify data
-      const analysisContent = createShopifyAnalysisContent(shopInfo, products);
-      
-      // Run AI analysis with real Shopify data
-      const analysisData = {
-        storeContent: analysisContent,
-        storeType: 'shopify' as const,
-        storeUrl: store.storeUrl!
-      };
-      
-      const result = await analyzeStoreWithAI(analysisData);
-      
-      // Store the analysis
-      const storedAnalysis = await storage.createStoreAnalysis({
-        userId: req.user!.id,
-        userStoreId: store.id,
-        storeUrl: store.storeUrl,
-        storeType: 'shopify',
-        overallScore: result.overallScore,
-        strengths: result.strengths,
-        warnings: result.warnings,
-        critical: result.critical,
-        designScore: result.designScore,
-        productScore: result.productScore,
-        seoScore: result.seoScore,
-        trustScore: result.trustScore,
-        pricingScore: result.pricingScore,
-        conversionScore: result.conversionScore,
-        analysisData: result,
-        suggestions: result.suggestions,
-        summary: result.summary,
-        storeRecap: result.storeRecap,
-        creditsUsed: 1,
-        contentHash: null // Shopify API data changes frequently
-      });
-      
-      // Deduct credits
-      await storage.deductCredits(req.user!.id, 1, "Shopify store analysis", storedAnalysis.id);
-      
-      // Update store with analysis results
-      await storage.updateUserStore(store.id, { 
-        lastAnalyzedAt: new Date(),
-        lastAnalysisScore: result.overallScore,
-        aiRecommendationsCount: result.suggestions?.length || 0
-      });
-      
-      res.json(storedAnalysis);
+
+      const tokens = await exchangeEbayCode(code as string);
+      const connected = await connectEbayStore(store, tokens);
+
+      // Mirror the listings in the background so product pages are ready
+      requestProductSync(connected, { full: true });
+
+      respond(true, `Your eBay account "${connected.ebayUsername}" has been connected.`);
     } catch (error) {
-      console.error("Error analyzing Shopify store:", error);
-      res.status(500).json({ error: "Failed to analyze store" });
+      if (error instanceof OAuthStateError) {
+        return respond(false, error.message);
+      }
+      console.error("Error in eBay OAuth callback:", error);
+      respond(false, 'There was an error connecting your eBay account.');
     }
   });
 
@@ -2776,8 +2938,18 @@ Provide actionable, specific recommendations that can be implemented.`;
         return res.status(404).json({ error: "Store not found" });
       }
 
+      // Connected Shopify stores get suggestions that name concrete resources to change
+      let storeContext: string | undefined;
+      if (store.shopifyAccessToken && store.shopifyDomain) {
+        try {
+          storeContext = await getSeoContext(store);
+        } catch (error) {
+          console.error(`Failed to load SEO context for store ${store.id}:`, error);
+        }
+      }
+
       const { generateSEORecommendations } = await import("./services/openai");
-      const seoAnalysis = await generateSEORecommendations(store.storeUrl, store.storeType);
+      const seoAnalysis = await generateSEORecommendations(store.storeUrl, store.storeType, storeContext);
       res.json(seoAnalysis);
     } catch (error) {
       console.error("Error fetching SEO recommendations:", error);
@@ -2846,18 +3018,49 @@ Provide actionable, specific recommendations that can be implemented.`;
   });
 
   // Apply recommendation endpoints with credit deduction
-  app.post("/api/apply-seo-recommendation", requireAuth, checkCredits(1), async (req: Request, res: Response) => {
+  app.post("/api/apply-seo-recommendation", requireAuth, async (req: Request, res: Response) => {
+    let hold: CreditHold | undefined;
     try {
-      const { storeId, suggestionId, changes } = req.body;
-      const { user } = req;
+      const { storeId, suggestionId, changes } = applySeoRecommendationSchema.parse(req.body);
+      const user = req.user!;
 
-      const store = await storage.getUserStore(parseInt(storeId));
+      const store = await storage.getUserStore(storeId);
       if (!store || store.userId !== user.id) {
         return res.status(404).json({ error: "Store not found" });
       }
+      if (!store.shopifyAccessToken || !store.shopifyDomain) {
+        return res.status(400).json({ error: "Store not connected to Shopify" });
+      }
+      if (!store.shopifyScope?.includes('write_products')) {
+        return res.status(403).json({ error: "Insufficient permissions: reconnect your store to grant write permissions" });
+      }
+
+      const description = `SEO optimization applied: ${suggestionId}`;
+      hold = await reserveCredits(user.id, 1, description);
+
+      // Charged before anything is written, and refunded if nothing changed in the store
+      await hold.charge(description);
+      let result: Awaited<ReturnType<typeof applySeoOperations>>;
+      try {
+        result = await applySeoOperations(store, changes.operations);
+      } catch (error) {
+        await hold.refund(`Refund for failed SEO optimization: ${suggestionId}`);
+        throw error;
+      }
 
-      // Deduct credits
-      await storage.deductCredits(user.id, 1, `SEO optimization applied: ${suggestionId}`);
+      if (result.changes.length === 0) {
+        await hold.refund(`Refund for unchanged SEO optimization: ${suggestionId}`);
+        if (result.failed.length > 0) {
+          return res.status(502).json({ error: "Failed to apply SEO changes to Shopify", changes: [], failed: result.failed });
+        }
+        return res.json({
+          success: true,
+          message: "The store already matches this SEO suggestion",
+          suggestion: changes.recommended,
+          changes: [],
+          failed: []
+        });
+      }
 
       // Record the optimization
       await storage.recordProductOptimization({
@@ -2865,114 +3068,291 @@ Provide actionable, specific recommendations that can be implemented.`;
         userStoreId: store.id,
         shopifyProductId: 'seo-optimization',
         optimizationType: 'seo',
-        originalValue: changes.current || 'Current SEO',
-        optimizedValue: changes.recommended,
+        originalValue: JSON.stringify(result.changes.map(({ resource, id, field, before }) => ({ resource, id, field, value: before }))),
+        optimizedValue: JSON.stringify(result.changes.map(({ resource, id, field, after }) => ({ resource, id, field, value: after }))),
         creditsUsed: 1,
       });
 
       res.json({ 
         success: true, 
-        message: "SEO optimization has been applied",
-        suggestion: changes.recommended
+        message: result.failed.length > 0
+          ? `Applied ${result.changes.length} SEO changes, ${result.failed.length} could not be applied`
+          : `Applied ${result.changes.length} SEO changes`,
+        suggestion: changes.recommended,
+        changes: result.changes,
+        failed: result.failed
       });
     } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
       console.error("Error applying SEO recommendation:", error);
       res.status(500).json({ error: "Failed to apply SEO recommendation" });
+    } finally {
+      await hold?.release();
     }
   });
 
-  app.post("/api/apply-legal-recommendation", requireAuth, checkCredits(1), async (req: Request, res: Response) => {
+  // Publishes the legal document a recommendation calls for as a Shopify shop policy or page
+  app.post("/api/apply-legal-recommendation", requireAuth, async (req: Request, res: Response) => {
+    let hold: CreditHold | undefined;
     try {
-      console.log("Legal recommendation apply request:", {
-        body: req.body,
-        user: req.user ? { id: req.user.id, email: req.user.email } : null
-      });
-
-      const { storeId, suggestionId, changes } = req.body;
-      const user = req.user;
-
-      if (!user) {
-        console.error("No user found in request");
-        return res.status(401).json({ error: "Authentication required" });
-      }
-
-      if (!storeId || !suggestionId || !changes) {
-        console.error("Missing required fields:", { storeId, suggestionId, changes: !!changes });
-        return res.status(400).json({ error: "Missing required fields" });
-      }
+      const { storeId, suggestionId, documentType } = applyLegalRecommendationSchema.parse(req.body);
+      const user = req.user!;
 
-      const store = await storage.getUserStore(parseInt(storeId));
-      console.log("Found store:", store ? { id: store.id, userId: store.userId } : null);
-      
+      const store = await storage.getUserStore(storeId);
       if (!store || store.userId !== user.id) {
         return res.status(404).json({ error: "Store not found" });
       }
 
-      console.log("Deducting credits for user:", user.id);
-      await storage.deductCredits(user.id, 1, `Legal page optimization applied: ${suggestionId}`);
+      // Charged before publishing and refunded if the publish fails
+      const description = `Legal page optimization applied: ${suggestionId}`;
+      hold = await reserveCredits(user.id, LEGAL_DOCUMENTS.CREDIT_COST, description);
+      await hold.charge(description);
+
+      let document: Awaited<ReturnType<typeof publishLegalDocument>>;
+      try {
+        document = await publishLegalDocument(store, user.id, documentType, suggestionId);
+      } catch (error) {
+        await hold.refund(`Refund for failed legal page optimization: ${suggestionId}`);
+        throw error;
+      }
 
-      console.log("Recording product optimization");
       await storage.recordProductOptimization({
         userId: user.id,
         userStoreId: store.id,
         shopifyProductId: 'legal-page',
         optimizationType: 'legal',
-        originalValue: changes.current || 'Current legal page',
-        optimizedValue: changes.recommended,
-        creditsUsed: 1,
+        originalValue: document.version > 1 ? `${documentType} v${document.version - 1}` : 'No document',
+        optimizedValue: `${documentType} v${document.version}`,
+        creditsUsed: LEGAL_DOCUMENTS.CREDIT_COST,
       });
 
-      console.log("Legal recommendation applied successfully");
       res.json({ 
         success: true, 
-        message: "Legal page optimization has been applied",
-        suggestion: changes.recommended
+        message: `${document.title} was published to your store`,
+        document
       });
     } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
       console.error("Error applying legal recommendation:", error);
-      res.status(500).json({ error: "Failed to apply legal recommendation", details: error.message });
+      res.status(500).json({ error: "Failed to apply legal recommendation" });
+    } finally {
+      await hold?.release();
     }
   });
 
-  app.post("/api/apply-conversion-recommendation", requireAuth, checkCredits(1), async (req: Request, res: Response) => {
+  // Published legal document versions, newest first per document type
+  app.get("/api/stores/:id/legal-documents", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { storeId, suggestionId, changes } = req.body;
-      const { user } = req;
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
 
-      const store = await storage.getUserStore(parseInt(storeId));
+      const documents = await storage.getLegalDocumentVersions(store.id);
+      res.json(documents);
+    } catch (error) {
+      console.error("Error fetching legal documents:", error);
+      res.status(500).json({ error: "Failed to fetch legal documents" });
+    }
+  });
+
+  // The document that applying a recommendation would publish
+  app.get("/api/stores/:id/legal-documents/:documentType/preview", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const documentType = applyLegalRecommendationSchema.shape.documentType.parse(req.params.documentType);
+
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const content = await renderLegalDocumentForStore(store, documentType);
+      const latest = await storage.getLatestLegalDocumentVersion(store.id, documentType);
+      res.json({
+        documentType,
+        ...content,
+        diff: latest ? diffLegalDocuments(latest.body, content.body) : null
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid document type" });
+      }
+      console.error("Error previewing legal document:", error);
+      res.status(500).json({ error: "Failed to preview legal document" });
+    }
+  });
+
+  // Diff of a version against another (?against=id), by default the version before it
+  app.get("/api/legal-documents/:id/diff", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { document, store } = await getOwnedLegalDocumentVersion(req.user!.id, parseInt(req.params.id));
+
+      let against;
+      if (req.query.against) {
+        ({ document: against } = await getOwnedLegalDocumentVersion(req.user!.id, parseInt(req.query.against as string)));
+        if (against.userStoreId !== store.id || against.documentType !== document.documentType) {
+          return res.status(400).json({ error: "Versions belong to different documents" });
+        }
+      } else {
+        const versions = await storage.getLegalDocumentVersions(store.id, document.documentType as LegalDocumentType);
+        against = versions.find(version => version.version < document.version);
+      }
+
+      res.json({
+        document,
+        against: against || null,
+        diff: diffLegalDocuments(against?.body || '', document.body)
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error diffing legal document:", error);
+      res.status(500).json({ error: "Failed to diff legal document" });
+    }
+  });
+
+  app.post("/api/legal-documents/:id/rollback", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { document, store } = await getOwnedLegalDocumentVersion(req.user!.id, parseInt(req.params.id));
+      const restored = await rollbackLegalDocument(store, document);
+      res.json({
+        success: true,
+        message: `${restored.title} was rolled back to version ${document.version}`,
+        document: restored
+      });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error rolling back legal document:", error);
+      res.status(500).json({ error: "Failed to roll back legal document" });
+    }
+  });
+
+  // Installs the catalog action a conversion suggestion maps to in the live theme
+  app.post("/api/apply-conversion-recommendation", requireAuth, async (req: Request, res: Response) => {
+    let hold: CreditHold | undefined;
+    try {
+      const { storeId, suggestionId, action } = applyConversionRecommendationSchema.parse(req.body);
+      const user = req.user!;
+
+      const store = await storage.getUserStore(storeId);
       if (!store || store.userId !== user.id) {
         return res.status(404).json({ error: "Store not found" });
       }
 
-      await storage.deductCredits(user.id, 1, `Conversion optimization applied: ${suggestionId}`);
+      // Manual suggestions are advice only, so nothing is charged
+      if (action.type === 'manual') {
+        return res.status(422).json({ error: "This suggestion has to be made manually" });
+      }
+
+      const description = `Conversion optimization applied: ${suggestionId}`;
+      hold = await reserveCredits(user.id, CONVERSION_ACTIONS.CREDIT_COST, description);
+
+      // Charged before the theme is touched and refunded if applying fails
+      await hold.charge(description);
+      let applied: Awaited<ReturnType<typeof applyConversionAction>>;
+      try {
+        applied = await applyConversionAction(store, user.id, suggestionId, action);
+      } catch (error) {
+        await hold.refund(`Refund for failed conversion optimization: ${suggestionId}`);
+        throw error;
+      }
 
       await storage.recordProductOptimization({
         userId: user.id,
         userStoreId: store.id,
         shopifyProductId: 'conversion-optimization',
         optimizationType: 'conversion',
-        originalValue: changes.current || 'Current conversion element',
-        optimizedValue: changes.recommended,
-        creditsUsed: 1,
+        originalValue: 'Not installed',
+        optimizedValue: JSON.stringify({ type: applied.actionType, settings: applied.settings }),
+        creditsUsed: CONVERSION_ACTIONS.CREDIT_COST,
       });
 
       res.json({ 
         success: true, 
-        message: "Conversion optimization has been applied",
-        suggestion: changes.recommended
+        message: "Conversion optimization is live in your store theme",
+        action: applied
       });
     } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
       console.error("Error applying conversion recommendation:", error);
       res.status(500).json({ error: "Failed to apply conversion recommendation" });
+    } finally {
+      await hold?.release();
     }
   });
 
-  app.post("/api/apply-trust-recommendation", requireAuth, checkCredits(1), async (req: Request, res: Response) => {
+  app.get("/api/stores/:id/conversion-actions", requireAuth, async (req: Request, res: Response) => {
     try {
-      const { storeId, suggestionId, changes } = req.body;
-      const { user } = req;
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
 
-      const store = await storage.getUserStore(parseInt(storeId));
+      const actions = await storage.getConversionActions(store.id);
+      res.json(actions);
+    } catch (error) {
+      console.error("Error fetching conversion actions:", error);
+      res.status(500).json({ error: "Failed to fetch conversion actions" });
+    }
+  });
+
+  app.post("/api/conversion-actions/:id/revert", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const action = await storage.getConversionAction(parseInt(req.params.id));
+      if (!action || action.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Conversion action not found" });
+      }
+
+      const store = await storage.getUserStore(action.userStoreId);
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const reverted = await revertConversionAction(store, action);
+      res.json({ success: true, action: reverted });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      console.error("Error reverting conversion action:", error);
+      res.status(500).json({ error: "Failed to revert conversion action" });
+    }
+  });
+
+  app.post("/api/apply-trust-recommendation", requireAuth, async (req: Request, res: Response) => {
+    let hold: CreditHold | undefined;
+    try {
+      const { storeId, suggestionId, type, changes } = applyTrustRecommendationSchema.parse(req.body);
+      const user = req.user!;
+
+      const store = await storage.getUserStore(storeId);
       if (!store || store.userId !== user.id) {
         return res.status(404).json({ error: "Store not found" });
       }
@@ -2984,38 +3364,29 @@ Provide actionable, specific recommendations that can be implemented.`;
         });
       }
 
-      let actualChanges = {
-        applied: false,
-        message: "Trust optimization tracked in system",
-        shopifyChanges: []
-      };
+      const description = `Trust optimization applied: ${suggestionId}`;
+      hold = await reserveCredits(user.id, TRUST_OPTIMIZATION.CREDIT_COST, description);
 
+      // Charged before anything is written, and refunded if nothing reached the store
+      await hold.charge(description);
+      console.log(`Applying ${type} trust optimization for store ${store.shopifyDomain}, suggestion: ${suggestionId}`);
+      let actualChanges: Awaited<ReturnType<typeof applyTrustOptimization>>;
       try {
-        console.log(`Applying trust optimization for store ${store.shopifyDomain}, suggestion: ${suggestionId}`);
-        
-        // Apply actual Shopify modifications based on suggestion type
-        const { applyTrustOptimization } = await import('./services/shopifyTrustOptimization.js');
-        actualChanges = await applyTrustOptimization(
-          store.shopifyDomain,
-          store.shopifyAccessToken,
-          suggestionId,
-          changes
-        );
-        
-        console.log(`Trust optimization result:`, actualChanges);
-      } catch (shopifyError) {
-        console.error("Shopify trust optimization failed:", shopifyError);
-        
-        // Check if this is a permissions error
-        if (shopifyError.message && shopifyError.message.includes('write_content')) {
-          actualChanges.message = "⚠️ Missing Shopify Permissions: Your store needs 'write_content' permission. Please reconnect your store to enable trust optimizations.";
-        } else {
-          actualChanges.message = "Trust optimization tracked. Shopify modification failed - manual implementation required.";
-        }
+        actualChanges = await applyTrustOptimization(store, user.id, suggestionId, type, changes);
+      } catch (error) {
+        await hold.refund(`Refund for failed trust optimization: ${suggestionId}`);
+        throw error;
       }
+      console.log(`Trust optimization result:`, actualChanges.shopifyChanges);
 
-      // Deduct credits and record optimization
-      await storage.deductCredits(user.id, 1, `Trust optimization applied: ${suggestionId}`);
+      if (!actualChanges.applied) {
+        await hold.refund(`Refund for failed trust optimization: ${suggestionId}`);
+        return res.status(502).json({
+          error: actualChanges.message,
+          modifications: actualChanges.shopifyChanges,
+          changes: actualChanges.changes
+        });
+      }
 
       await storage.recordProductOptimization({
         userId: user.id,
@@ -3024,13 +3395,11 @@ Provide actionable, specific recommendations that can be implemented.`;
         optimizationType: 'trust',
         originalValue: changes.current || 'Current trust element',
         optimizedValue: changes.recommended,
-        creditsUsed: 1,
+        creditsUsed: TRUST_OPTIMIZATION.CREDIT_COST,
       });
 
-      // Determine if this is a review-specific optimization that needs manual setup
-      const isReviewOptimization = suggestionId.includes('review') || 
-        changes.recommended.toLowerCase().includes('review') ||
-        changes.implementation.toLowerCase().includes('review');
+      // Review optimizations need a review app for the full setup
+      const isReviewOptimization = type === 'reviews';
 
       let responseMessage = actualChanges.message;
       
@@ -3044,15 +3413,162 @@ Provide actionable, specific recommendations that can be implemented.`;
 
       res.json({ 
         success: true, 
-        message: actualChanges.applied ? responseMessage : actualChanges.message,
+        message: responseMessage,
         suggestion: changes.recommended,
         shopifyApplied: actualChanges.applied,
         modifications: actualChanges.shopifyChanges,
+        changes: actualChanges.changes,
         requiresManualStep: isReviewOptimization
       });
     } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
       console.error("Error applying trust recommendation:", error);
       res.status(500).json({ error: "Failed to apply trust recommendation" });
+    } finally {
+      await hold?.release();
+    }
+  });
+
+  app.get("/api/stores/:id/trust-optimizations", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const changes = await storage.getTrustOptimizationChanges(store.id);
+      res.json(changes);
+    } catch (error) {
+      console.error("Error fetching trust optimizations:", error);
+      res.status(500).json({ error: "Failed to fetch trust optimizations" });
+    }
+  });
+
+  app.post("/api/stores/:id/trust-optimizations/:type/remove", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const type = applyTrustRecommendationSchema.shape.type.parse(req.params.type);
+      const { removed, failed } = await removeTrustOptimization(store, type);
+      if (removed.length === 0) {
+        return res.status(502).json({ error: "Couldn't remove the trust content from Shopify, please try again" });
+      }
+
+      res.json({ success: true, removed, failed });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid trust optimization type", details: error.errors });
+      }
+      console.error("Error removing trust optimization:", error);
+      res.status(500).json({ error: "Failed to remove trust optimization" });
+    }
+  });
+
+  app.get("/api/stores/:id/competitors", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const competitors = await storage.getStoreCompetitors(store.id);
+      res.json(competitors);
+    } catch (error) {
+      console.error("Error fetching competitors:", error);
+      res.status(500).json({ error: "Failed to fetch competitors" });
+    }
+  });
+
+  app.post("/api/stores/:id/competitors", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const { storeUrl, name } = createCompetitorSchema.parse(req.body);
+      const competitor = await addStoreCompetitor(store, storeUrl, name);
+      res.status(201).json(competitor);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.statusCode).json({ error: error.message });
+      }
+      if (error instanceof ZodError) {
+        return res.status(400).json({ error: "Invalid request data", details: error.errors });
+      }
+      console.error("Error adding competitor:", error);
+      res.status(500).json({ error: "Failed to add competitor" });
+    }
+  });
+
+  app.delete("/api/competitors/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const competitor = await storage.getStoreCompetitor(parseInt(req.params.id));
+      if (!competitor || competitor.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Competitor not found" });
+      }
+
+      await storage.deleteStoreCompetitor(competitor.id);
+      res.json({ success: true });
+    } catch (error) {
+      console.error("Error removing competitor:", error);
+      res.status(500).json({ error: "Failed to remove competitor" });
+    }
+  });
+
+  // Queue a storefront analysis of a competitor; the client polls /api/analysis-jobs/:id like any other analysis
+  app.post("/api/competitors/:id/analyze", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const competitor = await storage.getStoreCompetitor(parseInt(req.params.id));
+      if (!competitor || competitor.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Competitor not found" });
+      }
+
+      const job = await analysisJobQueue.enqueue({
+        userId: req.user!.id,
+        userStoreId: competitor.userStoreId,
+        jobType: 'competitor',
+        payload: {
+          storeType: 'shopify',
+          storeUrl: competitor.storeUrl,
+          competitorId: competitor.id
+        },
+        creditCost: COMPETITOR_BENCHMARKS.CREDIT_COST
+      });
+
+      res.status(202).json(serializeAnalysisJob(job));
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        return handleInsufficientCreditsError(res, error.required, error.available);
+      }
+      console.error("Error analyzing competitor:", error);
+      res.status(500).json({ error: "Failed to analyze competitor" });
+    }
+  });
+
+  app.get("/api/stores/:id/competitor-comparison", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const store = await storage.getUserStore(parseInt(req.params.id));
+      if (!store || store.userId !== req.user!.id) {
+        return res.status(404).json({ error: "Store not found" });
+      }
+
+      const comparison = await buildCompetitorComparison(store);
+      res.json(comparison);
+    } catch (error) {
+      console.error("Error building competitor comparison:", error);
+      res.status(500).json({ error: "Failed to build competitor comparison" });
     }
   });
 
@@ -3065,12 +3581,7 @@ Provide actionable, specific recommendations that can be implemented.`;
         return res.status(400).json({ error: "Optimization type is required" });
       }
 
-      // Use OpenAI to calculate realistic time savings
-      const openai = await import('openai');
-      const openaiClient = new openai.default({ 
-        apiKey: process.env.OPENAI_API_KEY 
-      });
-
+      // Use the configured LLM to calculate realistic time savings
       const timeSavingsPrompt = `You are an e-commerce efficiency expert. Calculate the realistic manual time savings for the following optimization task.
 
 Optimization Type: ${optimizationType}
@@ -3099,8 +3610,8 @@ Provide ONLY a JSON response with this exact format:
 
 Base your calculations on realistic e-commerce workflows and industry standards.`;
 
-      const completion = await openaiClient.chat.completions.create({
-        model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+      const completion = await completeChat({
+        feature: 'timeSavings',
         messages: [
           {
             role: "system",
@@ -3111,11 +3622,11 @@ Base your calculations on realistic e-commerce workflows and industry standards.
             content: timeSavingsPrompt
           }
         ],
-        response_format: { type: "json_object" },
+        responseFormat: 'json',
         temperature: 0.3
       });
 
-      const timeSavings = JSON.parse(completion.choices[0].message.content || '{}');
+      const timeSavings = JSON.parse(completion || '{}');
       
       res.json(timeSavings);
     } catch (error) {
@@ -0,0 +1,193 @@
+import type Stripe from "stripe";
+import { storage } from "../storage";
+import { ADMIN_CONSOLE } from "@shared/constants";
+import type {
+  AdminAuditAction,
+  AdminCreditAdjustmentRequest,
+  ProcessedStripeEvent,
+  User,
+  UserSession,
+  UserStore,
+} from "@shared/schema";
+import { HttpError } from "@shared/errorHandler";
+import { STORE_CREDENTIAL_FIELDS } from "./credentialVault";
+import { processStripeEvent } from "./stripeEvents";
+
+// An admin action that can't go ahead
+export class AdminConsoleError extends HttpError {}
+
+/**
+ * Writes the audit entry for an admin action. Every admin console endpoint goes through here,
+ * reads included, so support access to an account can always be reconstructed.
+ */
+export async function recordAdminAction(
+  admin: User,
+  action: AdminAuditAction,
+  target: { userId?: number | null; storeId?: number | null; reason?: string | null; details?: Record<string, unknown> } = {}
+) {
+  return await storage.createAdminAuditLog({
+    adminUserId: admin.id,
+    action,
+    targetUserId: target.userId ?? null,
+    targetStoreId: target.storeId ?? null,
+    reason: target.reason ?? null,
+    details: target.details ?? null,
+  });
+}
+
+async function getTargetUser(userId: number): Promise<User> {
+  const user = await storage.getUserById(userId);
+  if (!user) {
+    throw new AdminConsoleError("User not found", 404);
+  }
+  return user;
+}
+
+/**
+ * Everything support needs to look at for one account
+ */
+export async function getUserOverview(userId: number) {
+  const user = await getTargetUser(userId);
+  const [stores, analyses, creditTransactions, subscriptions, auditLog] = await Promise.all([
+    storage.getUserStores(userId),
+    storage.getUserAnalyses(userId, 50),
+    storage.getCreditTransactions(userId, 100),
+    storage.getUserSubscriptions(userId),
+    storage.getAdminAuditLogs({ targetUserId: userId, limit: 50 }),
+  ]);
+  return { user, stores, analyses, creditTransactions, subscriptions, auditLog };
+}
+
+/**
+ * Grants credits as a 'bonus' transaction or takes them back as a negative 'refund' one
+ */
+export async function adjustUserCredits(admin: User, userId: number, request: AdminCreditAdjustmentRequest): Promise<User> {
+  if (request.amount > ADMIN_CONSOLE.MAX_CREDIT_ADJUSTMENT) {
+    throw new AdminConsoleError(`At most ${ADMIN_CONSOLE.MAX_CREDIT_ADJUSTMENT} credits can be adjusted at once`);
+  }
+  const target = await getTargetUser(userId);
+
+  const grant = request.action === 'grant';
+  const updated = await storage.adjustCredits(
+    userId,
+    grant ? request.amount : -request.amount,
+    grant ? 'bonus' : 'refund',
+    `${grant ? 'Credits granted' : 'Credits revoked'} by support: ${request.reason}`
+  );
+  if (!updated) {
+    throw new AdminConsoleError(`User only has ${target.aiCredits} credits`, 409);
+  }
+
+  await recordAdminAction(admin, grant ? 'credits_grant' : 'credits_revoke', {
+    userId,
+    reason: request.reason,
+    details: { amount: request.amount, balanceBefore: target.aiCredits, balanceAfter: updated.aiCredits },
+  });
+  return updated;
+}
+
+/**
+ * Marks a store disconnected and drops every platform credential on it, whatever the platform.
+ * Tokens are not revoked at the platform; the merchant can reconnect to issue new ones.
+ */
+export async function forceDisconnectStore(admin: User, storeId: number, reason: string): Promise<UserStore> {
+  const store = await storage.getUserStore(storeId);
+  if (!store) {
+    throw new AdminConsoleError("Store not found", 404);
+  }
+
+  const updates: Partial<UserStore> = {
+    isConnected: false,
+    connectionStatus: 'disconnected',
+    shopifyScope: null,
+    productSyncStatus: 'idle',
+  };
+  for (const field of STORE_CREDENTIAL_FIELDS) {
+    updates[field] = null;
+  }
+  const updated = await storage.updateUserStore(store.id, updates);
+
+  await recordAdminAction(admin, 'store_disconnect', {
+    userId: store.userId,
+    storeId: store.id,
+    reason,
+    details: { storeType: store.storeType, storeName: store.name, wasConnected: store.isConnected },
+  });
+  return updated!;
+}
+
+/**
+ * Swaps the admin's session for a short, read-only session on the user's account.
+ * Admin accounts can't be impersonated, so the admin console stays out of reach while it lasts.
+ */
+export async function startImpersonation(admin: User, adminSessionId: string, userId: number, reason: string): Promise<UserSession> {
+  const target = await getTargetUser(userId);
+  if (target.id === admin.id) {
+    throw new AdminConsoleError("You can't impersonate yourself");
+  }
+  if (target.isAdmin) {
+    throw new AdminConsoleError("Admin accounts can't be impersonated", 403);
+  }
+
+  const session = await storage.createSession(target.id, {
+    impersonatedBy: admin.id,
+    ttlMs: ADMIN_CONSOLE.IMPERSONATION_TTL_MS,
+  });
+  await storage.deleteSession(adminSessionId);
+
+  await recordAdminAction(admin, 'impersonation_start', {
+    userId: target.id,
+    reason,
+    details: { expiresAt: session.expiresAt.toISOString() },
+  });
+  return session;
+}
+
+/**
+ * Closes an impersonated session and signs the admin who opened it back in
+ */
+export async function endImpersonation(session: UserSession): Promise<{ admin: User; session: UserSession }> {
+  if (!session.impersonatedBy) {
+    throw new AdminConsoleError("This session is not impersonating anyone");
+  }
+
+  await storage.deleteSession(session.id);
+  const admin = await storage.getUserById(session.impersonatedBy);
+  if (!admin?.isAdmin) {
+    throw new AdminConsoleError("Admin access required", 403);
+  }
+
+  const adminSession = await storage.createSession(admin.id);
+  await recordAdminAction(admin, 'impersonation_end', { userId: session.userId });
+  return { admin, session: adminSession };
+}
+
+/**
+ * Runs a failed Stripe webhook event again from the copy kept in the ledger. Handled events can't be
+ * replayed, the ledger is what keeps them from being applied twice.
+ */
+export async function replayStripeEvent(admin: User, eventId: string, reason: string): Promise<ProcessedStripeEvent> {
+  const stored = await storage.getStripeEvent(eventId);
+  if (!stored) {
+    throw new AdminConsoleError("Stripe event not found", 404);
+  }
+  if (stored.status !== 'failed') {
+    throw new AdminConsoleError(`Only failed events can be replayed, this one is ${stored.status}`, 409);
+  }
+
+  // A replay that fails again is recorded on the event like any other attempt
+  try {
+    await processStripeEvent(stored.payload as unknown as Stripe.Event);
+  } catch (error) {
+    console.error(`Replay of Stripe event ${eventId} failed:`, error);
+  }
+  const replayed = (await storage.getStripeEvent(eventId))!;
+
+  const userId = parseInt(stored.payload.data?.object?.metadata?.userId);
+  await recordAdminAction(admin, 'stripe_event_replay', {
+    userId: Number.isNaN(userId) ? null : userId,
+    reason,
+    details: { eventId, type: stored.type, status: replayed.status, attempts: replayed.attempts, detail: replayed.detail },
+  });
+  return replayed;
+}
@@ -1,10 +1,8 @@
-import OpenAI from 'openai';
 import { storage } from '../storage';
 import { ALEX } from '@shared/constants';
 import { logInfo } from '@shared/errorHandler';
-import { fetchStoreProducts } from './shopifyIntegration';
-
-const openai = new OpenAI({ apiKey: process.env.OPENAI_API_KEY });
+import { getMirroredProducts } from './shopifyProductSync';
+import { completeChat } from './llmProvider';
 
 /**
  * Dynamic context builder for Alex AI conversations
@@ -21,7 +19,7 @@ export interface UserContext {
     productCount?: number;
     lowPerformingProducts?: any[];
     shopifyDomain?: string;
-    shopifyAccessToken?: string;
+    isConnected?: boolean; // the product mirror can be read; credentials never enter the context
   }>;
   recentAnalyses: Array<{
     storeUrl: string;
@@ -89,9 +87,8 @@ async function fetchStoreProductData(store: any): Promise<any> {
   }
 
   try {
-    // Fetch products from Shopify
-    const productData = await fetchStoreProducts(store.shopifyDomain, store.shopifyAccessToken);
-    const products = productData.products || [];
+    // Read products from the local catalog mirror
+    const products: any[] = await getMirroredProducts(store);
     
     // Analyze products for performance issues
     const lowPerformingProducts = products.filter(product => {
@@ -125,7 +122,7 @@ async function fetchStoreProductData(store: any): Promise<any> {
 }
 
 /**
- * Builds dynamic context string for OpenAI prompt
+ * Builds dynamic context string for the LLM prompt
  */
 function buildDynamicContext(context: UserContext): string {
   const {
@@ -219,7 +216,7 @@ function buildDynamicContext(context: UserContext): string {
 }
 
 /**
- * Generates dynamic opening message using OpenAI
+ * Generates dynamic opening message using the configured LLM provider
  */
 export async function generateDynamicWelcome(context: UserContext): Promise<string> {
   try {
@@ -227,17 +224,17 @@ export async function generateDynamicWelcome(context: UserContext): Promise<stri
     
     const userPrompt = buildDynamicContext(context);
     
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const content = await completeChat({
+      feature: 'alex',
       messages: [
         { role: "system", content: SYSTEM_PROMPT },
         { role: "user", content: userPrompt }
       ],
-      max_tokens: 300,
+      maxTokens: 300,
       temperature: 0.7
     });
 
-    const welcome = response.choices[0].message.content || "Hey there! I'm Alex, your AI e-commerce manager. Let me analyze your store data and help you optimize for better results.";
+    const welcome = content || "Hey there! I'm Alex, your AI e-commerce manager. Let me analyze your store data and help you optimize for better results.";
     
     logInfo('Alex AI', 'Dynamic welcome generated successfully');
     return welcome;
@@ -270,14 +267,14 @@ export async function generateContextualResponse(
       { role: "user" as const, content: userMessage }
     ];
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const content = await completeChat({
+      feature: 'alex',
       messages,
-      max_tokens: 400,
+      maxTokens: 400,
       temperature: 0.8
     });
 
-    const reply = response.choices[0].message.content || "I'm here to help! Could you tell me more about what you'd like to improve with your store?";
+    const reply = content || "I'm here to help! Could you tell me more about what you'd like to improve with your store?";
     
     logInfo('Alex AI', 'Contextual response generated successfully');
     return reply;
@@ -303,8 +300,8 @@ export async function extractConversationInsights(
       .map(m => `${m.isFromAlex ? 'Alex' : 'User'}: ${m.content}`)
       .join('\n');
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const content = await completeChat({
+      feature: 'alex',
       messages: [
         {
           role: "system",
@@ -315,10 +312,10 @@ export async function extractConversationInsights(
           content: `Conversation:\n${conversationText}\n\nReturn format: {"topic": "string", "summary": "string", "keyPoints": ["string1", "string2"]}`
         }
       ],
-      response_format: { type: "json_object" }
+      responseFormat: 'json'
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{}');
+    const result = JSON.parse(content || '{}');
     return {
       topic: result.topic || 'General Discussion',
       summary: result.summary || 'Discussion about store optimization',
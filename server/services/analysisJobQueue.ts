@@ -0,0 +1,442 @@
+import { storage } from "../storage";
+import { ANALYSIS_JOBS, CREDIT_RESERVATIONS } from "@shared/constants";
+import { logInfo, logWarning } from "@shared/errorHandler";
+import type { AnalysisJob, AnalysisJobStage, AnalysisJobPayload, StoreAnalysis, CompetitorAnalysis } from "@shared/schema";
+import { analyzeShopifyStore, analyzeWooCommerceStore, analyzeEbayStore, fetchStorefrontHtml, fetchPublicProducts } from "./storeAnalyzer";
+import { getPlatformAdapter, canSyncProducts, notConnectedMessage } from "./storePlatforms";
+import { analyzeStoreWithAI } from "./openai";
+import { createShopifyAdminFingerprint, createEbayListingFingerprint } from "./storeChangeDetector";
+import { toRestProduct } from "./shopifyProductSync";
+import { notifyScoreChanges } from "./scoreChangeAlerts";
+import { summarizePrices } from "./competitorBenchmarks";
+import { reserveCredits, commitCreditReservation, releaseCreditReservation } from "./creditReservations";
+
+export interface EnqueueAnalysisJobOptions {
+  userId: number | null;
+  userStoreId?: number | null;
+  jobType: AnalysisJob['jobType'];
+  payload: AnalysisJobPayload;
+  creditCost: number;
+}
+
+function describeCharge(jobType: AnalysisJob['jobType'], payload: AnalysisJobPayload): string {
+  if (jobType === 'competitor') return "Competitor analysis";
+  if (jobType === 'storefront') return "Store analysis";
+  return `${getPlatformAdapter(payload.storeType).name} store analysis`;
+}
+
+/**
+ * Errors that are not worth retrying: the job will fail the same way every time
+ */
+class PermanentJobError extends Error {}
+
+/**
+ * Decides whether a failed attempt should be retried.
+ * Covers rate limits, upstream 5xx responses, timeouts and dropped connections.
+ */
+export function isTransientError(error: any): boolean {
+  if (!error || error instanceof PermanentJobError) return false;
+
+  const status = error.status ?? error.statusCode ?? error.response?.status;
+  if (typeof status === 'number' && (status === 408 || status === 429 || status >= 500)) {
+    return true;
+  }
+
+  if (['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT', 'EAI_AGAIN', 'ENOTFOUND', 'UND_ERR_SOCKET'].includes(error.code)) {
+    return true;
+  }
+
+  if (error.name === 'AbortError') return true;
+
+  const message = String(error.message || '').toLowerCase();
+  if (/timed? ?out|rate limit|too many requests|socket hang up|overloaded|temporarily unavailable/.test(message)) {
+    return true;
+  }
+
+  // Wrapped errors (e.g. from analyzeStoreWithAI) keep the original failure as the cause
+  return error.cause ? isTransientError(error.cause) : false;
+}
+
+/**
+ * Background queue for store analyses.
+ * Jobs are persisted through storage so the Postgres and in-memory backends share
+ * the same worker loop; clients poll GET /api/analysis-jobs/:id for progress.
+ */
+export class AnalysisJobQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private activeJobs = 0;
+  private polling = false;
+
+  /**
+   * Persist a new job and wake the worker so it starts without waiting a full poll interval.
+   * The job's credits are held from here until it completes or fails.
+   * @throws InsufficientCreditsError when the user's balance doesn't cover the job
+   */
+  async enqueue(options: EnqueueAnalysisJobOptions): Promise<AnalysisJob> {
+    const hold = options.userId && options.creditCost > 0
+      ? await reserveCredits(options.userId, options.creditCost, describeCharge(options.jobType, options.payload), CREDIT_RESERVATIONS.JOB_HOLD_TTL_MS)
+      : null;
+
+    let job: AnalysisJob;
+    try {
+      job = await storage.createAnalysisJob({
+        userId: options.userId,
+        userStoreId: options.userStoreId ?? null,
+        jobType: options.jobType,
+        payload: options.payload,
+        creditCost: options.creditCost,
+        creditReservationId: hold?.reservation.id ?? null,
+        maxAttempts: ANALYSIS_JOBS.MAX_ATTEMPTS,
+      });
+    } catch (error) {
+      await hold?.release();
+      throw error;
+    }
+
+    logInfo('Analysis Queue', `Enqueued ${job.jobType} job ${job.id}`);
+    setImmediate(() => this.poll());
+    return job;
+  }
+
+  /**
+   * Start the polling loop. Jobs whose worker stopped refreshing the lock (e.g. the process
+   * crashed mid-run) are put back in the queue on startup and periodically after that.
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.requeueStaleJobs();
+    this.timer = setInterval(() => this.poll(), ANALYSIS_JOBS.POLL_INTERVAL);
+    this.sweepTimer = setInterval(() => this.requeueStaleJobs(), ANALYSIS_JOBS.STALE_LOCK_MS);
+    logInfo('Analysis Queue', 'Worker started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private async requeueStaleJobs(): Promise<void> {
+    try {
+      const requeued = await storage.requeueStaleAnalysisJobs(new Date(Date.now() - ANALYSIS_JOBS.STALE_LOCK_MS));
+      if (requeued > 0) {
+        logWarning('Analysis Queue', `Requeued ${requeued} stale analysis jobs`);
+      }
+    } catch (error) {
+      console.error('Failed to requeue stale analysis jobs:', error);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.activeJobs < ANALYSIS_JOBS.CONCURRENCY) {
+        const job = await storage.claimNextAnalysisJob();
+        if (!job) break;
+
+        this.activeJobs++;
+        this.processJob(job).finally(() => {
+          this.activeJobs--;
+          this.poll();
+        });
+      }
+    } catch (error) {
+      console.error('Analysis queue poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async setStage(jobId: number, stage: AnalysisJobStage): Promise<void> {
+    await storage.updateAnalysisJob(jobId, { stage, progress: ANALYSIS_JOBS.STAGE_PROGRESS[stage] });
+  }
+
+  private async processJob(job: AnalysisJob): Promise<void> {
+    logInfo('Analysis Queue', `Running job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    // Keeps the stale-lock sweep away from a job that is slow but still alive
+    const lockRefresh = setInterval(() => {
+      storage.refreshAnalysisJobLock(job.id).catch(error => console.error(`Failed to refresh lock of analysis job ${job.id}:`, error));
+    }, ANALYSIS_JOBS.LOCK_REFRESH_MS);
+
+    try {
+      const onProgress = (stage: AnalysisJobStage) => this.setStage(job.id, stage);
+
+      if (job.jobType === 'competitor') {
+        await this.completeCompetitorJob(job, await this.runCompetitorAnalysis(job, onProgress));
+        return;
+      }
+
+      const analysis = job.jobType === 'storefront'
+        ? await this.runStorefrontAnalysis(job, onProgress)
+        : await this.runPlatformAnalysis(job, onProgress);
+
+      // Credits are only charged once the analysis is safely stored, and not for a degraded one the model couldn't score.
+      // The analysis records what was actually charged, so its history matches the credit ledger
+      if (analysis.degraded) {
+        await releaseCreditReservation(job.creditReservationId);
+      } else if (job.userId && job.creditCost > 0) {
+        const charged = await commitCreditReservation(job.creditReservationId, {
+          userId: job.userId,
+          amount: job.creditCost,
+          description: describeCharge(job.jobType, job.payload),
+          analysisId: analysis.id,
+        });
+        if (charged) {
+          await storage.updateStoreAnalysis(analysis.id, { creditsUsed: job.creditCost });
+        }
+      }
+
+      await storage.updateAnalysisJob(job.id, {
+        status: 'completed',
+        stage: 'done',
+        progress: ANALYSIS_JOBS.STAGE_PROGRESS.done,
+        analysisId: analysis.id,
+        error: null,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+      logInfo('Analysis Queue', `Job ${job.id} completed with analysis ${analysis.id}`);
+
+      if (job.payload.scheduled && job.userStoreId) {
+        await this.raiseScoreAlerts(job.userStoreId, analysis);
+      }
+    } catch (error: any) {
+      const message = error?.message || 'Analysis failed';
+
+      if (isTransientError(error) && job.attempts < job.maxAttempts) {
+        const delay = ANALYSIS_JOBS.RETRY_BASE_DELAY * Math.pow(2, job.attempts - 1);
+        logWarning('Analysis Queue', `Job ${job.id} failed, retrying in ${delay}ms`, message);
+        await storage.updateAnalysisJob(job.id, {
+          status: 'queued',
+          stage: 'queued',
+          progress: ANALYSIS_JOBS.STAGE_PROGRESS.queued,
+          error: message,
+          lockedAt: null,
+          runAfter: new Date(Date.now() + delay),
+        });
+        return;
+      }
+
+      console.error(`Analysis job ${job.id} failed:`, error);
+      await storage.updateAnalysisJob(job.id, {
+        status: 'failed',
+        error: message,
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+      await releaseCreditReservation(job.creditReservationId);
+    } finally {
+      clearInterval(lockRefresh);
+    }
+  }
+
+  private async completeCompetitorJob(job: AnalysisJob, analysis: CompetitorAnalysis): Promise<void> {
+    if (analysis.degraded) {
+      await releaseCreditReservation(job.creditReservationId);
+    } else if (job.userId && job.creditCost > 0) {
+      const charged = await commitCreditReservation(job.creditReservationId, {
+        userId: job.userId,
+        amount: job.creditCost,
+        description: describeCharge(job.jobType, job.payload),
+      });
+      if (charged) {
+        await storage.updateCompetitorAnalysis(analysis.id, { creditsUsed: job.creditCost });
+      }
+    }
+
+    await storage.updateAnalysisJob(job.id, {
+      status: 'completed',
+      stage: 'done',
+      progress: ANALYSIS_JOBS.STAGE_PROGRESS.done,
+      competitorAnalysisId: analysis.id,
+      error: null,
+      lockedAt: null,
+      completedAt: new Date(),
+    });
+    logInfo('Analysis Queue', `Job ${job.id} completed with competitor analysis ${analysis.id}`);
+  }
+
+  private async raiseScoreAlerts(userStoreId: number, analysis: StoreAnalysis): Promise<void> {
+    try {
+      const store = await storage.getUserStore(userStoreId);
+      if (store) {
+        await notifyScoreChanges(store, analysis);
+      }
+    } catch (error) {
+      // The analysis already succeeded, a missed alert must not fail or retry the job
+      console.error(`Failed to raise score alerts for store ${userStoreId}:`, error);
+    }
+  }
+
+  /**
+   * Public storefront analysis for Shopify and WooCommerce URLs and eBay sellers (guests allowed)
+   */
+  private async runStorefrontAnalysis(
+    job: AnalysisJob,
+    onProgress: (stage: AnalysisJobStage) => Promise<void>
+  ): Promise<StoreAnalysis> {
+    const { payload } = job;
+    const result: any = payload.storeType === 'shopify'
+      ? await analyzeShopifyStore(payload.storeUrl!, onProgress)
+      : payload.storeType === 'woocommerce'
+        ? await analyzeWooCommerceStore(payload.storeUrl!, onProgress)
+        : await analyzeEbayStore(payload.ebayUsername!, onProgress);
+
+    await onProgress('saving');
+    const storedAnalysis = await storage.createStoreAnalysis({
+      userId: job.userId,
+      userStoreId: job.userStoreId,
+      storeUrl: payload.storeUrl || null,
+      storeType: payload.storeType,
+      ebayUsername: payload.ebayUsername || null,
+      overallScore: result.overallScore,
+      strengths: result.strengths,
+      warnings: result.warnings,
+      critical: result.critical,
+      designScore: result.designScore,
+      productScore: result.productScore,
+      seoScore: result.seoScore,
+      trustScore: result.trustScore,
+      pricingScore: result.pricingScore,
+      conversionScore: result.conversionScore,
+      analysisData: result,
+      suggestions: result.suggestions,
+      summary: result.summary,
+      storeRecap: result.storeRecap,
+      creditsUsed: 0, // Set once the charge has gone through
+      contentHash: result.contentHash || null,
+      degraded: result.degraded || false,
+      validationErrors: result.validationErrors || null
+    });
+
+    // Update store last analyzed timestamp if the analysis belongs to a saved store
+    if (job.userId && job.userStoreId) {
+      await storage.updateUserStore(job.userStoreId, { lastAnalyzedAt: new Date() });
+    }
+
+    return storedAnalysis;
+  }
+
+  /**
+   * Storefront analysis of a competitor, stored apart from the user's own analyses
+   */
+  private async runCompetitorAnalysis(
+    job: AnalysisJob,
+    onProgress: (stage: AnalysisJobStage) => Promise<void>
+  ): Promise<CompetitorAnalysis> {
+    const competitor = job.payload.competitorId ? await storage.getStoreCompetitor(job.payload.competitorId) : undefined;
+    if (!competitor || competitor.userId !== job.userId) {
+      throw new PermanentJobError('Competitor not found');
+    }
+
+    const result: any = await analyzeShopifyStore(competitor.storeUrl, onProgress);
+    const priceRange = summarizePrices(await fetchPublicProducts(competitor.storeUrl));
+
+    await onProgress('saving');
+    return await storage.createCompetitorAnalysis({
+      competitorId: competitor.id,
+      userStoreId: competitor.userStoreId,
+      overallScore: result.overallScore,
+      designScore: result.designScore,
+      productScore: result.productScore,
+      seoScore: result.seoScore,
+      trustScore: result.trustScore,
+      pricingScore: result.pricingScore,
+      conversionScore: result.conversionScore,
+      priceRange,
+      analysisData: result,
+      creditsUsed: 0, // Set once the charge has gone through
+      degraded: result.degraded || false,
+    });
+  }
+
+  /**
+   * Analysis of a connected store from its platform's API data (Shopify Admin API, WooCommerce REST API, eBay APIs)
+   */
+  private async runPlatformAnalysis(
+    job: AnalysisJob,
+    onProgress: (stage: AnalysisJobStage) => Promise<void>
+  ): Promise<StoreAnalysis> {
+    const store = job.userStoreId ? await storage.getUserStore(job.userStoreId) : undefined;
+    if (!store || store.userId !== job.userId) {
+      throw new PermanentJobError('Store not found');
+    }
+    if (!store.isConnected || !canSyncProducts(store)) {
+      throw new PermanentJobError(notConnectedMessage(store));
+    }
+
+    await onProgress('fetching');
+
+    const { storeContent, products, storefront } = await getPlatformAdapter(store.storeType).buildAnalysisContent(store);
+
+    // Storefront HTML feeds the rule-based design/SEO/trust/conversion checks
+    const html = storefront ? await fetchStorefrontHtml(storefront.url) : '';
+
+    await onProgress('ai');
+    const result = await analyzeStoreWithAI({
+      storeContent,
+      storeType: store.storeType,
+      storeUrl: storefront?.url || store.storeUrl || undefined,
+      ebayUsername: store.ebayUsername || undefined,
+      ruleInput: storefront ? { storeUrl: storefront.url, html, products, shopInfo: storefront.shopInfo } : undefined
+    });
+
+    // Admin fingerprints never match storefront-only hashes, so guest analyses of the same URL can't reuse this result.
+    // eBay has no storefront to fetch, so its listings are fingerprinted from the product mirror instead.
+    let contentHash: string | null = null;
+    if (storefront && html) {
+      contentHash = createShopifyAdminFingerprint(html, storefront.url, products).contentHash;
+    } else if (store.storeType === 'ebay') {
+      const listings = (await storage.getShopifyProducts(store.id)).map(toRestProduct);
+      contentHash = createEbayListingFingerprint(store.ebayUsername || '', listings).contentHash;
+    }
+
+    await onProgress('saving');
+    const storedAnalysis = await storage.createStoreAnalysis({
+      userId: store.userId,
+      userStoreId: store.id,
+      storeUrl: store.storeUrl,
+      storeType: store.storeType,
+      ebayUsername: store.ebayUsername,
+      overallScore: result.overallScore,
+      strengths: result.strengths,
+      warnings: result.warnings,
+      critical: result.critical,
+      designScore: result.designScore,
+      productScore: result.productScore,
+      seoScore: result.seoScore,
+      trustScore: result.trustScore,
+      pricingScore: result.pricingScore,
+      conversionScore: result.conversionScore,
+      analysisData: result,
+      suggestions: result.suggestions,
+      summary: result.summary,
+      storeRecap: result.storeRecap,
+      creditsUsed: 0, // Set once the charge has gone through
+      contentHash,
+      degraded: result.degraded || false,
+      validationErrors: result.validationErrors || null
+    });
+
+    // Degraded results have no trustworthy score, so keep the previous one
+    await storage.updateUserStore(store.id, {
+      lastAnalyzedAt: new Date(),
+      ...(result.degraded ? {} : { lastAnalysisScore: result.overallScore }),
+      aiRecommendationsCount: result.suggestions?.length || 0
+    });
+
+    return storedAnalysis;
+  }
+}
+
+export const analysisJobQueue = new AnalysisJobQueue();
@@ -0,0 +1,146 @@
+import { storage } from "../storage";
+import { ANALYSIS_SCHEDULER, CREDITS } from "@shared/constants";
+import { logInfo, logWarning } from "@shared/errorHandler";
+import type { AnalysisSchedule, UserStore } from "@shared/schema";
+import { analysisJobQueue } from "./analysisJobQueue";
+import { fetchStorefrontHtml } from "./storeAnalyzer";
+import { syncStoreProducts, toRestProduct } from "./shopifyProductSync";
+import { getPlatformAdapter } from "./storePlatforms";
+import { createStoreFingerprint, createShopifyAdminFingerprint, createEbayListingFingerprint, hasStoreChanged } from "./storeChangeDetector";
+import { InsufficientCreditsError } from "./creditReservations";
+
+/**
+ * Returns when a store on the given schedule should next be analyzed, or null if scheduling is off
+ */
+export function getNextScheduledAnalysisAt(schedule: AnalysisSchedule, from: Date = new Date()): Date | null {
+  if (schedule === 'off') return null;
+  return new Date(from.getTime() + ANALYSIS_SCHEDULER.INTERVAL_DAYS[schedule] * 24 * 60 * 60 * 1000);
+}
+
+/**
+ * Periodically re-analyzes stores that have a daily/weekly/monthly schedule.
+ * Unchanged stores are skipped before a job is queued so they are never charged;
+ * score-change notifications are raised by the job queue once a scheduled job completes.
+ */
+export class AnalysisScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.runDueStores(), ANALYSIS_SCHEDULER.CHECK_INTERVAL);
+    setImmediate(() => this.runDueStores());
+    logInfo('Analysis Scheduler', 'Scheduler started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async runDueStores(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const dueStores = await storage.getStoresDueForAnalysis(new Date(), ANALYSIS_SCHEDULER.BATCH_SIZE);
+      for (const store of dueStores) {
+        try {
+          await this.processStore(store);
+        } catch (error) {
+          console.error(`Scheduled analysis failed for store ${store.id}:`, error);
+        }
+      }
+    } catch (error) {
+      console.error('Analysis scheduler run failed:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async processStore(store: UserStore): Promise<void> {
+    // Move the schedule forward first so a failing store is retried next period rather than every check
+    await storage.updateUserStore(store.id, {
+      nextScheduledAnalysisAt: getNextScheduledAnalysisAt(store.analysisSchedule),
+    });
+
+    // Saves fingerprinting stores whose owner is out of credits; the job's hold is what actually guards the balance
+    const userCredits = await storage.getUserCredits(store.userId);
+    if (userCredits < CREDITS.ANALYSIS_COST) {
+      logWarning('Analysis Scheduler', `Skipping store ${store.id}: insufficient credits`);
+      return;
+    }
+
+    // Connected stores are analyzed from their platform's API, the rest from the public storefront
+    const platform = getPlatformAdapter(store.storeType);
+    const usesPlatformApi = store.isConnected && platform.isConnected(store);
+
+    // Public eBay analyses can't be fingerprinted, so they would be charged every period whether or not anything changed
+    if (store.storeType === 'ebay' && !usesPlatformApi) {
+      logInfo('Analysis Scheduler', `Skipping store ${store.id}: eBay stores are only re-analyzed on a schedule while connected`);
+      return;
+    }
+
+    if (!(await this.hasChangedSinceLastAnalysis(store, usesPlatformApi))) {
+      logInfo('Analysis Scheduler', `Store ${store.id} unchanged since last analysis, skipping`);
+      return;
+    }
+
+    try {
+      await analysisJobQueue.enqueue({
+        userId: store.userId,
+        userStoreId: store.id,
+        jobType: usesPlatformApi ? platform.analysisJobType : 'storefront',
+        payload: {
+          storeType: store.storeType,
+          storeUrl: store.storeUrl || undefined,
+          ebayUsername: store.ebayUsername || undefined,
+          scheduled: true,
+        },
+        creditCost: CREDITS.ANALYSIS_COST,
+      });
+    } catch (error) {
+      if (error instanceof InsufficientCreditsError) {
+        logWarning('Analysis Scheduler', `Skipping store ${store.id}: insufficient credits`);
+        return;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Fingerprints the store the same way its analysis job will and compares against the last stored hash
+   */
+  private async hasChangedSinceLastAnalysis(store: UserStore, usesMirroredProducts: boolean): Promise<boolean> {
+    if (store.storeType === 'ebay') {
+      await syncStoreProducts(store);
+      const listings = (await storage.getShopifyProducts(store.id)).map(toRestProduct);
+      const contentHash = createEbayListingFingerprint(store.ebayUsername || '', listings).contentHash;
+      const { hasChanged, lastAnalysis } = await hasStoreChanged(store.storeUrl, contentHash, store.id);
+      return hasChanged || !lastAnalysis;
+    }
+
+    const storefrontUrl = store.storeUrl || (store.shopifyDomain ? `https://${store.shopifyDomain}` : null);
+    if (!storefrontUrl) return true;
+
+    const html = await fetchStorefrontHtml(storefrontUrl);
+    if (!html) return true;
+
+    let contentHash: string;
+    if (usesMirroredProducts) {
+      await syncStoreProducts(store);
+      const products = (await storage.getShopifyProducts(store.id)).map(toRestProduct);
+      contentHash = createShopifyAdminFingerprint(html, storefrontUrl, products).contentHash;
+    } else {
+      contentHash = createStoreFingerprint(html, storefrontUrl).contentHash;
+    }
+
+    const { hasChanged, lastAnalysis } = await hasStoreChanged(storefrontUrl, contentHash, store.id);
+    return hasChanged || !lastAnalysis;
+  }
+}
+
+export const analysisScheduler = new AnalysisScheduler();
@@ -0,0 +1,513 @@
+import { storage } from "../storage";
+import { BULK_OPTIMIZATION, CREDIT_RESERVATIONS } from "@shared/constants";
+import { logInfo, logWarning } from "@shared/errorHandler";
+import type { BulkOptimizationItem, BulkOptimizationItemStatus, BulkOptimizationJob, UserStore } from "@shared/schema";
+import { refreshMirroredProduct } from "./shopifyProductSync";
+import { getPlatformAdapter, canSyncProducts, notConnectedMessage } from "./storePlatforms";
+import { completeChat } from "./llmProvider";
+import { isTransientError } from "./analysisJobQueue";
+import { reserveCredits, commitCreditReservation, releaseCreditReservation } from "./creditReservations";
+
+export interface EnqueueBulkOptimizationOptions {
+  userId: number;
+  userStoreId: number;
+  optimizationType: BulkOptimizationJob['optimizationType'];
+  productIds: string[];
+}
+
+/**
+ * An item that can't succeed on retry, e.g. the product is gone or the user ran out of credits
+ */
+class PermanentItemError extends Error {}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Generates the optimized field for one product. AI failures fall back to a template
+ * so a flaky completion doesn't fail the item.
+ */
+async function generateUpdateData(product: any, optimizationType: BulkOptimizationJob['optimizationType']): Promise<any> {
+  const updateData: any = {};
+  
+  if (optimizationType === 'title') {
+    // Use the configured LLM to generate optimized title for each product
+    const titlePrompt = `You are an expert e-commerce copywriter. Create a compelling, SEO-optimized product title that will increase sales and conversions.
+
+Current product title: "${product.title}"
+Product type: ${product.product_type || 'Product'}
+Price: $${product.variants?.[0]?.price || 'Unknown'}
+
+Requirements:
+- Keep it under 60 characters for optimal display
+- Make it more professional and conversion-focused
+- Include power words that drive sales (Premium, Professional, Best, Quality, etc.)
+- Optimize for search engines and customer appeal
+- Focus on benefits and value proposition
+
+Generate ONLY the new optimized title, nothing else:`;
+
+    try {
+      const aiResponse = await completeChat({
+        feature: 'productCopy',
+        messages: [{ role: "user", content: titlePrompt }],
+        maxTokens: 100,
+        temperature: 0.7,
+      });
+      
+      updateData.title = aiResponse?.trim() || `Premium ${product.title}`;
+    } catch (error) {
+      console.error('AI title generation failed for bulk update:', error);
+      updateData.title = `Premium ${product.title}`;
+    }
+  } else if (optimizationType === 'description') {
+    // Use the configured LLM to generate personalized description for each product
+    const descriptionPrompt = `You are an expert e-commerce copywriter specializing in conversion optimization. Create a compelling product description using market-proven keywords and conversion techniques.
+
+Product: ${product.title}
+Product type: ${product.product_type || 'Product'}
+Vendor: ${product.vendor || 'Brand'}
+Current price: $${product.variants?.[0]?.price || 'Unknown'}
+Current description: ${product.body_html?.replace(/<[^>]*>/g, '').substring(0, 200) || 'No description'}
+
+Requirements:
+- Create a unique, compelling description for THIS specific product
+- Use emotional triggers and benefits-focused language
+- Include relevant SEO keywords naturally
+- Structure with bullet points for key features/benefits
+- Highlight unique selling propositions
+- Focus on customer problems this product solves
+- End with a clear call-to-action
+- Keep it engaging and scannable (150-250 words)
+
+Generate ONLY the clean description text without HTML tags, quotes, or extra formatting:`;
+
+    try {
+      const aiResponse = await completeChat({
+        feature: 'productCopy',
+        messages: [{ role: "user", content: descriptionPrompt }],
+        maxTokens: 300,
+        temperature: 0.7,
+      });
+      
+      updateData.body_html = `<p>${aiResponse?.trim() || `Experience the exceptional quality of our ${product.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.`}</p>`;
+    } catch (error) {
+      console.error('AI description generation failed for bulk update:', error);
+      updateData.body_html = `<p>Experience the exceptional quality of our ${product.title}. Premium materials and expert craftsmanship ensure lasting satisfaction.</p>`;
+    }
+  } else if (optimizationType === 'keywords') {
+    // Use the configured LLM to generate optimized keywords/tags for each product
+    const keywordsPrompt = `You are an expert e-commerce SEO specialist. Generate optimized keywords and tags for this product to improve searchability and categorization.
+
+Product: ${product.title}
+Product type: ${product.product_type || 'Product'}
+Vendor: ${product.vendor || 'Brand'}
+Current tags: ${product.tags || 'None'}
+Price: $${product.variants?.[0]?.price || 'Unknown'}
+
+Requirements:
+- Generate 8-12 relevant, high-impact keywords/tags
+- Include both broad and specific search terms
+- Mix of category terms, feature descriptors, and benefit keywords
+- Consider seasonal and trending keywords when applicable
+- Include brand and product type variations
+- Separate keywords with commas
+- Focus on terms customers actually search for
+
+Generate ONLY the comma-separated list of optimized keywords, nothing else:`;
+
+    try {
+      const aiResponse = await completeChat({
+        feature: 'productCopy',
+        messages: [{ role: "user", content: keywordsPrompt }],
+        maxTokens: 150,
+        temperature: 0.7,
+      });
+      
+      updateData.tags = aiResponse?.trim() || `${product.product_type || 'product'}, quality, premium, ${product.vendor || 'brand'}`;
+    } catch (error) {
+      console.error('AI keywords generation failed for bulk update:', error);
+      updateData.tags = `${product.product_type || 'product'}, quality, premium, ${product.vendor || 'brand'}`;
+    }
+  } else if (optimizationType === 'pricing') {
+    // Use the configured LLM to generate optimized pricing for each product
+    const pricingPrompt = `You are an expert e-commerce pricing strategist. Analyze this product and recommend an optimized price based on market psychology, competitive positioning, and conversion optimization.
+
+Product: ${product.title}
+Product type: ${product.product_type || 'Product'}
+Vendor: ${product.vendor || 'Brand'}
+Current price: $${product.variants?.[0]?.price || 'Unknown'}
+Compare at price: $${product.variants?.[0]?.compare_at_price || 'None'}
+Product tags: ${product.tags || 'None'}
+Created: ${product.created_at || 'Unknown'}
+
+Market Analysis Requirements:
+1. Apply psychological pricing principles (e.g., $19.99 vs $20.00)
+2. Consider product category positioning and market standards
+3. Factor in competitive landscape and value perception
+4. Account for product lifecycle stage and inventory considerations
+5. Balance conversion optimization with profit margins
+6. Consider seasonal demand patterns if applicable
+
+Pricing Strategy Factors:
+- Premium positioning: Higher-end pricing for luxury/quality perception
+- Value positioning: Competitive pricing for volume sales
+- Psychological anchoring: Use of .99, .95, .97 endings
+- Bundle opportunities: Consider tiered pricing structures
+
+Return ONLY a JSON object with this exact format:
+{
+  "recommendedPrice": "XX.XX",
+  "reasoning": "Brief explanation of pricing strategy used",
+  "priceType": "premium|value|psychological|competitive"
+}`;
+
+    try {
+      const aiResponse = await completeChat({
+        feature: 'productCopy',
+        messages: [{ role: "user", content: pricingPrompt }],
+        maxTokens: 200,
+        temperature: 0.3,
+        responseFormat: 'json'
+      });
+      
+      const pricingData = JSON.parse(aiResponse || '{}');
+      
+      if (pricingData.recommendedPrice && !isNaN(parseFloat(pricingData.recommendedPrice))) {
+        updateData.variants = [{
+          id: product.variants?.[0]?.id,
+          price: pricingData.recommendedPrice
+        }];
+      } else {
+        // Fallback to psychological pricing
+        const currentPrice = parseFloat(product.variants?.[0]?.price || '0');
+        if (currentPrice > 0) {
+          const optimizedPrice = currentPrice % 1 === 0 ? (currentPrice - 0.01).toFixed(2) : currentPrice.toFixed(2);
+          updateData.variants = [{
+            id: product.variants?.[0]?.id,
+            price: optimizedPrice
+          }];
+        }
+      }
+    } catch (error) {
+      console.error('AI pricing optimization failed for bulk update:', error);
+      // Fallback to psychological pricing
+      const currentPrice = parseFloat(product.variants?.[0]?.price || '0');
+      if (currentPrice > 0) {
+        const optimizedPrice = currentPrice % 1 === 0 ? (currentPrice - 0.01).toFixed(2) : currentPrice.toFixed(2);
+        updateData.variants = [{
+          id: product.variants?.[0]?.id,
+          price: optimizedPrice
+        }];
+      }
+    }
+  }
+
+  return updateData;
+}
+
+function getOriginalValue(product: any, optimizationType: BulkOptimizationJob['optimizationType']): string {
+  return optimizationType === 'title' ? product.title :
+         optimizationType === 'description' ? (product.body_html || '') :
+         optimizationType === 'pricing' ? product.variants?.[0]?.price :
+         product.tags || '';
+}
+
+function getOptimizedValue(updateData: any, optimizationType: BulkOptimizationJob['optimizationType']): string {
+  return optimizationType === 'title' ? updateData.title :
+         optimizationType === 'description' ? updateData.body_html :
+         optimizationType === 'pricing' ? updateData.variants?.[0]?.price :
+         updateData.tags;
+}
+
+/**
+ * Background worker for bulk product optimizations.
+ * Each job is a set of per-product items; items are claimed one at a time through storage,
+ * so a job picked up again after a restart continues with whatever is still pending.
+ */
+export class BulkOptimizationQueue {
+  private timer: NodeJS.Timeout | null = null;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private activeJobs = 0;
+  private polling = false;
+
+  /**
+   * Holds credits for every product up front; each updated product commits its share and the
+   * rest goes back when the job ends.
+   * @throws InsufficientCreditsError when the balance doesn't cover the whole job
+   */
+  async enqueue(options: EnqueueBulkOptimizationOptions): Promise<BulkOptimizationJob> {
+    const productIds = Array.from(new Set(options.productIds));
+    const hold = await reserveCredits(
+      options.userId,
+      productIds.length * BULK_OPTIMIZATION.CREDITS_PER_ITEM,
+      `Bulk ${options.optimizationType} optimization of ${productIds.length} products`,
+      CREDIT_RESERVATIONS.JOB_HOLD_TTL_MS
+    );
+
+    let job: BulkOptimizationJob;
+    try {
+      job = await storage.createBulkOptimizationJob({
+        userId: options.userId,
+        userStoreId: options.userStoreId,
+        optimizationType: options.optimizationType,
+        totalItems: productIds.length,
+        creditReservationId: hold.reservation.id,
+      }, productIds);
+    } catch (error) {
+      await hold.release();
+      throw error;
+    }
+
+    logInfo('Bulk Optimization', `Enqueued ${job.optimizationType} job ${job.id} with ${productIds.length} products`);
+    setImmediate(() => this.poll());
+    return job;
+  }
+
+  /**
+   * Asks a job to stop. Items already running finish; the rest are cancelled by the worker.
+   */
+  async cancel(job: BulkOptimizationJob): Promise<BulkOptimizationJob | undefined> {
+    const updated = await storage.updateBulkOptimizationJob(job.id, { cancelRequestedAt: new Date() });
+    setImmediate(() => this.poll());
+    return updated;
+  }
+
+  /**
+   * Start the polling loop. Jobs whose worker stopped refreshing the lock (e.g. the process
+   * crashed mid-run) are put back in the queue on startup and periodically after that.
+   */
+  async start(): Promise<void> {
+    if (this.timer) return;
+
+    await this.requeueStaleJobs();
+    this.timer = setInterval(() => this.poll(), BULK_OPTIMIZATION.POLL_INTERVAL);
+    this.sweepTimer = setInterval(() => this.requeueStaleJobs(), BULK_OPTIMIZATION.STALE_LOCK_MS);
+    logInfo('Bulk Optimization', 'Worker started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = null;
+    }
+  }
+
+  private async requeueStaleJobs(): Promise<void> {
+    try {
+      const requeued = await storage.requeueStaleBulkOptimizationJobs(new Date(Date.now() - BULK_OPTIMIZATION.STALE_LOCK_MS));
+      if (requeued > 0) {
+        logWarning('Bulk Optimization', `Requeued ${requeued} stale bulk optimization jobs`);
+      }
+    } catch (error) {
+      console.error('Failed to requeue stale bulk optimization jobs:', error);
+    }
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) return;
+    this.polling = true;
+
+    try {
+      while (this.activeJobs < BULK_OPTIMIZATION.CONCURRENCY) {
+        const job = await storage.claimNextBulkOptimizationJob();
+        if (!job) break;
+
+        this.activeJobs++;
+        this.processJob(job).finally(() => {
+          this.activeJobs--;
+          this.poll();
+        });
+      }
+    } catch (error) {
+      console.error('Bulk optimization poll failed:', error);
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async isCancelRequested(jobId: number): Promise<boolean> {
+    const job = await storage.getBulkOptimizationJob(jobId);
+    return !job || !!job.cancelRequestedAt;
+  }
+
+  private async processJob(job: BulkOptimizationJob): Promise<void> {
+    logInfo('Bulk Optimization', `Running job ${job.id}`);
+
+    // Keeps the lock fresh while items run, so the stale-lock sweep doesn't requeue a live job
+    const lockRefresh = setInterval(() => {
+      storage.refreshBulkOptimizationJobLock(job.id).catch(error => {
+        console.error(`Failed to refresh lock of bulk optimization job ${job.id}:`, error);
+      });
+    }, BULK_OPTIMIZATION.LOCK_REFRESH_MS);
+
+    try {
+      const store = await storage.getUserStore(job.userStoreId);
+      if (!store || store.userId !== job.userId || !canSyncProducts(store)) {
+        await storage.cancelPendingBulkOptimizationItems(job.id);
+        await storage.updateBulkOptimizationJob(job.id, {
+          status: 'failed',
+          error: store ? notConnectedMessage(store) : 'Store not found',
+          lockedAt: null,
+          completedAt: new Date(),
+        });
+        await releaseCreditReservation(job.creditReservationId);
+        return;
+      }
+
+      // A few lanes share the job's items; Shopify writes wait out throttling inside updateProduct
+      const lanes = Array.from({ length: BULK_OPTIMIZATION.ITEM_CONCURRENCY }, async () => {
+        while (!(await this.isCancelRequested(job.id))) {
+          const item = await storage.claimNextBulkOptimizationItem(job.id);
+          if (!item) return;
+          await this.processItem(job, store, item);
+        }
+      });
+      await Promise.all(lanes);
+
+      const cancelled = await this.isCancelRequested(job.id);
+      if (cancelled) {
+        await storage.cancelPendingBulkOptimizationItems(job.id);
+      }
+
+      const finished = await storage.updateBulkOptimizationJob(job.id, {
+        status: cancelled ? 'cancelled' : 'completed',
+        lockedAt: null,
+        completedAt: new Date(),
+      });
+      // Products that failed or were cancelled were never charged
+      await releaseCreditReservation(job.creditReservationId);
+      logInfo('Bulk Optimization', `Job ${job.id} ${finished?.status}`, {
+        succeeded: finished?.succeededItems,
+        failed: finished?.failedItems,
+      });
+    } catch (error: any) {
+      // Storage failures land here; the stale-lock sweep picks the job up again later
+      console.error(`Bulk optimization job ${job.id} failed:`, error);
+      await storage.updateBulkOptimizationJob(job.id, { error: error?.message || 'Bulk optimization failed' }).catch(() => undefined);
+    } finally {
+      clearInterval(lockRefresh);
+    }
+  }
+
+  /**
+   * Optimizes one product. Transient failures before the Shopify write are retried with backoff;
+   * once the product has been updated the item is never retried, so a change is not applied twice.
+   * Every status change is conditional on this worker's claim: an item that was requeued and claimed
+   * by another worker is left alone, and one moved to publishing is never applied or charged again.
+   */
+  private async processItem(job: BulkOptimizationJob, store: UserStore, item: BulkOptimizationItem): Promise<void> {
+    let attempts = item.attempts;
+    let status: BulkOptimizationItemStatus = 'running';
+
+    while (true) {
+      let published = false;
+      try {
+        // Jobs queued before they carried a hold still check the balance before touching the product
+        if (!job.creditReservationId) {
+          const credits = await storage.getUserCredits(job.userId);
+          if (credits < BULK_OPTIMIZATION.CREDITS_PER_ITEM) {
+            throw new PermanentItemError('Insufficient credits');
+          }
+        }
+
+        const platform = getPlatformAdapter(store.storeType);
+        const product = await platform.getProduct(store, item.shopifyProductId);
+        if (!product) {
+          throw new PermanentItemError('Product not found');
+        }
+
+        const updateData = await generateUpdateData(product, job.optimizationType);
+        if (Object.keys(updateData).length === 0) {
+          throw new PermanentItemError('No optimization could be generated for this product');
+        }
+
+        if (!(await storage.transitionBulkOptimizationItem(item.id, 'running', item.claimedAt, { status: 'publishing' }))) {
+          logWarning('Bulk Optimization', `Product ${item.shopifyProductId} in job ${job.id} was claimed by another worker, skipping it`);
+          return;
+        }
+        status = 'publishing';
+
+        await platform.updateProduct(store, item.shopifyProductId, updateData);
+        published = true;
+
+        try {
+          await refreshMirroredProduct(store, item.shopifyProductId);
+        } catch (error) {
+          console.error(`Failed to refresh mirrored product ${item.shopifyProductId}:`, error);
+        }
+
+        // Credits are charged per product that was actually updated
+        await commitCreditReservation(job.creditReservationId, {
+          userId: job.userId,
+          amount: BULK_OPTIMIZATION.CREDITS_PER_ITEM,
+          description: `Bulk ${job.optimizationType} optimization for "${product.title}"`,
+        });
+
+        const originalValue = getOriginalValue(product, job.optimizationType);
+        const optimizedValue = getOptimizedValue(updateData, job.optimizationType);
+        const optimization = await storage.recordProductOptimization({
+          userId: job.userId,
+          userStoreId: store.id,
+          shopifyProductId: item.shopifyProductId,
+          shopifyVariantId: job.optimizationType === 'pricing' ? updateData.variants?.[0]?.id : null,
+          optimizationType: job.optimizationType,
+          originalValue,
+          optimizedValue,
+          creditsUsed: BULK_OPTIMIZATION.CREDITS_PER_ITEM,
+        });
+
+        const succeeded = await storage.transitionBulkOptimizationItem(item.id, 'publishing', item.claimedAt, {
+          status: 'succeeded',
+          productTitle: product.title,
+          originalValue,
+          optimizedValue,
+          optimizationId: optimization.id,
+          error: null,
+          completedAt: new Date(),
+        });
+        if (!succeeded) {
+          // The stale-lock sweep already failed and counted it
+          logWarning('Bulk Optimization', `Product ${item.shopifyProductId} in job ${job.id} was updated after its job was requeued`);
+          return;
+        }
+        await storage.incrementBulkOptimizationJobCounts(job.id, {
+          succeededItems: 1,
+          creditsUsed: BULK_OPTIMIZATION.CREDITS_PER_ITEM,
+        });
+        return;
+      } catch (error: any) {
+        const message = error?.message || 'Optimization failed';
+
+        if (!published && isTransientError(error) && attempts < BULK_OPTIMIZATION.MAX_ITEM_ATTEMPTS) {
+          const delay = BULK_OPTIMIZATION.RETRY_BASE_DELAY * Math.pow(2, attempts - 1);
+          logWarning('Bulk Optimization', `Product ${item.shopifyProductId} in job ${job.id} failed, retrying in ${delay}ms`, message);
+          await sleep(delay);
+          attempts++;
+          if (!(await storage.transitionBulkOptimizationItem(item.id, status, item.claimedAt, { status: 'running', attempts, error: message }))) {
+            return;
+          }
+          status = 'running';
+          continue;
+        }
+
+        console.error(`Bulk optimization of product ${item.shopifyProductId} in job ${job.id} failed:`, error);
+        const failed = await storage.transitionBulkOptimizationItem(item.id, status, item.claimedAt, {
+          status: 'failed',
+          attempts,
+          error: published ? `Product was updated but recording the change failed: ${message}` : message,
+          completedAt: new Date(),
+        });
+        if (failed) {
+          await storage.incrementBulkOptimizationJobCounts(job.id, { failedItems: 1 });
+        }
+        return;
+      }
+    }
+  }
+}
+
+export const bulkOptimizationQueue = new BulkOptimizationQueue();
@@ -0,0 +1,247 @@
+import { storage } from "../storage";
+import { COMPETITOR_BENCHMARKS } from "@shared/constants";
+import type {
+  BenchmarkProfile,
+  CompetitorAnalysis,
+  CompetitorComparison,
+  PriceRangeSummary,
+  ScoreCategory,
+  StoreAnalysis,
+  StoreAnalysisResult,
+  UserStore,
+} from "@shared/schema";
+import { HttpError } from "@shared/errorHandler";
+import { fetchPublicProducts } from "./storeAnalyzer";
+import { getPlatformAdapter, canSyncProducts } from "./storePlatforms";
+
+// A benchmark operation that can't go ahead
+export class CompetitorBenchmarkError extends HttpError {}
+
+type BenchmarkSuggestion = StoreAnalysisResult['suggestions'][number];
+
+const CATEGORIES: Array<{ category: ScoreCategory; field: keyof StoreAnalysis & keyof CompetitorAnalysis; label: string; max: number }> = [
+  { category: 'design', field: 'designScore', label: 'Design', max: 20 },
+  { category: 'product', field: 'productScore', label: 'Product', max: 25 },
+  { category: 'seo', field: 'seoScore', label: 'SEO', max: 20 },
+  { category: 'trust', field: 'trustScore', label: 'Trust', max: 15 },
+  { category: 'pricing', field: 'pricingScore', label: 'Pricing', max: 10 },
+  { category: 'conversion', field: 'conversionScore', label: 'Conversion', max: 10 },
+];
+
+/**
+ * Min, max and median of the first variant price of every priced product
+ * @param products - REST-shaped products (public products.json feed or the product mirror)
+ * @returns null when no product has a usable price
+ */
+export function summarizePrices(products: any[]): PriceRangeSummary | null {
+  const prices = products
+    .map(product => parseFloat(product?.variants?.[0]?.price))
+    .filter(price => Number.isFinite(price) && price > 0)
+    .sort((a, b) => a - b);
+  if (prices.length === 0) return null;
+
+  const middle = Math.floor(prices.length / 2);
+  const median = prices.length % 2 ? prices[middle] : (prices[middle - 1] + prices[middle]) / 2;
+  return {
+    min: prices[0],
+    max: prices[prices.length - 1],
+    median: Math.round(median * 100) / 100,
+    productCount: prices.length,
+  };
+}
+
+function toProfile(analysis: StoreAnalysis | CompetitorAnalysis, priceRange: PriceRangeSummary | null): BenchmarkProfile {
+  const data = analysis.analysisData as StoreAnalysisResult;
+  return {
+    analysisId: analysis.id,
+    analyzedAt: analysis.createdAt.toISOString(),
+    overallScore: analysis.overallScore,
+    categoryScores: Object.fromEntries(CATEGORIES.map(({ category, field }) => [category, analysis[field] as number])) as Record<ScoreCategory, number>,
+    priceRange,
+    trustSignals: (data?.scoreBreakdown?.trust?.rules || []).map(({ id, label, passed }) => ({ id, label, passed })),
+    mainCategories: (data?.storeRecap?.mainCategories || []).map(category => category.name),
+  };
+}
+
+const emptyProfile = (priceRange: PriceRangeSummary | null): BenchmarkProfile => ({
+  analysisId: null,
+  analyzedAt: null,
+  overallScore: null,
+  categoryScores: null,
+  priceRange,
+  trustSignals: [],
+  mainCategories: [],
+});
+
+/**
+ * Prices of the user's own store: the product mirror when the platform is connected,
+ * otherwise the public Shopify feed of its storefront
+ */
+async function getOwnPriceRange(store: UserStore): Promise<PriceRangeSummary | null> {
+  try {
+    if (store.isConnected && canSyncProducts(store)) {
+      return summarizePrices(await getPlatformAdapter(store.storeType).listProducts(store));
+    }
+    if (store.storeType === 'shopify' && store.storeUrl) {
+      return summarizePrices(await fetchPublicProducts(store.storeUrl));
+    }
+  } catch (error) {
+    console.error(`Failed to read prices for store ${store.id}:`, error);
+  }
+  return null;
+}
+
+const normalizeCategory = (name: string) => name.trim().toLowerCase();
+
+/**
+ * Turns the gaps between the store and one competitor into suggestions phrased against that competitor:
+ * trust checks they pass and the store fails, categories they score clearly higher in, and price positioning
+ */
+function suggestFromCompetitor(name: string, own: BenchmarkProfile, theirs: BenchmarkProfile): BenchmarkSuggestion[] {
+  const suggestions: BenchmarkSuggestion[] = [];
+
+  const ownSignals = new Map(own.trustSignals.map(signal => [signal.id, signal.passed]));
+  for (const signal of theirs.trustSignals) {
+    if (signal.passed && ownSignals.get(signal.id) === false) {
+      suggestions.push({
+        title: `Match ${name}: ${signal.label}`,
+        description: `${name} meets "${signal.label}" and your store doesn't.`,
+        impact: `Closes a trust gap shoppers comparing you with ${name} can see`,
+        category: 'trust',
+        priority: 'high',
+      });
+    }
+  }
+
+  if (own.categoryScores && theirs.categoryScores) {
+    for (const { category, label, max } of CATEGORIES) {
+      const gap = theirs.categoryScores[category] - own.categoryScores[category];
+      if (gap >= COMPETITOR_BENCHMARKS.SCORE_GAP_THRESHOLD) {
+        suggestions.push({
+          title: `${label} trails ${name}`,
+          description: `${name} scores ${theirs.categoryScores[category]}/${max} on ${label.toLowerCase()} against your ${own.categoryScores[category]}/${max}. Review the ${label.toLowerCase()} recommendations from your latest analysis to close the gap.`,
+          impact: `Up to ${gap} points to reach ${name}'s level`,
+          category,
+          priority: gap >= COMPETITOR_BENCHMARKS.SCORE_GAP_THRESHOLD * 2 ? 'high' : 'medium',
+        });
+      }
+    }
+  }
+
+  if (own.priceRange && theirs.priceRange) {
+    const ratio = own.priceRange.median / theirs.priceRange.median - 1;
+    if (Math.abs(ratio) >= COMPETITOR_BENCHMARKS.PRICE_GAP_RATIO) {
+      const percent = Math.round(Math.abs(ratio) * 100);
+      suggestions.push(ratio > 0
+        ? {
+            title: `Priced above ${name}`,
+            description: `Your median price (${own.priceRange.median}) is ${percent}% higher than ${name}'s (${theirs.priceRange.median}). Make the extra value visible or introduce an entry-level product.`,
+            impact: `Fewer shoppers leave for ${name} on price`,
+            category: 'pricing',
+            priority: 'medium',
+          }
+        : {
+            title: `Priced below ${name}`,
+            description: `Your median price (${own.priceRange.median}) is ${percent}% lower than ${name}'s (${theirs.priceRange.median}). There may be room to raise prices or bundle products.`,
+            impact: `Higher margin without losing ground to ${name}`,
+            category: 'pricing',
+            priority: 'low',
+          });
+    }
+  }
+
+  const ownCategories = new Set(own.mainCategories.map(normalizeCategory));
+  const missing = own.mainCategories.length > 0
+    ? theirs.mainCategories.filter(category => !ownCategories.has(normalizeCategory(category)))
+    : [];
+  if (missing.length > 0) {
+    suggestions.push({
+      title: `Categories ${name} covers`,
+      description: `${name} sells ${missing.join(', ')}, which your store doesn't carry.`,
+      impact: `Captures demand currently going to ${name}`,
+      category: 'product',
+      priority: 'low',
+    });
+  }
+
+  return suggestions;
+}
+
+const PRIORITY_ORDER: Record<BenchmarkSuggestion['priority'], number> = { critical: 0, high: 1, medium: 2, low: 3 };
+
+/**
+ * Builds the side-by-side view of a store and its competitors from their latest analyses
+ */
+export async function buildCompetitorComparison(store: UserStore): Promise<CompetitorComparison> {
+  const [latest] = await storage.getUserStoreAnalyses(store.id, 1);
+  const priceRange = await getOwnPriceRange(store);
+  const own = latest ? toProfile(latest, priceRange) : emptyProfile(priceRange);
+
+  const competitors = await storage.getStoreCompetitors(store.id);
+  const suggestions: BenchmarkSuggestion[] = [];
+
+  const entries = await Promise.all(competitors.map(async competitor => {
+    const analysis = await storage.getLatestCompetitorAnalysis(competitor.id);
+    const profile = analysis ? toProfile(analysis, analysis.priceRange ?? null) : null;
+    if (profile && latest) {
+      suggestions.push(...suggestFromCompetitor(competitor.name, own, profile));
+    }
+
+    const ownCategories = new Set(own.mainCategories.map(normalizeCategory));
+    return {
+      competitor: { id: competitor.id, name: competitor.name, storeUrl: competitor.storeUrl },
+      profile,
+      sharedCategories: (profile?.mainCategories || []).filter(category => ownCategories.has(normalizeCategory(category))),
+    };
+  }));
+
+  return {
+    store: own,
+    competitors: entries,
+    suggestions: suggestions
+      .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority])
+      .slice(0, COMPETITOR_BENCHMARKS.MAX_SUGGESTIONS),
+  };
+}
+
+// Saved store URLs are free text and may lack a scheme
+function hostOf(storeUrl: string): string | null {
+  try {
+    return new URL(/^https?:\/\//i.test(storeUrl) ? storeUrl : `https://${storeUrl}`).host;
+  } catch {
+    return null;
+  }
+}
+
+const TOO_MANY_COMPETITORS = `A store can be benchmarked against at most ${COMPETITOR_BENCHMARKS.MAX_PER_STORE} competitors`;
+
+/**
+ * Attaches a competitor to a store, up to COMPETITOR_BENCHMARKS.MAX_PER_STORE. The limit is checked
+ * up front for a clear error and enforced again by the insert, which concurrent adds can't race past.
+ */
+export async function addStoreCompetitor(store: UserStore, storeUrl: string, name?: string) {
+  const existing = await storage.getStoreCompetitors(store.id);
+  if (existing.length >= COMPETITOR_BENCHMARKS.MAX_PER_STORE) {
+    throw new CompetitorBenchmarkError(TOO_MANY_COMPETITORS, 409);
+  }
+
+  const url = new URL(storeUrl);
+  const normalizedUrl = `${url.protocol}//${url.host}`;
+  if (existing.some(competitor => competitor.storeUrl === normalizedUrl)) {
+    throw new CompetitorBenchmarkError("This competitor is already attached to the store", 409);
+  }
+  if (store.storeUrl && hostOf(store.storeUrl) === url.host) {
+    throw new CompetitorBenchmarkError("A store can't be its own competitor");
+  }
+
+  const created = await storage.createStoreCompetitor({
+    userId: store.userId,
+    userStoreId: store.id,
+    name: name || url.hostname.replace(/^www\./, ''),
+    storeUrl: normalizedUrl,
+  }, COMPETITOR_BENCHMARKS.MAX_PER_STORE);
+  if (!created) {
+    throw new CompetitorBenchmarkError(TOO_MANY_COMPETITORS, 409);
+  }
+  return created;
+}
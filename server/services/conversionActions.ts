@@ -0,0 +1,177 @@
+import { storage } from "../storage";
+import { CONVERSION_ACTIONS, THEME_CUSTOMIZATION } from "@shared/constants";
+import { logInfo } from "@shared/errorHandler";
+import type { ConversionAction, ConversionActionRequest, ConversionActionType, UserStore } from "@shared/schema";
+import { deleteAsset, getAsset, getMainTheme, putAsset, ThemeCustomizationError } from "./shopifyThemes";
+
+type ApplicableAction = Exclude<ConversionActionRequest, { type: 'manual' }>;
+
+// Liquid for each action. Each renders from the layout on every page and decides itself
+// where it applies; placement scripts move the markup next to the theme's own elements.
+const SNIPPETS: Record<ConversionActionType, (settings: any) => string> = {
+  compare_at_badge: () => `{%- if template.name == 'product' and product.compare_at_price > product.price -%}
+  {%- assign storescore_saving = product.compare_at_price | minus: product.price | times: 100 | divided_by: product.compare_at_price -%}
+  <span id="storescore-compare-at-badge" style="display:inline-block;margin:0 0 8px;padding:2px 8px;border-radius:4px;background:#c0392b;color:#fff;font-size:0.85em;font-weight:600;">
+    Save {{ storescore_saving }}%
+  </span>
+  <script>
+    (function () {
+      var badge = document.getElementById('storescore-compare-at-badge');
+      var price = document.querySelector('.product__info-container .price, .product-single__price, [data-product-price], .price');
+      if (badge && price) price.parentNode.insertBefore(badge, price);
+    })();
+  </script>
+{%- endif -%}
+`,
+
+  free_shipping_bar: (settings: { threshold: number }) => `{%- assign storescore_threshold = ${Math.round(settings.threshold * 100)} -%}
+{%- assign storescore_remaining = storescore_threshold | minus: cart.total_price -%}
+<div id="storescore-free-shipping-bar" style="position:sticky;top:0;z-index:100;padding:8px 16px;background:#111;color:#fff;text-align:center;font-size:0.9em;">
+  {%- if storescore_remaining > 0 -%}
+    Spend {{ storescore_remaining | money }} more for free shipping
+  {%- else -%}
+    You've unlocked free shipping!
+  {%- endif -%}
+</div>
+<script>
+  (function () {
+    var bar = document.getElementById('storescore-free-shipping-bar');
+    if (bar) document.body.insertBefore(bar, document.body.firstChild);
+  })();
+</script>
+`,
+
+  low_stock_urgency: (settings: { threshold: number }) => `{%- if template.name == 'product' -%}
+  {%- assign storescore_variant = product.selected_or_first_available_variant -%}
+  {%- if storescore_variant.inventory_management == 'shopify' and storescore_variant.inventory_quantity > 0 and storescore_variant.inventory_quantity <= ${settings.threshold} -%}
+    <p id="storescore-low-stock" style="margin:8px 0;color:#c0392b;font-weight:600;">
+      Only {{ storescore_variant.inventory_quantity }} left in stock, order soon
+    </p>
+    <script>
+      (function () {
+        var message = document.getElementById('storescore-low-stock');
+        var form = document.querySelector('form[action*="/cart/add"]');
+        if (message && form) form.parentNode.insertBefore(message, form);
+      })();
+    </script>
+  {%- endif -%}
+{%- endif -%}
+`,
+
+  sticky_add_to_cart: () => `{%- if template.name == 'product' and product.available -%}
+  <div id="storescore-sticky-atc" style="position:fixed;left:0;right:0;bottom:0;z-index:100;display:none;align-items:center;justify-content:space-between;gap:12px;padding:10px 16px;background:#fff;box-shadow:0 -2px 8px rgba(0,0,0,0.12);">
+    <span style="font-weight:600;overflow:hidden;text-overflow:ellipsis;white-space:nowrap;">{{ product.title }} &middot; {{ product.selected_or_first_available_variant.price | money }}</span>
+    <button type="button" style="padding:10px 20px;border:0;border-radius:4px;background:#111;color:#fff;font-weight:600;cursor:pointer;">Add to cart</button>
+  </div>
+  <script>
+    (function () {
+      var bar = document.getElementById('storescore-sticky-atc');
+      var form = document.querySelector('form[action*="/cart/add"]');
+      var submit = form && form.querySelector('[type="submit"]');
+      if (!bar || !submit || !('IntersectionObserver' in window)) return;
+      bar.querySelector('button').addEventListener('click', function () { submit.click(); });
+      new IntersectionObserver(function (entries) {
+        bar.style.display = entries[0].isIntersecting ? 'none' : 'flex';
+      }).observe(submit);
+    })();
+  </script>
+{%- endif -%}
+`,
+};
+
+const snippetKey = (actionType: ConversionActionType) => `${CONVERSION_ACTIONS.SNIPPET_PREFIX}${actionType.replace(/_/g, '-')}.liquid`;
+
+// The render tag sits between markers so it can be found and removed again
+function renderBlock(actionType: ConversionActionType): string {
+  const snippet = snippetKey(actionType).replace('snippets/', '').replace('.liquid', '');
+  return `{% comment %}storescore:${actionType}{% endcomment %}{% render '${snippet}', product: product %}{% comment %}/storescore:${actionType}{% endcomment %}`;
+}
+
+function removeRenderBlock(layout: string, actionType: ConversionActionType): string {
+  const start = `{% comment %}storescore:${actionType}{% endcomment %}`;
+  const end = `{% comment %}/storescore:${actionType}{% endcomment %}`;
+  const from = layout.indexOf(start);
+  const to = layout.indexOf(end);
+  if (from === -1 || to === -1) return layout;
+  return layout.slice(0, from).replace(/[ \t]*$/, '') + layout.slice(to + end.length).replace(/^\r?\n/, '');
+}
+
+function assertCanChangeTheme(store: UserStore): void {
+  if (!store.shopifyAccessToken || !store.shopifyDomain) {
+    throw new ThemeCustomizationError('Store not connected to Shopify');
+  }
+  if (!store.shopifyScope?.includes('write_themes')) {
+    throw new ThemeCustomizationError('Insufficient permissions: reconnect your store to grant theme access', 403);
+  }
+}
+
+/**
+ * Installs the action's snippet in the live theme and renders it from the layout.
+ * Applying an action that is already live replaces its settings.
+ */
+export async function applyConversionAction(
+  store: UserStore,
+  userId: number,
+  suggestionId: string,
+  action: ApplicableAction
+): Promise<ConversionAction> {
+  assertCanChangeTheme(store);
+
+  const theme = await getMainTheme(store);
+  const themeId = String(theme.id);
+  const key = snippetKey(action.type);
+  const settings = 'settings' in action ? action.settings : {};
+
+  await putAsset(store, themeId, key, SNIPPETS[action.type](settings));
+
+  const layout = await getAsset(store, themeId, THEME_CUSTOMIZATION.LAYOUT_ASSET);
+  if (!layout || !layout.includes('</body>')) {
+    await deleteAsset(store, themeId, key);
+    throw new ThemeCustomizationError("The live theme's layout can't be extended automatically", 422);
+  }
+  if (!layout.includes(renderBlock(action.type))) {
+    await putAsset(store, themeId, THEME_CUSTOMIZATION.LAYOUT_ASSET, layout.replace('</body>', `  ${renderBlock(action.type)}\n</body>`));
+  }
+
+  // Only a snippet in this same theme was overwritten; one left in an older theme stays revertible
+  const previous = await storage.getAppliedConversionAction(store.id, action.type);
+  if (previous && previous.themeId === themeId) {
+    await storage.updateConversionAction(previous.id, { status: 'replaced' });
+  }
+
+  const created = await storage.createConversionAction({
+    userId,
+    userStoreId: store.id,
+    suggestionId,
+    actionType: action.type,
+    settings,
+    themeId,
+    snippetKey: key,
+    creditsUsed: CONVERSION_ACTIONS.CREDIT_COST,
+  });
+
+  logInfo('Conversion Actions', `Applied ${action.type} to theme ${themeId} on store ${store.id}`, settings);
+  return created;
+}
+
+/**
+ * Removes the action's render tag and snippet from the theme it was installed in
+ */
+export async function revertConversionAction(store: UserStore, action: ConversionAction): Promise<ConversionAction> {
+  if (action.status !== 'applied') {
+    throw new ThemeCustomizationError(`Only applied actions can be reverted, this one is ${action.status}`, 409);
+  }
+  assertCanChangeTheme(store);
+
+  const layout = await getAsset(store, action.themeId, THEME_CUSTOMIZATION.LAYOUT_ASSET);
+  if (layout) {
+    const updated = removeRenderBlock(layout, action.actionType);
+    if (updated !== layout) {
+      await putAsset(store, action.themeId, THEME_CUSTOMIZATION.LAYOUT_ASSET, updated);
+    }
+  }
+  await deleteAsset(store, action.themeId, action.snippetKey);
+
+  logInfo('Conversion Actions', `Reverted ${action.actionType} from theme ${action.themeId} on store ${store.id}`);
+  return (await storage.updateConversionAction(action.id, { status: 'reverted', revertedAt: new Date() }))!;
+}
@@ -0,0 +1,146 @@
+import crypto from 'crypto';
+import { CREDENTIAL_VAULT } from '@shared/constants';
+import type { UserStore } from '@shared/schema';
+import { HttpError } from '@shared/errorHandler';
+
+/**
+ * Envelope encryption for platform credentials stored on user stores.
+ *
+ * Every credential gets its own random data key (AES-256-GCM); the data key is wrapped with a
+ * master key from CREDENTIAL_VAULT_KEYS, a comma-separated list of `keyId:base64Key` pairs
+ * (32-byte keys). The first key seals new values, the others only open values sealed under them,
+ * so rotating means putting a new key first and running scripts/encrypt-store-credentials.ts
+ * to rewrap existing data keys before the old key is dropped.
+ *
+ * Sealed values stay sealed on store rows; call revealCredential right where the platform API
+ * request is built.
+ */
+
+// Columns on userStores that hold platform credentials; new marketplaces add theirs here
+export const STORE_CREDENTIAL_FIELDS = [
+  'shopifyAccessToken',
+  'wooConsumerKey',
+  'wooConsumerSecret',
+  'ebayAccessToken',
+  'ebayRefreshToken',
+] as const satisfies readonly (keyof UserStore)[];
+
+export type StoreCredentialField = typeof STORE_CREDENTIAL_FIELDS[number];
+
+// A credential that can't be sealed or opened, a server fault unless said otherwise
+export class CredentialVaultError extends HttpError {
+  constructor(message: string, statusCode: number = 500) {
+    super(message, statusCode);
+  }
+}
+
+interface MasterKey {
+  id: string;
+  key: Buffer;
+}
+
+function loadMasterKeys(): MasterKey[] {
+  return (process.env.CREDENTIAL_VAULT_KEYS || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const separator = entry.indexOf(':');
+      const id = entry.slice(0, separator);
+      const key = Buffer.from(entry.slice(separator + 1), 'base64');
+      if (separator <= 0 || key.length !== 32) {
+        throw new Error(`CREDENTIAL_VAULT_KEYS entry "${id || entry.slice(0, 8)}" must be keyId:base64 of a 32-byte key`);
+      }
+      return { id, key };
+    });
+}
+
+const MASTER_KEYS = loadMasterKeys();
+
+if (MASTER_KEYS.length === 0) {
+  console.error('Missing CREDENTIAL_VAULT_KEYS. Platform credentials cannot be stored until a vault key is configured.');
+}
+
+function getMasterKey(id?: string): MasterKey {
+  const masterKey = id ? MASTER_KEYS.find(candidate => candidate.id === id) : MASTER_KEYS[0];
+  if (!masterKey) {
+    throw new CredentialVaultError(id ? `Credential vault key "${id}" is not configured` : 'Credential vault is not configured', 503);
+  }
+  return masterKey;
+}
+
+// iv (12 bytes) + auth tag (16 bytes) + ciphertext, base64
+function encrypt(key: Buffer, plaintext: Buffer): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function decrypt(key: Buffer, payload: string): Buffer {
+  const raw = Buffer.from(payload, 'base64');
+  const decipher = crypto.createDecipheriv('aes-256-gcm', key, raw.subarray(0, 12));
+  decipher.setAuthTag(raw.subarray(12, 28));
+  return Buffer.concat([decipher.update(raw.subarray(28)), decipher.final()]);
+}
+
+interface SealedParts {
+  keyId: string;
+  wrappedKey: string;
+  payload: string;
+}
+
+function parseSealed(value: string): SealedParts {
+  const [keyId, wrappedKey, payload] = value.slice(CREDENTIAL_VAULT.PREFIX.length + 1).split(':');
+  if (!keyId || !wrappedKey || !payload) {
+    throw new CredentialVaultError('Malformed sealed credential');
+  }
+  return { keyId, wrappedKey, payload };
+}
+
+export function isSealedCredential(value: string | null | undefined): boolean {
+  return !!value && value.startsWith(`${CREDENTIAL_VAULT.PREFIX}:`);
+}
+
+/**
+ * Encrypts a credential under a fresh data key wrapped with the active master key
+ */
+export function sealCredential(plaintext: string): string {
+  const masterKey = getMasterKey();
+  const dataKey = crypto.randomBytes(32);
+  const payload = encrypt(dataKey, Buffer.from(plaintext, 'utf8'));
+  return `${CREDENTIAL_VAULT.PREFIX}:${masterKey.id}:${encrypt(masterKey.key, dataKey)}:${payload}`;
+}
+
+/**
+ * Returns the plaintext of a stored credential. Values that were never sealed (tokens fresh from
+ * an OAuth exchange, rows not yet migrated) pass through unchanged.
+ */
+export function revealCredential(value: string): string {
+  if (!isSealedCredential(value)) return value;
+
+  const { keyId, wrappedKey, payload } = parseSealed(value);
+  try {
+    const dataKey = decrypt(getMasterKey(keyId).key, wrappedKey);
+    return decrypt(dataKey, payload).toString('utf8');
+  } catch (error) {
+    if (error instanceof CredentialVaultError) throw error;
+    throw new CredentialVaultError(`Credential sealed under key "${keyId}" could not be decrypted`);
+  }
+}
+
+/**
+ * Brings a stored value up to the active key: plaintext is sealed, data keys wrapped with an
+ * older master key are rewrapped. The credential itself is never re-encrypted.
+ * Returns null when the value is already current.
+ */
+export function resealCredential(value: string): string | null {
+  if (!isSealedCredential(value)) return sealCredential(value);
+
+  const { keyId, wrappedKey, payload } = parseSealed(value);
+  const activeKey = getMasterKey();
+  if (keyId === activeKey.id) return null;
+
+  const dataKey = decrypt(getMasterKey(keyId).key, wrappedKey);
+  return `${CREDENTIAL_VAULT.PREFIX}:${activeKey.id}:${encrypt(activeKey.key, dataKey)}:${payload}`;
+}
@@ -0,0 +1,161 @@
+import { storage } from "../storage";
+import { CREDIT_RESERVATIONS } from "@shared/constants";
+import { logInfo, logWarning } from "@shared/errorHandler";
+import type { CreditReservation } from "@shared/schema";
+
+/**
+ * Credit-consuming work holds its credits up front instead of checking the balance and charging
+ * afterwards: reserveCredits takes them off the balance atomically, the work commits what it used
+ * once it has actually changed something, and whatever is left is released. Holds that are never
+ * settled (a crashed worker, a request that died mid-way) are released by the sweeper when they expire.
+ */
+
+/**
+ * The balance doesn't cover a hold; routes answer 402 with the two numbers
+ */
+export class InsufficientCreditsError extends Error {
+  constructor(public required: number, public available: number) {
+    super(`Insufficient credits: ${required} required, ${available} available`);
+  }
+}
+
+export interface CreditCharge {
+  userId: number;
+  amount: number;
+  description: string;
+  analysisId?: number;
+}
+
+/**
+ * Charges part or all of a hold. A hold that has already been released or expired can't be charged
+ * any more; the credits are then deducted directly, so work that went through is still paid for
+ * whenever the balance allows. Jobs queued before they carried a hold (reservationId null) go the same way.
+ * @returns false when nothing could be charged
+ */
+export async function commitCreditReservation(reservationId: number | null, charge: CreditCharge): Promise<boolean> {
+  if (reservationId) {
+    const committed = await storage.commitCreditReservation(reservationId, charge.amount, charge.description, charge.analysisId);
+    if (committed) return true;
+    logWarning('Credit Reservations', `Reservation ${reservationId} is no longer open, charging ${charge.amount} credits directly`);
+  }
+
+  const charged = await storage.deductCredits(charge.userId, charge.amount, charge.description, charge.analysisId);
+  if (!charged) {
+    console.error(`Could not charge ${charge.amount} credits to user ${charge.userId} for "${charge.description}"`);
+  }
+  return charged;
+}
+
+/**
+ * Returns whatever part of a hold wasn't committed. Safe to call on holds that are already closed.
+ */
+export async function releaseCreditReservation(reservationId: number | null): Promise<void> {
+  if (!reservationId) return;
+  await storage.releaseCreditReservation(reservationId);
+}
+
+/**
+ * Credits held for one request. Commit once the change has been made, or charge up front before a
+ * store change that can't be taken back; release in a finally block, which does nothing after a full
+ * commit and never throws, since the sweeper returns the credits anyway once the hold expires.
+ */
+export class CreditHold {
+  constructor(public readonly reservation: CreditReservation) {}
+
+  async commit(description: string, analysisId?: number): Promise<boolean> {
+    return await commitCreditReservation(this.reservation.id, {
+      userId: this.reservation.userId,
+      amount: this.reservation.amount,
+      description,
+      analysisId,
+    });
+  }
+
+  /**
+   * Commits the hold before the work it pays for, for changes that can't be taken back once they
+   * reach a store: a hold that lapsed stops the change instead of letting it go out uncharged
+   * @throws InsufficientCreditsError when the hold lapsed and the balance no longer covers it
+   */
+  async charge(description: string): Promise<void> {
+    if (!(await this.commit(description))) {
+      throw new InsufficientCreditsError(this.reservation.amount, await storage.getUserCredits(this.reservation.userId));
+    }
+  }
+
+  /**
+   * Gives back a charged hold when the change it paid for didn't go through after all
+   */
+  async refund(description: string): Promise<void> {
+    await storage.adjustCredits(this.reservation.userId, this.reservation.amount, 'refund', description);
+  }
+
+  async release(): Promise<void> {
+    try {
+      await releaseCreditReservation(this.reservation.id);
+    } catch (error) {
+      console.error(`Failed to release credit reservation ${this.reservation.id}:`, error);
+    }
+  }
+}
+
+/**
+ * Holds `amount` credits for the user
+ * @throws InsufficientCreditsError when the balance doesn't cover them
+ */
+export async function reserveCredits(
+  userId: number,
+  amount: number,
+  description: string,
+  ttlMs: number = CREDIT_RESERVATIONS.HOLD_TTL_MS
+): Promise<CreditHold> {
+  const reservation = await storage.reserveCredits(userId, amount, description, new Date(Date.now() + ttlMs));
+  if (!reservation) {
+    throw new InsufficientCreditsError(amount, await storage.getUserCredits(userId));
+  }
+  return new CreditHold(reservation);
+}
+
+/**
+ * Periodically releases holds that outlived their expiry
+ */
+export class CreditReservationSweeper {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.releaseExpired(), CREDIT_RESERVATIONS.SWEEP_INTERVAL_MS);
+    setImmediate(() => this.releaseExpired());
+    logInfo('Credit Reservations', 'Sweeper started');
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async releaseExpired(): Promise<void> {
+    if (this.running) return;
+    this.running = true;
+
+    try {
+      const expired = await storage.getExpiredCreditReservations(new Date(), CREDIT_RESERVATIONS.SWEEP_BATCH_SIZE);
+      for (const reservation of expired) {
+        // Settled in the meantime if this comes back undefined, which is fine
+        const released = await storage.releaseCreditReservation(reservation.id, 'expired');
+        if (released) {
+          logWarning('Credit Reservations', `Released expired reservation ${reservation.id} (${released.amount - released.committedAmount} credits) for user ${reservation.userId}`);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to release expired credit reservations:', error);
+    } finally {
+      this.running = false;
+    }
+  }
+}
+
+export const creditReservationSweeper = new CreditReservationSweeper();
@@ -0,0 +1,512 @@
+import { storage } from "../storage";
+import { EBAY } from "@shared/constants";
+import { logInfo, logWarning, HttpError } from "@shared/errorHandler";
+import type { MirroredShopifyProductInput, UserStore } from "@shared/schema";
+import type { ProductSyncResult } from "./shopifyProductSync";
+import { toRestProduct } from "./shopifyProductSync";
+import { sealCredential, revealCredential } from "./credentialVault";
+
+// eBay OAuth configuration; the redirect is registered with eBay as a RuName, not a URL
+const EBAY_CLIENT_ID = process.env.EBAY_CLIENT_ID;
+const EBAY_CLIENT_SECRET = process.env.EBAY_CLIENT_SECRET;
+const EBAY_RU_NAME = process.env.EBAY_RU_NAME;
+const ENVIRONMENT = process.env.EBAY_ENVIRONMENT === 'sandbox' ? 'sandbox' : 'production';
+const API_BASE = EBAY.API_BASE[ENVIRONMENT];
+const AUTH_BASE = EBAY.AUTH_BASE[ENVIRONMENT];
+
+// An eBay operation that can't go ahead
+export class EbayError extends HttpError {}
+
+export interface EbayTokens {
+  accessToken: string;
+  refreshToken: string;
+  expiresAt: Date;
+}
+
+export interface EbaySellerProfile {
+  userId: string;
+  feedbackScore: number;
+  positiveFeedbackPercent: number | null;
+  registeredAt: string | null;
+  storeUrl: string | null;
+}
+
+export interface EbayReturnPolicy {
+  name: string;
+  returnsAccepted: boolean;
+  returnPeriod: string | null; // e.g. "30 DAY"
+  returnShippingCostPayer: string | null;
+}
+
+// An inventory item with its offer on the configured marketplace, if it has one
+export interface EbayListing {
+  sku: string;
+  title: string;
+  description: string;
+  aspects: Record<string, string[]>;
+  imageUrls: string[];
+  condition: string | null;
+  quantity: number | null;
+  offerId: string | null;
+  listingId: string | null;
+  status: string | null;
+  price: string | null;
+  currency: string | null;
+}
+
+function assertConfigured(): void {
+  if (!EBAY_CLIENT_ID || !EBAY_CLIENT_SECRET || !EBAY_RU_NAME) {
+    throw new EbayError('eBay integration is not configured', 503);
+  }
+}
+
+/**
+ * Builds the eBay consent URL for a state issued by createOAuthState
+ */
+export function generateEbayAuthUrl(state: string): string {
+  assertConfigured();
+
+  return `${AUTH_BASE}/oauth2/authorize?` +
+    `client_id=${encodeURIComponent(EBAY_CLIENT_ID!)}&` +
+    `redirect_uri=${encodeURIComponent(EBAY_RU_NAME!)}&` +
+    `response_type=code&` +
+    `scope=${encodeURIComponent(EBAY.SCOPES.join(' '))}&` +
+    `state=${state}`;
+}
+
+async function requestToken(params: Record<string, string>): Promise<any> {
+  assertConfigured();
+  const response = await fetch(`${API_BASE}/identity/v1/oauth2/token`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Basic ${Buffer.from(`${EBAY_CLIENT_ID}:${EBAY_CLIENT_SECRET}`).toString('base64')}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams(params).toString(),
+  });
+
+  const data: any = await response.json().catch(() => null);
+  if (!response.ok) {
+    throw new EbayError(`eBay token request failed: ${data?.error_description || response.statusText}`, 401);
+  }
+  return data;
+}
+
+/**
+ * Exchanges the authorization code from the consent redirect for a user token pair
+ */
+export async function exchangeEbayCode(code: string): Promise<EbayTokens> {
+  const data = await requestToken({ grant_type: 'authorization_code', code, redirect_uri: EBAY_RU_NAME! });
+  return {
+    accessToken: data.access_token,
+    refreshToken: data.refresh_token,
+    expiresAt: new Date(Date.now() + data.expires_in * 1000),
+  };
+}
+
+/**
+ * Returns a usable user token, renewing it with the refresh token when it is about to expire.
+ * A refresh eBay rejects means the merchant has to reconnect, so the store is marked as such.
+ */
+export async function getEbayAccessToken(store: UserStore): Promise<string> {
+  if (store.storeType !== 'ebay' || !store.ebayAccessToken || !store.ebayRefreshToken) {
+    throw new EbayError('Store not connected to eBay');
+  }
+  if (store.ebayTokenExpiresAt && store.ebayTokenExpiresAt.getTime() - EBAY.TOKEN_REFRESH_MARGIN_MS > Date.now()) {
+    return revealCredential(store.ebayAccessToken);
+  }
+
+  let data: any;
+  try {
+    data = await requestToken({
+      grant_type: 'refresh_token',
+      refresh_token: revealCredential(store.ebayRefreshToken),
+      scope: EBAY.SCOPES.join(' '),
+    });
+  } catch (error) {
+    await storage.updateUserStore(store.id, { connectionStatus: 'error' });
+    throw new EbayError('eBay authorization has expired, reconnect your store', 401);
+  }
+
+  const expiresAt = new Date(Date.now() + data.expires_in * 1000);
+  const sealedToken = sealCredential(data.access_token);
+  await storage.updateUserStore(store.id, { ebayAccessToken: sealedToken, ebayTokenExpiresAt: expiresAt });
+  // Callers hold on to the store row, keep it in step with what was saved
+  store.ebayAccessToken = sealedToken;
+  store.ebayTokenExpiresAt = expiresAt;
+  return data.access_token;
+}
+
+/**
+ * Calls an eBay REST API (Sell Inventory, Sell Account) as the store's seller.
+ * Returns null for 204 responses.
+ */
+async function ebayRequest(store: UserStore, method: string, path: string, body?: unknown): Promise<any> {
+  const accessToken = await getEbayAccessToken(store);
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), EBAY.REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${API_BASE}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'Content-Type': 'application/json',
+        'Content-Language': EBAY.CONTENT_LANGUAGE,
+        'Accept': 'application/json',
+        'X-EBAY-C-MARKETPLACE-ID': EBAY.MARKETPLACE_ID,
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const detail: any = await response.json().catch(() => null);
+      const message = detail?.errors?.[0]?.longMessage || detail?.errors?.[0]?.message || response.statusText;
+      if (response.status === 401 || response.status === 403) {
+        throw new EbayError(`eBay rejected the request: ${message}`, 401);
+      }
+      if (response.status === 404) {
+        throw new EbayError(`eBay resource not found: ${message}`, 404);
+      }
+      if (response.status === 400) {
+        throw new EbayError(`eBay rejected the change: ${message}`, 422);
+      }
+      // 429s and 5xx are worth retrying, which isTransientError reads from statusCode
+      throw new EbayError(`eBay API error (${response.status}): ${message}`, response.status === 429 ? 429 : 502);
+    }
+
+    return response.status === 204 ? null : await response.json();
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+const decodeXml = (value: string) => value
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+function xmlValue(xml: string, tag: string): string | null {
+  const match = xml.match(new RegExp(`<${tag}>([^<]*)</${tag}>`));
+  return match ? decodeXml(match[1]) : null;
+}
+
+/**
+ * Calls the Trading API, which is still the only source for the seller's feedback profile
+ */
+async function tradingRequest(accessToken: string, callName: string, innerXml: string): Promise<string> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), EBAY.REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${API_BASE}/ws/api.dll`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'text/xml',
+        'X-EBAY-API-CALL-NAME': callName,
+        'X-EBAY-API-SITEID': EBAY.TRADING_SITE_ID,
+        'X-EBAY-API-COMPATIBILITY-LEVEL': EBAY.TRADING_COMPATIBILITY_LEVEL,
+        'X-EBAY-API-IAF-TOKEN': accessToken,
+      },
+      body: `<?xml version="1.0" encoding="utf-8"?><${callName}Request xmlns="urn:ebay:apis:eBLBaseComponents">${innerXml}</${callName}Request>`,
+      signal: controller.signal,
+    });
+
+    const xml = await response.text();
+    if (!response.ok || xmlValue(xml, 'Ack') === 'Failure') {
+      throw new EbayError(`eBay ${callName} failed: ${xmlValue(xml, 'LongMessage') || response.statusText}`, response.status >= 500 ? 502 : 400);
+    }
+    return xml;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Reads the seller's eBay user id and feedback profile. Takes a token so the OAuth
+ * callback can look the seller up before the store is saved.
+ */
+export async function getEbaySellerProfile(accessToken: string): Promise<EbaySellerProfile> {
+  const xml = await tradingRequest(accessToken, 'GetUser', '<DetailLevel>ReturnAll</DetailLevel>');
+  const positive = xmlValue(xml, 'PositiveFeedbackPercent');
+
+  return {
+    userId: xmlValue(xml, 'UserID') || '',
+    feedbackScore: parseInt(xmlValue(xml, 'FeedbackScore') || '0', 10),
+    positiveFeedbackPercent: positive ? parseFloat(positive) : null,
+    registeredAt: xmlValue(xml, 'RegistrationDate'),
+    storeUrl: xmlValue(xml, 'StoreURL'),
+  };
+}
+
+/**
+ * Reads the seller's return policies on the configured marketplace
+ */
+export async function getEbayReturnPolicies(store: UserStore): Promise<EbayReturnPolicy[]> {
+  const data = await ebayRequest(store, 'GET', `/sell/account/v1/return_policy?marketplace_id=${EBAY.MARKETPLACE_ID}`);
+  return (data?.returnPolicies || []).map((policy: any) => ({
+    name: policy.name,
+    returnsAccepted: !!policy.returnsAccepted,
+    returnPeriod: policy.returnPeriod ? `${policy.returnPeriod.value} ${policy.returnPeriod.unit}` : null,
+    returnShippingCostPayer: policy.returnShippingCostPayer || null,
+  }));
+}
+
+async function getOffer(store: UserStore, sku: string): Promise<any | null> {
+  try {
+    const data = await ebayRequest(store, 'GET', `/sell/inventory/v1/offer?sku=${encodeURIComponent(sku)}&marketplace_id=${EBAY.MARKETPLACE_ID}`);
+    return data?.offers?.[0] || null;
+  } catch (error) {
+    // eBay answers 404 for an item that was never offered
+    if (error instanceof EbayError && error.statusCode === 404) return null;
+    throw error;
+  }
+}
+
+function toListing(item: any, offer: any | null): EbayListing {
+  return {
+    sku: item.sku,
+    title: item.product?.title || '',
+    description: item.product?.description || '',
+    aspects: item.product?.aspects || {},
+    imageUrls: item.product?.imageUrls || [],
+    condition: item.condition || null,
+    quantity: item.availability?.shipToLocationAvailability?.quantity ?? null,
+    offerId: offer?.offerId || null,
+    listingId: offer?.listing?.listingId || null,
+    status: offer?.status || null,
+    price: offer?.pricingSummary?.price?.value || null,
+    currency: offer?.pricingSummary?.price?.currency || null,
+  };
+}
+
+/**
+ * Pages through the seller's inventory items with their offers. Only listings managed
+ * through the Inventory API are returned; ones created in Seller Hub have to be migrated first.
+ */
+export async function fetchEbayListings(store: UserStore, limit: number = Infinity): Promise<EbayListing[]> {
+  const listings: EbayListing[] = [];
+  let offset = 0;
+  let total = 0;
+
+  do {
+    const page = await ebayRequest(store, 'GET', `/sell/inventory/v1/inventory_item?limit=${EBAY.PAGE_SIZE}&offset=${offset}`);
+    for (const item of page?.inventoryItems || []) {
+      if (listings.length >= limit) return listings;
+      listings.push(toListing(item, await getOffer(store, item.sku)));
+    }
+    total = page?.total || 0;
+    offset += EBAY.PAGE_SIZE;
+  } while (offset < total);
+
+  return listings;
+}
+
+/**
+ * Item specifics as editable text, one "Name: value, value" line per aspect
+ */
+export function formatItemSpecifics(aspects: Record<string, string[]>): string {
+  return Object.entries(aspects).map(([name, values]) => `${name}: ${values.join(', ')}`).join('\n');
+}
+
+export function parseItemSpecifics(text: string): Record<string, string[]> {
+  const aspects: Record<string, string[]> = {};
+  for (const line of text.split('\n').map(item => item.trim()).filter(Boolean)) {
+    const separator = line.indexOf(':');
+    if (separator <= 0) {
+      throw new EbayError(`Item specifics must be "Name: value" lines, got "${line}"`);
+    }
+    const values = line.slice(separator + 1).split(',').map(value => value.trim()).filter(Boolean);
+    if (values.length > 0) {
+      aspects[line.slice(0, separator).trim()] = values;
+    }
+  }
+  return aspects;
+}
+
+// Offer statuses mapped onto the Shopify ones the rest of the app filters on
+const STATUS_MAP: Record<string, string> = {
+  PUBLISHED: 'active',
+  UNPUBLISHED: 'draft',
+};
+
+function toMirrorInput(listing: EbayListing): MirroredShopifyProductInput {
+  return {
+    shopifyProductId: listing.sku,
+    title: listing.title,
+    handle: listing.listingId || listing.sku,
+    descriptionHtml: listing.description || null,
+    productType: listing.aspects.Type?.[0] || null,
+    vendor: listing.aspects.Brand?.[0] || null,
+    tags: [],
+    status: listing.status ? STATUS_MAP[listing.status] || 'draft' : 'draft',
+    seoTitle: null,
+    seoDescription: null,
+    shopifyCreatedAt: null,
+    shopifyUpdatedAt: null,
+    variants: [{
+      shopifyVariantId: listing.offerId || listing.sku,
+      title: 'Default Title',
+      price: listing.price,
+      compareAtPrice: null,
+      sku: listing.sku,
+      inventoryQuantity: listing.quantity,
+      position: 0,
+    }],
+    images: listing.imageUrls.map((src, position) => ({
+      shopifyImageId: `${listing.sku}:${position}`,
+      src,
+      altText: null,
+      position,
+    })),
+  };
+}
+
+/**
+ * Mirrors the seller's listings. The Inventory API can't filter by modification time,
+ * so every sync is a full one that prunes listings that are gone.
+ */
+export async function runEbaySync(store: UserStore): Promise<ProductSyncResult> {
+  const startedAt = new Date();
+
+  await storage.updateUserStore(store.id, { productSyncStatus: 'syncing', productSyncError: null });
+  logInfo('eBay Sync', `Starting product sync for store ${store.id}`);
+
+  try {
+    const listings = await fetchEbayListings(store);
+    await storage.upsertShopifyProducts(store.id, listings.map(toMirrorInput), startedAt);
+    const removed = await storage.deleteStaleShopifyProducts(store.id, startedAt);
+
+    await storage.updateUserStore(store.id, {
+      productSyncStatus: 'idle',
+      productSyncError: null,
+      productsSyncedAt: startedAt,
+      lastSyncAt: new Date(),
+    });
+
+    logInfo('eBay Sync', `Finished sync for store ${store.id}`, { synced: listings.length, removed });
+    return { mode: 'full', synced: listings.length, removed };
+  } catch (error: any) {
+    await storage.updateUserStore(store.id, {
+      productSyncStatus: 'error',
+      productSyncError: error.message || 'Product sync failed',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Re-reads one listing into the mirror and returns it in the REST-style shape with its
+ * item specifics, or null when the inventory item no longer exists
+ */
+export async function fetchEbayProduct(store: UserStore, sku: string) {
+  let item: any;
+  try {
+    item = await ebayRequest(store, 'GET', `/sell/inventory/v1/inventory_item/${encodeURIComponent(sku)}`);
+  } catch (error) {
+    if (error instanceof EbayError && error.statusCode === 404) return { product: null };
+    throw error;
+  }
+
+  const listing = toListing(item, await getOffer(store, sku));
+  await storage.upsertShopifyProducts(store.id, [toMirrorInput(listing)], new Date());
+  const mirrored = await storage.getShopifyProduct(store.id, sku);
+  return {
+    product: mirrored ? { ...toRestProduct(mirrored), item_specifics: formatItemSpecifics(listing.aspects) } : null,
+  };
+}
+
+/**
+ * Applies a title, description or item specifics change to the inventory item.
+ * eBay revises the published listing itself when its inventory item changes.
+ */
+export async function updateEbayListing(store: UserStore, sku: string, updateData: any): Promise<void> {
+  const unsupported = Object.keys(updateData).filter(key => !['title', 'body_html', 'item_specifics'].includes(key));
+  if (unsupported.length > 0) {
+    throw new EbayError(`eBay listings can't be updated with ${unsupported.join(', ')} yet`, 422);
+  }
+  if (updateData.title !== undefined && updateData.title.length > EBAY.TITLE_MAX_LENGTH) {
+    throw new EbayError(`eBay titles are limited to ${EBAY.TITLE_MAX_LENGTH} characters`, 422);
+  }
+
+  const path = `/sell/inventory/v1/inventory_item/${encodeURIComponent(sku)}`;
+  const item = await ebayRequest(store, 'GET', path);
+
+  // createOrReplaceInventoryItem replaces the whole record, so send back everything but the read-only fields
+  const { sku: _sku, groupIds, inventoryItemGroupKeys, ...replacement } = item;
+  replacement.product = { ...item.product };
+  if (updateData.title !== undefined) replacement.product.title = updateData.title;
+  if (updateData.body_html !== undefined) replacement.product.description = updateData.body_html;
+  if (updateData.item_specifics !== undefined) replacement.product.aspects = parseItemSpecifics(updateData.item_specifics);
+
+  await ebayRequest(store, 'PUT', path, replacement);
+  logInfo('eBay Listings', `Updated ${Object.keys(updateData).join(', ')} of ${sku} on store ${store.id}`);
+}
+
+/**
+ * Create store analysis content from eBay API data
+ */
+export function createEbayAnalysisContent(profile: EbaySellerProfile, returnPolicies: EbayReturnPolicy[], listings: EbayListing[]): string {
+  const listingDetails = listings.map(listing => ({
+    title: listing.title,
+    description: listing.description.replace(/<[^>]*>/g, '').substring(0, 200),
+    price: listing.price ? `${listing.price} ${listing.currency}` : 'Not offered',
+    condition: listing.condition,
+    images: listing.imageUrls.length,
+    itemSpecifics: Object.keys(listing.aspects).length,
+    status: listing.status,
+  }));
+
+  return `
+EBAY SELLER ANALYSIS - ${profile.userId}
+
+Seller Profile:
+- eBay User ID: ${profile.userId}
+- Feedback Score: ${profile.feedbackScore}
+- Positive Feedback: ${profile.positiveFeedbackPercent !== null ? `${profile.positiveFeedbackPercent}%` : 'Unknown'}
+- Member Since: ${profile.registeredAt || 'Unknown'}
+- eBay Store: ${profile.storeUrl || 'None'}
+
+Return Policies:
+${returnPolicies.length > 0
+    ? returnPolicies.map(policy => `- ${policy.name}: ${policy.returnsAccepted ? `returns accepted within ${policy.returnPeriod || 'an unspecified period'}, return shipping paid by ${policy.returnShippingCostPayer || 'unspecified'}` : 'no returns accepted'}`).join('\n')
+    : '- No return policies set up'}
+
+Listings:
+- Total Listings Analyzed: ${listings.length}
+- Listings Without Item Specifics: ${listings.filter(listing => Object.keys(listing.aspects).length === 0).length}
+- Listing Details: ${JSON.stringify(listingDetails.slice(0, 10), null, 2)}
+
+This is an eBay seller account that should be analyzed for:
+1. Listing titles and item specifics (eBay search ranks on both)
+2. Listing photos and descriptions
+3. Feedback and trust signals
+4. Return policy competitiveness
+5. Pricing strategy
+`;
+}
+
+/**
+ * Looks up the seller behind a fresh token and stores the connection on the user's eBay store
+ */
+export async function connectEbayStore(store: UserStore, tokens: EbayTokens): Promise<UserStore> {
+  const profile = await getEbaySellerProfile(tokens.accessToken);
+  if (store.ebayUsername && profile.userId && store.ebayUsername.toLowerCase() !== profile.userId.toLowerCase()) {
+    logWarning('eBay Connect', `Store ${store.id} was added as ${store.ebayUsername} but connected as ${profile.userId}`);
+  }
+
+  const updated = await storage.updateUserStore(store.id, {
+    ebayAccessToken: sealCredential(tokens.accessToken),
+    ebayRefreshToken: sealCredential(tokens.refreshToken),
+    ebayTokenExpiresAt: tokens.expiresAt,
+    ebayUsername: profile.userId || store.ebayUsername,
+    storeUrl: store.storeUrl || profile.storeUrl,
+    isConnected: true,
+    connectionStatus: 'connected',
+    lastSyncAt: new Date(),
+  });
+  return updated!;
+}
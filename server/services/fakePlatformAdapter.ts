@@ -0,0 +1,96 @@
+import { storage } from "../storage";
+import type { StoreType } from "@shared/schema";
+import { StorePlatformError, type PlatformProduct, type StorePlatformAdapter } from "./storePlatforms";
+
+/**
+ * An adapter whose catalog lives in memory, for exercising routes and services without a platform API:
+ *
+ *   const fake = createFakePlatformAdapter('shopify', [{ id: '1', title: 'Ceramic Mug' }]);
+ *   const restore = overridePlatformAdapter(fake);
+ *
+ * Every store of that type then reads and writes `fake.products`; applied updates are recorded in `fake.updates`.
+ * Nothing is written to the product mirror, so reads always fall through to the adapter.
+ */
+export interface FakePlatformAdapter extends StorePlatformAdapter {
+  products: Map<string, PlatformProduct>;
+  updates: { productId: string; updateData: any }[];
+}
+
+export type FakeProductInput = Partial<PlatformProduct> & Pick<PlatformProduct, 'id' | 'title'>;
+
+function toFakeProduct(fields: FakeProductInput): PlatformProduct {
+  return {
+    handle: fields.title.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+    body_html: '',
+    product_type: '',
+    vendor: 'Fake Vendor',
+    tags: '',
+    status: 'ACTIVE',
+    created_at: null,
+    updated_at: null,
+    images: [],
+    variants: [{
+      id: `${fields.id}-1`,
+      title: 'Default Title',
+      price: '10.00',
+      compare_at_price: null,
+      sku: null,
+      inventory_quantity: 0,
+      weight: null,
+      weight_unit: null
+    }],
+    seo: { title: null, description: null },
+    ...fields,
+  };
+}
+
+export function createFakePlatformAdapter(storeType: StoreType = 'shopify', products: FakeProductInput[] = []): FakePlatformAdapter {
+  const catalog = new Map(products.map(product => [product.id, toFakeProduct(product)]));
+  const updates: FakePlatformAdapter['updates'] = [];
+
+  return {
+    storeType,
+    name: 'Fake Platform',
+    analysisJobType: storeType === 'woocommerce' ? 'woocommerce' : storeType === 'ebay' ? 'ebay_api' : 'shopify_admin',
+    optimizationTypes: ['title', 'description', 'pricing', 'keywords', 'item_specifics'],
+    products: catalog,
+    updates,
+    isConnected: () => true,
+
+    async connect(store) {
+      const updated = await storage.updateUserStore(store.id, { isConnected: true, connectionStatus: 'connected' });
+      return { store: updated || store };
+    },
+
+    syncProducts: async () => ({ mode: 'full', synced: catalog.size, removed: 0 }),
+    listProducts: async () => Array.from(catalog.values()),
+    getProduct: async (_store, productId) => catalog.get(productId) || null,
+
+    async updateProduct(_store, productId, updateData) {
+      const product = catalog.get(productId);
+      if (!product) {
+        throw new StorePlatformError(`Product not found: ${productId}`, 404);
+      }
+
+      const { variants, ...fields } = updateData;
+      const updated: PlatformProduct = { ...product, ...fields, updated_at: new Date().toISOString() };
+      for (const change of variants || []) {
+        updated.variants = updated.variants.map(variant =>
+          String(variant.id) === String(change.id) ? { ...variant, price: String(change.price) } : variant
+        );
+      }
+      catalog.set(productId, updated);
+      updates.push({ productId, updateData });
+    },
+
+    getShopInfo: async store => ({ name: store.name, domain: 'fake-store.test', currency: 'USD', country_code: 'US' }),
+
+    async buildAnalysisContent(store) {
+      const products = Array.from(catalog.values());
+      return {
+        storeContent: `FAKE STORE ANALYSIS - ${store.name}\n\nProducts:\n${products.map(product => `- ${product.title}`).join('\n')}`,
+        products,
+      };
+    },
+  };
+}
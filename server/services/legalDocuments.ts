@@ -0,0 +1,271 @@
+import { storage } from "../storage";
+import { LEGAL_DOCUMENTS } from "@shared/constants";
+import { logInfo, HttpError } from "@shared/errorHandler";
+import type { LegalDocumentDiffLine, LegalDocumentType, LegalDocumentVersion, UserStore } from "@shared/schema";
+import { getShopInfo, shopifyGraphQL } from "./shopifyIntegration";
+import { buildLegalTemplateContext, renderLegalDocument, type LegalDocumentContent } from "./legalTemplates";
+
+// A legal document operation that can't go ahead
+export class LegalDocumentError extends HttpError {}
+
+// Everything except the imprint is a Shopify shop policy; the imprint is a Page
+const POLICY_TYPES: Record<Exclude<LegalDocumentType, 'imprint'>, string> = {
+  refund: 'REFUND_POLICY',
+  privacy: 'PRIVACY_POLICY',
+  terms: 'TERMS_OF_SERVICE',
+  shipping: 'SHIPPING_POLICY',
+};
+
+// Above this many line comparisons the diff just shows the whole document replaced
+const MAX_DIFF_CELLS = 1_000_000;
+
+interface LiveDocument {
+  resourceId: string;
+  title: string;
+  body: string;
+}
+
+function throwOnUserErrors(result: any): void {
+  if (result?.userErrors?.length > 0) {
+    throw new Error(`Shopify API errors: ${JSON.stringify(result.userErrors)}`);
+  }
+}
+
+function assertCanPublish(store: UserStore, documentType: LegalDocumentType): void {
+  if (!store.shopifyAccessToken || !store.shopifyDomain) {
+    throw new LegalDocumentError('Store not connected to Shopify');
+  }
+  const scope = documentType === 'imprint' ? 'write_content' : 'write_legal_policies';
+  if (!store.shopifyScope?.includes(scope)) {
+    throw new LegalDocumentError('Insufficient permissions: reconnect your store to grant access to legal pages', 403);
+  }
+}
+
+/**
+ * Loads a document version and its store, checking both belong to the user
+ */
+export async function getOwnedLegalDocumentVersion(userId: number, versionId: number): Promise<{ document: LegalDocumentVersion; store: UserStore }> {
+  const document = await storage.getLegalDocumentVersion(versionId);
+  if (!document || document.userId !== userId) {
+    throw new LegalDocumentError('Legal document not found', 404);
+  }
+
+  const store = await storage.getUserStore(document.userStoreId);
+  if (!store || store.userId !== userId) {
+    throw new LegalDocumentError('Store not found', 404);
+  }
+
+  return { document, store };
+}
+
+/**
+ * Renders the document for the store from its name, address and jurisdiction in Shopify
+ */
+export async function renderLegalDocumentForStore(store: UserStore, documentType: LegalDocumentType): Promise<LegalDocumentContent> {
+  if (!store.shopifyAccessToken || !store.shopifyDomain) {
+    throw new LegalDocumentError('Store not connected to Shopify');
+  }
+
+  const shop = await getShopInfo(store.shopifyDomain, store.shopifyAccessToken);
+  const context = buildLegalTemplateContext(shop);
+  if (documentType === 'imprint' && !context.isEU) {
+    throw new LegalDocumentError('An imprint is only generated for stores based in the EU');
+  }
+
+  return renderLegalDocument(documentType, context);
+}
+
+async function readLiveDocument(store: UserStore, documentType: LegalDocumentType): Promise<LiveDocument | null> {
+  if (documentType === 'imprint') {
+    const { data } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, `
+      query legalPage($query: String!) {
+        pages(first: 1, query: $query) { edges { node { id title body } } }
+      }
+    `, { query: `handle:${LEGAL_DOCUMENTS.IMPRINT_PAGE_HANDLE}` }, LEGAL_DOCUMENTS.API_VERSION);
+    const page = data.pages.edges[0]?.node;
+    return page ? { resourceId: page.id, title: page.title, body: page.body || '' } : null;
+  }
+
+  const { data } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, `
+    query legalPolicies {
+      shop { shopPolicies { id type title body } }
+    }
+  `);
+  const policy = data.shop.shopPolicies.find((item: any) => item.type === POLICY_TYPES[documentType]);
+  return policy ? { resourceId: policy.id, title: policy.title, body: policy.body || '' } : null;
+}
+
+/**
+ * Creates or updates the shop policy or page, returning its gid
+ */
+async function writeLiveDocument(store: UserStore, documentType: LegalDocumentType, content: LegalDocumentContent, live: LiveDocument | null): Promise<string> {
+  if (documentType !== 'imprint') {
+    const { data } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, `
+      mutation legalPolicyUpdate($shopPolicy: ShopPolicyInput!) {
+        shopPolicyUpdate(shopPolicy: $shopPolicy) {
+          shopPolicy { id }
+          userErrors { field message }
+        }
+      }
+    `, { shopPolicy: { type: POLICY_TYPES[documentType], body: content.body } });
+    throwOnUserErrors(data.shopPolicyUpdate);
+    return data.shopPolicyUpdate.shopPolicy.id;
+  }
+
+  if (live) {
+    const { data } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, `
+      mutation legalPageUpdate($id: ID!, $page: PageUpdateInput!) {
+        pageUpdate(id: $id, page: $page) {
+          page { id }
+          userErrors { field message }
+        }
+      }
+    `, { id: live.resourceId, page: { title: content.title, body: content.body } }, LEGAL_DOCUMENTS.API_VERSION);
+    throwOnUserErrors(data.pageUpdate);
+    return data.pageUpdate.page.id;
+  }
+
+  const { data } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, `
+    mutation legalPageCreate($page: PageCreateInput!) {
+      pageCreate(page: $page) {
+        page { id }
+        userErrors { field message }
+      }
+    }
+  `, {
+    page: { title: content.title, handle: LEGAL_DOCUMENTS.IMPRINT_PAGE_HANDLE, body: content.body, isPublished: true },
+  }, LEGAL_DOCUMENTS.API_VERSION);
+  throwOnUserErrors(data.pageCreate);
+  return data.pageCreate.page.id;
+}
+
+/**
+ * Publishes content as the store's live document and records it as the next version.
+ * Whatever Shopify held before is recorded first if we don't have it yet (the merchant's
+ * own policy, or edits made in the Shopify admin), so a rollback can always get back to it.
+ */
+async function publishVersion(
+  store: UserStore,
+  userId: number,
+  documentType: LegalDocumentType,
+  content: LegalDocumentContent,
+  fields: Pick<LegalDocumentVersion, 'source'> & Partial<Pick<LegalDocumentVersion, 'suggestionId' | 'restoredFromVersionId' | 'creditsUsed'>>
+): Promise<LegalDocumentVersion> {
+  const live = await readLiveDocument(store, documentType);
+  const latest = await storage.getLatestLegalDocumentVersion(store.id, documentType);
+  if (live && live.body.trim() && live.body !== latest?.body) {
+    await storage.createLegalDocumentVersion({
+      userId,
+      userStoreId: store.id,
+      documentType,
+      source: 'imported',
+      title: live.title,
+      body: live.body,
+      shopifyResourceId: live.resourceId,
+    });
+  }
+
+  const shopifyResourceId = await writeLiveDocument(store, documentType, content, live);
+  return await storage.createLegalDocumentVersion({
+    userId,
+    userStoreId: store.id,
+    documentType,
+    title: content.title,
+    body: content.body,
+    shopifyResourceId,
+    ...fields,
+  });
+}
+
+/**
+ * Renders the document from the store's details and publishes it to Shopify
+ */
+export async function publishLegalDocument(
+  store: UserStore,
+  userId: number,
+  documentType: LegalDocumentType,
+  suggestionId: string
+): Promise<LegalDocumentVersion> {
+  assertCanPublish(store, documentType);
+
+  const content = await renderLegalDocumentForStore(store, documentType);
+  const document = await publishVersion(store, userId, documentType, content, {
+    source: 'generated',
+    suggestionId,
+    creditsUsed: LEGAL_DOCUMENTS.CREDIT_COST,
+  });
+
+  logInfo('Legal Documents', `Published ${documentType} v${document.version} to store ${store.id}`);
+  return document;
+}
+
+/**
+ * Publishes an earlier version again. The rollback is itself a new version, so history is never rewritten.
+ */
+export async function rollbackLegalDocument(store: UserStore, target: LegalDocumentVersion): Promise<LegalDocumentVersion> {
+  assertCanPublish(store, target.documentType);
+
+  const latest = await storage.getLatestLegalDocumentVersion(store.id, target.documentType);
+  if (latest?.id === target.id) {
+    throw new LegalDocumentError('This version is already the published one', 409);
+  }
+
+  const document = await publishVersion(store, target.userId, target.documentType, { title: target.title, body: target.body }, {
+    source: 'rollback',
+    restoredFromVersionId: target.id,
+  });
+
+  logInfo('Legal Documents', `Rolled ${target.documentType} on store ${store.id} back to v${target.version} as v${document.version}`);
+  return document;
+}
+
+// One block element per line, so diffs follow the document's paragraphs
+function toLines(body: string): string[] {
+  return body
+    .replace(/(<\/(?:p|h[1-6]|li|ul|ol|div|table|tr)>|<br\s*\/?>)\s*/gi, '$1\n')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Line diff of two document bodies, from the longest common subsequence of their lines
+ */
+export function diffLegalDocuments(before: string, after: string): LegalDocumentDiffLine[] {
+  const a = toLines(before);
+  const b = toLines(after);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return [
+      ...a.map(line => ({ type: 'removed' as const, line })),
+      ...b.map(line => ({ type: 'added' as const, line })),
+    ];
+  }
+
+  // lcs[i][j] is the common subsequence length of a[i..] and b[j..]
+  const lcs = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const diff: LegalDocumentDiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      diff.push({ type: 'unchanged', line: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      diff.push({ type: 'removed', line: a[i++] });
+    } else {
+      diff.push({ type: 'added', line: b[j++] });
+    }
+  }
+  while (i < a.length) diff.push({ type: 'removed', line: a[i++] });
+  while (j < b.length) diff.push({ type: 'added', line: b[j++] });
+
+  return diff;
+}
@@ -0,0 +1,191 @@
+import { LEGAL_DOCUMENTS } from "@shared/constants";
+import type { LegalDocumentType } from "@shared/schema";
+import type { ShopifyStore } from "./shopifyIntegration";
+
+/**
+ * The shop details legal documents are filled in from
+ */
+export interface LegalTemplateContext {
+  shopName: string;
+  legalName: string;
+  email: string;
+  phone: string;
+  addressLines: string[];
+  countryName: string;
+  jurisdiction: string; // governing law, e.g. "California, United States"
+  isEU: boolean;
+  domain: string;
+  effectiveDate: string;
+}
+
+export interface LegalDocumentContent {
+  title: string;
+  body: string;
+}
+
+const escapeHtml = (value: string) => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+export function buildLegalTemplateContext(shop: ShopifyStore): LegalTemplateContext {
+  const countryCode = (shop.country_code || '').toUpperCase();
+  const cityLine = [shop.zip, shop.city].filter(Boolean).join(' ');
+  const regionLine = [shop.province, shop.country_name].filter(Boolean).join(', ');
+
+  return {
+    shopName: shop.name,
+    legalName: shop.company || shop.name,
+    email: shop.customer_email || shop.email,
+    phone: shop.phone || '',
+    addressLines: [shop.address1, shop.address2, cityLine, regionLine].filter(Boolean),
+    countryName: shop.country_name || countryCode,
+    // US and Canadian law is set per state or province
+    jurisdiction: ['US', 'CA'].includes(countryCode) && shop.province
+      ? `${shop.province}, ${shop.country_name}`
+      : shop.country_name || countryCode,
+    isEU: (LEGAL_DOCUMENTS.EU_COUNTRY_CODES as readonly string[]).includes(countryCode),
+    domain: shop.primary_domain?.host || shop.myshopify_domain,
+    effectiveDate: new Date().toISOString().slice(0, 10),
+  };
+}
+
+function contactBlock(context: LegalTemplateContext): string {
+  const lines = [context.legalName, ...context.addressLines];
+  if (context.phone) lines.push(`Phone: ${context.phone}`);
+  lines.push(`Email: ${context.email}`);
+  return `<p>${lines.map(escapeHtml).join('<br>\n')}</p>`;
+}
+
+function renderRefundPolicy(context: LegalTemplateContext): LegalDocumentContent {
+  const shop = escapeHtml(context.shopName);
+  const window = context.isEU ? 14 : 30;
+  const withdrawal = context.isEU ? `
+<h2>Right of withdrawal</h2>
+<p>If you are a consumer, you have the right to withdraw from your purchase within 14 days without giving any reason. The withdrawal period expires 14 days after the day on which you, or a third party you named other than the carrier, took physical possession of the goods.</p>
+<p>To exercise this right, inform us of your decision by a clear statement (for example, an email to ${escapeHtml(context.email)}). We will reimburse all payments received from you, including standard delivery costs, no later than 14 days from the day we are informed of your decision, using the same means of payment you used. We may withhold the reimbursement until we have received the goods back or you have supplied proof of having sent them back, whichever is earlier.</p>` : '';
+
+  return {
+    title: 'Refund Policy',
+    body: `<p>Effective date: ${context.effectiveDate}</p>
+<p>We want you to be happy with every order from ${shop}. This policy explains how returns, exchanges and refunds work.</p>${withdrawal}
+<h2>Returns</h2>
+<p>You can return most items within ${window} days of delivery. Items must be unused, in the same condition you received them and in their original packaging, with the receipt or proof of purchase.</p>
+<p>To start a return, contact us at ${escapeHtml(context.email)}. We will tell you where to send the item. Items sent back without first requesting a return will not be accepted.</p>
+<h2>Exceptions</h2>
+<p>Perishable goods, custom or personalized items, personal care goods and gift cards cannot be returned, unless they arrived damaged or defective. Sale items are returnable under the same conditions as other items.</p>
+<h2>Damages and issues</h2>
+<p>Please inspect your order on arrival and contact us immediately if an item is defective, damaged or not what you ordered, so we can put it right.</p>
+<h2>Refunds</h2>
+<p>We will notify you once we have received and inspected your return and let you know whether the refund was approved. Approved refunds are issued to your original payment method within 10 business days. Your bank or card issuer may take additional time to post the refund.</p>
+<h2>Contact</h2>
+${contactBlock(context)}`,
+  };
+}
+
+function renderPrivacyPolicy(context: LegalTemplateContext): LegalDocumentContent {
+  const shop = escapeHtml(context.shopName);
+  const gdpr = context.isEU ? `
+<h2>Legal bases and your rights under the GDPR</h2>
+<p>We process personal information to perform our contract with you, to comply with legal obligations, on the basis of our legitimate interests in running and improving the store, or with your consent, which you can withdraw at any time.</p>
+<p>You have the right to access, rectify, erase, restrict and object to the processing of your personal information, and the right to data portability. You may also lodge a complaint with your local data protection authority.</p>` : `
+<h2>Your rights</h2>
+<p>Depending on where you live, you may have the right to access, correct or delete the personal information we hold about you, to opt out of its sale or sharing, and to not be discriminated against for exercising these rights. California residents have these rights under the CCPA.</p>`;
+
+  return {
+    title: 'Privacy Policy',
+    body: `<p>Effective date: ${context.effectiveDate}</p>
+<p>This Privacy Policy describes how ${escapeHtml(context.legalName)} ("we", "us") collects, uses and discloses your personal information when you visit or make a purchase from ${shop} at ${escapeHtml(context.domain)}.</p>
+<h2>Information we collect</h2>
+<ul>
+<li>Contact and order details you give us: name, billing and shipping address, email address, phone number and payment confirmation.</li>
+<li>Account information, if you create an account.</li>
+<li>Device and usage information collected automatically through cookies and similar technologies, such as IP address, browser type and the pages you view.</li>
+</ul>
+<h2>How we use your information</h2>
+<p>We use personal information to process and deliver orders, communicate with you about your orders and our products, prevent fraud, comply with our legal obligations and improve our store. Marketing emails are only sent where you have agreed to receive them, and you can unsubscribe at any time.</p>
+<h2>Sharing your information</h2>
+<p>We share personal information with service providers who help us run the store, including Shopify, payment processors and shipping carriers, and where required by law. We do not sell your personal information.</p>
+<h2>Cookies</h2>
+<p>We use cookies to keep the store working, remember your preferences and understand how the store is used. You can control cookies through your browser settings.</p>${gdpr}
+<h2>Retention</h2>
+<p>We keep order information for as long as we need it for our records and to meet tax and accounting obligations, unless you ask us to delete it where the law allows.</p>
+<h2>Contact</h2>
+<p>For questions about your personal information or to exercise your rights, contact us:</p>
+${contactBlock(context)}`,
+  };
+}
+
+function renderTermsOfService(context: LegalTemplateContext): LegalDocumentContent {
+  const shop = escapeHtml(context.shopName);
+
+  return {
+    title: 'Terms of Service',
+    body: `<p>Effective date: ${context.effectiveDate}</p>
+<h2>Overview</h2>
+<p>${shop} at ${escapeHtml(context.domain)} is operated by ${escapeHtml(context.legalName)}. By visiting the store or purchasing from us, you agree to these Terms of Service.</p>
+<h2>Online store terms</h2>
+<p>You may not use our products for any illegal or unauthorized purpose, nor violate any laws in your jurisdiction when using the store.</p>
+<h2>Products and prices</h2>
+<p>We make every effort to display product colors, images and descriptions accurately. Prices are subject to change without notice. We reserve the right to limit quantities and to refuse or cancel an order, in which case we will refund any payment made.</p>
+<h2>Orders and payment</h2>
+<p>A contract is formed when we confirm your order by email. You agree to provide current, complete and accurate purchase and account information.</p>
+<h2>Returns</h2>
+<p>Returns and refunds are handled under our Refund Policy.</p>
+<h2>Limitation of liability</h2>
+<p>To the extent permitted by law, ${escapeHtml(context.legalName)} is not liable for any indirect, incidental or consequential damages arising from your use of the store or products purchased from it. Nothing in these terms limits liability that cannot be limited by law${context.isEU ? ', including your statutory rights as a consumer in the European Union' : ''}.</p>
+<h2>Governing law</h2>
+<p>These terms are governed by the laws of ${escapeHtml(context.jurisdiction)}${context.isEU ? ', without depriving consumers of the protection of mandatory provisions of the law of their country of residence' : ''}.</p>
+<h2>Changes to these terms</h2>
+<p>We may update these terms from time to time. The version published on this page applies to your use of the store.</p>
+<h2>Contact</h2>
+${contactBlock(context)}`,
+  };
+}
+
+function renderShippingPolicy(context: LegalTemplateContext): LegalDocumentContent {
+  return {
+    title: 'Shipping Policy',
+    body: `<p>Effective date: ${context.effectiveDate}</p>
+<h2>Processing time</h2>
+<p>Orders are processed within 1-3 business days. Orders are not shipped on weekends or public holidays. We will email you if there is a significant delay.</p>
+<h2>Shipping rates and delivery estimates</h2>
+<p>Shipping charges and delivery estimates are calculated and shown at checkout. Delivery times depend on the carrier and your location.</p>
+<h2>International shipping</h2>
+<p>Orders shipped outside ${escapeHtml(context.countryName)} may be subject to import duties and taxes, which are the customer's responsibility unless stated otherwise at checkout.</p>
+<h2>Tracking your order</h2>
+<p>When your order ships, you will receive an email with a tracking number.</p>
+<h2>Lost or damaged parcels</h2>
+<p>If your order arrives damaged or does not arrive, contact us at ${escapeHtml(context.email)} and we will work with the carrier to resolve it.</p>
+<h2>Contact</h2>
+${contactBlock(context)}`,
+  };
+}
+
+function renderImprint(context: LegalTemplateContext): LegalDocumentContent {
+  return {
+    title: 'Imprint',
+    body: `<h2>Information about the provider</h2>
+${contactBlock(context)}
+<h2>Online dispute resolution</h2>
+<p>The European Commission provides a platform for online dispute resolution at <a href="https://ec.europa.eu/consumers/odr">https://ec.europa.eu/consumers/odr</a>. We are neither obliged nor willing to take part in dispute resolution proceedings before a consumer arbitration board.</p>
+<h2>Responsible for content</h2>
+<p>${escapeHtml(context.legalName)}, at the address above.</p>`,
+  };
+}
+
+export function renderLegalDocument(documentType: LegalDocumentType, context: LegalTemplateContext): LegalDocumentContent {
+  switch (documentType) {
+    case 'refund':
+      return renderRefundPolicy(context);
+    case 'privacy':
+      return renderPrivacyPolicy(context);
+    case 'terms':
+      return renderTermsOfService(context);
+    case 'shipping':
+      return renderShippingPolicy(context);
+    case 'imprint':
+      return renderImprint(context);
+  }
+}
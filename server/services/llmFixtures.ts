@@ -0,0 +1,218 @@
+import fs from 'fs';
+import path from 'path';
+import type { LLMCompletionRequest, LLMFeature } from './llmProvider';
+
+/**
+ * Canned responses for the fixture LLM provider.
+ * Shapes mirror the JSON each prompt asks for so CI runs exercise the real parsing paths.
+ */
+
+function suggestion(prefix: string, type: string, title: string, priority: string) {
+  return {
+    id: `${prefix}-fixture-${type}`,
+    type,
+    title,
+    description: `Fixture recommendation for ${type}`,
+    impact: 'Moderate improvement expected',
+    priority,
+    suggestions: {
+      current: `Current ${type} setup`,
+      recommended: `Improved ${type} setup`,
+      implementation: `Update the ${type} settings in the store admin`
+    }
+  };
+}
+
+const JSON_FIXTURES: Partial<Record<LLMFeature, object>> = {
+  analysis: {
+    overallScore: 62,
+    strengths: ['Clean product layout', 'Clear pricing'],
+    warnings: ['Product descriptions are short', 'Few customer reviews'],
+    critical: ['No visible return policy'],
+    designScore: 14,
+    productScore: 16,
+    seoScore: 12,
+    trustScore: 8,
+    pricingScore: 6,
+    conversionScore: 6,
+    designAnalysis: {
+      mobileResponsive: true,
+      pageSpeed: 2.8,
+      navigationClarity: true,
+      brandingConsistency: false,
+      score: 14
+    },
+    productAnalysis: {
+      productCount: 42,
+      highQualityImages: true,
+      detailedDescriptions: 55,
+      structuredTitles: false,
+      trendingProducts: false,
+      score: 16
+    },
+    seoAnalysis: {
+      metaTitlesPresent: true,
+      keywordOptimization: false,
+      categoriesUsed: true,
+      cleanUrls: true,
+      score: 12
+    },
+    trustAnalysis: {
+      returnPolicy: false,
+      aboutPage: true,
+      contactInfo: true,
+      sslSecurity: true,
+      socialProof: 12,
+      score: 8
+    },
+    pricingAnalysis: {
+      competitive: true,
+      priceRange: 'medium',
+      valuePerception: 'fair',
+      score: 6
+    },
+    conversionAnalysis: {
+      clearCtas: true,
+      reviewsDisplayed: false,
+      promotions: false,
+      supportOptions: true,
+      score: 6
+    },
+    suggestions: [
+      {
+        title: 'Add a visible return policy',
+        description: 'Publish a return policy page and link it from the footer and product pages.',
+        impact: '+8% conversion potential',
+        category: 'trust',
+        priority: 'critical'
+      },
+      {
+        title: 'Expand product descriptions',
+        description: 'Add benefit-focused copy of at least 150 words to top products.',
+        impact: '+5% conversion potential',
+        category: 'product',
+        priority: 'high'
+      }
+    ],
+    summary: 'Fixture analysis of a small store with solid basics and gaps in trust signals.',
+    storeRecap: {
+      mainCategories: [
+        {
+          name: 'Home Goods',
+          viralScore: 5,
+          demandScore: 6,
+          description: 'Steady demand with moderate competition'
+        }
+      ],
+      storeSize: 'small',
+      estimatedProducts: '25-50 products',
+      targetAudience: 'Home decor shoppers',
+      businessModel: 'B2C',
+      competitiveAdvantage: 'Curated selection'
+    }
+  },
+  seo: {
+    seoScore: 12,
+    suggestions: [
+      suggestion('seo', 'meta-tags', 'Write unique meta descriptions', 'high'),
+      suggestion('seo', 'schema', 'Add product schema markup', 'medium')
+    ]
+  },
+  legal: {
+    legalScore: 9,
+    suggestions: [
+      suggestion('legal', 'returns', 'Publish a return policy', 'critical'),
+      suggestion('legal', 'privacy', 'Update the privacy policy', 'high')
+    ]
+  },
+  conversion: {
+    conversionScore: 6,
+    suggestions: [
+      suggestion('conversion', 'cta', 'Strengthen add-to-cart buttons', 'high'),
+      suggestion('conversion', 'urgency', 'Show low stock indicators', 'medium')
+    ]
+  },
+  trust: {
+    trustScore: 8,
+    suggestions: [
+      suggestion('trust', 'reviews', 'Display product reviews', 'high'),
+      suggestion('trust', 'badges', 'Add secure checkout badges', 'medium')
+    ]
+  },
+  design: {
+    designScore: 14,
+    suggestions: [
+      suggestion('design', 'colors', 'Unify the color palette', 'medium'),
+      suggestion('design', 'mobile', 'Enlarge mobile tap targets', 'high')
+    ]
+  },
+  productCopy: {
+    recommendedPrice: '19.99',
+    reasoning: 'Psychological pricing just under a round number',
+    priceType: 'psychological'
+  },
+  ads: {
+    ads: [
+      {
+        headline: 'Discover Something New',
+        primary_text: 'Quality products at fair prices.',
+        call_to_action: 'Shop Now',
+        dalle_prompt: 'A clean product photo on a white background with the headline "Discover Something New"',
+        platform_format: 'Facebook 1.91:1',
+        style_description: 'Minimal product-focused ad'
+      }
+    ]
+  },
+  timeSavings: {
+    timePerProduct: '15 minutes',
+    totalTimeSaved: '2 hours 30 minutes',
+    breakdown: {
+      research: '5 minutes',
+      creation: '5 minutes',
+      review: '3 minutes',
+      implementation: '2 minutes'
+    },
+    efficiency: 'Saves 90% of manual work'
+  },
+  alex: {
+    topic: 'Store Optimization',
+    summary: 'Discussed improving product pages.',
+    keyPoints: ['Product descriptions', 'Trust signals']
+  }
+};
+
+function textFixture(request: LLMCompletionRequest): string {
+  const prompt = request.messages.map(m => m.content).join('\n');
+
+  if (request.feature === 'alex') {
+    return "Hi, I'm Alex. Your store looks solid — let's start by tightening up your product descriptions.";
+  }
+  if (prompt.includes('comma-separated')) {
+    return 'premium, quality, bestseller, gift, home, everyday, durable, modern';
+  }
+  if (prompt.includes('description')) {
+    return 'Built to last and designed for everyday use, this product delivers quality you can feel. Order today and see the difference.';
+  }
+  return 'Premium Everyday Essential | Quality Guaranteed';
+}
+
+/**
+ * Returns the fixture response for a request.
+ * LLM_FIXTURE_DIR can point at a directory of <feature>.json / <feature>.txt files to override the defaults.
+ */
+export function getFixtureCompletion(request: LLMCompletionRequest): string {
+  const isJson = request.responseFormat === 'json';
+  const fixtureDir = process.env.LLM_FIXTURE_DIR;
+
+  if (fixtureDir) {
+    const overridePath = path.join(fixtureDir, `${request.feature}.${isJson ? 'json' : 'txt'}`);
+    if (fs.existsSync(overridePath)) {
+      return fs.readFileSync(overridePath, 'utf-8');
+    }
+  }
+
+  if (isJson) {
+    return JSON.stringify(JSON_FIXTURES[request.feature] || {});
+  }
+  return textFixture(request);
+}
@@ -0,0 +1,264 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { LLM } from '@shared/constants';
+import { logInfo } from '@shared/errorHandler';
+import { getFixtureCompletion } from './llmFixtures';
+
+/**
+ * Features that talk to a language model. Each one can be routed to its own
+ * provider/model via LLM_PROVIDER_<FEATURE> and LLM_MODEL_<FEATURE>.
+ */
+export type LLMFeature =
+  | 'analysis'
+  | 'seo'
+  | 'legal'
+  | 'conversion'
+  | 'trust'
+  | 'design'
+  | 'productCopy'
+  | 'ads'
+  | 'timeSavings'
+  | 'alex';
+
+export type LLMProviderName = 'openai' | 'anthropic' | 'azure' | 'local' | 'fixture';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  feature: LLMFeature;
+  messages: LLMMessage[];
+  maxTokens?: number;
+  temperature?: number;
+  responseFormat?: 'text' | 'json';
+}
+
+export interface LLMCompletionResult {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface LLMImageRequest {
+  feature: LLMFeature;
+  prompt: string;
+  size: NonNullable<OpenAI.ImageGenerateParams['size']>;
+  quality?: 'standard' | 'hd';
+  style?: 'natural' | 'vivid';
+}
+
+/**
+ * Common interface implemented by every model backend
+ */
+export interface LLMProvider {
+  readonly name: LLMProviderName;
+  complete(request: LLMCompletionRequest, model: string): Promise<LLMCompletionResult>;
+  generateImage?(request: LLMImageRequest): Promise<{ url: string | null }>;
+}
+
+/**
+ * OpenAI chat completions API. Also backs Azure OpenAI and local
+ * OpenAI-compatible servers (Ollama, vLLM, LM Studio) since they share the wire format.
+ */
+class OpenAICompatibleProvider implements LLMProvider {
+  constructor(readonly name: LLMProviderName, private client: OpenAI) {}
+
+  async complete(request: LLMCompletionRequest, model: string): Promise<LLMCompletionResult> {
+    const response = await this.client.chat.completions.create({
+      model,
+      messages: request.messages,
+      max_tokens: request.maxTokens,
+      temperature: request.temperature,
+      ...(request.responseFormat === 'json' ? { response_format: { type: 'json_object' as const } } : {}),
+    });
+
+    return {
+      content: response.choices[0]?.message.content || '',
+      provider: this.name,
+      model,
+    };
+  }
+
+  async generateImage(request: LLMImageRequest): Promise<{ url: string | null }> {
+    const response = await this.client.images.generate({
+      model: process.env.LLM_IMAGE_MODEL || LLM.DEFAULT_IMAGE_MODEL,
+      prompt: request.prompt,
+      n: 1,
+      size: request.size,
+      quality: request.quality,
+      style: request.style,
+    });
+
+    return { url: response.data?.[0]?.url || null };
+  }
+}
+
+/**
+ * Anthropic Messages API, called over HTTP to avoid another SDK dependency
+ */
+class AnthropicProvider implements LLMProvider {
+  readonly name = 'anthropic' as const;
+
+  async complete(request: LLMCompletionRequest, model: string): Promise<LLMCompletionResult> {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error('ANTHROPIC_API_KEY is required for the anthropic LLM provider');
+    }
+
+    // Anthropic takes the system prompt separately and has no JSON response mode,
+    // so the JSON requirement is appended to the system prompt instead
+    const systemParts = request.messages.filter(m => m.role === 'system').map(m => m.content);
+    if (request.responseFormat === 'json') {
+      systemParts.push('Respond with a single valid JSON object only, with no surrounding text or code fences.');
+    }
+
+    const response = await fetch(`${process.env.ANTHROPIC_BASE_URL || 'https://api.anthropic.com'}/v1/messages`, {
+      method: 'POST',
+      headers: {
+        'x-api-key': apiKey,
+        'anthropic-version': LLM.ANTHROPIC_API_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: request.maxTokens || LLM.DEFAULT_MAX_TOKENS,
+        temperature: request.temperature,
+        system: systemParts.length > 0 ? systemParts.join('\n\n') : undefined,
+        messages: request.messages
+          .filter(m => m.role !== 'system')
+          .map(m => ({ role: m.role, content: m.content })),
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Anthropic request failed: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    let content: string = (data.content || [])
+      .filter((block: any) => block.type === 'text')
+      .map((block: any) => block.text)
+      .join('');
+
+    if (request.responseFormat === 'json') {
+      const start = content.indexOf('{');
+      const end = content.lastIndexOf('}');
+      content = start !== -1 && end > start ? content.slice(start, end + 1) : content;
+    }
+
+    return { content, provider: this.name, model };
+  }
+}
+
+/**
+ * Deterministic offline provider used by CI. Returns canned responses per feature.
+ */
+class FixtureProvider implements LLMProvider {
+  readonly name = 'fixture' as const;
+
+  async complete(request: LLMCompletionRequest, model: string): Promise<LLMCompletionResult> {
+    return {
+      content: getFixtureCompletion(request),
+      provider: this.name,
+      model,
+    };
+  }
+}
+
+const providerCache = new Map<LLMProviderName, LLMProvider>();
+
+function createProvider(name: LLMProviderName): LLMProvider {
+  switch (name) {
+    case 'openai':
+      return new OpenAICompatibleProvider('openai', new OpenAI({ apiKey: process.env.OPENAI_API_KEY }));
+    case 'azure':
+      return new OpenAICompatibleProvider('azure', new AzureOpenAI({
+        apiKey: process.env.AZURE_OPENAI_API_KEY,
+        endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+        apiVersion: process.env.AZURE_OPENAI_API_VERSION || LLM.AZURE_API_VERSION,
+      }));
+    case 'local':
+      if (!process.env.LOCAL_LLM_BASE_URL) {
+        throw new Error('LOCAL_LLM_BASE_URL is required for the local LLM provider');
+      }
+      return new OpenAICompatibleProvider('local', new OpenAI({
+        baseURL: process.env.LOCAL_LLM_BASE_URL,
+        apiKey: process.env.LOCAL_LLM_API_KEY || 'not-needed',
+      }));
+    case 'anthropic':
+      return new AnthropicProvider();
+    case 'fixture':
+      return new FixtureProvider();
+    default:
+      throw new Error(`Unknown LLM provider: ${name}`);
+  }
+}
+
+function featureEnvKey(feature: LLMFeature): string {
+  // productCopy -> PRODUCT_COPY
+  return feature.replace(/([a-z])([A-Z])/g, '$1_$2').toUpperCase();
+}
+
+function isProviderName(value: string | undefined): value is LLMProviderName {
+  return !!value && (LLM.PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolves the provider and model for a feature.
+ * Per-feature env overrides win over the deployment-wide LLM_PROVIDER / LLM_MODEL.
+ */
+export function resolveLLMConfig(feature: LLMFeature): { provider: LLMProviderName; model: string } {
+  const key = featureEnvKey(feature);
+  const configured = process.env[`LLM_PROVIDER_${key}`] || process.env.LLM_PROVIDER;
+  const provider: LLMProviderName = isProviderName(configured) ? configured : LLM.DEFAULT_PROVIDER;
+
+  if (configured && !isProviderName(configured)) {
+    console.warn(`Unknown LLM provider "${configured}" for ${feature}, falling back to ${LLM.DEFAULT_PROVIDER}`);
+  }
+
+  // LLM_MODEL only applies when the feature uses the deployment-wide provider
+  const usesDefaultProvider = !process.env[`LLM_PROVIDER_${key}`];
+  const model = process.env[`LLM_MODEL_${key}`]
+    || (usesDefaultProvider ? process.env.LLM_MODEL : undefined)
+    || (provider === 'azure' ? process.env.AZURE_OPENAI_DEPLOYMENT : undefined)
+    || (provider === 'local' ? process.env.LOCAL_LLM_MODEL : undefined)
+    || LLM.DEFAULT_MODELS[provider];
+
+  return { provider, model };
+}
+
+/**
+ * Returns the provider instance configured for a feature
+ */
+export function getLLMProvider(feature: LLMFeature): { provider: LLMProvider; model: string } {
+  const config = resolveLLMConfig(feature);
+  let provider = providerCache.get(config.provider);
+  if (!provider) {
+    provider = createProvider(config.provider);
+    providerCache.set(config.provider, provider);
+    logInfo('LLM', `Initialized ${config.provider} provider`);
+  }
+  return { provider, model: config.model };
+}
+
+/**
+ * Runs a chat completion through the configured provider and returns the text content
+ */
+export async function completeChat(request: LLMCompletionRequest): Promise<string> {
+  const { provider, model } = getLLMProvider(request.feature);
+  const result = await provider.complete(request, model);
+  return result.content;
+}
+
+/**
+ * Generates an image through the configured provider.
+ * Throws if the provider has no image support so callers can fall back to text-only output.
+ */
+export async function generateImage(request: LLMImageRequest): Promise<{ url: string | null }> {
+  const { provider } = getLLMProvider(request.feature);
+  if (!provider.generateImage) {
+    throw new Error(`LLM provider "${provider.name}" does not support image generation`);
+  }
+  return provider.generateImage(request);
+}
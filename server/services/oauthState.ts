@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import { storage } from "../storage";
+import { OAUTH_STATE } from "@shared/constants";
+import type { OAuthProvider, OAuthState } from "@shared/schema";
+import { HttpError } from "@shared/errorHandler";
+
+// An OAuth callback whose state can't be trusted
+export class OAuthStateError extends HttpError {}
+
+// The logged-in session starting a connection; the callback has to arrive on the same one
+export interface OAuthStateOwner {
+  userId: number;
+  sessionId: string;
+}
+
+/**
+ * Persists a fresh state for a consent redirect and returns the value to send along
+ */
+export async function createOAuthState(
+  provider: OAuthProvider,
+  owner: OAuthStateOwner,
+  target: { userStoreId?: number | null; shopDomain?: string | null } = {}
+): Promise<string> {
+  // Expired states are never consumed, clear them out as new ones come in
+  await storage.deleteExpiredOAuthStates(new Date());
+
+  const state = crypto.randomBytes(32).toString('hex');
+  await storage.createOAuthState({
+    state,
+    provider,
+    userId: owner.userId,
+    sessionId: owner.sessionId,
+    userStoreId: target.userStoreId ?? null,
+    shopDomain: target.shopDomain ?? null,
+    expiresAt: new Date(Date.now() + OAUTH_STATE.TTL_MS),
+  });
+  return state;
+}
+
+/**
+ * Redeems the state an OAuth callback came back with. It works once, before it expires,
+ * for the provider it was issued for and on the session that asked for it.
+ */
+export async function consumeOAuthState(
+  provider: OAuthProvider,
+  state: unknown,
+  sessionId: string | undefined
+): Promise<OAuthState> {
+  if (typeof state !== 'string' || !state) {
+    throw new OAuthStateError("Missing state parameter");
+  }
+
+  const stored = await storage.consumeOAuthState(state);
+  if (!stored || stored.provider !== provider) {
+    throw new OAuthStateError("Invalid or already used state parameter");
+  }
+  if (stored.expiresAt < new Date()) {
+    throw new OAuthStateError("The connection request expired, please start again");
+  }
+  if (!sessionId || stored.sessionId !== sessionId) {
+    throw new OAuthStateError("The connection was started from a different session", 403);
+  }
+
+  return stored;
+}
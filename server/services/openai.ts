@@ -1,24 +1,30 @@
-import OpenAI from "openai";
+import { z } from "zod";
+import { storeAnalysisResultSchema, seoOperationSchema, conversionActionSchema, applyTrustRecommendationSchema, type StoreAnalysisResult, type StoreType } from "@shared/schema";
+import { ANALYSIS } from "@shared/constants";
+import { logInfo, logWarning } from "@shared/errorHandler";
+import { completeChat, resolveLLMConfig, type LLMMessage } from "./llmProvider";
+import { evaluateStoreRules, describeRuleResults, applyRuleScores, type RuleEngineInput } from "./scoringEngine";
 
-// the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
-const openai = new OpenAI({ 
-  apiKey: process.env.OPENAI_API_KEY
-});
-
-// Add logging to verify API key
-console.log("OpenAI API Key configured:", process.env.OPENAI_API_KEY ? "Yes" : "No");
+// Log which provider/model handles store analysis
+const analysisLLM = resolveLLMConfig('analysis');
+console.log(`Analysis LLM configured: ${analysisLLM.provider} (${analysisLLM.model})`);
 
 export interface StoreAnalysisData {
   storeContent: string;
-  storeType: 'shopify' | 'ebay';
+  storeType: StoreType;
   storeUrl?: string;
   ebayUsername?: string;
+  ruleInput?: RuleEngineInput; // Raw store data for deterministic scoring
 }
 
 export async function analyzeStoreWithAI(data: StoreAnalysisData): Promise<any> {
   try {
     console.log("Starting AI analysis for store type:", data.storeType);
     console.log("Content length:", data.storeContent.length);
+
+    // Objective checks are computed up front; their scores replace the model's
+    const ruleResults = data.ruleInput ? evaluateStoreRules(data.ruleInput) : null;
+    const ruleSummary = ruleResults ? describeRuleResults(ruleResults) : '';
     const prompt = `
 Analyze this ${data.storeType} store using the new comprehensive scoring system.
 
@@ -27,6 +33,10 @@ ${data.storeContent}
 
 ${data.storeUrl ? `Store URL: ${data.storeUrl}` : ''}
 ${data.ebayUsername ? `eBay Username: ${data.ebayUsername}` : ''}
+${ruleSummary ? `
+Objective checks already run against this store (your strengths, warnings, critical items and suggestions must be consistent with them):
+${ruleSummary}
+` : ''}
 
 Return analysis in JSON format with:
 
@@ -131,133 +141,194 @@ Scoring Guidelines:
 Provide realistic assessments based on ${data.storeType} standards and make suggestions with priority levels.
 `;
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o",
-      messages: [
-        {
-          role: "system",
-          content: "You are an expert e-commerce consultant and conversion optimization specialist. Analyze stores objectively and provide actionable insights."
-        },
+    const messages: LLMMessage[] = [
+      {
+        role: "system",
+        content: "You are an expert e-commerce consultant and conversion optimization specialist. Analyze stores objectively and provide actionable insights."
+      },
+      {
+        role: "user",
+        content: prompt
+      }
+    ];
+
+    let lastCandidate: any = {};
+    let validationErrors: string[] = [];
+
+    // First attempt plus a bounded number of repair re-asks
+    for (let attempt = 0; attempt <= ANALYSIS.MAX_REPAIR_ATTEMPTS; attempt++) {
+      const aiResponse = await completeChat({
+        feature: 'analysis',
+        messages,
+        responseFormat: 'json',
+        maxTokens: 2000,
+      }) || '{}';
+
+      console.log(`AI analysis response (attempt ${attempt + 1}), length:`, aiResponse.length);
+
+      const validation = validateAnalysisResponse(aiResponse);
+      if (validation.success) {
+        logInfo('AI Analysis', `Analysis validated on attempt ${attempt + 1}`);
+        return ruleResults ? applyRuleScores(validation.data, ruleResults) : validation.data;
+      }
+
+      lastCandidate = validation.candidate;
+      validationErrors = validation.errors;
+      logWarning('AI Analysis', `Attempt ${attempt + 1} failed validation`, validationErrors);
+
+      messages.push(
+        { role: "assistant", content: aiResponse },
         {
           role: "user",
-          content: prompt
+          content: `Your JSON failed validation:\n- ${validationErrors.join('\n- ')}\n\nReturn the complete corrected JSON object. Category scores must be whole numbers within their ranges, each *Analysis.score must equal its category score, and overallScore must equal the sum of the six category scores.`
         }
-      ],
-      response_format: { type: "json_object" },
-      max_tokens: 2000,
-    });
-
-    const aiResponse = response.choices[0].message.content || '{}';
-    console.log("=== AI RESPONSE DEBUG ===");
-    console.log("Full AI Response:", aiResponse);
-    console.log("Response length:", aiResponse.length);
-    console.log("========================");
-    
-    let result;
-    try {
-      result = JSON.parse(aiResponse);
-    } catch (parseError) {
-      console.error("JSON Parse Error:", parseError);
-      console.log("Raw AI Response:", aiResponse);
-      result = {};
+      );
     }
-    
-    console.log("Parsed result:", result);
-    
-    // Return the result directly as it follows the new structured format
-    // Add fallback values if parsing failed or data is missing
-    const finalResult = {
-      overallScore: result.overallScore || 65,
-      strengths: result.strengths || ["Store is functional", "Platform is reliable"],
-      warnings: result.warnings || ["Could improve product descriptions", "Needs more trust signals"],
-      critical: result.critical || ["Missing contact information"],
-      
-      designScore: result.designScore || 12,
-      productScore: result.productScore || 16,
-      seoScore: result.seoScore || 13,
-      trustScore: result.trustScore || 9,
-      pricingScore: result.pricingScore || 7,
-      conversionScore: result.conversionScore || 6,
-      
-      designAnalysis: result.designAnalysis || {
-        mobileResponsive: true,
-        pageSpeed: 3.2,
-        navigationClarity: true,
-        brandingConsistency: false,
-        score: result.designScore || 12
-      },
-      
-      productAnalysis: result.productAnalysis || {
-        productCount: data.storeType === 'shopify' ? 150 : 89,
-        highQualityImages: true,
-        detailedDescriptions: 65,
-        structuredTitles: false,
-        trendingProducts: true,
-        score: result.productScore || 16
-      },
-      
-      seoAnalysis: result.seoAnalysis || {
-        metaTitlesPresent: true,
-        keywordOptimization: false,
-        categoriesUsed: true,
-        cleanUrls: true,
-        score: result.seoScore || 13
-      },
-      
-      trustAnalysis: result.trustAnalysis || {
-        returnPolicy: false,
-        aboutPage: false,
-        contactInfo: true,
-        sslSecurity: true,
-        socialProof: data.storeType === 'ebay' ? 4.2 : 3.8,
-        score: result.trustScore || 9
-      },
-      
-      pricingAnalysis: result.pricingAnalysis || {
-        competitive: true,
-        priceRange: "medium",
-        valuePerception: "fair",
-        score: result.pricingScore || 7
-      },
-      
-      conversionAnalysis: result.conversionAnalysis || {
-        clearCtas: true,
-        reviewsDisplayed: false,
-        promotions: false,
-        supportOptions: true,
-        score: result.conversionScore || 6
-      },
-      
-      suggestions: result.suggestions || [],
-      summary: result.summary || "Store analysis completed successfully.",
-      storeRecap: result.storeRecap || {
-        mainCategories: [],
-        storeSize: "medium",
-        estimatedProducts: "100-200 products",
-        targetAudience: "General consumers",
-        businessModel: "B2C",
-        competitiveAdvantage: "Platform reliability"
-      }
-    };
-    
-    console.log("Final structured result:", finalResult);
-    
-    return finalResult;
+
+    logWarning('AI Analysis', 'AI output could not be repaired, storing degraded result', validationErrors);
+    // The rule-based categories don't depend on the model, so their scores and breakdown are kept
+    const degraded = buildDegradedResult(lastCandidate, validationErrors);
+    return ruleResults ? applyRuleScores(degraded, ruleResults) : degraded;
   } catch (error) {
-    console.error("OpenAI analysis failed:", error);
-    throw new Error("Failed to analyze store with AI: " + error.message);
+    console.error("AI analysis failed:", error);
+    throw new Error("Failed to analyze store with AI: " + error.message, { cause: error });
   }
 }
 
+/**
+ * Parses and validates a raw model response against the StoreAnalysisResult schema
+ */
+function validateAnalysisResponse(raw: string):
+  | { success: true; data: StoreAnalysisResult }
+  | { success: false; errors: string[]; candidate: any } {
+  let candidate: any;
+  try {
+    candidate = JSON.parse(raw);
+  } catch (parseError: any) {
+    return { success: false, errors: [`Response is not valid JSON: ${parseError.message}`], candidate: {} };
+  }
+
+  const parsed = storeAnalysisResultSchema.safeParse(candidate);
+  if (parsed.success) {
+    return { success: true, data: parsed.data };
+  }
+
+  return {
+    success: false,
+    errors: parsed.error.issues.map(issue => `${issue.path.join('.') || 'root'}: ${issue.message}`),
+    candidate,
+  };
+}
+
+/**
+ * Builds a result for output that could not be repaired.
+ * Scores are zeroed and flagged instead of invented, until the caller puts the rule-based ones back;
+ * only qualitative fields that validate are kept.
+ */
+function buildDegradedResult(candidate: any, validationErrors: string[]): StoreAnalysisResult {
+  const shape = storeAnalysisResultSchema.innerType().shape;
+  const keep = <T>(schema: z.ZodType<T>, value: unknown, fallback: T): T => {
+    const parsed = schema.safeParse(value);
+    return parsed.success ? parsed.data : fallback;
+  };
+
+  return {
+    overallScore: 0,
+    strengths: keep(shape.strengths, candidate?.strengths, []),
+    warnings: keep(shape.warnings, candidate?.warnings, []),
+    critical: keep(shape.critical, candidate?.critical, []),
+
+    designScore: 0,
+    productScore: 0,
+    seoScore: 0,
+    trustScore: 0,
+    pricingScore: 0,
+    conversionScore: 0,
+
+    designAnalysis: {
+      mobileResponsive: false,
+      pageSpeed: 0,
+      navigationClarity: false,
+      brandingConsistency: false,
+      score: 0
+    },
+    productAnalysis: {
+      productCount: 0,
+      highQualityImages: false,
+      detailedDescriptions: 0,
+      structuredTitles: false,
+      trendingProducts: false,
+      score: 0
+    },
+    seoAnalysis: {
+      metaTitlesPresent: false,
+      keywordOptimization: false,
+      categoriesUsed: false,
+      cleanUrls: false,
+      score: 0
+    },
+    trustAnalysis: {
+      returnPolicy: false,
+      aboutPage: false,
+      contactInfo: false,
+      sslSecurity: false,
+      socialProof: 0,
+      score: 0
+    },
+    pricingAnalysis: {
+      competitive: false,
+      priceRange: 'medium',
+      valuePerception: 'fair',
+      score: 0
+    },
+    conversionAnalysis: {
+      clearCtas: false,
+      reviewsDisplayed: false,
+      promotions: false,
+      supportOptions: false,
+      score: 0
+    },
+
+    suggestions: keep(shape.suggestions, candidate?.suggestions, []),
+    summary: "We couldn't produce a reliable score for this store. The results below are incomplete - please run the analysis again.",
+    storeRecap: keep(shape.storeRecap, candidate?.storeRecap, {
+      mainCategories: [],
+      storeSize: 'small',
+      estimatedProducts: 'Unknown',
+      targetAudience: 'Unknown',
+      businessModel: 'Unknown',
+      competitiveAdvantage: 'Unknown'
+    }),
+
+    degraded: true,
+    validationErrors
+  };
+}
+
 // SEO & Categories recommendations
-export async function generateSEORecommendations(storeUrl: string, storeType: string) {
+// storeContext lists the store's products, collections and images with ids, as built by getSeoContext
+export async function generateSEORecommendations(storeUrl: string, storeType: string, storeContext?: string) {
+  const operationsGuide = storeContext
+    ? `Store resources (ids are Shopify numeric ids):
+${storeContext}
+
+Where a suggestion can be carried out automatically, add an "operations" array to its "suggestions" object listing each concrete change. Only use ids from the store resources above. Allowed operations:
+- {"resource": "product", "id": "...", "field": "seo_title|seo_description|handle", "value": "..."}
+- {"resource": "collection", "id": "...", "field": "seo_title|seo_description|handle", "value": "..."}
+- {"resource": "image", "productId": "...", "id": "...", "field": "alt", "value": "..."}
+- {"resource": "shop", "field": "meta_description", "value": "..."}
+Handles must be lowercase words joined by hyphens. Leave "operations" out for advice that needs manual work.`
+    : `Leave "operations" out of every suggestion, the store's resources are not available.`;
+
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const content = await completeChat({
+      feature: 'seo',
       messages: [{
         role: "user",
         content: `You are an expert SEO specialist for e-commerce stores. Generate specific SEO and category optimization recommendations for this ${storeType} store: ${storeUrl}
 
+${operationsGuide}
+
 Provide 4-6 specific SEO improvement recommendations in this JSON format:
 {
   "seoScore": number (0-20),
@@ -272,7 +343,8 @@ Provide 4-6 specific SEO improvement recommendations in this JSON format:
       "suggestions": {
         "current": "Current SEO element description",
         "recommended": "Specific recommended change",
-        "implementation": "How to implement this change"
+        "implementation": "How to implement this change",
+        "operations": [ ... ]
       }
     }
   ]
@@ -286,22 +358,31 @@ Focus on:
 - Schema markup implementation
 - Content optimization for search engines`
       }],
-      response_format: { type: "json_object" },
-      max_tokens: 1500,
+      responseFormat: 'json',
+      maxTokens: storeContext ? 3000 : 1500,
       temperature: 0.7,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{"suggestions": []}');
+    const result = JSON.parse(content || '{"suggestions": []}');
     
-    // Add unique IDs if not present
-    result.suggestions = result.suggestions.map((suggestion: any, index: number) => ({
-      ...suggestion,
-      id: suggestion.id || `seo-${Date.now()}-${index}`
-    }));
+    // Add unique IDs if not present, and drop operations that could not be applied as written
+    result.suggestions = result.suggestions.map((suggestion: any, index: number) => {
+      const operations = Array.isArray(suggestion.suggestions?.operations)
+        ? suggestion.suggestions.operations.flatMap((operation: unknown) => {
+            const parsed = seoOperationSchema.safeParse(operation);
+            return parsed.success ? [parsed.data] : [];
+          })
+        : [];
+      return {
+        ...suggestion,
+        id: suggestion.id || `seo-${Date.now()}-${index}`,
+        suggestions: { ...suggestion.suggestions, operations },
+      };
+    });
 
     return result;
   } catch (error) {
-    console.error("OpenAI SEO analysis failed:", error);
+    console.error("AI SEO analysis failed:", error);
     return {
       seoScore: 10,
       suggestions: [
@@ -323,11 +404,31 @@ Focus on:
   }
 }
 
+const LEGAL_DOCUMENT_TYPES = ['refund', 'privacy', 'terms', 'shipping', 'imprint'];
+
+// Older suggestion types map onto the document that covers them
+const LEGAL_TYPE_DOCUMENTS: Record<string, string> = {
+  privacy: 'privacy',
+  gdpr: 'privacy',
+  cookies: 'privacy',
+  terms: 'terms',
+  returns: 'refund',
+  shipping: 'shipping',
+};
+
+function getLegalDocumentType(suggestion: any): string | null {
+  const documentType = suggestion.suggestions?.documentType;
+  if (LEGAL_DOCUMENT_TYPES.includes(documentType)) {
+    return documentType;
+  }
+  return LEGAL_TYPE_DOCUMENTS[suggestion.type] || null;
+}
+
 // Legal pages recommendations
 export async function generateLegalRecommendations(storeUrl: string, storeType: string) {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const content = await completeChat({
+      feature: 'legal',
       messages: [{
         role: "user",
         content: `You are an expert e-commerce legal consultant. Generate specific legal page and compliance recommendations for this ${storeType} store: ${storeUrl}
@@ -346,7 +447,8 @@ Provide 3-5 specific legal compliance recommendations in this JSON format:
       "suggestions": {
         "current": "Current legal page status",
         "recommended": "Specific legal page or policy needed",
-        "implementation": "How to create and implement this legal document"
+        "implementation": "How to create and implement this legal document",
+        "documentType": "refund|privacy|terms|shipping|imprint|null (the document that addresses it, imprint only for EU stores)"
       }
     }
   ]
@@ -358,23 +460,28 @@ Focus on:
 - Return and Refund Policy
 - Shipping Policy
 - Cookie Policy and consent
-- Age verification for restricted products`
+- Age verification for restricted products
+- An imprint (legal notice) page for stores based in the EU`
       }],
-      response_format: { type: "json_object" },
-      max_tokens: 1500,
+      responseFormat: 'json',
+      maxTokens: 1500,
       temperature: 0.7,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{"suggestions": []}');
+    const result = JSON.parse(content || '{"suggestions": []}');
     
     result.suggestions = result.suggestions.map((suggestion: any, index: number) => ({
       ...suggestion,
-      id: suggestion.id || `legal-${Date.now()}-${index}`
+      id: suggestion.id || `legal-${Date.now()}-${index}`,
+      suggestions: {
+        ...suggestion.suggestions,
+        documentType: getLegalDocumentType(suggestion),
+      },
     }));
 
     return result;
   } catch (error) {
-    console.error("OpenAI legal analysis failed:", error);
+    console.error("AI legal analysis failed:", error);
     return {
       legalScore: 8,
       suggestions: [
@@ -388,7 +495,8 @@ Focus on:
           suggestions: {
             current: 'Missing or incomplete privacy policy',
             recommended: 'Create comprehensive privacy policy covering data collection, usage, and user rights',
-            implementation: 'Use legal template generators or consult with legal expert to create compliant privacy policy'
+            implementation: 'Use legal template generators or consult with legal expert to create compliant privacy policy',
+            documentType: 'privacy'
           }
         }
       ]
@@ -399,8 +507,8 @@ Focus on:
 // Conversion optimization recommendations
 export async function generateConversionRecommendations(storeUrl: string, storeType: string) {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const content = await completeChat({
+      feature: 'conversion',
       messages: [{
         role: "user",
         content: `You are an expert conversion rate optimization (CRO) specialist. Generate specific conversion improvement recommendations for this ${storeType} store: ${storeUrl}
@@ -419,12 +527,19 @@ Provide 4-6 specific conversion optimization recommendations in this JSON format
       "suggestions": {
         "current": "Current conversion element description",
         "recommended": "Specific recommended optimization",
-        "implementation": "How to implement this conversion improvement"
+        "implementation": "How to implement this conversion improvement",
+        "action": { "type": "compare_at_badge|free_shipping_bar|low_stock_urgency|sticky_add_to_cart|manual", "settings": { ... } }
       }
     }
   ]
 }
 
+Each suggestion's "action" is the store change that carries it out. Use one of these when it fits, otherwise "manual":
+- compare_at_badge: "Save X%" badge on products with a compare-at price, no settings
+- free_shipping_bar: banner showing how much more to spend for free shipping, settings {"threshold": amount in the store currency}
+- low_stock_urgency: "Only N left" message on products with low inventory, settings {"threshold": units, default 5}
+- sticky_add_to_cart: add-to-cart bar that stays visible while scrolling product pages, no settings
+
 Focus on:
 - Call-to-action button optimization
 - Checkout process simplification
@@ -434,21 +549,26 @@ Focus on:
 - Cart abandonment reduction
 - Mobile conversion improvements`
       }],
-      response_format: { type: "json_object" },
-      max_tokens: 1500,
+      responseFormat: 'json',
+      maxTokens: 1500,
       temperature: 0.7,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{"suggestions": []}');
+    const result = JSON.parse(content || '{"suggestions": []}');
     
-    result.suggestions = result.suggestions.map((suggestion: any, index: number) => ({
-      ...suggestion,
-      id: suggestion.id || `conversion-${Date.now()}-${index}`
-    }));
+    // Anything that isn't a well-formed catalog action has to be done by hand
+    result.suggestions = result.suggestions.map((suggestion: any, index: number) => {
+      const action = conversionActionSchema.safeParse(suggestion.suggestions?.action);
+      return {
+        ...suggestion,
+        id: suggestion.id || `conversion-${Date.now()}-${index}`,
+        suggestions: { ...suggestion.suggestions, action: action.success ? action.data : { type: 'manual' } },
+      };
+    });
 
     return result;
   } catch (error) {
-    console.error("OpenAI conversion analysis failed:", error);
+    console.error("AI conversion analysis failed:", error);
     return {
       conversionScore: 6,
       suggestions: [
@@ -462,7 +582,8 @@ Focus on:
           suggestions: {
             current: 'Generic or weak call-to-action buttons',
             recommended: 'Use action-oriented text, contrasting colors, and strategic placement for CTAs',
-            implementation: 'Update button text to "Buy Now", "Add to Cart", use contrasting colors and place above the fold'
+            implementation: 'Update button text to "Buy Now", "Add to Cart", use contrasting colors and place above the fold',
+            action: { type: 'manual' }
           }
         }
       ]
@@ -473,8 +594,8 @@ Focus on:
 // Reviews and trust recommendations
 export async function generateTrustRecommendations(storeUrl: string, storeType: string) {
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o", // the newest OpenAI model is "gpt-4o" which was released May 13, 2024. do not change this unless explicitly requested by the user
+    const content = await completeChat({
+      feature: 'trust',
       messages: [{
         role: "user",
         content: `You are an expert trust and reputation specialist for e-commerce. Generate specific trust building and review optimization recommendations for this ${storeType} store: ${storeUrl}
@@ -485,7 +606,7 @@ Provide 4-6 specific trust and review improvement recommendations in this JSON f
   "suggestions": [
     {
       "id": "unique-id",
-      "type": "reviews|testimonials|badges|security|guarantees|contact",
+      "type": "reviews|testimonials|badges|security|guarantees|contact|general",
       "title": "Specific trust improvement title",
       "description": "Detailed explanation of the trust building element",
       "impact": "Expected impact on customer trust and conversions",
@@ -508,21 +629,26 @@ Focus on:
 - About us page optimization
 - Social proof elements`
       }],
-      response_format: { type: "json_object" },
-      max_tokens: 1500,
+      responseFormat: 'json',
+      maxTokens: 1500,
       temperature: 0.7,
     });
 
-    const result = JSON.parse(response.choices[0].message.content || '{"suggestions": []}');
+    const result = JSON.parse(content || '{"suggestions": []}');
     
-    result.suggestions = result.suggestions.map((suggestion: any, index: number) => ({
-      ...suggestion,
-      id: suggestion.id || `trust-${Date.now()}-${index}`
-    }));
+    // The type decides what gets applied, so anything outside the known set becomes general
+    result.suggestions = result.suggestions.map((suggestion: any, index: number) => {
+      const type = applyTrustRecommendationSchema.shape.type.safeParse(suggestion.type);
+      return {
+        ...suggestion,
+        id: suggestion.id || `trust-${Date.now()}-${index}`,
+        type: type.success ? type.data : 'general',
+      };
+    });
 
     return result;
   } catch (error) {
-    console.error("OpenAI trust analysis failed:", error);
+    console.error("AI trust analysis failed:", error);
     return {
       trustScore: 9,
       suggestions: [
@@ -0,0 +1,176 @@
+import { storage } from "../storage";
+import { OPTIMIZATION_REVERT } from "@shared/constants";
+import { logInfo, HttpError } from "@shared/errorHandler";
+import type { ProductOptimization, UserStore } from "@shared/schema";
+import { refreshMirroredProduct } from "./shopifyProductSync";
+import { getPlatformAdapter, canSyncProducts, notConnectedMessage } from "./storePlatforms";
+
+// A revert that can't go ahead
+export class OptimizationRevertError extends HttpError {}
+
+export interface RevertResult {
+  optimization: ProductOptimization;
+  creditsRefunded: number;
+}
+
+export interface BulkRevertResult {
+  reverted: RevertResult[];
+  failed: Array<{ optimizationId: number; error: string }>;
+}
+
+// Older apply paths recorded these placeholders when the field was empty
+const EMPTY_PLACEHOLDERS: Record<string, string> = {
+  description: 'No description',
+  keywords: 'No tags',
+};
+
+function getOriginalValue(optimization: ProductOptimization): string {
+  const value = optimization.originalValue ?? '';
+  return value === EMPTY_PLACEHOLDERS[optimization.optimizationType] ? '' : value;
+}
+
+/**
+ * Builds the updateProduct payload that puts the original value back
+ */
+async function buildRevertUpdate(store: UserStore, optimization: ProductOptimization): Promise<any> {
+  const originalValue = getOriginalValue(optimization);
+
+  switch (optimization.optimizationType) {
+    case 'title':
+      if (!originalValue) {
+        throw new OptimizationRevertError('Original title was not recorded, so this change cannot be reverted');
+      }
+      return { title: originalValue };
+    case 'description':
+      return { body_html: originalValue };
+    case 'keywords':
+      return { tags: originalValue };
+    case 'item_specifics':
+      return { item_specifics: originalValue };
+    case 'pricing': {
+      if (!originalValue) {
+        throw new OptimizationRevertError('Original price was not recorded, so this change cannot be reverted');
+      }
+      // Rows recorded before the variant was tracked changed the first variant
+      let variantId = optimization.shopifyVariantId;
+      if (!variantId) {
+        const product = await getPlatformAdapter(store.storeType).getProduct(store, optimization.shopifyProductId);
+        variantId = product?.variants?.[0]?.id ?? null;
+      }
+      if (!variantId) {
+        throw new OptimizationRevertError('Product variant not found', 404);
+      }
+      return { variants: [{ id: variantId, price: originalValue }] };
+    }
+  }
+}
+
+/**
+ * Writes an optimization's original value back to the store and marks it reverted.
+ * Only the newest applied change to a product field can be reverted, otherwise
+ * the older original would overwrite a later change that is still live.
+ * The row is claimed as reverted before anything else happens, so only one of several
+ * concurrent reverts writes to the store and refunds the credit.
+ */
+export async function revertOptimization(
+  store: UserStore,
+  optimization: ProductOptimization,
+  options: { refundCredit?: boolean } = {}
+): Promise<RevertResult> {
+  if (!(OPTIMIZATION_REVERT.REVERTIBLE_TYPES as readonly string[]).includes(optimization.optimizationType)) {
+    throw new OptimizationRevertError(`${optimization.optimizationType} optimizations cannot be reverted here`);
+  }
+  if (optimization.status === 'reverted') {
+    throw new OptimizationRevertError('Optimization has already been reverted', 409);
+  }
+  if (!canSyncProducts(store)) {
+    throw new OptimizationRevertError(notConnectedMessage(store));
+  }
+
+  const history = await storage.getProductOptimizations(store.id, optimization.optimizationType);
+  const newer = history.find(item =>
+    item.shopifyProductId === optimization.shopifyProductId &&
+    item.status === 'applied' &&
+    item.id !== optimization.id &&
+    item.appliedAt > optimization.appliedAt
+  );
+  if (newer) {
+    throw new OptimizationRevertError('A newer optimization of this product is live, revert that one first', 409);
+  }
+
+  const updateData = await buildRevertUpdate(store, optimization);
+
+  const claimed = await storage.transitionProductOptimization(optimization.id, 'applied', {
+    status: 'reverted',
+    revertedAt: new Date(),
+  });
+  if (!claimed) {
+    throw new OptimizationRevertError('Optimization has already been reverted', 409);
+  }
+
+  try {
+    await getPlatformAdapter(store.storeType).updateProduct(store, optimization.shopifyProductId, updateData);
+  } catch (error) {
+    await storage.transitionProductOptimization(optimization.id, 'reverted', { status: 'applied', revertedAt: null });
+    throw error;
+  }
+
+  try {
+    await refreshMirroredProduct(store, optimization.shopifyProductId);
+  } catch (error) {
+    console.error(`Failed to refresh mirrored product ${optimization.shopifyProductId}:`, error);
+  }
+
+  const withinRefundWindow = Date.now() - optimization.appliedAt.getTime() <= OPTIMIZATION_REVERT.REFUND_WINDOW_MS;
+  const creditsRefunded = options.refundCredit && withinRefundWindow ? optimization.creditsUsed : 0;
+  if (creditsRefunded > 0) {
+    await storage.adjustCredits(
+      optimization.userId,
+      creditsRefunded,
+      'refund',
+      `Refund for reverted ${optimization.optimizationType} optimization`
+    );
+  }
+
+  const reverted = creditsRefunded > 0
+    ? await storage.updateProductOptimization(optimization.id, { creditsRefunded })
+    : claimed;
+
+  // Keep the draft that produced this change in step with it
+  const draft = await storage.getSuggestionDraftByOptimizationId(optimization.id);
+  if (draft) {
+    await storage.transitionSuggestionDraft(draft.id, 'applied', { status: 'reverted', revertedAt: new Date() });
+  }
+
+  logInfo('Optimization Revert', `Reverted ${optimization.optimizationType} optimization ${optimization.id} on store ${store.id}`);
+  return { optimization: reverted || optimization, creditsRefunded };
+}
+
+/**
+ * Reverts every applied product optimization on the store since the given date.
+ * Newest changes are undone first so each field ends at the value it had before `since`.
+ */
+export async function revertOptimizationsSince(
+  store: UserStore,
+  since: Date,
+  options: { refundCredit?: boolean } = {}
+): Promise<BulkRevertResult> {
+  const optimizations = (await storage.getProductOptimizations(store.id))
+    .filter(item =>
+      item.status === 'applied' &&
+      item.appliedAt >= since &&
+      (OPTIMIZATION_REVERT.REVERTIBLE_TYPES as readonly string[]).includes(item.optimizationType)
+    )
+    .sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+
+  const result: BulkRevertResult = { reverted: [], failed: [] };
+  for (const optimization of optimizations) {
+    try {
+      result.reverted.push(await revertOptimization(store, optimization, options));
+    } catch (error: any) {
+      result.failed.push({ optimizationId: optimization.id, error: error.message || 'Revert failed' });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,67 @@
+import { storage } from "../storage";
+import { logInfo } from "@shared/errorHandler";
+import type { StoreAnalysis, UserStore, ScoreChangeNotificationData } from "@shared/schema";
+
+const SCORE_FIELDS: Array<{ category: ScoreChangeNotificationData['changes'][number]['category']; field: keyof StoreAnalysis; label: string }> = [
+  { category: 'overall', field: 'overallScore', label: 'Overall' },
+  { category: 'design', field: 'designScore', label: 'Design' },
+  { category: 'product', field: 'productScore', label: 'Product' },
+  { category: 'seo', field: 'seoScore', label: 'SEO' },
+  { category: 'trust', field: 'trustScore', label: 'Trust' },
+  { category: 'pricing', field: 'pricingScore', label: 'Pricing' },
+  { category: 'conversion', field: 'conversionScore', label: 'Conversion' },
+];
+
+/**
+ * Compares two analyses and returns the scores that moved by more than the threshold
+ */
+function diffAnalysisScores(
+  previous: StoreAnalysis,
+  current: StoreAnalysis,
+  threshold: number
+): ScoreChangeNotificationData['changes'] {
+  return SCORE_FIELDS
+    .map(({ category, field }) => {
+      const before = previous[field] as number;
+      const after = current[field] as number;
+      return { category, previous: before, current: after, delta: after - before };
+    })
+    .filter(change => Math.abs(change.delta) > threshold);
+}
+
+/**
+ * Raises an in-app notification when a new analysis moved the store's scores past its alert threshold.
+ * Degraded analyses are skipped on both sides since their scores are not trustworthy.
+ */
+export async function notifyScoreChanges(store: UserStore, analysis: StoreAnalysis): Promise<void> {
+  if (analysis.degraded) return;
+
+  const history = await storage.getUserStoreAnalyses(store.id, 10);
+  const previous = history.find(item => item.id !== analysis.id && !item.degraded && item.createdAt <= analysis.createdAt);
+  if (!previous) return;
+
+  const changes = diffAnalysisScores(previous, analysis, store.scoreAlertThreshold);
+  if (changes.length === 0) return;
+
+  const labels = new Map(SCORE_FIELDS.map(({ category, label }) => [category, label]));
+  const summary = changes
+    .map(change => `${labels.get(change.category)} ${change.previous} → ${change.current} (${change.delta > 0 ? '+' : ''}${change.delta})`)
+    .join(', ');
+  const overall = changes.find(change => change.category === 'overall');
+  const direction = overall ? (overall.delta > 0 ? 'improved' : 'dropped') : 'changed';
+
+  await storage.createNotification({
+    userId: store.userId,
+    userStoreId: store.id,
+    type: 'score_change',
+    title: `${store.name} score ${direction}`,
+    message: `Scheduled re-analysis found score changes: ${summary}`,
+    data: {
+      analysisId: analysis.id,
+      previousAnalysisId: previous.id,
+      changes,
+    },
+  });
+
+  logInfo('Score Alerts', `Notified user ${store.userId} about ${changes.length} score changes on store ${store.id}`);
+}
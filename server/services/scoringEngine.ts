@@ -0,0 +1,335 @@
+import type {
+  StoreAnalysisResult,
+  ScoreBreakdown,
+  ScoreCategory,
+  CategoryScoreBreakdown,
+  ScoringRuleResult
+} from '@shared/schema';
+import { ANALYSIS } from '@shared/constants';
+import type { ShopifyStore } from './shopifyIntegration';
+
+/**
+ * Deterministic rule-based scoring.
+ * Objective checks run against the fetched storefront HTML and Shopify product data so that
+ * an unchanged store always gets the same design/product/SEO/trust/conversion scores.
+ * The LLM is only trusted for qualitative fields (pricing, copy, suggestions, recap).
+ */
+
+export interface RuleEngineInput {
+  storeUrl?: string;
+  html?: string;
+  products?: any[]; // REST-shaped products (body_html, images[].alt, variants[], seo)
+  shopInfo?: Partial<ShopifyStore>;
+}
+
+export interface RuleEngineResult {
+  breakdown: Partial<Record<ScoreCategory, CategoryScoreBreakdown>>;
+  designAnalysis?: Partial<StoreAnalysisResult['designAnalysis']>;
+  productAnalysis?: Partial<StoreAnalysisResult['productAnalysis']>;
+  seoAnalysis?: Partial<StoreAnalysisResult['seoAnalysis']>;
+  trustAnalysis?: Partial<StoreAnalysisResult['trustAnalysis']>;
+  conversionAnalysis?: Partial<StoreAnalysisResult['conversionAnalysis']>;
+}
+
+const CATEGORY_MAX: Record<ScoreCategory, number> = {
+  design: ANALYSIS.SCORES.MAX_DESIGN,
+  product: ANALYSIS.SCORES.MAX_PRODUCT,
+  seo: ANALYSIS.SCORES.MAX_SEO,
+  trust: ANALYSIS.SCORES.MAX_TRUST,
+  pricing: ANALYSIS.SCORES.MAX_PRICING,
+  conversion: ANALYSIS.SCORES.MAX_CONVERSION
+};
+
+const SCORE_FIELDS: Record<ScoreCategory, 'designScore' | 'productScore' | 'seoScore' | 'trustScore' | 'pricingScore' | 'conversionScore'> = {
+  design: 'designScore',
+  product: 'productScore',
+  seo: 'seoScore',
+  trust: 'trustScore',
+  pricing: 'pricingScore',
+  conversion: 'conversionScore'
+};
+
+const REVIEW_WIDGET_PATTERN = /judge\.?me|yotpo|loox|stamped\.io|okendo|reviews\.io|trustpilot|shopify-product-reviews|spr-badge/i;
+const CHAT_WIDGET_PATTERN = /tidio|gorgias|zendesk|intercom|crisp\.chat|livechat|shopify-chat|inbox-chat|tawk\.to/i;
+
+/**
+ * Pass/fail rule worth its full points when passed
+ */
+function check(id: string, label: string, passed: boolean, maxPoints: number, detail?: string): ScoringRuleResult {
+  return { id, label, passed, points: passed ? maxPoints : 0, maxPoints, detail };
+}
+
+/**
+ * Coverage rule worth a share of its points proportional to the ratio (0-1)
+ */
+function coverage(id: string, label: string, ratio: number, maxPoints: number, passThreshold: number, detail?: string): ScoringRuleResult {
+  const clamped = Math.max(0, Math.min(1, ratio));
+  return {
+    id,
+    label,
+    passed: clamped >= passThreshold,
+    points: Math.round(clamped * maxPoints),
+    maxPoints,
+    detail: detail ?? `${Math.round(clamped * 100)}% coverage`
+  };
+}
+
+function summarize(rules: ScoringRuleResult[], maxScore: number): CategoryScoreBreakdown {
+  const score = Math.min(maxScore, rules.reduce((sum, rule) => sum + rule.points, 0));
+  return { score, maxScore, source: 'rules', rules };
+}
+
+function findRule(rules: ScoringRuleResult[], id: string): boolean {
+  return rules.find(rule => rule.id === id)?.passed ?? false;
+}
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+function extractHrefs(html: string): string[] {
+  return Array.from(html.matchAll(/<a\b[^>]*href=["']([^"']+)["']/gi), match => match[1]);
+}
+
+function extractMetaContent(html: string, name: string): string | null {
+  const match = html.match(new RegExp(`<meta[^>]*name=["']${name}["'][^>]*content=["']([^"']*)["']`, 'i')) ||
+    html.match(new RegExp(`<meta[^>]*content=["']([^"']*)["'][^>]*name=["']${name}["']`, 'i'));
+  return match ? match[1].trim() : null;
+}
+
+/**
+ * Pulls aggregateRating.reviewCount out of JSON-LD blocks when the theme exposes it
+ */
+function extractReviewCount(html: string): number | null {
+  const match = html.match(/"reviewCount"\s*:\s*"?(\d+)/i) || html.match(/"ratingCount"\s*:\s*"?(\d+)/i);
+  return match ? parseInt(match[1]) : null;
+}
+
+function evaluateDesign(html: string): { breakdown: CategoryScoreBreakdown; analysis: RuleEngineResult['designAnalysis'] } {
+  const scriptCount = (html.match(/<script\b/gi) || []).length;
+  const navLinks = (html.match(/<nav[\s\S]*?<\/nav>/i)?.[0].match(/<a\b/gi) || []).length;
+  const hasNav = /<nav\b|role=["']navigation["']/i.test(html);
+
+  const rules = [
+    check('viewport-meta', 'Mobile viewport meta tag', /<meta[^>]*name=["']viewport["']/i.test(html), 6),
+    check('navigation', 'Navigation menu present', hasNav, 5, hasNav ? `${navLinks} links in main navigation` : undefined),
+    check('logo', 'Store logo displayed', /<img[^>]*(?:class|alt|src)=["'][^"']*logo/i.test(html), 3),
+    check('favicon', 'Favicon configured', /<link[^>]*rel=["'](?:shortcut )?icon["']/i.test(html), 2),
+    check('page-weight', 'Homepage HTML under 500KB', html.length < 500 * 1024, 2, `${Math.round(html.length / 1024)}KB`),
+    check('script-count', 'At most 40 script tags', scriptCount <= 40, 2, `${scriptCount} script tags`)
+  ];
+
+  return {
+    breakdown: summarize(rules, CATEGORY_MAX.design),
+    analysis: {
+      mobileResponsive: findRule(rules, 'viewport-meta'),
+      navigationClarity: findRule(rules, 'navigation'),
+      brandingConsistency: findRule(rules, 'logo') && findRule(rules, 'favicon')
+    }
+  };
+}
+
+function evaluateSeo(html: string): { breakdown: CategoryScoreBreakdown; analysis: RuleEngineResult['seoAnalysis'] } {
+  const title = html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1].trim() || '';
+  const description = extractMetaContent(html, 'description') || '';
+  const images = html.match(/<img\b[^>]*>/gi) || [];
+  const imagesWithAlt = images.filter(img => /\balt=["'][^"']+["']/i.test(img)).length;
+  const hrefs = extractHrefs(html);
+  const productLinks = hrefs.filter(href => href.includes('/products/'));
+  const cleanProductLinks = productLinks.filter(href => !/[?&](?:variant|id|pid)=/i.test(href));
+
+  const rules = [
+    check('meta-title', 'Page title present', title.length > 0, 4, title ? `${title.length} characters` : undefined),
+    check('meta-description', 'Meta description present', description.length > 0, 4, description ? `${description.length} characters` : undefined),
+    check('meta-lengths', 'Title 30-70 and description 70-170 characters',
+      title.length >= 30 && title.length <= 70 && description.length >= 70 && description.length <= 170, 2),
+    coverage('image-alt', 'Images have alt text', images.length ? imagesWithAlt / images.length : 0, 4, 0.8,
+      `${imagesWithAlt}/${images.length} images`),
+    check('structured-data', 'Structured data (JSON-LD or microdata)', /application\/ld\+json|itemtype=["']https?:\/\/schema\.org/i.test(html), 3),
+    check('canonical', 'Canonical URL set', /<link[^>]*rel=["']canonical["']/i.test(html), 1),
+    check('collections', 'Products organised into collections', hrefs.some(href => href.includes('/collections/')), 1),
+    check('clean-urls', 'Product URLs without query parameters',
+      productLinks.length > 0 && cleanProductLinks.length === productLinks.length, 1,
+      `${cleanProductLinks.length}/${productLinks.length} product links`)
+  ];
+
+  return {
+    breakdown: summarize(rules, CATEGORY_MAX.seo),
+    analysis: {
+      metaTitlesPresent: findRule(rules, 'meta-title'),
+      keywordOptimization: findRule(rules, 'meta-lengths'),
+      categoriesUsed: findRule(rules, 'collections'),
+      cleanUrls: findRule(rules, 'clean-urls')
+    }
+  };
+}
+
+function evaluateTrust(input: RuleEngineInput): { breakdown: CategoryScoreBreakdown; analysis: RuleEngineResult['trustAnalysis'] } {
+  const html = input.html || '';
+  const hrefs = extractHrefs(html).map(href => href.toLowerCase());
+  const text = stripTags(html).toLowerCase();
+  const hasSsl = input.shopInfo?.force_ssl ?? (input.storeUrl?.startsWith('https://') || false);
+  const reviewCount = extractReviewCount(html);
+
+  const rules = [
+    check('ssl', 'Served over HTTPS', hasSsl, 3),
+    check('return-policy', 'Return/refund policy linked',
+      hrefs.some(href => /refund-policy|return/.test(href)) || /return policy|refund policy/.test(text), 3),
+    check('privacy-policy', 'Privacy policy linked', hrefs.some(href => href.includes('privacy')), 2),
+    check('contact-info', 'Contact details reachable',
+      hrefs.some(href => href.includes('/pages/contact') || href.startsWith('mailto:') || href.startsWith('tel:')) || !!input.shopInfo?.customer_email, 3),
+    check('about-page', 'About page linked', hrefs.some(href => /\/pages\/about/.test(href)), 2),
+    check('social-proof', 'Customer reviews shown', REVIEW_WIDGET_PATTERN.test(html) || (reviewCount ?? 0) > 0, 2,
+      reviewCount !== null ? `${reviewCount} reviews` : undefined)
+  ];
+
+  return {
+    breakdown: summarize(rules, CATEGORY_MAX.trust),
+    analysis: {
+      returnPolicy: findRule(rules, 'return-policy'),
+      aboutPage: findRule(rules, 'about-page'),
+      contactInfo: findRule(rules, 'contact-info'),
+      sslSecurity: findRule(rules, 'ssl'),
+      ...(reviewCount !== null ? { socialProof: reviewCount } : {})
+    }
+  };
+}
+
+function evaluateProducts(products: any[]): { breakdown: CategoryScoreBreakdown; analysis: RuleEngineResult['productAnalysis'] } {
+  const count = products.length;
+  const ratio = (predicate: (product: any) => boolean) => count ? products.filter(predicate).length / count : 0;
+
+  const descriptionRatio = ratio(p => stripTags(p.body_html || '').length >= 300);
+  const imageRatio = ratio(p => (p.images?.length || 0) >= 2);
+  const titleRatio = ratio(p => (p.title?.length || 0) >= 20 && (p.title?.length || 0) <= 70);
+  const allImages = products.flatMap(p => p.images || []);
+  const altRatio = allImages.length ? allImages.filter((img: any) => img.alt && img.alt.trim()).length / allImages.length : 0;
+
+  const rules = [
+    coverage('catalog-size', 'At least 10 products', count / 10, 5, 1, `${count} products`),
+    coverage('descriptions', 'Descriptions of 300+ characters', descriptionRatio, 8, 0.8),
+    coverage('product-images', 'Two or more images per product', imageRatio, 6, 0.8),
+    coverage('product-image-alt', 'Product images have alt text', altRatio, 3, 0.8),
+    coverage('structured-titles', 'Titles between 20 and 70 characters', titleRatio, 3, 0.8)
+  ];
+
+  return {
+    breakdown: summarize(rules, CATEGORY_MAX.product),
+    analysis: {
+      productCount: count,
+      detailedDescriptions: Math.round(descriptionRatio * 100),
+      highQualityImages: findRule(rules, 'product-images'),
+      structuredTitles: findRule(rules, 'structured-titles')
+    }
+  };
+}
+
+function evaluateConversion(html: string, products?: any[]): { breakdown: CategoryScoreBreakdown; analysis: RuleEngineResult['conversionAnalysis'] } {
+  const hrefs = extractHrefs(html).map(href => href.toLowerCase());
+  const onSale = (products || []).some(p => (p.variants || []).some((v: any) =>
+    v.compare_at_price && parseFloat(v.compare_at_price) > parseFloat(v.price)));
+
+  const rules = [
+    check('add-to-cart', 'Add to cart / buy buttons', /\/cart\/add|add[\s_-]?to[\s_-]?cart|buy[\s_-]?(?:it[\s_-]?)?now/i.test(html), 3),
+    check('reviews-displayed', 'Review widget on storefront', REVIEW_WIDGET_PATTERN.test(html), 3),
+    check('promotions', 'Promotions or sale pricing', onSale || /compare-at|announcement-bar|price--on-sale|\bsale\b|discount/i.test(html), 2),
+    check('support', 'Live chat, FAQ or contact page',
+      CHAT_WIDGET_PATTERN.test(html) || hrefs.some(href => href.includes('/pages/contact') || href.includes('faq')), 2)
+  ];
+
+  return {
+    breakdown: summarize(rules, CATEGORY_MAX.conversion),
+    analysis: {
+      clearCtas: findRule(rules, 'add-to-cart'),
+      reviewsDisplayed: findRule(rules, 'reviews-displayed'),
+      promotions: findRule(rules, 'promotions'),
+      supportOptions: findRule(rules, 'support')
+    }
+  };
+}
+
+/**
+ * Runs every rule that the available data supports.
+ * Categories without data are left out so the LLM score is kept for them.
+ */
+export function evaluateStoreRules(input: RuleEngineInput): RuleEngineResult {
+  const result: RuleEngineResult = { breakdown: {} };
+
+  if (input.html) {
+    const design = evaluateDesign(input.html);
+    const seo = evaluateSeo(input.html);
+    const conversion = evaluateConversion(input.html, input.products);
+    result.breakdown.design = design.breakdown;
+    result.breakdown.seo = seo.breakdown;
+    result.breakdown.conversion = conversion.breakdown;
+    result.designAnalysis = design.analysis;
+    result.seoAnalysis = seo.analysis;
+    result.conversionAnalysis = conversion.analysis;
+
+    const trust = evaluateTrust(input);
+    result.breakdown.trust = trust.breakdown;
+    result.trustAnalysis = trust.analysis;
+  }
+
+  if (input.products && input.products.length > 0) {
+    const product = evaluateProducts(input.products);
+    result.breakdown.product = product.breakdown;
+    result.productAnalysis = product.analysis;
+  }
+
+  return result;
+}
+
+/**
+ * Formats rule results for the LLM prompt so qualitative feedback stays consistent with the checks
+ */
+export function describeRuleResults(rules: RuleEngineResult): string {
+  const lines: string[] = [];
+  for (const [category, breakdown] of Object.entries(rules.breakdown)) {
+    for (const rule of breakdown!.rules) {
+      lines.push(`- [${rule.passed ? 'PASS' : 'FAIL'}] ${category}: ${rule.label}${rule.detail ? ` (${rule.detail})` : ''}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Overrides LLM scores and booleans with rule results and attaches the full breakdown.
+ * overallScore is recomputed so it stays the sum of the category scores.
+ */
+export function applyRuleScores(analysis: StoreAnalysisResult, rules: RuleEngineResult): StoreAnalysisResult {
+  const merged: StoreAnalysisResult = {
+    ...analysis,
+    designAnalysis: { ...analysis.designAnalysis, ...rules.designAnalysis },
+    productAnalysis: { ...analysis.productAnalysis, ...rules.productAnalysis },
+    seoAnalysis: { ...analysis.seoAnalysis, ...rules.seoAnalysis },
+    trustAnalysis: { ...analysis.trustAnalysis, ...rules.trustAnalysis },
+    conversionAnalysis: { ...analysis.conversionAnalysis, ...rules.conversionAnalysis }
+  };
+
+  const scoreBreakdown = {} as ScoreBreakdown;
+  for (const category of Object.keys(CATEGORY_MAX) as ScoreCategory[]) {
+    const field = SCORE_FIELDS[category];
+    const breakdown = rules.breakdown[category] ?? {
+      score: analysis[field],
+      maxScore: CATEGORY_MAX[category],
+      source: 'ai' as const,
+      rules: []
+    };
+    scoreBreakdown[category] = breakdown;
+    merged[field] = breakdown.score;
+  }
+
+  merged.designAnalysis.score = merged.designScore;
+  merged.productAnalysis.score = merged.productScore;
+  merged.seoAnalysis.score = merged.seoScore;
+  merged.trustAnalysis.score = merged.trustScore;
+  merged.pricingAnalysis = { ...analysis.pricingAnalysis, score: merged.pricingScore };
+  merged.conversionAnalysis.score = merged.conversionScore;
+
+  merged.overallScore = merged.designScore + merged.productScore + merged.seoScore +
+    merged.trustScore + merged.pricingScore + merged.conversionScore;
+  merged.scoreBreakdown = scoreBreakdown;
+
+  return merged;
+}
@@ -0,0 +1,153 @@
+import { storage } from "../storage";
+import { logInfo } from "@shared/errorHandler";
+import type { ComplianceRequest, ComplianceRequestResult, ComplianceTopic, CustomerDataExport } from "@shared/schema";
+
+/**
+ * Identifying values for the customer in a customers/* payload, used to find references in free text
+ */
+function getCustomerTerms(payload: any): string[] {
+  const customer = payload.customer || {};
+  return [customer.email, customer.phone]
+    .filter((value): value is string => typeof value === 'string' && value.trim().length > 0)
+    .map(value => value.trim());
+}
+
+async function getStoreOwnerIds(shopDomain: string): Promise<number[]> {
+  const stores = await storage.getUserStoresByShopifyDomain(shopDomain);
+  return Array.from(new Set(stores.map(store => store.userId)));
+}
+
+/**
+ * customers/data_request: bundle every record that references the customer.
+ * We never sync Shopify customers or orders, so the only place they can appear is
+ * free text the merchant typed into Alex chat.
+ */
+async function exportCustomerData(request: ComplianceRequest): Promise<{ result: ComplianceRequestResult; exportData: CustomerDataExport }> {
+  const payload = request.payload as any;
+  const terms = getCustomerTerms(payload);
+  const ownerIds = await getStoreOwnerIds(request.shopDomain);
+
+  const chatMessages: CustomerDataExport['records']['chatMessages'] = [];
+  for (const userId of ownerIds) {
+    const messages = await storage.findChatMessagesContaining(userId, terms);
+    chatMessages.push(...messages.map(message => ({
+      id: message.id,
+      createdAt: message.createdAt.toISOString(),
+      content: message.content,
+    })));
+  }
+
+  return {
+    result: { storesAffected: ownerIds.length, chatMessagesExported: chatMessages.length },
+    exportData: {
+      generatedAt: new Date().toISOString(),
+      shopDomain: request.shopDomain,
+      customer: {
+        id: request.shopifyCustomerId,
+        email: payload.customer?.email || null,
+        phone: payload.customer?.phone || null,
+      },
+      ordersRequested: (payload.orders_requested || []).map(String),
+      records: { chatMessages },
+    },
+  };
+}
+
+/**
+ * customers/redact: scrub the customer's email and phone from any chat messages
+ */
+async function redactCustomerData(request: ComplianceRequest): Promise<ComplianceRequestResult> {
+  const terms = getCustomerTerms(request.payload);
+  const ownerIds = await getStoreOwnerIds(request.shopDomain);
+
+  let chatMessagesRedacted = 0;
+  for (const userId of ownerIds) {
+    chatMessagesRedacted += await storage.redactChatMessages(userId, terms);
+  }
+
+  return { storesAffected: ownerIds.length, chatMessagesRedacted };
+}
+
+/**
+ * shop/redact: delete everything held for the shop — analyses, optimizations, jobs,
+ * the product mirror and the store connection with its tokens — and scrub chat references
+ */
+async function redactShopData(request: ComplianceRequest): Promise<ComplianceRequestResult> {
+  const stores = await storage.getUserStoresByShopifyDomain(request.shopDomain);
+  const result: ComplianceRequestResult = {
+    storesAffected: stores.length,
+    analysesDeleted: 0,
+    optimizationsDeleted: 0,
+    analysisJobsDeleted: 0,
+    productsDeleted: 0,
+    chatMessagesRedacted: 0,
+  };
+
+  for (const store of stores) {
+    const terms = [request.shopDomain, store.name];
+    if (store.storeUrl) {
+      terms.push(store.storeUrl.replace(/^https?:\/\//, '').replace(/\/$/, ''));
+    }
+    result.chatMessagesRedacted! += await storage.redactChatMessages(store.userId, Array.from(new Set(terms)));
+
+    const purged = await storage.purgeUserStoreData(store.id);
+    result.analysesDeleted! += purged.analysesDeleted;
+    result.optimizationsDeleted! += purged.optimizationsDeleted;
+    result.analysisJobsDeleted! += purged.analysisJobsDeleted;
+    result.productsDeleted! += purged.productsDeleted;
+  }
+
+  return result;
+}
+
+/**
+ * Persist the audit record for a verified compliance webhook before it is acknowledged,
+ * so Shopify retries delivery if we could not record it
+ */
+export async function recordComplianceRequest(topic: ComplianceTopic, payload: any): Promise<ComplianceRequest> {
+  return await storage.createComplianceRequest({
+    topic,
+    shopDomain: payload.shop_domain,
+    shopifyShopId: payload.shop_id != null ? String(payload.shop_id) : null,
+    shopifyCustomerId: payload.customer?.id != null ? String(payload.customer.id) : null,
+    payload,
+  });
+}
+
+/**
+ * Carry out a recorded compliance request and store the outcome on its audit record
+ */
+export async function processComplianceRequest(request: ComplianceRequest): Promise<ComplianceRequest | undefined> {
+  try {
+    let result: ComplianceRequestResult;
+    let exportData: CustomerDataExport | null = null;
+
+    switch (request.topic) {
+      case 'customers/data_request':
+        ({ result, exportData } = await exportCustomerData(request));
+        break;
+      case 'customers/redact':
+        result = await redactCustomerData(request);
+        break;
+      case 'shop/redact':
+        result = await redactShopData(request);
+        break;
+    }
+
+    logInfo('Compliance', `Completed ${request.topic} request ${request.id} for ${request.shopDomain}`, result);
+    return await storage.updateComplianceRequest(request.id, {
+      status: 'completed',
+      result,
+      exportData,
+      error: null,
+      completedAt: new Date(),
+    });
+  } catch (error: any) {
+    console.error(`Compliance request ${request.id} failed:`, error);
+    return await storage.updateComplianceRequest(request.id, {
+      status: 'failed',
+      error: error.message || 'Compliance request failed',
+      completedAt: new Date(),
+    });
+  }
+}
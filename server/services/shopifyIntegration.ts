@@ -1,13 +1,17 @@
 import crypto from 'crypto';
 import { storage } from '../storage';
+import { SHOPIFY, SHOPIFY_SYNC, SHOPIFY_WEBHOOKS } from '@shared/constants';
+import { createOAuthState, type OAuthStateOwner } from './oauthState';
+import { revealCredential } from './credentialVault';
 
 // Shopify OAuth configuration
 const SHOPIFY_API_KEY = process.env.SHOPIFY_API_KEY!;
 const SHOPIFY_API_SECRET = process.env.SHOPIFY_API_SECRET!;
-const SHOPIFY_SCOPES = 'read_products,write_products,write_content';
-const REDIRECT_URI = process.env.REPLIT_DEV_DOMAIN 
-  ? `https://${process.env.REPLIT_DEV_DOMAIN}/api/shopify/callback`
-  : 'http://localhost:5000/api/shopify/callback';
+const SHOPIFY_SCOPES = 'read_products,write_products,write_content,read_themes,write_themes,write_legal_policies';
+const APP_URL = process.env.REPLIT_DEV_DOMAIN
+  ? `https://${process.env.REPLIT_DEV_DOMAIN}`
+  : 'http://localhost:5000';
+const REDIRECT_URI = `${APP_URL}/api/shopify/callback`;
 
 if (!SHOPIFY_API_KEY || !SHOPIFY_API_SECRET) {
   console.error('Missing Shopify API credentials. Please add SHOPIFY_API_KEY and SHOPIFY_API_SECRET to environment variables.');
@@ -27,6 +31,7 @@ export interface ShopifyStore {
   id: number;
   name: string;
   email: string;
+  company?: string | null; // legal entity from the billing address
   domain: string;
   province: string;
   country: string;
@@ -62,6 +67,7 @@ export interface ShopifyStore {
   has_discounts: boolean;
   has_gift_cards: boolean;
   myshopify_domain: string;
+  primary_domain?: { host: string; ssl_enabled: boolean };
   google_apps_domain: string;
   google_apps_login_enabled: boolean;
   money_in_emails_format: string;
@@ -77,18 +83,43 @@ export interface ShopifyStore {
 }
 
 /**
- * Generate Shopify OAuth authorization URL
+ * Whether a shop parameter is a bare myshopify.com hostname, the only form Shopify sends
  */
-export async function generateShopifyAuthUrl(shopDomain: string, userId: number, userStoreId?: number): Promise<ShopifyAuthUrl> {
-  const state = crypto.randomBytes(32).toString('hex');
-  const nonce = crypto.randomBytes(16).toString('hex');
-  
-  // Store state for validation (in production, use Redis or database)
-  // Include userStoreId in state for store updates/reconnections
-  const stateWithUser = userStoreId ? `${state}:${userId}:${userStoreId}` : `${state}:${userId}`;
-  
-  // Use scopes needed for AI recommendations - including write permissions for product updates and content creation
-  const publicAppScopes = 'read_products,write_products,write_content';
+export function isValidShopDomain(shop: unknown): shop is string {
+  return typeof shop === 'string' && /^[a-zA-Z0-9][a-zA-Z0-9-]*\.myshopify\.com$/.test(shop);
+}
+
+/**
+ * Verifies the hmac Shopify signs OAuth redirects (install and callback) with: every other
+ * query parameter, sorted and joined as key=value pairs, HMAC-SHA256 with the app secret
+ * @param rawQuery - The query string exactly as received, so values are checked as Shopify signed them
+ */
+export function verifyShopifyQueryHmac(rawQuery: string): boolean {
+  const params = new URLSearchParams(rawQuery);
+  const hmac = params.get('hmac');
+  if (!hmac || !SHOPIFY_API_SECRET) return false;
+
+  const message = Array.from(params.entries())
+    .filter(([key]) => key !== 'hmac' && key !== 'signature')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, value]) => `${key}=${value}`)
+    .join('&');
+  const computed = crypto.createHmac('sha256', SHOPIFY_API_SECRET).update(message).digest('hex');
+
+  const received = Buffer.from(hmac, 'utf8');
+  const expected = Buffer.from(computed, 'utf8');
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+/**
+ * Generate Shopify OAuth authorization URL. The state is persisted for the initiating session
+ * and redeemed by the callback; userStoreId is the store being connected or reconnected, if any.
+ */
+export async function generateShopifyAuthUrl(shopDomain: string, owner: OAuthStateOwner, userStoreId?: number): Promise<ShopifyAuthUrl> {
+  const state = await createOAuthState('shopify', owner, { userStoreId, shopDomain });
+
+  // Use scopes needed for AI recommendations - including write permissions for product updates, content creation and theme previews
+  const publicAppScopes = SHOPIFY_SCOPES;
   
   // Standard OAuth URL for public Shopify apps (like AutoDS)
   const baseUrl = `https://${shopDomain}`;
@@ -96,7 +127,7 @@ export async function generateShopifyAuthUrl(shopDomain: string, userId: number,
     `client_id=${SHOPIFY_API_KEY}&` +
     `scope=${publicAppScopes}&` +
     `redirect_uri=${encodeURIComponent(REDIRECT_URI)}&` +
-    `state=${stateWithUser}&` +
+    `state=${state}&` +
     `grant_options[]=per-user`;
     
   console.log('Debug - Generated OAuth URL:', authUrl);
@@ -113,7 +144,7 @@ export async function generateShopifyAuthUrl(shopDomain: string, userId: number,
 
   return {
     authUrl,
-    state: stateWithUser
+    state
   };
 }
 
@@ -165,11 +196,24 @@ export async function getShopInfo(shopDomain: string, accessToken: string): Prom
         id
         name
         email
+        contactEmail
         myshopifyDomain
         primaryDomain {
           host
           sslEnabled
         }
+        billingAddress {
+          company
+          address1
+          address2
+          city
+          province
+          provinceCode
+          zip
+          country
+          countryCodeV2
+          phone
+        }
         currencyCode
         weightUnit
         ianaTimezone
@@ -185,7 +229,7 @@ export async function getShopInfo(shopDomain: string, accessToken: string): Prom
   const response = await fetch(graphqlUrl, {
     method: 'POST',
     headers: {
-      'X-Shopify-Access-Token': accessToken,
+      'X-Shopify-Access-Token': revealCredential(accessToken),
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({ query })
@@ -207,6 +251,7 @@ export async function getShopInfo(shopDomain: string, accessToken: string): Prom
     id: shop.id.split('/').pop(),
     name: shop.name,
     email: shop.email,
+    customer_email: shop.contactEmail,
     domain: shop.myshopifyDomain.replace('.myshopify.com', ''),
     myshopify_domain: shop.myshopifyDomain,
     plan_display_name: 'Unknown',
@@ -215,6 +260,17 @@ export async function getShopInfo(shopDomain: string, accessToken: string): Prom
       host: shop.primaryDomain.host,
       ssl_enabled: shop.primaryDomain.sslEnabled
     },
+    company: shop.billingAddress?.company || null,
+    address1: shop.billingAddress?.address1 || '',
+    address2: shop.billingAddress?.address2 || '',
+    city: shop.billingAddress?.city || '',
+    province: shop.billingAddress?.province || '',
+    province_code: shop.billingAddress?.provinceCode || '',
+    zip: shop.billingAddress?.zip || '',
+    country: shop.billingAddress?.countryCodeV2 || '',
+    country_code: shop.billingAddress?.countryCodeV2 || '',
+    country_name: shop.billingAddress?.country || '',
+    phone: shop.billingAddress?.phone || '',
     currency: shop.currencyCode,
     weight_unit: shop.weightUnit,
     iana_timezone: shop.ianaTimezone,
@@ -228,6 +284,80 @@ export async function getShopInfo(shopDomain: string, accessToken: string): Prom
   };
 }
 
+export interface ShopifyQueryCost {
+  requestedQueryCost: number;
+  actualQueryCost: number | null;
+  throttleStatus: {
+    maximumAvailable: number;
+    currentlyAvailable: number;
+    restoreRate: number;
+  };
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Milliseconds until the leaky bucket has restored enough points for a query of the given cost
+ */
+export function getThrottleDelay(cost: ShopifyQueryCost | undefined, pointsNeeded: number): number {
+  const status = cost?.throttleStatus;
+  if (!status) return 0;
+  const deficit = pointsNeeded - status.currentlyAvailable;
+  return deficit > 0 ? Math.ceil((deficit / status.restoreRate) * 1000) : 0;
+}
+
+/**
+ * Runs an Admin GraphQL request, waiting out Shopify's cost-based throttling.
+ * Returns the query cost alongside the data so long-running callers can pace themselves.
+ */
+export async function shopifyGraphQL(
+  shopDomain: string,
+  accessToken: string,
+  query: string,
+  variables: Record<string, any> = {},
+  apiVersion: string = SHOPIFY.API_VERSION
+): Promise<{ data: any; cost?: ShopifyQueryCost }> {
+  const graphqlUrl = `https://${shopDomain}/admin/api/${apiVersion}/graphql.json`;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(graphqlUrl, {
+      method: 'POST',
+      headers: {
+        'X-Shopify-Access-Token': revealCredential(accessToken),
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ query, variables })
+    });
+
+    if (response.status === 429 && attempt < SHOPIFY_SYNC.MAX_THROTTLE_RETRIES) {
+      const retryAfter = parseFloat(response.headers.get('Retry-After') || '2');
+      await sleep(retryAfter * 1000);
+      continue;
+    }
+
+    if (!response.ok) {
+      const error: any = new Error(`Shopify GraphQL request failed: ${response.status} ${response.statusText}`);
+      error.status = response.status;
+      throw error;
+    }
+
+    const body = await response.json();
+    const cost: ShopifyQueryCost | undefined = body.extensions?.cost;
+
+    const throttled = body.errors?.some((error: any) => error.extensions?.code === 'THROTTLED');
+    if (throttled && attempt < SHOPIFY_SYNC.MAX_THROTTLE_RETRIES) {
+      await sleep(Math.max(getThrottleDelay(cost, cost?.requestedQueryCost || 0), 1000));
+      continue;
+    }
+
+    if (body.errors) {
+      throw new Error(`GraphQL errors: ${JSON.stringify(body.errors)}`);
+    }
+
+    return { data: body.data, cost };
+  }
+}
+
 /**
  * Get store products for analysis using GraphQL API (2024-04+ compliant)
  */
@@ -290,7 +420,7 @@ export async function fetchSingleProduct(shopDomain: string, accessToken: string
   const response = await fetch(graphqlUrl, {
     method: 'POST',
     headers: {
-      'X-Shopify-Access-Token': accessToken,
+      'X-Shopify-Access-Token': revealCredential(accessToken),
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
@@ -354,11 +484,47 @@ export function validateWebhookSignature(body: string, signature: string): boole
   const hmac = crypto.createHmac('sha256', SHOPIFY_API_SECRET);
   hmac.update(body, 'utf8');
   const computedSignature = hmac.digest('base64');
-  
-  return crypto.timingSafeEqual(
-    Buffer.from(signature, 'base64'),
-    Buffer.from(computedSignature, 'base64')
-  );
+
+  const received = Buffer.from(signature, 'base64');
+  const expected = Buffer.from(computedSignature, 'base64');
+
+  // timingSafeEqual throws on length mismatch, which is just an invalid signature
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+}
+
+const WEBHOOK_SUBSCRIPTION_CREATE = `
+  mutation webhookSubscriptionCreate($topic: WebhookSubscriptionTopic!, $webhookSubscription: WebhookSubscriptionInput!) {
+    webhookSubscriptionCreate(topic: $topic, webhookSubscription: $webhookSubscription) {
+      webhookSubscription { id }
+      userErrors { field message }
+    }
+  }
+`;
+
+/**
+ * Subscribe the shop to the product, shop and uninstall webhooks that keep local state current.
+ * Safe to call on every reconnect: subscriptions that already exist are left as they are.
+ */
+export async function registerStoreWebhooks(shopDomain: string, accessToken: string): Promise<void> {
+  const callbackUrl = `${APP_URL}${SHOPIFY_WEBHOOKS.CALLBACK_PATH}`;
+  const failures: string[] = [];
+
+  for (const topic of SHOPIFY_WEBHOOKS.TOPICS) {
+    const { data } = await shopifyGraphQL(shopDomain, accessToken, WEBHOOK_SUBSCRIPTION_CREATE, {
+      topic,
+      webhookSubscription: { callbackUrl, format: 'JSON' }
+    });
+
+    const errors = (data.webhookSubscriptionCreate?.userErrors || [])
+      .filter((error: any) => !/already been taken/i.test(error.message));
+    if (errors.length > 0) {
+      failures.push(`${topic}: ${errors.map((error: any) => error.message).join(', ')}`);
+    }
+  }
+
+  if (failures.length > 0) {
+    throw new Error(`Failed to register webhooks: ${failures.join('; ')}`);
+  }
 }
 
 /**
@@ -469,7 +635,7 @@ export async function fetchStoreProducts(shopDomain: string, accessToken: string
   const response = await fetch(graphqlUrl, {
     method: 'POST',
     headers: {
-      'X-Shopify-Access-Token': accessToken,
+      'X-Shopify-Access-Token': revealCredential(accessToken),
       'Content-Type': 'application/json',
     },
     body: JSON.stringify({
@@ -527,8 +693,6 @@ export async function fetchStoreProducts(shopDomain: string, accessToken: string
  * Update a product using new GraphQL API (2024-04+ compliant)
  */
 export async function updateProduct(shopDomain: string, accessToken: string, productId: string, updateData: any) {
-  const graphqlUrl = `https://${shopDomain}/admin/api/2024-04/graphql.json`;
-  
   // Convert numeric ID to GID format
   const gid = `gid://shopify/Product/${productId}`;
   
@@ -536,7 +700,10 @@ export async function updateProduct(shopDomain: string, accessToken: string, pro
   let mutation = '';
   let variables: any = { id: gid };
   
-  if (updateData.title) {
+  // Tags arrive as a comma-separated string; an empty string clears them
+  const parseTags = (tags: string) => tags.split(',').map(tag => tag.trim()).filter(Boolean);
+
+  if (updateData.title || updateData.body_html !== undefined) {
     mutation = `
       mutation productUpdate($input: ProductInput!) {
         productUpdate(input: $input) {
@@ -559,7 +726,7 @@ export async function updateProduct(shopDomain: string, accessToken: string, pro
         id: gid,
         title: updateData.title,
         descriptionHtml: updateData.body_html,
-        tags: updateData.tags ? updateData.tags.split(',') : undefined
+        tags: updateData.tags !== undefined ? parseTags(updateData.tags) : undefined
       }
     };
   } else if (updateData.variants && updateData.variants.length > 0) {
@@ -588,7 +755,7 @@ export async function updateProduct(shopDomain: string, accessToken: string, pro
         compareAtPrice: updateData.variants[0].compare_at_price
       }]
     };
-  } else if (updateData.tags) {
+  } else if (updateData.tags !== undefined) {
     // Update tags only
     mutation = `
       mutation productUpdate($input: ProductInput!) {
@@ -607,38 +774,19 @@ export async function updateProduct(shopDomain: string, accessToken: string, pro
     variables = {
       input: {
         id: gid,
-        tags: updateData.tags.split(',')
+        tags: parseTags(updateData.tags)
       }
     };
   }
 
-  const response = await fetch(graphqlUrl, {
-    method: 'POST',
-    headers: {
-      'X-Shopify-Access-Token': accessToken,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      query: mutation,
-      variables
-    })
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to update product: ${response.statusText}`);
-  }
-
-  const data = await response.json();
-  
-  if (data.errors) {
-    throw new Error(`GraphQL errors: ${JSON.stringify(data.errors)}`);
-  }
+  // Goes through shopifyGraphQL so bulk runs wait out Shopify's throttling instead of failing
+  const { data } = await shopifyGraphQL(shopDomain, accessToken, mutation, variables);
 
   // Check for user errors in the mutation response
-  const mutationData = data.data.productUpdate || data.data.productVariantsBulkUpdate;
+  const mutationData = data.productUpdate || data.productVariantsBulkUpdate;
   if (mutationData?.userErrors && mutationData.userErrors.length > 0) {
     throw new Error(`Shopify API errors: ${JSON.stringify(mutationData.userErrors)}`);
   }
 
-  return data;
+  return { data };
 }
\ No newline at end of file
@@ -0,0 +1,346 @@
+import { storage } from "../storage";
+import { SHOPIFY_SYNC } from "@shared/constants";
+import { logInfo, logWarning } from "@shared/errorHandler";
+import type { UserStore, MirroredShopifyProduct, MirroredShopifyProductInput } from "@shared/schema";
+import { shopifyGraphQL, getThrottleDelay, type ShopifyQueryCost } from "./shopifyIntegration";
+import { getPlatformAdapter, canSyncProducts, notConnectedMessage } from "./storePlatforms";
+
+export interface ProductSyncResult {
+  mode: 'full' | 'incremental';
+  synced: number;
+  removed: number;
+}
+
+const VARIANT_FIELDS = `id title price compareAtPrice sku inventoryQuantity`;
+const IMAGE_FIELDS = `id url altText`;
+
+const PRODUCT_FIELDS = `
+  id
+  title
+  handle
+  descriptionHtml
+  productType
+  vendor
+  tags
+  status
+  createdAt
+  updatedAt
+  seo {
+    title
+    description
+  }
+  images(first: ${SHOPIFY_SYNC.IMAGES_PER_PAGE}) {
+    edges { node { ${IMAGE_FIELDS} } }
+    pageInfo { hasNextPage endCursor }
+  }
+  variants(first: ${SHOPIFY_SYNC.VARIANTS_PER_PAGE}) {
+    edges { node { ${VARIANT_FIELDS} } }
+    pageInfo { hasNextPage endCursor }
+  }
+`;
+
+const PRODUCTS_QUERY = `
+  query syncProducts($first: Int!, $after: String, $query: String) {
+    products(first: $first, after: $after, query: $query, sortKey: UPDATED_AT) {
+      edges { node { ${PRODUCT_FIELDS} } }
+      pageInfo { hasNextPage endCursor }
+    }
+  }
+`;
+
+const PRODUCT_QUERY = `
+  query syncProduct($id: ID!) {
+    product(id: $id) { ${PRODUCT_FIELDS} }
+  }
+`;
+
+const CHILD_QUERIES = {
+  variants: `
+    query productVariants($id: ID!, $first: Int!, $after: String) {
+      product(id: $id) {
+        variants(first: $first, after: $after) {
+          edges { node { ${VARIANT_FIELDS} } }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    }
+  `,
+  images: `
+    query productImages($id: ID!, $first: Int!, $after: String) {
+      product(id: $id) {
+        images(first: $first, after: $after) {
+          edges { node { ${IMAGE_FIELDS} } }
+          pageInfo { hasNextPage endCursor }
+        }
+      }
+    }
+  `,
+} as const;
+
+// One sync per store at a time; concurrent callers share the running promise
+const activeSyncs = new Map<number, Promise<ProductSyncResult>>();
+
+const gidToId = (gid: string) => gid.split('/').pop()!;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Waits before the next request if the bucket can't cover another query of the same cost
+ */
+async function paceRequests(cost: ShopifyQueryCost | undefined): Promise<void> {
+  const delay = getThrottleDelay(cost, cost?.requestedQueryCost || 0);
+  if (delay > 0) {
+    logInfo('Shopify Sync', `Throttle budget low, waiting ${delay}ms`);
+    await sleep(delay);
+  }
+}
+
+/**
+ * Pages through the remainder of a product's variants or images once the first page was truncated
+ */
+async function fetchRemainingChildren(
+  store: UserStore,
+  productGid: string,
+  connection: keyof typeof CHILD_QUERIES,
+  after: string
+): Promise<any[]> {
+  const nodes: any[] = [];
+  let cursor: string | null = after;
+
+  while (cursor) {
+    const { data, cost } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, CHILD_QUERIES[connection], {
+      id: productGid,
+      first: SHOPIFY_SYNC.CHILD_PAGE_SIZE,
+      after: cursor,
+    });
+    const page = data.product?.[connection];
+    if (!page) break;
+
+    nodes.push(...page.edges.map((edge: any) => edge.node));
+    cursor = page.pageInfo.hasNextPage ? page.pageInfo.endCursor : null;
+    await paceRequests(cost);
+  }
+
+  return nodes;
+}
+
+/**
+ * Converts a GraphQL product node into mirror rows, fetching any truncated variants/images
+ */
+async function toMirrorInput(store: UserStore, node: any): Promise<MirroredShopifyProductInput> {
+  const variantNodes = node.variants.edges.map((edge: any) => edge.node);
+  if (node.variants.pageInfo.hasNextPage) {
+    variantNodes.push(...await fetchRemainingChildren(store, node.id, 'variants', node.variants.pageInfo.endCursor));
+  }
+
+  const imageNodes = node.images.edges.map((edge: any) => edge.node);
+  if (node.images.pageInfo.hasNextPage) {
+    imageNodes.push(...await fetchRemainingChildren(store, node.id, 'images', node.images.pageInfo.endCursor));
+  }
+
+  return {
+    shopifyProductId: gidToId(node.id),
+    title: node.title,
+    handle: node.handle,
+    descriptionHtml: node.descriptionHtml,
+    productType: node.productType,
+    vendor: node.vendor,
+    tags: node.tags || [],
+    status: String(node.status).toLowerCase(),
+    seoTitle: node.seo?.title || null,
+    seoDescription: node.seo?.description || null,
+    shopifyCreatedAt: node.createdAt ? new Date(node.createdAt) : null,
+    shopifyUpdatedAt: node.updatedAt ? new Date(node.updatedAt) : null,
+    variants: variantNodes.map((variant: any, position: number) => ({
+      shopifyVariantId: gidToId(variant.id),
+      title: variant.title,
+      price: variant.price,
+      compareAtPrice: variant.compareAtPrice,
+      sku: variant.sku,
+      inventoryQuantity: variant.inventoryQuantity,
+      position,
+    })),
+    images: imageNodes.map((image: any, position: number) => ({
+      shopifyImageId: gidToId(image.id),
+      src: image.url,
+      altText: image.altText,
+      position,
+    })),
+  };
+}
+
+/**
+ * Converts a mirrored product to the REST-style shape returned by fetchStoreProducts,
+ * so existing consumers work unchanged
+ */
+export function toRestProduct(product: MirroredShopifyProduct) {
+  return {
+    id: product.shopifyProductId,
+    title: product.title,
+    handle: product.handle,
+    body_html: product.descriptionHtml,
+    product_type: product.productType,
+    vendor: product.vendor,
+    tags: product.tags.join(','),
+    status: product.status,
+    created_at: product.shopifyCreatedAt?.toISOString() || null,
+    updated_at: product.shopifyUpdatedAt?.toISOString() || null,
+    images: product.images.map(image => ({
+      id: image.shopifyImageId,
+      src: image.src,
+      alt: image.altText
+    })),
+    variants: product.variants.map(variant => ({
+      id: variant.shopifyVariantId,
+      title: variant.title,
+      price: variant.price,
+      compare_at_price: variant.compareAtPrice,
+      sku: variant.sku,
+      inventory_quantity: variant.inventoryQuantity,
+      weight: null,
+      weight_unit: null
+    })),
+    seo: {
+      title: product.seoTitle,
+      description: product.seoDescription
+    }
+  };
+}
+
+/**
+ * Mirrors a connected Shopify store's products, walking the whole catalog or only recently updated products
+ */
+export async function runShopifySync(store: UserStore, full: boolean): Promise<ProductSyncResult> {
+  const startedAt = new Date();
+  const mode = full ? 'full' : 'incremental';
+  const query = full
+    ? null
+    : `updated_at:>'${new Date(store.productsSyncedAt!.getTime() - SHOPIFY_SYNC.UPDATED_AT_OVERLAP_MS).toISOString()}'`;
+
+  await storage.updateUserStore(store.id, { productSyncStatus: 'syncing', productSyncError: null });
+  logInfo('Shopify Sync', `Starting ${mode} product sync for store ${store.id}`);
+
+  try {
+    let synced = 0;
+    let cursor: string | null = null;
+
+    do {
+      const { data, cost } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, PRODUCTS_QUERY, {
+        first: SHOPIFY_SYNC.PAGE_SIZE,
+        after: cursor,
+        query,
+      });
+
+      const batch: MirroredShopifyProductInput[] = [];
+      for (const edge of data.products.edges) {
+        batch.push(await toMirrorInput(store, edge.node));
+      }
+      await storage.upsertShopifyProducts(store.id, batch, startedAt);
+      synced += batch.length;
+
+      cursor = data.products.pageInfo.hasNextPage ? data.products.pageInfo.endCursor : null;
+      await paceRequests(cost);
+    } while (cursor);
+
+    // Only a full walk proves a product is gone; incremental syncs never see deletions
+    const removed = full ? await storage.deleteStaleShopifyProducts(store.id, startedAt) : 0;
+
+    await storage.updateUserStore(store.id, {
+      productSyncStatus: 'idle',
+      productSyncError: null,
+      productsSyncedAt: startedAt,
+      lastSyncAt: new Date(),
+    });
+
+    logInfo('Shopify Sync', `Finished ${mode} sync for store ${store.id}`, { synced, removed });
+    return { mode, synced, removed };
+  } catch (error: any) {
+    await storage.updateUserStore(store.id, {
+      productSyncStatus: 'error',
+      productSyncError: error.message || 'Product sync failed',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Syncs a connected Shopify, WooCommerce or eBay store's catalog into the local mirror.
+ * The first sync (or `full: true`) walks every product and prunes deleted ones;
+ * later syncs only fetch products updated since the last successful sync, where the platform allows it.
+ */
+export async function syncStoreProducts(store: UserStore, options: { full?: boolean } = {}): Promise<ProductSyncResult> {
+  if (!canSyncProducts(store)) {
+    throw new Error(notConnectedMessage(store));
+  }
+
+  const running = activeSyncs.get(store.id);
+  if (running) return running;
+
+  const full = !!options.full || !store.productsSyncedAt;
+  const sync = getPlatformAdapter(store.storeType).syncProducts(store, full).finally(() => activeSyncs.delete(store.id));
+  activeSyncs.set(store.id, sync);
+  return sync;
+}
+
+/**
+ * Starts a sync without waiting for it; failures are recorded on the store
+ */
+export function requestProductSync(store: UserStore, options: { full?: boolean } = {}): void {
+  syncStoreProducts(store, options).catch(error => {
+    logWarning('Shopify Sync', `Background sync failed for store ${store.id}`, error.message);
+  });
+}
+
+export function isProductSyncRunning(storeId: number): boolean {
+  return activeSyncs.has(storeId);
+}
+
+/**
+ * Returns the store's full catalog from the mirror in REST-style shape.
+ * Waits for the initial sync if the store was never synced; a stale mirror is
+ * served as-is while an incremental sync refreshes it in the background.
+ */
+export async function getMirroredProducts(store: UserStore) {
+  if (!store.productsSyncedAt) {
+    await syncStoreProducts(store);
+  } else if (Date.now() - store.productsSyncedAt.getTime() > SHOPIFY_SYNC.STALE_AFTER_MS) {
+    requestProductSync(store);
+  }
+
+  const products = await storage.getShopifyProducts(store.id);
+  return products.map(toRestProduct);
+}
+
+/**
+ * Re-reads one Shopify product into the mirror and returns it in the REST-style shape,
+ * or null when the product no longer exists
+ */
+export async function fetchShopifyProduct(store: UserStore, productId: string) {
+  const { data } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, PRODUCT_QUERY, {
+    id: `gid://shopify/Product/${productId}`,
+  });
+  if (!data.product) return null;
+
+  await storage.upsertShopifyProducts(store.id, [await toMirrorInput(store, data.product)], new Date());
+  const mirrored = await storage.getShopifyProduct(store.id, productId);
+  return mirrored ? toRestProduct(mirrored) : null;
+}
+
+/**
+ * Re-reads one product from its platform into the mirror, e.g. right after the app edited it
+ */
+export async function refreshMirroredProduct(store: UserStore, productId: string) {
+  const product = await getPlatformAdapter(store.storeType).getProduct(store, productId);
+  if (!product) {
+    throw new Error(`Product not found: ${productId}`);
+  }
+  return product;
+}
+
+/**
+ * Returns one product from the mirror, reading it through from Shopify if it isn't mirrored yet
+ */
+export async function getMirroredProduct(store: UserStore, productId: string) {
+  const mirrored = await storage.getShopifyProduct(store.id, productId);
+  return mirrored ? toRestProduct(mirrored) : await refreshMirroredProduct(store, productId);
+}
@@ -0,0 +1,255 @@
+import { storage } from "../storage";
+import { logInfo } from "@shared/errorHandler";
+import type { SeoChange, SeoOperation, UserStore } from "@shared/schema";
+import { shopifyGraphQL } from "./shopifyIntegration";
+import { refreshMirroredProduct } from "./shopifyProductSync";
+
+export interface SeoApplyResult {
+  changes: SeoChange[];
+  failed: Array<{ operation: SeoOperation; error: string }>;
+}
+
+type ProductOperation = Extract<SeoOperation, { resource: 'product' }>;
+type CollectionOperation = Extract<SeoOperation, { resource: 'collection' }>;
+type ImageOperation = Extract<SeoOperation, { resource: 'image' }>;
+type ShopOperation = Extract<SeoOperation, { resource: 'shop' }>;
+
+// Products and collections are shown to the AI so its operations can reference real ids
+const CONTEXT_PRODUCT_LIMIT = 25;
+const CONTEXT_COLLECTION_LIMIT = 20;
+const CONTEXT_IMAGES_PER_PRODUCT = 3;
+
+const gidToId = (gid: string) => gid.split('/').pop()!;
+
+function throwOnUserErrors(result: any): void {
+  if (result?.userErrors?.length > 0) {
+    throw new Error(`Shopify API errors: ${JSON.stringify(result.userErrors)}`);
+  }
+}
+
+async function runGraphQL(store: UserStore, query: string, variables: Record<string, any>): Promise<any> {
+  const { data } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, query, variables);
+  return data;
+}
+
+/**
+ * Shared logic for products and collections: both have seo { title description } and a
+ * handle, and both can leave a redirect behind when the handle changes
+ */
+async function applyHandleResourceOperations(
+  store: UserStore,
+  resource: 'product' | 'collection',
+  id: string,
+  operations: Array<ProductOperation | CollectionOperation>
+): Promise<SeoChange[]> {
+  const gid = `gid://shopify/${resource === 'product' ? 'Product' : 'Collection'}/${id}`;
+  const current = (await runGraphQL(store, `
+    query seoResource($id: ID!) {
+      ${resource}(id: $id) { title handle seo { title description } }
+    }
+  `, { id: gid }))[resource];
+  if (!current) {
+    throw new Error(`${resource === 'product' ? 'Product' : 'Collection'} not found: ${id}`);
+  }
+
+  const seo = { title: current.seo?.title ?? null, description: current.seo?.description ?? null };
+  const input: any = { id: gid };
+  const changes: SeoChange[] = [];
+  const pathPrefix = resource === 'product' ? '/products' : '/collections';
+
+  for (const operation of operations) {
+    const change: SeoChange = { resource, id, title: current.title, field: operation.field, before: null, after: operation.value };
+    if (operation.field === 'seo_title') {
+      change.before = seo.title;
+      seo.title = operation.value;
+    } else if (operation.field === 'seo_description') {
+      change.before = seo.description;
+      seo.description = operation.value;
+    } else {
+      change.before = current.handle;
+      input.handle = operation.value;
+      input.redirectNewHandle = true;
+      change.redirect = { from: `${pathPrefix}/${current.handle}`, to: `${pathPrefix}/${operation.value}` };
+    }
+    if (change.before !== change.after) {
+      changes.push(change);
+    }
+  }
+  if (changes.length === 0) return [];
+
+  // SEO is sent whole so setting one field never clears the other
+  input.seo = seo;
+  const mutation = resource === 'product' ? 'productUpdate' : 'collectionUpdate';
+  const data = await runGraphQL(store, `
+    mutation seoUpdate($input: ${resource === 'product' ? 'ProductInput' : 'CollectionInput'}!) {
+      ${mutation}(input: $input) {
+        ${resource} { id }
+        userErrors { field message }
+      }
+    }
+  `, { input });
+  throwOnUserErrors(data[mutation]);
+
+  return changes;
+}
+
+async function applyImageOperations(store: UserStore, productId: string, operations: ImageOperation[]): Promise<SeoChange[]> {
+  const productGid = `gid://shopify/Product/${productId}`;
+  const product = (await runGraphQL(store, `
+    query seoImages($id: ID!) {
+      product(id: $id) {
+        title
+        images(first: 250) { edges { node { id altText } } }
+      }
+    }
+  `, { id: productGid })).product;
+  if (!product) {
+    throw new Error(`Product not found: ${productId}`);
+  }
+
+  const images = new Map<string, string | null>(
+    product.images.edges.map((edge: any) => [gidToId(edge.node.id), edge.node.altText])
+  );
+
+  const changes: SeoChange[] = [];
+  for (const operation of operations) {
+    if (!images.has(operation.id)) {
+      throw new Error(`Image ${operation.id} not found on product ${productId}`);
+    }
+    const before = images.get(operation.id) ?? null;
+    if (before === operation.value) continue;
+
+    const data = await runGraphQL(store, `
+      mutation seoImageUpdate($productId: ID!, $image: ImageInput!) {
+        productImageUpdate(productId: $productId, image: $image) {
+          image { id }
+          userErrors { field message }
+        }
+      }
+    `, { productId: productGid, image: { id: `gid://shopify/ProductImage/${operation.id}`, altText: operation.value } });
+    throwOnUserErrors(data.productImageUpdate);
+
+    changes.push({ resource: 'image', id: operation.id, title: product.title, field: 'alt', before, after: operation.value });
+  }
+
+  return changes;
+}
+
+/**
+ * The home page meta description lives in the shop's global.description_tag metafield
+ */
+async function applyShopOperation(store: UserStore, operation: ShopOperation): Promise<SeoChange[]> {
+  const shop = (await runGraphQL(store, `
+    query seoShop {
+      shop {
+        id
+        name
+        description
+        metafield(namespace: "global", key: "description_tag") { value }
+      }
+    }
+  `, {})).shop;
+
+  const before = shop.metafield?.value ?? shop.description ?? null;
+  if (before === operation.value) return [];
+
+  const data = await runGraphQL(store, `
+    mutation seoShopDescription($metafields: [MetafieldsSetInput!]!) {
+      metafieldsSet(metafields: $metafields) {
+        metafields { id }
+        userErrors { field message }
+      }
+    }
+  `, {
+    metafields: [{
+      ownerId: shop.id,
+      namespace: 'global',
+      key: 'description_tag',
+      type: 'single_line_text_field',
+      value: operation.value,
+    }],
+  });
+  throwOnUserErrors(data.metafieldsSet);
+
+  return [{ resource: 'shop', id: gidToId(shop.id), title: shop.name, field: 'meta_description', before, after: operation.value }];
+}
+
+/**
+ * Runs an SEO suggestion's operations against the store. Operations are grouped per
+ * resource so each product or collection is updated in one mutation; a failing resource
+ * is reported without stopping the others.
+ */
+export async function applySeoOperations(store: UserStore, operations: SeoOperation[]): Promise<SeoApplyResult> {
+  const groups = new Map<string, SeoOperation[]>();
+  for (const operation of operations) {
+    const key = operation.resource === 'shop' ? 'shop'
+      : operation.resource === 'image' ? `image:${operation.productId}`
+      : `${operation.resource}:${operation.id}`;
+    groups.set(key, [...(groups.get(key) || []), operation]);
+  }
+
+  const result: SeoApplyResult = { changes: [], failed: [] };
+  const touchedProducts = new Set<string>();
+
+  for (const [key, group] of Array.from(groups.entries())) {
+    const first = group[0];
+    try {
+      let changes: SeoChange[];
+      if (first.resource === 'shop') {
+        changes = await applyShopOperation(store, first);
+      } else if (first.resource === 'image') {
+        changes = await applyImageOperations(store, first.productId, group as ImageOperation[]);
+        touchedProducts.add(first.productId);
+      } else {
+        changes = await applyHandleResourceOperations(store, first.resource, first.id, group as Array<ProductOperation | CollectionOperation>);
+        if (first.resource === 'product') touchedProducts.add(first.id);
+      }
+      result.changes.push(...changes);
+    } catch (error: any) {
+      console.error(`SEO update of ${key} failed for store ${store.id}:`, error);
+      result.failed.push(...group.map(operation => ({ operation, error: error.message || 'Update failed' })));
+    }
+  }
+
+  for (const productId of Array.from(touchedProducts)) {
+    try {
+      await refreshMirroredProduct(store, productId);
+    } catch (error) {
+      console.error(`Failed to refresh mirrored product ${productId}:`, error);
+    }
+  }
+
+  logInfo('Shopify SEO', `Applied ${result.changes.length} SEO changes to store ${store.id}`, { failed: result.failed.length });
+  return result;
+}
+
+/**
+ * Summarizes the store's products, collections and images with their ids and current SEO,
+ * so generated suggestions can name concrete resources to change
+ */
+export async function getSeoContext(store: UserStore): Promise<string> {
+  const products = (await storage.getShopifyProducts(store.id)).slice(0, CONTEXT_PRODUCT_LIMIT);
+  const { collections } = await runGraphQL(store, `
+    query seoCollections($first: Int!) {
+      collections(first: $first) { edges { node { id title handle seo { title description } } } }
+    }
+  `, { first: CONTEXT_COLLECTION_LIMIT });
+
+  return JSON.stringify({
+    products: products.map(product => ({
+      id: product.shopifyProductId,
+      title: product.title,
+      handle: product.handle,
+      seoTitle: product.seoTitle,
+      seoDescription: product.seoDescription,
+      images: product.images.slice(0, CONTEXT_IMAGES_PER_PRODUCT).map(image => ({ id: image.shopifyImageId, alt: image.altText })),
+    })),
+    collections: collections.edges.map((edge: any) => ({
+      id: gidToId(edge.node.id),
+      title: edge.node.title,
+      handle: edge.node.handle,
+      seoTitle: edge.node.seo?.title ?? null,
+      seoDescription: edge.node.seo?.description ?? null,
+    })),
+  });
+}
@@ -0,0 +1,328 @@
+import { storage } from "../storage";
+import { THEME_CUSTOMIZATION } from "@shared/constants";
+import { logInfo, HttpError } from "@shared/errorHandler";
+import type { ApplyDesignRequest, ThemePreview, UserStore } from "@shared/schema";
+import { shopifyGraphQL } from "./shopifyIntegration";
+import { revealCredential } from "./credentialVault";
+
+// A theme operation that can't go ahead
+export class ThemeCustomizationError extends HttpError {}
+
+type DesignChanges = ApplyDesignRequest['changes'];
+type ThemeSettingsChanges = NonNullable<DesignChanges['themeSettings']>;
+
+// settings_data.json keys used by common themes for each color role, Dawn-era names first
+const COLOR_SETTING_KEYS: Record<string, string[]> = {
+  primary: ['colors_accent_1', 'color_primary', 'colors_primary', 'color_button'],
+  secondary: ['colors_accent_2', 'color_secondary', 'colors_secondary'],
+  accent: ['color_accent', 'colors_accent', 'accent_color'],
+  background: ['colors_background_1', 'color_background', 'color_body_bg'],
+  text: ['colors_text', 'color_text', 'color_body_text'],
+};
+
+// Themes with color schemes (Dawn 10+) keep colors per scheme instead
+const SCHEME_SETTING_KEYS: Record<string, string> = {
+  primary: 'button',
+  background: 'background',
+  text: 'text',
+};
+
+const FONT_SETTING_KEYS: Record<string, string[]> = {
+  heading: ['type_header_font', 'type_heading_font', 'heading_font'],
+  body: ['type_body_font', 'body_font'],
+};
+
+const HEX_COLOR = /^#(?:[0-9a-f]{3}|[0-9a-f]{6})$/i;
+// Shopify font library handles, e.g. assistant_n4 or playfair_display_i7
+const FONT_HANDLE = /^[a-z0-9_]+_[nio][1-9]$/;
+
+const STYLESHEET_TAG = `{{ '${THEME_CUSTOMIZATION.CUSTOM_CSS_ASSET.replace('assets/', '')}' | asset_url | stylesheet_tag }}`;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Admin REST request for the theme and asset endpoints, which have no GraphQL equivalent
+ * in the API version the rest of the app uses
+ */
+async function themeRequest(store: UserStore, method: string, path: string, body?: any): Promise<any> {
+  const url = `https://${store.shopifyDomain}/admin/api/${THEME_CUSTOMIZATION.API_VERSION}/${path}`;
+
+  for (let attempt = 0; ; attempt++) {
+    const response = await fetch(url, {
+      method,
+      headers: {
+        'X-Shopify-Access-Token': revealCredential(store.shopifyAccessToken!),
+        'Content-Type': 'application/json',
+      },
+      body: body ? JSON.stringify(body) : undefined,
+    });
+
+    if (response.status === 429 && attempt < 5) {
+      await sleep(parseFloat(response.headers.get('Retry-After') || '2') * 1000);
+      continue;
+    }
+
+    if (response.status === 403) {
+      throw new ThemeCustomizationError('Insufficient permissions: reconnect your store to grant theme access', 403);
+    }
+
+    if (!response.ok) {
+      const error: any = new Error(`Shopify theme request failed: ${response.status} ${await response.text()}`);
+      error.status = response.status;
+      throw error;
+    }
+
+    return response.status === 204 ? null : await response.json();
+  }
+}
+
+export async function getMainTheme(store: UserStore): Promise<{ id: number; name: string }> {
+  const { themes } = await themeRequest(store, 'GET', 'themes.json?role=main');
+  if (!themes?.length) {
+    throw new ThemeCustomizationError('No published theme found', 404);
+  }
+  return themes[0];
+}
+
+async function duplicateTheme(store: UserStore, themeId: number, name: string): Promise<string> {
+  const { data } = await shopifyGraphQL(store.shopifyDomain!, store.shopifyAccessToken!, `
+    mutation themeDuplicate($id: ID!, $name: String) {
+      themeDuplicate(id: $id, name: $name) {
+        newTheme { id }
+        userErrors { field message }
+      }
+    }
+  `, { id: `gid://shopify/OnlineStoreTheme/${themeId}`, name }, THEME_CUSTOMIZATION.API_VERSION);
+
+  const result = data.themeDuplicate;
+  if (result.userErrors?.length > 0) {
+    throw new Error(`Shopify API errors: ${JSON.stringify(result.userErrors)}`);
+  }
+  return result.newTheme.id.split('/').pop();
+}
+
+/**
+ * Assets can't be written until Shopify has finished copying the theme
+ */
+async function waitForThemeProcessing(store: UserStore, themeId: string): Promise<void> {
+  const deadline = Date.now() + THEME_CUSTOMIZATION.PROCESSING_TIMEOUT_MS;
+
+  while (true) {
+    const { theme } = await themeRequest(store, 'GET', `themes/${themeId}.json`);
+    if (theme.processing_failed) {
+      throw new Error('Shopify failed to copy the theme');
+    }
+    if (!theme.processing) return;
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for Shopify to copy the theme');
+    }
+    await sleep(THEME_CUSTOMIZATION.PROCESSING_POLL_MS);
+  }
+}
+
+export async function getAsset(store: UserStore, themeId: string, key: string): Promise<string | null> {
+  try {
+    const { asset } = await themeRequest(store, 'GET', `themes/${themeId}/assets.json?asset[key]=${encodeURIComponent(key)}`);
+    return asset?.value ?? null;
+  } catch (error: any) {
+    if (error.status === 404) return null;
+    throw error;
+  }
+}
+
+export async function putAsset(store: UserStore, themeId: string, key: string, value: string): Promise<void> {
+  await themeRequest(store, 'PUT', `themes/${themeId}/assets.json`, { asset: { key, value } });
+}
+
+export async function deleteAsset(store: UserStore, themeId: string, key: string): Promise<void> {
+  try {
+    await themeRequest(store, 'DELETE', `themes/${themeId}/assets.json?asset[key]=${encodeURIComponent(key)}`);
+  } catch (error: any) {
+    if (error.status !== 404) throw error;
+  }
+}
+
+/**
+ * The AI sometimes describes the change in prose instead of giving CSS; only real rules are written
+ */
+function extractCss(cssChanges: string | undefined): string | null {
+  const css = cssChanges?.replace(/```(?:css)?/g, '').trim();
+  return css && /[^{}]+\{[^{}]*:[^{}]*\}/.test(css) ? css : null;
+}
+
+/**
+ * Writes the recommended colors and fonts into settings_data.json's current settings.
+ * Only keys the theme already defines are touched, and only with values Shopify will accept.
+ * Returns the keys that changed.
+ */
+function applyThemeSettings(settingsData: any, changes: ThemeSettingsChanges): string[] {
+  // A string means the theme still uses a preset; copy it so it can be edited
+  if (typeof settingsData.current === 'string') {
+    settingsData.current = { ...(settingsData.presets?.[settingsData.current] || {}) };
+  }
+  const current = settingsData.current || (settingsData.current = {});
+  const changed: string[] = [];
+
+  for (const [role, value] of Object.entries(changes.colors || {})) {
+    if (!HEX_COLOR.test(value)) continue;
+
+    const key = COLOR_SETTING_KEYS[role]?.find(candidate => candidate in current);
+    if (key) {
+      current[key] = value;
+      changed.push(key);
+    }
+
+    const schemeKey = SCHEME_SETTING_KEYS[role];
+    const schemes = current.color_schemes;
+    const firstScheme = schemes && Object.keys(schemes)[0];
+    if (schemeKey && firstScheme && schemes[firstScheme].settings && schemeKey in schemes[firstScheme].settings) {
+      schemes[firstScheme].settings[schemeKey] = value;
+      changed.push(`color_schemes.${firstScheme}.${schemeKey}`);
+    }
+  }
+
+  for (const [role, value] of Object.entries(changes.typography || {})) {
+    if (!FONT_HANDLE.test(value)) continue;
+
+    const key = FONT_SETTING_KEYS[role]?.find(candidate => candidate in current);
+    if (key) {
+      current[key] = value;
+      changed.push(key);
+    }
+  }
+
+  return changed;
+}
+
+function parseSettingsData(raw: string): any {
+  // Shopify prefixes the file with a /* ... */ notice, which JSON.parse rejects
+  return JSON.parse(raw.replace(/^\s*\/\*[\s\S]*?\*\//, ''));
+}
+
+async function deleteTheme(store: UserStore, themeId: string): Promise<void> {
+  try {
+    await themeRequest(store, 'DELETE', `themes/${themeId}.json`);
+  } catch (error: any) {
+    if (error.status !== 404) throw error;
+  }
+}
+
+export function getPreviewUrl(store: UserStore, preview: ThemePreview): string | null {
+  return preview.previewThemeId ? `https://${store.shopifyDomain}/?preview_theme_id=${preview.previewThemeId}` : null;
+}
+
+/**
+ * Copies the live theme and applies a design suggestion to the copy: CSS goes into a
+ * custom asset linked from the layout, colors and fonts into settings_data.json.
+ * The copy stays unpublished so the merchant can preview it, then publish or discard it.
+ */
+export async function createDesignPreview(
+  store: UserStore,
+  userId: number,
+  suggestionId: string,
+  changes: DesignChanges
+): Promise<ThemePreview> {
+  if (!store.shopifyAccessToken || !store.shopifyDomain) {
+    throw new ThemeCustomizationError('Store not connected to Shopify');
+  }
+  if (!store.shopifyScope?.includes('write_themes')) {
+    throw new ThemeCustomizationError('Insufficient permissions: reconnect your store to grant theme access', 403);
+  }
+
+  const css = extractCss(changes.cssChanges);
+  const hasSettings = Object.keys(changes.themeSettings?.colors || {}).length > 0 ||
+    Object.keys(changes.themeSettings?.typography || {}).length > 0;
+  if (!css && !hasSettings) {
+    throw new ThemeCustomizationError('This suggestion has no CSS or theme settings that can be applied automatically', 422);
+  }
+
+  const mainTheme = await getMainTheme(store);
+  const preview = await storage.createThemePreview({
+    userId,
+    userStoreId: store.id,
+    suggestionId,
+    recommendation: changes.recommended,
+    sourceThemeId: String(mainTheme.id),
+    previewThemeName: `${THEME_CUSTOMIZATION.PREVIEW_NAME_PREFIX} - ${new Date().toISOString().slice(0, 10)}`,
+    cssChanges: css,
+  });
+
+  let previewThemeId: string | null = null;
+  try {
+    previewThemeId = await duplicateTheme(store, mainTheme.id, preview.previewThemeName);
+    await storage.updateThemePreview(preview.id, { previewThemeId });
+    await waitForThemeProcessing(store, previewThemeId);
+
+    if (css) {
+      // Keep CSS from earlier published previews, the live theme may already carry it
+      const existing = await getAsset(store, previewThemeId, THEME_CUSTOMIZATION.CUSTOM_CSS_ASSET);
+      const block = `/* StoreScore design suggestion ${suggestionId} */\n${css}\n`;
+      await putAsset(store, previewThemeId, THEME_CUSTOMIZATION.CUSTOM_CSS_ASSET, existing ? `${existing}\n${block}` : block);
+
+      const layout = await getAsset(store, previewThemeId, THEME_CUSTOMIZATION.LAYOUT_ASSET);
+      if (layout && !layout.includes(STYLESHEET_TAG)) {
+        await putAsset(store, previewThemeId, THEME_CUSTOMIZATION.LAYOUT_ASSET, layout.replace('</head>', `  ${STYLESHEET_TAG}\n</head>`));
+      }
+    }
+
+    let settingsChanged: string[] = [];
+    if (hasSettings) {
+      const raw = await getAsset(store, previewThemeId, THEME_CUSTOMIZATION.SETTINGS_ASSET);
+      if (raw) {
+        const settingsData = parseSettingsData(raw);
+        settingsChanged = applyThemeSettings(settingsData, changes.themeSettings!);
+        if (settingsChanged.length > 0) {
+          await putAsset(store, previewThemeId, THEME_CUSTOMIZATION.SETTINGS_ASSET, JSON.stringify(settingsData, null, 2));
+        }
+      }
+    }
+
+    if (!css && settingsChanged.length === 0) {
+      throw new ThemeCustomizationError("This theme doesn't expose the color or font settings this suggestion changes", 422);
+    }
+
+    const ready = await storage.updateThemePreview(preview.id, { status: 'preview', settingsChanged });
+    logInfo('Theme Customization', `Created preview theme ${previewThemeId} for store ${store.id}`, { suggestionId, settingsChanged });
+    return ready!;
+  } catch (error: any) {
+    await storage.updateThemePreview(preview.id, { status: 'failed', error: error.message || 'Theme customization failed' });
+    if (previewThemeId) {
+      // Don't leave a half-written copy in the merchant's theme library
+      await deleteTheme(store, previewThemeId).catch(cleanupError => {
+        console.error(`Failed to delete preview theme ${previewThemeId}:`, cleanupError);
+      });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Makes a preview theme the live theme. The previously live theme stays in the library,
+ * so the merchant can switch back from the Shopify admin.
+ */
+export async function publishThemePreview(store: UserStore, preview: ThemePreview): Promise<ThemePreview> {
+  if (preview.status !== 'preview' || !preview.previewThemeId) {
+    throw new ThemeCustomizationError(`Only previews can be published, this one is ${preview.status}`, 409);
+  }
+
+  await themeRequest(store, 'PUT', `themes/${preview.previewThemeId}.json`, {
+    theme: { id: Number(preview.previewThemeId), role: 'main' },
+  });
+
+  logInfo('Theme Customization', `Published preview theme ${preview.previewThemeId} for store ${store.id}`);
+  return (await storage.updateThemePreview(preview.id, { status: 'published', publishedAt: new Date() }))!;
+}
+
+/**
+ * Deletes an unpublished preview theme from the store
+ */
+export async function discardThemePreview(store: UserStore, preview: ThemePreview): Promise<ThemePreview> {
+  if (preview.status !== 'preview' || !preview.previewThemeId) {
+    throw new ThemeCustomizationError(`Only previews can be discarded, this one is ${preview.status}`, 409);
+  }
+
+  await deleteTheme(store, preview.previewThemeId);
+
+  logInfo('Theme Customization', `Discarded preview theme ${preview.previewThemeId} for store ${store.id}`);
+  return (await storage.updateThemePreview(preview.id, { status: 'discarded', discardedAt: new Date() }))!;
+}
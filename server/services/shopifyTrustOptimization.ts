@@ -1,246 +1,423 @@
 import fetch from 'node-fetch';
+import { storage } from "../storage";
+import { TRUST_OPTIMIZATION } from "@shared/constants";
+import { logInfo, HttpError } from "@shared/errorHandler";
+import type {
+  ApplyTrustRecommendationRequest,
+  TrustOptimizationChange,
+  TrustOptimizationType,
+  TrustResourceType,
+  UserStore
+} from "@shared/schema";
+import { revealCredential } from "./credentialVault";
+
+// A trust optimization operation that can't go ahead
+export class TrustOptimizationError extends HttpError {}
 
 interface TrustOptimizationResult {
   applied: boolean;
   message: string;
   shopifyChanges: string[];
+  changes: TrustOptimizationChange[];
 }
 
-interface TrustChanges {
-  current: string;
-  recommended: string;
-  implementation: string;
+type TrustChanges = ApplyTrustRecommendationRequest['changes'];
+
+interface TrustContext {
+  store: UserStore;
+  userId: number;
+  suggestionId: string;
+  trustType: TrustOptimizationType;
+  changes: TrustChanges;
+  baseUrl: string;
+  headers: Record<string, string>;
+  appliedChanges: string[];
+  recorded: TrustOptimizationChange[];
 }
 
+interface ShopifyPage {
+  id: number;
+  title: string;
+  handle: string;
+  body_html: string | null;
+}
+
+function createContext(store: UserStore): Pick<TrustContext, 'baseUrl' | 'headers'> {
+  if (!store.shopifyAccessToken || !store.shopifyDomain) {
+    throw new TrustOptimizationError('Store not connected to Shopify');
+  }
+  return {
+    baseUrl: `https://${store.shopifyDomain}/admin/api/${TRUST_OPTIMIZATION.API_VERSION}`,
+    headers: {
+      'X-Shopify-Access-Token': revealCredential(store.shopifyAccessToken),
+      'Content-Type': 'application/json',
+    },
+  };
+}
+
+/**
+ * Calls the Shopify Admin REST API, returning null when the resource no longer exists
+ */
+async function shopifyRequest(ctx: Pick<TrustContext, 'baseUrl' | 'headers'>, method: string, path: string, body?: unknown): Promise<any | null> {
+  const response = await fetch(`${ctx.baseUrl}${path}`, {
+    method,
+    headers: ctx.headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Shopify ${method} ${path} failed (${response.status}): ${await response.text()}`);
+  }
+  return method === 'DELETE' ? {} : await response.json();
+}
+
+// Everything we insert sits between a start and an end comment named after the trust type
+const markerFor = (trustType: TrustOptimizationType) => `${TRUST_OPTIMIZATION.MARKER_PREFIX}:${trustType}`;
+const startTag = (marker: string) => `<!-- ${marker} -->`;
+const endTag = (marker: string) => `<!-- /${marker} -->`;
+
+function findBlock(body: string, marker: string): { from: number; to: number } | null {
+  const from = body.indexOf(startTag(marker));
+  const end = from === -1 ? -1 : body.indexOf(endTag(marker), from);
+  return end === -1 ? null : { from, to: end + endTag(marker).length };
+}
+
+/**
+ * Replaces the marked block where it is, or appends it when the body doesn't have one yet
+ */
+function upsertBlock(body: string, marker: string, html: string): string {
+  const block = `${startTag(marker)}\n${html.trim()}\n${endTag(marker)}`;
+  const existing = findBlock(body, marker);
+  if (existing) {
+    return body.slice(0, existing.from) + block + body.slice(existing.to);
+  }
+  return body ? `${body}\n${block}` : block;
+}
+
+/**
+ * Removes the marked block and the line break upsertBlock put in front of it
+ */
+function stripBlock(body: string, marker: string): string {
+  const existing = findBlock(body, marker);
+  if (!existing) return body;
+  const before = body.slice(0, existing.from);
+  return (before.endsWith('\n') ? before.slice(0, -1) : before) + body.slice(existing.to);
+}
+
+/**
+ * Records the change, or refreshes the record when this resource already carries the block
+ */
+async function recordChange(
+  ctx: TrustContext,
+  resourceType: TrustResourceType,
+  resourceId: string,
+  resourceTitle: string,
+  createdResource: boolean
+): Promise<void> {
+  const existing = await storage.getAppliedTrustOptimizationChange(ctx.store.id, ctx.trustType, resourceType, resourceId);
+  const change = existing
+    ? await storage.updateTrustOptimizationChange(existing.id, { suggestionId: ctx.suggestionId, resourceTitle, updatedAt: new Date() })
+    : await storage.createTrustOptimizationChange({
+      userId: ctx.userId,
+      userStoreId: ctx.store.id,
+      suggestionId: ctx.suggestionId,
+      trustType: ctx.trustType,
+      resourceType,
+      resourceId,
+      resourceTitle,
+      marker: markerFor(ctx.trustType),
+      createdResource,
+    });
+  ctx.recorded.push(change!);
+}
+
+async function writeProductBlock(ctx: TrustContext, product: any, html: string): Promise<boolean> {
+  const currentDescription = product.body_html || '';
+  const existed = findBlock(currentDescription, markerFor(ctx.trustType)) !== null;
+
+  await shopifyRequest(ctx, 'PUT', `/products/${product.id}.json`, {
+    product: { id: product.id, body_html: upsertBlock(currentDescription, markerFor(ctx.trustType), html) },
+  });
+  await recordChange(ctx, 'product', String(product.id), product.title, false);
+  return existed;
+}
+
+async function writePageBlock(ctx: TrustContext, page: ShopifyPage, html: string, createdResource: boolean): Promise<boolean> {
+  const currentBody = page.body_html || '';
+  const existed = findBlock(currentBody, markerFor(ctx.trustType)) !== null;
+
+  await shopifyRequest(ctx, 'PUT', `/pages/${page.id}.json`, {
+    page: { id: page.id, body_html: upsertBlock(currentBody, markerFor(ctx.trustType), html) },
+  });
+  await recordChange(ctx, 'page', String(page.id), page.title, createdResource);
+  return existed;
+}
+
+/**
+ * Writes the content as its own page. The page from an earlier apply is updated in place;
+ * a page the store already has under the handle gets the content added to it instead.
+ */
+async function writeManagedPage(ctx: TrustContext, page: { title: string; handle: string }, html: string, label: string): Promise<void> {
+  const tracked = (await storage.getTrustOptimizationChanges(ctx.store.id, ctx.trustType))
+    .find(change => change.status === 'applied' && change.resourceType === 'page' && change.createdResource);
+
+  if (tracked) {
+    const existing = await shopifyRequest(ctx, 'GET', `/pages/${tracked.resourceId}.json`);
+    if (existing) {
+      await writePageBlock(ctx, existing.page, html, true);
+      ctx.appliedChanges.push(`Updated ${label}`);
+      return;
+    }
+    // Deleted in the Shopify admin since
+    await storage.updateTrustOptimizationChange(tracked.id, { status: 'removed', removedAt: new Date() });
+  }
+
+  const byHandle = await shopifyRequest(ctx, 'GET', `/pages.json?handle=${encodeURIComponent(page.handle)}`);
+  const storePage: ShopifyPage | undefined = byHandle?.pages?.[0];
+  if (storePage) {
+    const existed = await writePageBlock(ctx, storePage, html, false);
+    ctx.appliedChanges.push(`${existed ? 'Updated' : 'Added'} ${label} on existing "${storePage.title}" page`);
+    return;
+  }
+
+  const created = await shopifyRequest(ctx, 'POST', '/pages.json', {
+    page: {
+      title: page.title,
+      body_html: upsertBlock('', markerFor(ctx.trustType), html),
+      published: true,
+      handle: page.handle,
+    },
+  });
+  await recordChange(ctx, 'page', String(created.page.id), created.page.title, true);
+  ctx.appliedChanges.push(`Created ${label}`);
+}
+
+/**
+ * Adds the trust content for the suggestion's type to the store and records every resource it touched.
+ * Applying the same type again updates that content in place rather than adding it twice.
+ */
 export async function applyTrustOptimization(
-  shopifyDomain: string,
-  accessToken: string,
+  store: UserStore,
+  userId: number,
   suggestionId: string,
+  trustType: TrustOptimizationType,
   changes: TrustChanges
 ): Promise<TrustOptimizationResult> {
-  const baseUrl = `https://${shopifyDomain}/admin/api/2024-04`;
-  const headers = {
-    'X-Shopify-Access-Token': accessToken,
-    'Content-Type': 'application/json',
+  const ctx: TrustContext = {
+    ...createContext(store),
+    store,
+    userId,
+    suggestionId,
+    trustType,
+    changes,
+    appliedChanges: [],
+    recorded: [],
   };
 
-  console.log(`Starting trust optimization for ${shopifyDomain}, suggestion: ${suggestionId}`);
-  console.log(`Using API URL: ${baseUrl}`);
-
-  const appliedChanges: string[] = [];
-  let successCount = 0;
+  console.log(`Starting ${trustType} trust optimization for ${store.shopifyDomain}, suggestion: ${suggestionId}`);
 
   try {
-    // Determine optimization type based on suggestion ID and content
-    const optimizationType = determineOptimizationType(suggestionId, changes);
-    console.log(`Determined optimization type: ${optimizationType}`);
-
-    switch (optimizationType) {
+    switch (trustType) {
       case 'reviews':
-        await implementReviewSystem(baseUrl, headers, changes, appliedChanges);
-        successCount++;
+        await implementReviewSystem(ctx);
         break;
 
       case 'testimonials':
-        await implementTestimonials(baseUrl, headers, changes, appliedChanges);
-        successCount++;
+        await implementTestimonials(ctx);
         break;
 
       case 'badges':
-        await implementTrustBadges(baseUrl, headers, changes, appliedChanges);
-        successCount++;
+        await implementTrustBadges(ctx);
         break;
 
       case 'security':
-        await implementSecurityFeatures(baseUrl, headers, changes, appliedChanges);
-        successCount++;
+        await implementSecurityFeatures(ctx);
         break;
 
       case 'guarantees':
-        await implementGuarantees(baseUrl, headers, changes, appliedChanges);
-        successCount++;
+        await implementGuarantees(ctx);
         break;
 
       case 'contact':
-        await implementContactInfo(baseUrl, headers, changes, appliedChanges);
-        successCount++;
+        await implementContactInfo(ctx);
         break;
 
-      default:
+      case 'general':
         // General trust optimization - add trust-building pages/content
-        await implementGeneralTrust(baseUrl, headers, changes, appliedChanges);
-        successCount++;
+        await implementGeneralTrust(ctx);
         break;
     }
 
+    logInfo('Trust Optimization', `Applied ${trustType} to ${ctx.recorded.length} resources on store ${store.id}`);
     return {
-      applied: successCount > 0,
-      message: successCount > 0 ? 
-        `Trust optimization successfully applied to your Shopify store. ${appliedChanges.length} modifications made.` :
+      applied: ctx.appliedChanges.length > 0,
+      message: ctx.appliedChanges.length > 0 ?
+        `Trust optimization successfully applied to your Shopify store. ${ctx.appliedChanges.length} modifications made.` :
         "Trust optimization tracked but no direct Shopify modifications were possible for this recommendation type.",
-      shopifyChanges: appliedChanges
+      shopifyChanges: ctx.appliedChanges,
+      changes: ctx.recorded
     };
 
-  } catch (error) {
+  } catch (error: any) {
     console.error('Shopify trust optimization error:', error);
-    
+
     // Check if this is a permissions error
     if (error.message && error.message.includes('write_content')) {
       return {
         applied: false,
         message: "Shopify permissions insufficient. Please reconnect your store with content writing permissions to enable trust optimizations.",
-        shopifyChanges: []
+        shopifyChanges: ctx.appliedChanges,
+        changes: ctx.recorded
       };
     }
-    
+
     return {
       applied: false,
       message: "Failed to apply trust optimization to Shopify. Manual implementation required.",
-      shopifyChanges: []
+      shopifyChanges: ctx.appliedChanges,
+      changes: ctx.recorded
     };
   }
 }
 
-function determineOptimizationType(suggestionId: string, changes: TrustChanges): string {
-  const text = `${suggestionId} ${changes.recommended} ${changes.implementation}`.toLowerCase();
-  
-  if (text.includes('review') || text.includes('rating')) return 'reviews';
-  if (text.includes('testimonial') || text.includes('customer story')) return 'testimonials';
-  if (text.includes('badge') || text.includes('certificate') || text.includes('seal')) return 'badges';
-  if (text.includes('security') || text.includes('ssl') || text.includes('secure')) return 'security';
-  if (text.includes('guarantee') || text.includes('money back') || text.includes('refund')) return 'guarantees';
-  if (text.includes('contact') || text.includes('phone') || text.includes('address')) return 'contact';
-  
-  return 'general';
-}
+/**
+ * Strips the marked content of a trust type from every resource it was added to. Pages we
+ * created are deleted unless the merchant has since added their own content to them.
+ * Changes that fail stay applied so the removal can be retried.
+ */
+export async function removeTrustOptimization(
+  store: UserStore,
+  trustType: TrustOptimizationType
+): Promise<{ removed: TrustOptimizationChange[]; failed: TrustOptimizationChange[] }> {
+  const ctx = createContext(store);
+  const applied = (await storage.getTrustOptimizationChanges(store.id, trustType))
+    .filter(change => change.status === 'applied');
+  if (applied.length === 0) {
+    throw new TrustOptimizationError(`No ${trustType} trust optimization is applied to this store`, 404);
+  }
 
-async function implementReviewSystem(baseUrl: string, headers: any, changes: TrustChanges, appliedChanges: string[]) {
-  console.log('Starting comprehensive review system implementation...');
-  
-  try {
-    // 1. First, try to enhance product descriptions with review prompts
-    const productsResponse = await fetch(`${baseUrl}/products.json?limit=50`, {
-      method: 'GET',
-      headers
-    });
-    
-    if (productsResponse.ok) {
-      const productsData = await productsResponse.json();
-      const products = productsData.products || [];
-      
-      console.log(`Found ${products.length} products to enhance with review prompts`);
-      
-      // Enhance up to 5 products with review encouragement in descriptions
-      for (const product of products.slice(0, 5)) {
-        try {
-          // Check if the product description already contains review-related content
-          const currentDescription = product.body_html || '';
-          if (currentDescription.toLowerCase().includes('review') || currentDescription.toLowerCase().includes('rating')) {
-            continue; // Skip if already has review content
-          }
-          
-          const reviewPrompt = `
-            <div style="background: #f8f9fa; padding: 15px; border-radius: 8px; margin: 20px 0; border: 1px solid #dee2e6;">
-              <h4 style="color: #007bff; margin: 0 0 10px 0;">⭐ Customer Reviews</h4>
-              <p style="margin: 0 0 10px 0; font-size: 14px;">Join hundreds of satisfied customers who love this product!</p>
-              <p style="margin: 0; font-size: 12px; color: #666;"><strong>Purchased this item?</strong> Share your experience to help other shoppers make informed decisions.</p>
-            </div>
-          `;
-          
-          const updatedDescription = currentDescription + reviewPrompt;
-          
-          const updateData = {
-            product: {
-              id: product.id,
-              body_html: updatedDescription
-            }
-          };
-          
-          const updateResponse = await fetch(`${baseUrl}/products/${product.id}.json`, {
-            method: 'PUT',
-            headers,
-            body: JSON.stringify(updateData)
+  const removed: TrustOptimizationChange[] = [];
+  const failed: TrustOptimizationChange[] = [];
+  for (const change of applied) {
+    try {
+      const path = change.resourceType === 'product' ? `/products/${change.resourceId}.json` : `/pages/${change.resourceId}.json`;
+      const current = await shopifyRequest(ctx, 'GET', path);
+      const resource = current?.[change.resourceType];
+
+      // Already deleted in the Shopify admin, so there is nothing left to strip
+      if (resource) {
+        const body = resource.body_html || '';
+        const stripped = stripBlock(body, change.marker);
+        if (change.createdResource && !stripped.trim()) {
+          await shopifyRequest(ctx, 'DELETE', path);
+        } else if (stripped !== body) {
+          await shopifyRequest(ctx, 'PUT', path, {
+            [change.resourceType]: { id: resource.id, body_html: stripped },
           });
-          
-          if (updateResponse.ok) {
-            appliedChanges.push(`Added review prompt to product: ${product.title}`);
-            console.log(`Successfully added review prompt to product: ${product.title}`);
-          } else {
-            console.log(`Failed to update product ${product.title}: ${updateResponse.status}`);
-          }
-          
-          // Small delay to avoid rate limiting
-          await new Promise(resolve => setTimeout(resolve, 200));
-        } catch (error) {
-          console.error(`Error updating product ${product.title}:`, error);
         }
       }
+
+      removed.push((await storage.updateTrustOptimizationChange(change.id, { status: 'removed', removedAt: new Date() }))!);
+    } catch (error) {
+      console.error(`Failed to remove ${trustType} trust content from ${change.resourceType} ${change.resourceId}:`, error);
+      failed.push(change);
     }
-    
-    // 2. Try to enhance existing pages with review information
-    const pagesResponse = await fetch(`${baseUrl}/pages.json?limit=250`, {
-      method: 'GET',
-      headers
-    });
-    
-    if (pagesResponse.ok) {
-      const pagesData = await pagesResponse.json();
-      const pages = pagesData.pages || [];
-      
-      // Look for existing FAQ, About, or similar pages to enhance
-      const enhanceablePages = pages.filter((page: any) => 
-        page.title.toLowerCase().includes('faq') || 
-        page.title.toLowerCase().includes('about') ||
-        page.title.toLowerCase().includes('help')
-      );
-      
-      // If we find existing pages, add review information to them
-      for (const page of enhanceablePages.slice(0, 1)) { // Enhance just one page
-        const updatedContent = `
-          ${page.body_html}
-          
-          <hr style="margin: 30px 0;">
-          <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; border-left: 4px solid #007bff;">
-            <h3>⭐ Customer Reviews & Testimonials</h3>
-            <p><strong>Real feedback from verified customers:</strong></p>
-            <blockquote style="border-left: 3px solid #28a745; padding-left: 15px; margin: 15px 0; font-style: italic;">
-              "Amazing quality! Fast shipping and great customer service." - Sarah M. ⭐⭐⭐⭐⭐
-            </blockquote>
-            <blockquote style="border-left: 3px solid #28a745; padding-left: 15px; margin: 15px 0; font-style: italic;">
-              "Exactly as described. Would definitely recommend to others!" - Mike T. ⭐⭐⭐⭐⭐
-            </blockquote>
-            <p><strong>Love your purchase?</strong> Help other customers by sharing your experience!</p>
-            <p><em>Reviews help us improve and assist other shoppers in making informed decisions.</em></p>
+  }
+
+  logInfo('Trust Optimization', `Removed ${trustType} from ${removed.length} resources on store ${store.id}`, { failed: failed.length });
+  return { removed, failed };
+}
+
+async function implementReviewSystem(ctx: TrustContext) {
+  const { changes } = ctx;
+  console.log('Starting comprehensive review system implementation...');
+
+  // Products and pages that already carry our review content are updated again first
+  const tracked = (await storage.getTrustOptimizationChanges(ctx.store.id, 'reviews'))
+    .filter(change => change.status === 'applied');
+  const trackedIds = (resourceType: TrustResourceType) => new Set(
+    tracked.filter(change => change.resourceType === resourceType).map(change => change.resourceId)
+  );
+
+  try {
+    // 1. First, try to enhance product descriptions with review prompts
+    const productsData = await shopifyRequest(ctx, 'GET', '/products.json?limit=50');
+    const products: any[] = productsData?.products || [];
+    const trackedProducts = trackedIds('product');
+
+    console.log(`Found ${products.length} products to enhance with review prompts`);
+
+    const candidates = [
+      ...products.filter(product => trackedProducts.has(String(product.id))),
+      ...products.filter(product => {
+        if (trackedProducts.has(String(product.id))) return false;
+        // Skip products that already have their own review content
+        const description = (product.body_html || '').toLowerCase();
+        return !description.includes('review') && !description.includes('rating');
+      }),
+    ];
+
+    for (const product of candidates.slice(0, TRUST_OPTIMIZATION.PRODUCT_LIMIT)) {
+      try {
+        const reviewPrompt = `
+          <div style="background: #f8f9fa; padding: 15px; border-radius: 8px; margin: 20px 0; border: 1px solid #dee2e6;">
+            <h4 style="color: #007bff; margin: 0 0 10px 0;">⭐ Customer Reviews</h4>
+            <p style="margin: 0 0 10px 0; font-size: 14px;">Join hundreds of satisfied customers who love this product!</p>
+            <p style="margin: 0; font-size: 12px; color: #666;"><strong>Purchased this item?</strong> Share your experience to help other shoppers make informed decisions.</p>
           </div>
         `;
-        
-        const updateData = {
-          page: {
-            id: page.id,
-            body_html: updatedContent
-          }
-        };
-        
-        const updateResponse = await fetch(`${baseUrl}/pages/${page.id}.json`, {
-          method: 'PUT',
-          headers,
-          body: JSON.stringify(updateData)
-        });
-        
-        if (updateResponse.ok) {
-          appliedChanges.push(`Enhanced "${page.title}" page with customer testimonials and review section`);
-        }
+
+        const existed = await writeProductBlock(ctx, product, reviewPrompt);
+        ctx.appliedChanges.push(`${existed ? 'Updated' : 'Added'} review prompt on product: ${product.title}`);
+
+        // Small delay to avoid rate limiting
+        await new Promise(resolve => setTimeout(resolve, 200));
+      } catch (error) {
+        console.error(`Error updating product ${product.title}:`, error);
       }
     }
+
+    // 2. Try to enhance existing pages with review information
+    const pagesData = await shopifyRequest(ctx, 'GET', '/pages.json?limit=250');
+    const pages: ShopifyPage[] = pagesData?.pages || [];
+    const trackedPages = trackedIds('page');
+
+    // Look for existing FAQ, About, or similar pages to enhance
+    const enhanceablePages = pages.filter(page =>
+      page.title.toLowerCase().includes('faq') ||
+      page.title.toLowerCase().includes('about') ||
+      page.title.toLowerCase().includes('help')
+    );
+
+    // Enhance just one page, the same one as last time if there was one
+    const page = enhanceablePages.find(candidate => trackedPages.has(String(candidate.id))) || enhanceablePages[0];
+    if (page) {
+      const reviewSection = `
+        <hr style="margin: 30px 0;">
+        <div style="background: #f8f9fa; padding: 20px; border-radius: 8px; border-left: 4px solid #007bff;">
+          <h3>⭐ Customer Reviews & Testimonials</h3>
+          <p><strong>Real feedback from verified customers:</strong></p>
+          <blockquote style="border-left: 3px solid #28a745; padding-left: 15px; margin: 15px 0; font-style: italic;">
+            "Amazing quality! Fast shipping and great customer service." - Sarah M. ⭐⭐⭐⭐⭐
+          </blockquote>
+          <blockquote style="border-left: 3px solid #28a745; padding-left: 15px; margin: 15px 0; font-style: italic;">
+            "Exactly as described. Would definitely recommend to others!" - Mike T. ⭐⭐⭐⭐⭐
+          </blockquote>
+          <p><strong>Love your purchase?</strong> Help other customers by sharing your experience!</p>
+          <p><em>Reviews help us improve and assist other shoppers in making informed decisions.</em></p>
+        </div>
+      `;
+
+      const existed = await writePageBlock(ctx, page, reviewSection, false);
+      ctx.appliedChanges.push(`${existed ? 'Updated' : 'Enhanced'} "${page.title}" page with customer testimonials and review section`);
+    }
   } catch (error) {
     console.error('Error implementing review system enhancements:', error);
   }
-  
+
   // Create a dedicated reviews policy page
-  const reviewPageData = {
-    page: {
-      title: "Customer Reviews Policy",
-      body_html: `
+  await writeManagedPage(ctx, { title: "Customer Reviews Policy", handle: "customer-reviews-policy" }, `
         <h2>Customer Reviews & Ratings</h2>
         <p><strong>Trust Enhancement Applied:</strong> ${changes.recommended}</p>
         
@@ -279,35 +456,12 @@ async function implementReviewSystem(baseUrl: string, headers: any, changes: Tru
         <p><strong>Note:</strong> To fully activate customer reviews, install a review app from the Shopify App Store such as Judge.me, Yotpo, or Loox. This page provides the framework for your review policy.</p>
         
         <p><em>Customer feedback drives our commitment to quality and service excellence.</em></p>
-      `,
-      published: true,
-      handle: "customer-reviews-policy"
-    }
-  };
-
-  console.log(`Creating review policy page at: ${baseUrl}/pages.json`);
-  const response = await fetch(`${baseUrl}/pages.json`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(reviewPageData)
-  });
-
-  console.log(`Page creation response status: ${response.status}`);
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.error(`Failed to create page: ${errorText}`);
-  } else {
-    const responseData = await response.json();
-    console.log(`Successfully created page:`, responseData);
-    appliedChanges.push("Created customer reviews policy page and enhanced existing pages with review encouragement");
-  }
+      `, "customer reviews policy page");
 }
 
-async function implementTestimonials(baseUrl: string, headers: any, changes: TrustChanges, appliedChanges: string[]) {
-  const testimonialsPageData = {
-    page: {
-      title: "Customer Testimonials",
-      body_html: `
+async function implementTestimonials(ctx: TrustContext) {
+  const { changes } = ctx;
+  await writeManagedPage(ctx, { title: "Customer Testimonials", handle: "customer-testimonials" }, `
         <h2>Customer Success Stories</h2>
         <p><strong>Trust Enhancement:</strong> ${changes.recommended}</p>
         
@@ -334,28 +488,12 @@ async function implementTestimonials(baseUrl: string, headers: any, changes: Tru
         </ul>
         
         <p><em>Start collecting and displaying customer testimonials to build trust and increase conversions.</em></p>
-      `,
-      published: true,
-      handle: "customer-testimonials"
-    }
-  };
-
-  const response = await fetch(`${baseUrl}/pages.json`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(testimonialsPageData)
-  });
-
-  if (response.ok) {
-    appliedChanges.push("Created customer testimonials page");
-  }
+      `, "customer testimonials page");
 }
 
-async function implementTrustBadges(baseUrl: string, headers: any, changes: TrustChanges, appliedChanges: string[]) {
-  const badgesPageData = {
-    page: {
-      title: "Trust & Security Badges",
-      body_html: `
+async function implementTrustBadges(ctx: TrustContext) {
+  const { changes } = ctx;
+  await writeManagedPage(ctx, { title: "Trust & Security Badges", handle: "trust-security-badges" }, `
         <h2>Trust & Security Certifications</h2>
         <p><strong>Security Enhancement:</strong> ${changes.recommended}</p>
         
@@ -393,28 +531,12 @@ async function implementTrustBadges(baseUrl: string, headers: any, changes: Trus
         </ul>
         
         <p><em>Display these trust signals prominently to reduce customer anxiety and increase conversions.</em></p>
-      `,
-      published: true,
-      handle: "trust-security-badges"
-    }
-  };
-
-  const response = await fetch(`${baseUrl}/pages.json`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(badgesPageData)
-  });
-
-  if (response.ok) {
-    appliedChanges.push("Created trust & security badges guide");
-  }
+      `, "trust & security badges guide");
 }
 
-async function implementSecurityFeatures(baseUrl: string, headers: any, changes: TrustChanges, appliedChanges: string[]) {
-  const securityPageData = {
-    page: {
-      title: "Security & Privacy",
-      body_html: `
+async function implementSecurityFeatures(ctx: TrustContext) {
+  const { changes } = ctx;
+  await writeManagedPage(ctx, { title: "Security & Privacy", handle: "security-privacy" }, `
         <h2>Your Security & Privacy</h2>
         <p><strong>Security Enhancement:</strong> ${changes.recommended}</p>
         
@@ -447,28 +569,12 @@ async function implementSecurityFeatures(baseUrl: string, headers: any, changes:
         </ul>
         
         <p><strong>Questions about security?</strong> Contact our support team for more information.</p>
-      `,
-      published: true,
-      handle: "security-privacy"
-    }
-  };
-
-  const response = await fetch(`${baseUrl}/pages.json`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(securityPageData)
-  });
-
-  if (response.ok) {
-    appliedChanges.push("Created security & privacy information page");
-  }
+      `, "security & privacy information page");
 }
 
-async function implementGuarantees(baseUrl: string, headers: any, changes: TrustChanges, appliedChanges: string[]) {
-  const guaranteePageData = {
-    page: {
-      title: "Money-Back Guarantee",
-      body_html: `
+async function implementGuarantees(ctx: TrustContext) {
+  const { changes } = ctx;
+  await writeManagedPage(ctx, { title: "Money-Back Guarantee", handle: "money-back-guarantee" }, `
         <h2>100% Satisfaction Guarantee</h2>
         <p><strong>Customer Assurance:</strong> ${changes.recommended}</p>
         
@@ -507,28 +613,12 @@ async function implementGuarantees(baseUrl: string, headers: any, changes: Trust
         </ul>
         
         <p><strong>Shop with confidence!</strong> Your satisfaction is our top priority.</p>
-      `,
-      published: true,
-      handle: "money-back-guarantee"
-    }
-  };
-
-  const response = await fetch(`${baseUrl}/pages.json`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(guaranteePageData)
-  });
-
-  if (response.ok) {
-    appliedChanges.push("Created money-back guarantee page");
-  }
+      `, "money-back guarantee page");
 }
 
-async function implementContactInfo(baseUrl: string, headers: any, changes: TrustChanges, appliedChanges: string[]) {
-  const contactPageData = {
-    page: {
-      title: "Contact Us",
-      body_html: `
+async function implementContactInfo(ctx: TrustContext) {
+  const { changes } = ctx;
+  await writeManagedPage(ctx, { title: "Contact Us", handle: "contact-us" }, `
         <h2>Get in Touch</h2>
         <p><strong>Contact Enhancement:</strong> ${changes.recommended}</p>
         
@@ -584,28 +674,12 @@ async function implementContactInfo(baseUrl: string, headers: any, changes: Trus
         </div>
         
         <p><em>We're here to help! Don't hesitate to reach out with any questions or concerns.</em></p>
-      `,
-      published: true,
-      handle: "contact-us"
-    }
-  };
-
-  const response = await fetch(`${baseUrl}/pages.json`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(contactPageData)
-  });
-
-  if (response.ok) {
-    appliedChanges.push("Created comprehensive contact information page");
-  }
+      `, "comprehensive contact information page");
 }
 
-async function implementGeneralTrust(baseUrl: string, headers: any, changes: TrustChanges, appliedChanges: string[]) {
-  const trustPageData = {
-    page: {
-      title: "Why Trust Us",
-      body_html: `
+async function implementGeneralTrust(ctx: TrustContext) {
+  const { changes } = ctx;
+  await writeManagedPage(ctx, { title: "Why Trust Us", handle: "why-trust-us" }, `
         <h2>Why Shop With Confidence</h2>
         <p><strong>Trust Building:</strong> ${changes.recommended}</p>
         
@@ -656,19 +730,5 @@ async function implementGeneralTrust(baseUrl: string, headers: any, changes: Tru
         </ul>
         
         <p><strong>Join thousands of satisfied customers</strong> who trust us for their shopping needs.</p>
-      `,
-      published: true,
-      handle: "why-trust-us"
-    }
-  };
-
-  const response = await fetch(`${baseUrl}/pages.json`, {
-    method: 'POST',
-    headers,
-    body: JSON.stringify(trustPageData)
-  });
-
-  if (response.ok) {
-    appliedChanges.push("Created comprehensive trust-building page");
-  }
-}
\ No newline at end of file
+      `, "comprehensive trust-building page");
+}
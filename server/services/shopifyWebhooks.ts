@@ -0,0 +1,79 @@
+import { storage } from "../storage";
+import { logInfo, logWarning } from "@shared/errorHandler";
+import type { UserStore } from "@shared/schema";
+import { refreshMirroredProduct } from "./shopifyProductSync";
+
+/**
+ * Re-reads a created/updated product into the mirror.
+ * Stores that were never synced are skipped since their first sync will pick the product up,
+ * and out-of-order deliveries older than the mirrored copy are ignored.
+ */
+async function handleProductChange(store: UserStore, payload: any): Promise<void> {
+  if (!store.shopifyAccessToken || !store.productsSyncedAt) return;
+
+  const productId = String(payload.id);
+  const mirrored = await storage.getShopifyProduct(store.id, productId);
+  if (mirrored?.shopifyUpdatedAt && payload.updated_at && new Date(payload.updated_at) < mirrored.shopifyUpdatedAt) {
+    return;
+  }
+
+  await refreshMirroredProduct(store, productId);
+}
+
+async function handleAppUninstalled(store: UserStore): Promise<void> {
+  // The token is revoked by Shopify at this point, so drop it rather than keep a dead credential
+  await storage.updateUserStore(store.id, {
+    isConnected: false,
+    connectionStatus: 'disconnected',
+    shopifyAccessToken: null,
+    shopifyScope: null,
+    productSyncStatus: 'idle',
+  });
+}
+
+async function handleShopUpdate(store: UserStore, payload: any): Promise<void> {
+  await storage.updateUserStore(store.id, {
+    name: payload.name || store.name,
+    storeUrl: payload.domain ? `https://${payload.domain}` : store.storeUrl,
+    lastSyncAt: new Date(),
+  });
+}
+
+/**
+ * Applies a verified Shopify webhook to every user store connected to the shop.
+ * Several users can connect the same shop, so each store is updated independently.
+ */
+export async function handleShopifyWebhook(topic: string, shopDomain: string, payload: any): Promise<void> {
+  const stores = await storage.getUserStoresByShopifyDomain(shopDomain);
+  if (stores.length === 0) {
+    logWarning('Shopify Webhooks', `Received ${topic} for unknown shop ${shopDomain}`);
+    return;
+  }
+
+  for (const store of stores) {
+    try {
+      switch (topic) {
+        case 'products/create':
+        case 'products/update':
+          await handleProductChange(store, payload);
+          break;
+        case 'products/delete':
+          await storage.deleteShopifyProduct(store.id, String(payload.id));
+          break;
+        case 'app/uninstalled':
+          await handleAppUninstalled(store);
+          break;
+        case 'shop/update':
+          await handleShopUpdate(store, payload);
+          break;
+        default:
+          logWarning('Shopify Webhooks', `Ignoring unsupported topic ${topic}`);
+          return;
+      }
+    } catch (error) {
+      console.error(`Failed to apply ${topic} webhook to store ${store.id}:`, error);
+    }
+  }
+
+  logInfo('Shopify Webhooks', `Applied ${topic} for ${shopDomain} to ${stores.length} store(s)`);
+}
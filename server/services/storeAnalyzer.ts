@@ -1,62 +1,124 @@
 import { analyzeStoreWithAI, type StoreAnalysisData } from './openai';
-import type { StoreAnalysisResult } from '@shared/schema';
+import type { StoreAnalysisResult, AnalysisJobStage } from '@shared/schema';
 import { captureStoreScreenshot } from './screenshotService';
 import { createStoreFingerprint, hasStoreChanged, createEbayFingerprint } from './storeChangeDetector';
 import { ANALYSIS } from '@shared/constants';
 import { logInfo, logWarning } from '@shared/errorHandler';
+import { fetchWooCommerceStorefrontProducts } from './wooCommerceIntegration';
+
+const USER_AGENTS = [
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+  'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
+];
+
+/**
+ * Fetches a storefront's HTML, retrying with different user agents
+ * @param storeUrl - Public storefront URL
+ * @returns The page HTML, or an empty string if every attempt failed
+ */
+export async function fetchStorefrontHtml(storeUrl: string): Promise<string> {
+  for (const userAgent of USER_AGENTS) {
+    try {
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), 10000);
+      
+      const response = await fetch(storeUrl, {
+        headers: {
+          'User-Agent': userAgent,
+          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+          'Accept-Language': 'en-US,en;q=0.5',
+          'Accept-Encoding': 'gzip, deflate, br',
+          'DNT': '1',
+          'Connection': 'keep-alive',
+          'Upgrade-Insecure-Requests': '1',
+        },
+        redirect: 'follow',
+        signal: controller.signal
+      });
+      
+      clearTimeout(timeoutId);
+
+      if (response.ok) {
+        return await response.text();
+      }
+    } catch (err: any) {
+      console.log(`Failed with user agent: ${userAgent}`, err.message);
+      continue;
+    }
+  }
+  return '';
+}
+
+/**
+ * Reads the public Shopify products.json feed used by the rule-based scoring
+ * @param storeUrl - Public storefront URL
+ * @returns REST-shaped products, or an empty array if the feed is disabled
+ */
+export async function fetchPublicProducts(storeUrl: string): Promise<any[]> {
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 10000);
+    const response = await fetch(new URL('/products.json?limit=250', storeUrl).toString(), {
+      headers: { 'User-Agent': USER_AGENTS[0], 'Accept': 'application/json' },
+      signal: controller.signal
+    });
+    clearTimeout(timeoutId);
+
+    if (!response.ok) {
+      return [];
+    }
+    const data = await response.json();
+    return Array.isArray(data.products) ? data.products : [];
+  } catch (err: any) {
+    logWarning("Store Analysis", `Public product feed unavailable for ${storeUrl}`, err.message);
+    return [];
+  }
+}
+
+export type AnalysisProgressCallback = (stage: AnalysisJobStage) => void | Promise<void>;
+
+/**
+ * Runs the AI analysis while capturing a screenshot in parallel.
+ * Reports 'screenshot' when both start and 'ai' once the screenshot settles,
+ * since the AI call is always the longer of the two.
+ */
+async function runAnalysisWithScreenshot(
+  analysisData: StoreAnalysisData,
+  screenshotUrl: string,
+  onProgress?: AnalysisProgressCallback
+) {
+  await onProgress?.('screenshot');
+
+  const [analysisResult, screenshot] = await Promise.allSettled([
+    analyzeStoreWithAI(analysisData),
+    captureStoreScreenshot(screenshotUrl).finally(() => onProgress?.('ai'))
+  ]);
+
+  const analysis = analysisResult.status === 'fulfilled' ? analysisResult.value : await analyzeStoreWithAI(analysisData);
+  const screenshotData = screenshot.status === 'fulfilled' ? screenshot.value : null;
+
+  return { analysis, screenshotData };
+}
 
 /**
  * Analyzes a Shopify store using AI-powered evaluation
  * @param storeUrl - The full URL of the Shopify store to analyze
+ * @param onProgress - Optional callback notified as the analysis moves through its stages
  * @returns Promise<StoreAnalysisResult & { contentHash: string }> - Comprehensive analysis with scores and content hash
  * @throws Error if store is inaccessible or analysis fails
  */
-export async function analyzeShopifyStore(storeUrl: string): Promise<StoreAnalysisResult & { contentHash: string }> {
+export async function analyzeShopifyStore(
+  storeUrl: string,
+  onProgress?: AnalysisProgressCallback
+): Promise<StoreAnalysisResult & { contentHash: string }> {
   try {
     console.log(`Starting analysis for store: ${storeUrl}`);
+    await onProgress?.('fetching');
     
     // Multiple strategies to fetch store content
-    let html = '';
-    let fetchSuccess = false;
-    
-    // Strategy 1: Try with different user agents
-    const userAgents = [
-      'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
-      'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36'
-    ];
-
-    for (const userAgent of userAgents) {
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 10000);
-        
-        const response = await fetch(storeUrl, {
-          headers: {
-            'User-Agent': userAgent,
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5',
-            'Accept-Encoding': 'gzip, deflate, br',
-            'DNT': '1',
-            'Connection': 'keep-alive',
-            'Upgrade-Insecure-Requests': '1',
-          },
-          redirect: 'follow',
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeoutId);
-
-        if (response.ok) {
-          html = await response.text();
-          fetchSuccess = true;
-          break;
-        }
-      } catch (err: any) {
-        console.log(`Failed with user agent: ${userAgent}`, err.message);
-        continue;
-      }
-    }
+    const html = await fetchStorefrontHtml(storeUrl);
+    const fetchSuccess = html.length > 0;
 
     // If fetching fails, create a comprehensive analysis based on URL and domain
     if (!fetchSuccess || !html) {
@@ -113,13 +175,7 @@ Please provide realistic scoring based on Shopify best practices and common opti
       };
       
       // Capture screenshot in parallel with AI analysis for fallback case  
-      const [analysisResult, screenshot] = await Promise.allSettled([
-        analyzeStoreWithAI(analysisData),
-        captureStoreScreenshot(storeUrl)
-      ]);
-
-      const analysis = analysisResult.status === 'fulfilled' ? analysisResult.value : await analyzeStoreWithAI(analysisData);
-      const screenshotData = screenshot.status === 'fulfilled' ? screenshot.value : null;
+      const { analysis, screenshotData } = await runAnalysisWithScreenshot(analysisData, storeUrl, onProgress);
 
       console.log(`📷 [Fallback] Screenshot data: ${screenshotData ? 'EXISTS (' + Math.round(screenshotData.length / 1024) + 'KB)' : 'NULL'}`);
 
@@ -157,20 +213,17 @@ Please provide realistic scoring based on Shopify best practices and common opti
       .trim()
       .substring(0, 8000); // Limit content length for AI processing
 
+    const products = await fetchPublicProducts(storeUrl);
+
     const analysisData: StoreAnalysisData = {
       storeContent: cleanContent,
       storeType: 'shopify',
-      storeUrl
+      storeUrl,
+      ruleInput: { storeUrl, html, products }
     };
 
     // Capture screenshot in parallel with AI analysis
-    const [analysisResult, screenshot] = await Promise.allSettled([
-      analyzeStoreWithAI(analysisData),
-      captureStoreScreenshot(storeUrl)
-    ]);
-
-    const analysis = analysisResult.status === 'fulfilled' ? analysisResult.value : await analyzeStoreWithAI(analysisData);
-    const screenshotData = screenshot.status === 'fulfilled' ? screenshot.value : null;
+    const { analysis, screenshotData } = await runAnalysisWithScreenshot(analysisData, storeUrl, onProgress);
 
     console.log(`📷 [Success] Screenshot data: ${screenshotData ? 'EXISTS (' + Math.round(screenshotData.length / 1024) + 'KB)' : 'NULL'}`);
 
@@ -202,13 +255,7 @@ Please provide realistic scoring based on Shopify best practices and common opti
     };
     
     // Try screenshot capture even if content fetch failed
-    const [analysisResult, screenshot] = await Promise.allSettled([
-      analyzeStoreWithAI(analysisData),
-      captureStoreScreenshot(storeUrl)
-    ]);
-
-    const analysis = analysisResult.status === 'fulfilled' ? analysisResult.value : await analyzeStoreWithAI(analysisData);
-    const screenshotData = screenshot.status === 'fulfilled' ? screenshot.value : null;
+    const { analysis, screenshotData } = await runAnalysisWithScreenshot(analysisData, storeUrl, onProgress);
 
     console.log(`📷 [Error] Screenshot data: ${screenshotData ? 'EXISTS (' + Math.round(screenshotData.length / 1024) + 'KB)' : 'NULL'}`);
 
@@ -220,8 +267,73 @@ Please provide realistic scoring based on Shopify best practices and common opti
   }
 }
 
-export async function analyzeEbayStore(username: string): Promise<StoreAnalysisResult> {
+/**
+ * Analyzes a WooCommerce storefront from its public pages and Store API product feed
+ * @param storeUrl - The WordPress site URL of the store
+ * @param onProgress - Optional callback notified as the analysis moves through its stages
+ * @returns Promise<StoreAnalysisResult & { contentHash: string }> - Analysis with scores and content hash
+ */
+export async function analyzeWooCommerceStore(
+  storeUrl: string,
+  onProgress?: AnalysisProgressCallback
+): Promise<StoreAnalysisResult & { contentHash: string }> {
+  await onProgress?.('fetching');
+
+  const html = await fetchStorefrontHtml(storeUrl);
+  const fingerprint = createStoreFingerprint(html || `FALLBACK_ANALYSIS:${storeUrl}`, storeUrl);
+  const changeResult = await hasStoreChanged(storeUrl, fingerprint.contentHash);
+
+  if (!changeResult.hasChanged && changeResult.lastAnalysis) {
+    console.log(`Store unchanged since last analysis. Returning cached results.`);
+    return {
+      ...changeResult.lastAnalysis.analysisData,
+      contentHash: fingerprint.contentHash
+    };
+  }
+
+  let analysisData: StoreAnalysisData;
+  if (html) {
+    const contentMatch = html.match(/<body[^>]*>([\s\S]*?)<\/body>/i);
+    const cleanContent = (contentMatch ? contentMatch[1] : html)
+      .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+      .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+      .replace(/<[^>]+>/g, ' ')
+      .replace(/\s+/g, ' ')
+      .trim()
+      .substring(0, 8000);
+
+    const products = await fetchWooCommerceStorefrontProducts(storeUrl);
+    analysisData = {
+      storeContent: cleanContent,
+      storeType: 'woocommerce',
+      storeUrl,
+      ruleInput: { storeUrl, html, products }
+    };
+  } else {
+    logWarning("Store Analysis", "Direct fetch failed, creating analysis based on URL");
+    analysisData = {
+      storeContent: `Store URL: ${storeUrl}. This is a WooCommerce store on WordPress that requires analysis based on URL structure and common e-commerce patterns due to access restrictions.`,
+      storeType: 'woocommerce',
+      storeUrl
+    };
+  }
+
+  const { analysis, screenshotData } = await runAnalysisWithScreenshot(analysisData, storeUrl, onProgress);
+
+  return {
+    ...analysis,
+    screenshot: screenshotData,
+    contentHash: fingerprint.contentHash
+  };
+}
+
+export async function analyzeEbayStore(
+  username: string,
+  onProgress?: AnalysisProgressCallback
+): Promise<StoreAnalysisResult> {
   try {
+    await onProgress?.('fetching');
+
     // Construct eBay store URL
     const storeUrl = `https://www.ebay.com/sch/i.html?_nkw=&_armrs=1&_ipg=&_from=&_ssn=${username}`;
     
@@ -304,13 +416,7 @@ Please provide realistic scoring based on eBay marketplace best practices and co
       };
       
       // Capture screenshot in parallel with AI analysis for eBay fallback
-      const [analysisResult, screenshot] = await Promise.allSettled([
-        analyzeStoreWithAI(analysisData),
-        captureStoreScreenshot(storeUrl)
-      ]);
-
-      const analysis = analysisResult.status === 'fulfilled' ? analysisResult.value : await analyzeStoreWithAI(analysisData);
-      const screenshotData = screenshot.status === 'fulfilled' ? screenshot.value : null;
+      const { analysis, screenshotData } = await runAnalysisWithScreenshot(analysisData, storeUrl, onProgress);
 
       return {
         ...analysis,
@@ -338,13 +444,7 @@ Please provide realistic scoring based on eBay marketplace best practices and co
     };
 
     // Capture screenshot in parallel with AI analysis for eBay success case
-    const [analysisResult, screenshot] = await Promise.allSettled([
-      analyzeStoreWithAI(analysisData),
-      captureStoreScreenshot(storeUrl)
-    ]);
-
-    const analysis = analysisResult.status === 'fulfilled' ? analysisResult.value : await analyzeStoreWithAI(analysisData);
-    const screenshotData = screenshot.status === 'fulfilled' ? screenshot.value : null;
+    const { analysis, screenshotData } = await runAnalysisWithScreenshot(analysisData, storeUrl, onProgress);
 
     return {
       ...analysis,
@@ -361,13 +461,7 @@ Please provide realistic scoring based on eBay marketplace best practices and co
     };
     
     // Try screenshot capture even if content fetch failed for eBay error case
-    const [analysisResult, screenshot] = await Promise.allSettled([
-      analyzeStoreWithAI(analysisData),
-      captureStoreScreenshot(`https://www.ebay.com/sch/i.html?_nkw=&_armrs=1&_ipg=&_from=&_ssn=${username}`)
-    ]);
-
-    const analysis = analysisResult.status === 'fulfilled' ? analysisResult.value : await analyzeStoreWithAI(analysisData);
-    const screenshotData = screenshot.status === 'fulfilled' ? screenshot.value : null;
+    const { analysis, screenshotData } = await runAnalysisWithScreenshot(analysisData, `https://www.ebay.com/sch/i.html?_nkw=&_armrs=1&_ipg=&_from=&_ssn=${username}`, onProgress);
 
     return {
       ...analysis,
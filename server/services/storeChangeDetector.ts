@@ -66,18 +66,80 @@ export function createStoreFingerprint(html: string, storeUrl: string): StoreCon
   };
 }
 
+/**
+ * Creates a fingerprint for a connected Shopify or WooCommerce store from its storefront HTML and mirrored products.
+ * Product ids and update times are included so catalog edits count as changes even when the homepage is static.
+ */
+export function createShopifyAdminFingerprint(html: string, storeUrl: string, products: any[]): StoreContentFingerprint {
+  const productState = products
+    .map(product => `${product.id}:${product.updated_at || product.updatedAt || ''}`)
+    .sort()
+    .join(',');
+
+  const storefront = createStoreFingerprint(html, storeUrl);
+  const contentHash = crypto
+    .createHash('sha256')
+    .update(`shopify-admin:${storefront.contentHash}:${productState}`)
+    .digest('hex')
+    .substring(0, 32);
+
+  return {
+    contentHash,
+    keyElements: { ...storefront.keyElements, productCount: products.length }
+  };
+}
+
+/**
+ * Creates a fingerprint for a connected eBay store from its mirrored listings. eBay reports no
+ * modification times, so what each listing shows (text, status, prices, stock, images) is hashed instead.
+ */
+export function createEbayListingFingerprint(username: string, products: any[]): StoreContentFingerprint {
+  const listingState = products
+    .map(product => JSON.stringify([
+      product.id,
+      product.title,
+      product.body_html,
+      product.status,
+      product.variants.map((variant: any) => [variant.price, variant.inventory_quantity]),
+      product.images.map((image: any) => image.src)
+    ]))
+    .sort()
+    .join('\n');
+
+  const contentHash = crypto
+    .createHash('sha256')
+    .update(`ebay-listings:${username}:${listingState}`)
+    .digest('hex')
+    .substring(0, 32);
+
+  return {
+    contentHash,
+    keyElements: {
+      title: `eBay Store: ${username}`,
+      description: `eBay store analysis for user ${username}`,
+      productCount: products.length,
+      mainCategories: ['eBay Marketplace'],
+      priceRange: 'varied'
+    }
+  };
+}
+
 /**
  * Checks if a store has changed since last analysis
+ * @param storeUrl - null for stores without one (connected eBay stores), together with userStoreId
+ * @param userStoreId - Limits the comparison to analyses of one saved store (used by scheduled re-analysis)
  */
-export async function hasStoreChanged(storeUrl: string, currentHash: string): Promise<{
+export async function hasStoreChanged(storeUrl: string | null, currentHash: string, userStoreId?: number): Promise<{
   hasChanged: boolean;
   lastAnalysis?: any;
 }> {
   try {
-    // Get the most recent analysis for this store URL
-    const recentAnalyses = await storage.getRecentAnalyses(50);
+    // Get the most recent analysis for this store URL (degraded results are never reused)
+    const recentAnalyses = userStoreId
+      ? await storage.getUserStoreAnalyses(userStoreId, 50)
+      : await storage.getRecentAnalyses(50);
     const lastAnalysis = recentAnalyses.find(analysis => 
-      analysis.storeUrl === storeUrl && analysis.contentHash
+      analysis.storeUrl === storeUrl && analysis.contentHash && !analysis.degraded
     );
     
     if (!lastAnalysis || !lastAnalysis.contentHash) {
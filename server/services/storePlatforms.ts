@@ -0,0 +1,243 @@
+import { storage } from "../storage";
+import { EBAY } from "@shared/constants";
+import { connectWooCommerceSchema } from "@shared/schema";
+import type { AnalysisJob, ProductOptimizationType, StoreType, UserStore } from "@shared/schema";
+import { HttpError } from "@shared/errorHandler";
+import { generateShopifyAuthUrl, getShopInfo, createShopifyAnalysisContent, updateProduct, type ShopifyStore } from "./shopifyIntegration";
+import { getMirroredProducts, syncStoreProducts, toRestProduct, runShopifySync, fetchShopifyProduct, type ProductSyncResult } from "./shopifyProductSync";
+import {
+  verifyWooCommerceCredentials,
+  runWooCommerceSync,
+  fetchWooCommerceProduct,
+  updateWooCommerceProduct,
+  getWooCommerceStoreInfo,
+  createWooCommerceAnalysisContent,
+  toRuleShopInfo,
+} from "./wooCommerceIntegration";
+import {
+  generateEbayAuthUrl,
+  getEbayAccessToken,
+  getEbaySellerProfile,
+  getEbayReturnPolicies,
+  fetchEbayListings,
+  runEbaySync,
+  fetchEbayProduct,
+  updateEbayListing,
+  createEbayAnalysisContent,
+} from "./ebayIntegration";
+import { createOAuthState } from "./oauthState";
+import { sealCredential } from "./credentialVault";
+
+// A platform operation that can't go ahead
+export class StorePlatformError extends HttpError {}
+
+// Every platform's products come back in the REST-style shape of the product mirror; eBay adds item specifics
+export type PlatformProduct = ReturnType<typeof toRestProduct> & { item_specifics?: string };
+
+// Either a consent page the user has to approve the connection on, or the store, already connected
+export type PlatformConnection = { authUrl: string } | { store: UserStore };
+
+// Shop details in the Shopify shape the rule engine reads; platforms fill what they know
+export type PlatformShopInfo = Partial<ShopifyStore>;
+
+export interface PlatformAnalysisContent {
+  storeContent: string;
+  products: PlatformProduct[];
+  // Storefront for the rule-based checks; platforms without one are scored by the AI alone
+  storefront?: { url: string; shopInfo: PlatformShopInfo };
+}
+
+/**
+ * Everything the app needs from a commerce platform. Routes and services resolve the
+ * adapter for a store's storeType instead of branching on the platform themselves.
+ */
+export interface StorePlatformAdapter {
+  storeType: StoreType;
+  name: string;
+  analysisJobType: AnalysisJob['jobType'];
+  optimizationTypes: ProductOptimizationType[];
+  // Whether the store holds the credentials this platform's API calls need
+  isConnected(store: UserStore): boolean;
+  // sessionId is the logged-in session asking, OAuth callbacks are only accepted on that session
+  connect(store: UserStore, input: unknown, sessionId: string): Promise<PlatformConnection>;
+  // Writes the platform's catalog into the product mirror
+  syncProducts(store: UserStore, full: boolean): Promise<ProductSyncResult>;
+  listProducts(store: UserStore): Promise<PlatformProduct[]>;
+  // Reads one product live (refreshing its mirrored copy); null when it no longer exists
+  getProduct(store: UserStore, productId: string): Promise<PlatformProduct | null>;
+  // Applies a Shopify-style product update (title, body_html, tags, variants[].price and so on)
+  updateProduct(store: UserStore, productId: string, updateData: any): Promise<void>;
+  getShopInfo(store: UserStore): Promise<PlatformShopInfo>;
+  buildAnalysisContent(store: UserStore): Promise<PlatformAnalysisContent>;
+}
+
+/**
+ * Brings the product mirror up to date and returns the full catalog, for analyses
+ */
+async function getSyncedProducts(store: UserStore): Promise<PlatformProduct[]> {
+  await syncStoreProducts(store);
+  return (await storage.getShopifyProducts(store.id)).map(toRestProduct);
+}
+
+const shopifyAdapter: StorePlatformAdapter = {
+  storeType: 'shopify',
+  name: 'Shopify',
+  analysisJobType: 'shopify_admin',
+  optimizationTypes: ['title', 'description', 'pricing', 'keywords'],
+  isConnected: store => !!(store.shopifyDomain && store.shopifyAccessToken),
+
+  async connect(store, input, sessionId) {
+    const shopDomain = (input as { shopDomain?: unknown } | undefined)?.shopDomain ?? store.shopifyDomain;
+    if (typeof shopDomain !== 'string' || !shopDomain) {
+      throw new StorePlatformError("Shop domain is required");
+    }
+
+    const domain = shopDomain.replace(/^https?:\/\//, '').replace(/\/$/, '');
+    if (!domain.includes('.')) {
+      throw new StorePlatformError("Invalid shop domain format");
+    }
+
+    const { authUrl } = await generateShopifyAuthUrl(domain, { userId: store.userId, sessionId }, store.id);
+    return { authUrl };
+  },
+
+  syncProducts: (store, full) => runShopifySync(store, full),
+  listProducts: store => getMirroredProducts(store),
+  getProduct: (store, productId) => fetchShopifyProduct(store, productId),
+
+  async updateProduct(store, productId, updateData) {
+    await updateProduct(store.shopifyDomain!, store.shopifyAccessToken!, productId, updateData);
+  },
+
+  getShopInfo: store => getShopInfo(store.shopifyDomain!, store.shopifyAccessToken!),
+
+  async buildAnalysisContent(store) {
+    const products = await getSyncedProducts(store);
+    const shopInfo = await getShopInfo(store.shopifyDomain!, store.shopifyAccessToken!);
+    return {
+      storeContent: createShopifyAnalysisContent(shopInfo, products),
+      products,
+      storefront: { url: store.storeUrl || `https://${store.shopifyDomain}`, shopInfo },
+    };
+  },
+};
+
+const wooCommerceAdapter: StorePlatformAdapter = {
+  storeType: 'woocommerce',
+  name: 'WooCommerce',
+  analysisJobType: 'woocommerce',
+  optimizationTypes: ['title', 'description', 'pricing', 'keywords'],
+  isConnected: store => !!(store.wooConsumerKey && store.wooConsumerSecret),
+
+  async connect(store, input) {
+    if (!store.storeUrl) {
+      throw new StorePlatformError("Only WooCommerce stores with a store URL can be connected");
+    }
+
+    const credentials = connectWooCommerceSchema.parse(input);
+    await verifyWooCommerceCredentials(store.storeUrl, credentials);
+
+    const updated = await storage.updateUserStore(store.id, {
+      wooConsumerKey: sealCredential(credentials.consumerKey),
+      wooConsumerSecret: sealCredential(credentials.consumerSecret),
+      isConnected: true,
+      connectionStatus: 'connected',
+    });
+    return { store: updated! };
+  },
+
+  syncProducts: (store, full) => runWooCommerceSync(store, full),
+  listProducts: store => getMirroredProducts(store),
+  getProduct: async (store, productId) => (await fetchWooCommerceProduct(store, productId)).product,
+  updateProduct: (store, productId, updateData) => updateWooCommerceProduct(store, productId, updateData),
+  getShopInfo: async store => toRuleShopInfo(await getWooCommerceStoreInfo(store)),
+
+  async buildAnalysisContent(store) {
+    // WooCommerce products share the mirror, so the catalog reads the same way as Shopify's
+    const products = await getSyncedProducts(store);
+    const info = await getWooCommerceStoreInfo(store);
+    return {
+      storeContent: createWooCommerceAnalysisContent(info, products),
+      products,
+      storefront: { url: store.storeUrl!, shopInfo: toRuleShopInfo(info) },
+    };
+  },
+};
+
+const ebayAdapter: StorePlatformAdapter = {
+  storeType: 'ebay',
+  name: 'eBay',
+  analysisJobType: 'ebay_api',
+  optimizationTypes: ['title', 'description', 'item_specifics'],
+  isConnected: store => !!(store.ebayAccessToken && store.ebayRefreshToken),
+
+  async connect(store, _input, sessionId) {
+    const state = await createOAuthState('ebay', { userId: store.userId, sessionId }, { userStoreId: store.id });
+    return { authUrl: generateEbayAuthUrl(state) };
+  },
+
+  syncProducts: store => runEbaySync(store),
+  listProducts: store => getMirroredProducts(store),
+  getProduct: async (store, sku) => (await fetchEbayProduct(store, sku)).product,
+  updateProduct: (store, sku, updateData) => updateEbayListing(store, sku, updateData),
+
+  async getShopInfo(store) {
+    const profile = await getEbaySellerProfile(await getEbayAccessToken(store));
+    return { name: profile.userId, domain: profile.storeUrl || undefined };
+  },
+
+  async buildAnalysisContent(store) {
+    const profile = await getEbaySellerProfile(await getEbayAccessToken(store));
+    const returnPolicies = await getEbayReturnPolicies(store);
+    const listings = await fetchEbayListings(store, EBAY.ANALYSIS_LISTING_LIMIT);
+    // Listings are summarized in the prompt; without a storefront there are no rule checks to feed
+    return {
+      storeContent: createEbayAnalysisContent(profile, returnPolicies, listings),
+      products: [],
+    };
+  },
+};
+
+const overrides = new Map<StoreType, StorePlatformAdapter>();
+
+/**
+ * Returns the adapter for a platform, or the one standing in for it via overridePlatformAdapter
+ */
+export function getPlatformAdapter(storeType: StoreType): StorePlatformAdapter {
+  const override = overrides.get(storeType);
+  if (override) return override;
+
+  switch (storeType) {
+    case 'woocommerce':
+      return wooCommerceAdapter;
+    case 'ebay':
+      return ebayAdapter;
+    default:
+      return shopifyAdapter;
+  }
+}
+
+/**
+ * Routes a platform's stores to another adapter, e.g. an in-memory fake in tests.
+ * Returns a function that puts the real adapter back.
+ */
+export function overridePlatformAdapter(adapter: StorePlatformAdapter): () => void {
+  overrides.set(adapter.storeType, adapter);
+  return () => {
+    if (overrides.get(adapter.storeType) === adapter) overrides.delete(adapter.storeType);
+  };
+}
+
+/**
+ * Whether the store has the credentials its platform needs to sync products
+ */
+export function canSyncProducts(store: UserStore): boolean {
+  return getPlatformAdapter(store.storeType).isConnected(store);
+}
+
+/**
+ * The error shown when a product operation needs a connection the store doesn't have
+ */
+export function notConnectedMessage(store: UserStore): string {
+  return `Store not connected to ${getPlatformAdapter(store.storeType).name}`;
+}
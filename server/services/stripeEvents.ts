@@ -0,0 +1,83 @@
+import type Stripe from "stripe";
+import { storage } from "../storage";
+import { STRIPE_EVENTS } from "@shared/constants";
+import { logInfo, logWarning } from "@shared/errorHandler";
+import { subscriptionService } from "./subscriptionService";
+
+/**
+ * Stripe delivers webhooks at least once and in no particular order. Every event goes through the
+ * processed_stripe_events ledger: the first delivery claims it, later deliveries of an event that was
+ * handled are acknowledged without doing anything, and failed events stay claimable for Stripe's
+ * retries or an admin replay.
+ */
+
+// 'duplicate' when the event was already handled, or is being handled by another delivery right now
+export type StripeEventOutcome = 'processed' | 'skipped' | 'duplicate';
+
+/**
+ * One-time credit purchases; the event id on the credit transaction makes the grant happen once
+ */
+async function handleCreditPurchase(event: Stripe.PaymentIntentSucceededEvent): Promise<string | undefined> {
+  const paymentIntent = event.data.object;
+  const { userId, credits, package: packageType } = paymentIntent.metadata;
+  if (!userId || !credits) return;
+
+  const granted = await storage.addCredits(
+    parseInt(userId),
+    parseInt(credits),
+    `Credit purchase - ${packageType} package`,
+    paymentIntent.id,
+    event.id
+  );
+  if (!granted) {
+    return `Credits for ${paymentIntent.id} were already granted or user ${userId} no longer exists`;
+  }
+}
+
+/**
+ * @returns why the event was skipped, when it was
+ */
+async function applyStripeEvent(event: Stripe.Event): Promise<string | undefined> {
+  if (event.type === 'payment_intent.succeeded') {
+    return await handleCreditPurchase(event);
+  }
+  return await subscriptionService.handleWebhookEvent(event);
+}
+
+/**
+ * Handles a verified Stripe event exactly once. A failure is recorded on the ledger entry and rethrown,
+ * so the webhook answers with an error and Stripe delivers the event again.
+ */
+export async function processStripeEvent(event: Stripe.Event): Promise<StripeEventOutcome> {
+  const claimed = await storage.claimStripeEvent({
+    id: event.id,
+    type: event.type,
+    objectId: (event.data.object as { id?: string }).id ?? null,
+    payload: event as unknown as Record<string, any>,
+    eventCreatedAt: new Date(event.created * 1000),
+  }, new Date(Date.now() - STRIPE_EVENTS.STALE_PROCESSING_MS));
+
+  if (!claimed) {
+    logInfo('Stripe Events', `Event ${event.id} (${event.type}) was already handled`);
+    return 'duplicate';
+  }
+
+  try {
+    const skipReason = await applyStripeEvent(event);
+    await storage.updateStripeEvent(event.id, {
+      status: skipReason ? 'skipped' : 'processed',
+      detail: skipReason ?? null,
+      processedAt: new Date(),
+    });
+
+    if (skipReason) {
+      logWarning('Stripe Events', `Skipped event ${event.id} (${event.type}): ${skipReason}`);
+      return 'skipped';
+    }
+    return 'processed';
+  } catch (error: any) {
+    await storage.updateStripeEvent(event.id, { status: 'failed', detail: error?.message || 'Processing failed' })
+      .catch(() => undefined);
+    throw error;
+  }
+}
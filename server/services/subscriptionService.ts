@@ -2,7 +2,7 @@ import Stripe from "stripe";
 import { storage } from "../storage";
 import { db } from "../db";
 import { userSubscriptions, subscriptionPlans, users } from "@shared/schema";
-import { eq, and } from "drizzle-orm";
+import { eq, and, or, isNull, lte } from "drizzle-orm";
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('STRIPE_SECRET_KEY is required for subscription functionality');
@@ -318,102 +318,137 @@ export class SubscriptionService {
   }
 
   /**
-   * Handle Stripe webhook events
+   * Handle Stripe webhook events. Stripe doesn't deliver events in order, so an event older than the
+   * last one applied to the same subscription leaves the subscription's status alone, and an event for
+   * a subscription that has no row yet throws so it can be retried.
+   * @returns why the event was skipped, when it was
    */
-  async handleWebhookEvent(event: Stripe.Event): Promise<void> {
+  async handleWebhookEvent(event: Stripe.Event): Promise<string | undefined> {
     console.log(`Processing Stripe webhook: ${event.type}`);
+    const eventCreatedAt = new Date(event.created * 1000);
 
     switch (event.type) {
       case 'invoice.payment_succeeded':
-        await this.handlePaymentSucceeded(event.data.object as Stripe.Invoice);
-        break;
+        return await this.handlePaymentSucceeded(event.data.object as Stripe.Invoice, event.id, eventCreatedAt);
       case 'invoice.payment_failed':
-        await this.handlePaymentFailed(event.data.object as Stripe.Invoice);
-        break;
+        return await this.handlePaymentFailed(event.data.object as Stripe.Invoice, eventCreatedAt);
       case 'customer.subscription.updated':
-        await this.handleSubscriptionUpdated(event.data.object as Stripe.Subscription);
-        break;
+        return await this.handleSubscriptionUpdated(event.data.object as Stripe.Subscription, eventCreatedAt);
       case 'customer.subscription.deleted':
-        await this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription);
-        break;
+        return await this.handleSubscriptionDeleted(event.data.object as Stripe.Subscription, eventCreatedAt);
       case 'customer.subscription.trial_will_end':
         await this.handleTrialWillEnd(event.data.object as Stripe.Subscription);
         break;
     }
   }
 
-  private async handlePaymentSucceeded(invoice: Stripe.Invoice): Promise<void> {
-    if (!invoice.subscription) return;
-
-    // Find user subscription
+  private async findSubscription(stripeSubscriptionId: string) {
     const [userSub] = await db
       .select()
       .from(userSubscriptions)
-      .where(eq(userSubscriptions.stripeSubscriptionId, invoice.subscription as string));
+      .where(eq(userSubscriptions.stripeSubscriptionId, stripeSubscriptionId));
 
-    if (userSub) {
-      // Update user status to active
-      await storage.updateUser(userSub.userId, { subscriptionStatus: 'active' });
+    return userSub;
+  }
 
-      // Add monthly credits
-      const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, userSub.planId));
-      if (plan) {
-        await storage.addCredits(
-          userSub.userId,
-          plan.aiCreditsIncluded,
-          `Monthly credits - ${plan.name}`,
-          invoice.payment_intent as string
-        );
-      }
+  /**
+   * Applies an event's changes to the subscription unless a newer event already was.
+   * undefined when the subscription is unknown or the event is stale.
+   */
+  private async applySubscriptionEvent(
+    stripeSubscriptionId: string,
+    eventCreatedAt: Date,
+    updates: Partial<typeof userSubscriptions.$inferInsert> = {}
+  ) {
+    const [userSub] = await db.update(userSubscriptions)
+      .set({ ...updates, lastStripeEventAt: eventCreatedAt, updatedAt: new Date() })
+      .where(and(
+        eq(userSubscriptions.stripeSubscriptionId, stripeSubscriptionId),
+        or(isNull(userSubscriptions.lastStripeEventAt), lte(userSubscriptions.lastStripeEventAt, eventCreatedAt))
+      ))
+      .returning();
+
+    return userSub;
+  }
+
+  /**
+   * Why applySubscriptionEvent changed nothing. An event for a subscription with no row yet throws
+   * instead of being skipped, so it's marked failed and Stripe's retries or an admin replay can apply
+   * it once the row exists.
+   */
+  private async staleEventReason(stripeSubscriptionId: string): Promise<string> {
+    const userSub = await this.findSubscription(stripeSubscriptionId);
+    if (!userSub) {
+      throw new Error(`Unknown subscription ${stripeSubscriptionId}`);
     }
+    return `A newer event for subscription ${stripeSubscriptionId} was already applied at ${userSub.lastStripeEventAt?.toISOString()}`;
   }
 
-  private async handlePaymentFailed(invoice: Stripe.Invoice): Promise<void> {
+  private async handlePaymentSucceeded(invoice: Stripe.Invoice, eventId: string, eventCreatedAt: Date): Promise<string | undefined> {
     if (!invoice.subscription) return;
+    const stripeSubscriptionId = invoice.subscription as string;
 
-    const [userSub] = await db
-      .select()
-      .from(userSubscriptions)
-      .where(eq(userSubscriptions.stripeSubscriptionId, invoice.subscription as string));
-
+    const userSub = await this.applySubscriptionEvent(stripeSubscriptionId, eventCreatedAt);
     if (userSub) {
-      await storage.updateUser(userSub.userId, { subscriptionStatus: 'past_due' });
+      // Update user status to active
+      await storage.updateUser(userSub.userId, { subscriptionStatus: 'active' });
+    }
+
+    // The invoice was paid whatever order its events arrive in, so the monthly credits are granted
+    // even for a late event; the event id keeps a redelivery from granting them twice
+    const paidSub = userSub ?? await this.findSubscription(stripeSubscriptionId);
+    if (!paidSub) {
+      throw new Error(`Unknown subscription ${stripeSubscriptionId}`);
+    }
+
+    const [plan] = await db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, paidSub.planId));
+    if (plan) {
+      await storage.addCredits(
+        paidSub.userId,
+        plan.aiCreditsIncluded,
+        `Monthly credits - ${plan.name}`,
+        invoice.payment_intent as string,
+        eventId
+      );
     }
   }
 
-  private async handleSubscriptionUpdated(subscription: Stripe.Subscription): Promise<void> {
-    const [userSub] = await db
-      .select()
-      .from(userSubscriptions)
-      .where(eq(userSubscriptions.stripeSubscriptionId, subscription.id));
+  private async handlePaymentFailed(invoice: Stripe.Invoice, eventCreatedAt: Date): Promise<string | undefined> {
+    if (!invoice.subscription) return;
+    const stripeSubscriptionId = invoice.subscription as string;
 
-    if (userSub) {
-      await db.update(userSubscriptions)
-        .set({
-          status: subscription.status as any,
-          currentPeriodStart: new Date(subscription.current_period_start * 1000),
-          currentPeriodEnd: new Date(subscription.current_period_end * 1000),
-          cancelAtPeriodEnd: subscription.cancel_at_period_end,
-        })
-        .where(eq(userSubscriptions.id, userSub.id));
-
-      await storage.updateUser(userSub.userId, { subscriptionStatus: subscription.status as any });
+    const userSub = await this.applySubscriptionEvent(stripeSubscriptionId, eventCreatedAt);
+    if (!userSub) {
+      return await this.staleEventReason(stripeSubscriptionId);
     }
+
+    await storage.updateUser(userSub.userId, { subscriptionStatus: 'past_due' });
   }
 
-  private async handleSubscriptionDeleted(subscription: Stripe.Subscription): Promise<void> {
-    const [userSub] = await db
-      .select()
-      .from(userSubscriptions)
-      .where(eq(userSubscriptions.stripeSubscriptionId, subscription.id));
+  private async handleSubscriptionUpdated(subscription: Stripe.Subscription, eventCreatedAt: Date): Promise<string | undefined> {
+    const userSub = await this.applySubscriptionEvent(subscription.id, eventCreatedAt, {
+      status: subscription.status as any,
+      currentPeriodStart: new Date(subscription.current_period_start * 1000),
+      currentPeriodEnd: new Date(subscription.current_period_end * 1000),
+      cancelAtPeriodEnd: subscription.cancel_at_period_end,
+    });
+    if (!userSub) {
+      return await this.staleEventReason(subscription.id);
+    }
 
-    if (userSub) {
-      await db.update(userSubscriptions)
-        .set({ status: 'canceled', canceledAt: new Date() })
-        .where(eq(userSubscriptions.id, userSub.id));
+    await storage.updateUser(userSub.userId, { subscriptionStatus: subscription.status as any });
+  }
 
-      await storage.updateUser(userSub.userId, { subscriptionStatus: 'canceled' });
+  private async handleSubscriptionDeleted(subscription: Stripe.Subscription, eventCreatedAt: Date): Promise<string | undefined> {
+    const userSub = await this.applySubscriptionEvent(subscription.id, eventCreatedAt, {
+      status: 'canceled',
+      canceledAt: new Date(),
+    });
+    if (!userSub) {
+      return await this.staleEventReason(subscription.id);
     }
+
+    await storage.updateUser(userSub.userId, { subscriptionStatus: 'canceled' });
   }
 
   private async handleTrialWillEnd(subscription: Stripe.Subscription): Promise<void> {
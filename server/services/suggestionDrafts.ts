@@ -0,0 +1,183 @@
+import { storage } from "../storage";
+import { CREDITS } from "@shared/constants";
+import { logInfo, HttpError } from "@shared/errorHandler";
+import type { ProductOptimization, SuggestionDraft, UserStore } from "@shared/schema";
+import { refreshMirroredProduct } from "./shopifyProductSync";
+import { getPlatformAdapter, canSyncProducts, notConnectedMessage } from "./storePlatforms";
+import { parseItemSpecifics } from "./ebayIntegration";
+import { reserveCredits, InsufficientCreditsError } from "./creditReservations";
+
+// A draft operation that can't go ahead
+export class SuggestionDraftError extends HttpError {}
+
+/**
+ * Loads a draft and its store, checking both belong to the user
+ */
+export async function getOwnedDraft(userId: number, draftId: number): Promise<{ draft: SuggestionDraft; store: UserStore }> {
+  const draft = await storage.getSuggestionDraft(draftId);
+  if (!draft || draft.userId !== userId) {
+    throw new SuggestionDraftError('Draft not found', 404);
+  }
+
+  const store = await storage.getUserStore(draft.userStoreId);
+  if (!store || store.userId !== userId) {
+    throw new SuggestionDraftError('Store not found', 404);
+  }
+
+  return { draft, store };
+}
+
+/**
+ * Checks that edited content can be published for the draft's field
+ */
+function validateContent(draft: SuggestionDraft, content: string): void {
+  if (draft.optimizationType === 'pricing' && !/^\d+(\.\d{1,2})?$/.test(content.trim())) {
+    throw new SuggestionDraftError('Price must be a number with at most two decimals');
+  }
+  if (draft.optimizationType === 'item_specifics') {
+    try {
+      parseItemSpecifics(content);
+    } catch (error: any) {
+      throw new SuggestionDraftError(error.message);
+    }
+  }
+}
+
+/**
+ * Replaces the text that will be published. Only drafts can be edited: once approved,
+ * the merchant has signed off on (and paid for) that exact content.
+ */
+export async function updateDraftContent(draft: SuggestionDraft, content: string): Promise<SuggestionDraft> {
+  validateContent(draft, content);
+
+  const updated = await storage.transitionSuggestionDraft(draft.id, 'draft', { content });
+  if (!updated) {
+    throw new SuggestionDraftError(`Only drafts can be edited, this one is ${draft.status}`, 409);
+  }
+  return updated;
+}
+
+/**
+ * draft → approved. Credits are charged here, when the merchant commits to the content.
+ * @throws InsufficientCreditsError when the balance doesn't cover the approval
+ */
+export async function approveDraft(draft: SuggestionDraft): Promise<SuggestionDraft> {
+  const description = `Approved AI ${draft.optimizationType} suggestion`;
+  const hold = await reserveCredits(draft.userId, CREDITS.OPTIMIZATION_COST, description);
+
+  try {
+    const approved = await storage.transitionSuggestionDraft(draft.id, 'draft', {
+      status: 'approved',
+      approvedAt: new Date(),
+      creditsCharged: CREDITS.OPTIMIZATION_COST,
+    });
+    if (!approved) {
+      throw new SuggestionDraftError(`Only drafts can be approved, this one is ${draft.status}`, 409);
+    }
+
+    // A lapsed hold the balance no longer covers puts the draft back instead of approving it unpaid
+    if (!(await hold.commit(description))) {
+      await storage.transitionSuggestionDraft(draft.id, 'approved', { status: 'draft', approvedAt: null, creditsCharged: 0 });
+      throw new InsufficientCreditsError(CREDITS.OPTIMIZATION_COST, await storage.getUserCredits(draft.userId));
+    }
+    return approved;
+  } finally {
+    await hold.release();
+  }
+}
+
+/**
+ * Reads the live value of the draft's field, recorded as the optimization's original for reverts
+ */
+function getLiveValue(draft: SuggestionDraft, product: any): string {
+  switch (draft.optimizationType) {
+    case 'title':
+      return product.title;
+    case 'description':
+      return product.body_html || '';
+    case 'pricing': {
+      const variant = product.variants?.find((item: any) => String(item.id) === draft.shopifyVariantId) || product.variants?.[0];
+      return variant?.price || '';
+    }
+    case 'keywords':
+      return product.tags || '';
+    case 'item_specifics':
+      return product.item_specifics || '';
+  }
+}
+
+function buildUpdateData(draft: SuggestionDraft): any {
+  switch (draft.optimizationType) {
+    case 'title':
+      return { title: draft.content };
+    case 'description':
+      return { body_html: `<p>${draft.content}</p>` };
+    case 'pricing':
+      return { variants: [{ id: draft.shopifyVariantId, price: draft.content.trim() }] };
+    case 'keywords':
+      return { tags: draft.content };
+    case 'item_specifics':
+      return { item_specifics: draft.content };
+  }
+}
+
+/**
+ * approved → applied. Publishes the approved content verbatim and records it as an
+ * optimization so it can be reverted later.
+ */
+export async function applyDraft(store: UserStore, draft: SuggestionDraft): Promise<{ draft: SuggestionDraft; optimization: ProductOptimization }> {
+  if (!canSyncProducts(store)) {
+    throw new SuggestionDraftError(notConnectedMessage(store));
+  }
+  if (store.storeType === 'shopify' && !store.shopifyScope?.includes('write_products')) {
+    throw new SuggestionDraftError('Insufficient permissions: reconnect your store to grant write permissions', 403);
+  }
+  const platform = getPlatformAdapter(store.storeType);
+  if (!platform.optimizationTypes.includes(draft.optimizationType)) {
+    throw new SuggestionDraftError(`${platform.name} products don't support ${draft.optimizationType} changes`);
+  }
+  if (draft.optimizationType === 'pricing' && !draft.shopifyVariantId) {
+    throw new SuggestionDraftError('Draft has no variant to reprice');
+  }
+
+  // Claim the draft first so two concurrent applies can't both publish it
+  const claimed = await storage.transitionSuggestionDraft(draft.id, 'approved', { status: 'applied', appliedAt: new Date() });
+  if (!claimed) {
+    throw new SuggestionDraftError(`Only approved drafts can be applied, this one is ${draft.status}`, 409);
+  }
+
+  let originalValue: string;
+  try {
+    const product = await platform.getProduct(store, draft.shopifyProductId);
+    if (!product) {
+      throw new SuggestionDraftError('Product not found', 404);
+    }
+    originalValue = getLiveValue(draft, product);
+
+    await platform.updateProduct(store, draft.shopifyProductId, buildUpdateData(draft));
+  } catch (error) {
+    await storage.transitionSuggestionDraft(draft.id, 'applied', { status: 'approved', appliedAt: null });
+    throw error;
+  }
+
+  try {
+    await refreshMirroredProduct(store, draft.shopifyProductId);
+  } catch (error) {
+    console.error(`Failed to refresh mirrored product ${draft.shopifyProductId}:`, error);
+  }
+
+  const optimization = await storage.recordProductOptimization({
+    userId: draft.userId,
+    userStoreId: store.id,
+    shopifyProductId: draft.shopifyProductId,
+    shopifyVariantId: draft.shopifyVariantId,
+    optimizationType: draft.optimizationType,
+    originalValue,
+    optimizedValue: draft.content,
+    creditsUsed: draft.creditsCharged,
+  });
+  const applied = await storage.updateSuggestionDraft(draft.id, { optimizationId: optimization.id });
+
+  logInfo('Suggestion Drafts', `Applied ${draft.optimizationType} draft ${draft.id} to product ${draft.shopifyProductId}`);
+  return { draft: applied || claimed, optimization };
+}
@@ -0,0 +1,389 @@
+import { storage } from "../storage";
+import { SHOPIFY_SYNC, WOOCOMMERCE } from "@shared/constants";
+import { logInfo, HttpError } from "@shared/errorHandler";
+import type { MirroredShopifyProductInput, UserStore } from "@shared/schema";
+import type { ShopifyStore } from "./shopifyIntegration";
+import type { ProductSyncResult } from "./shopifyProductSync";
+import { toRestProduct } from "./shopifyProductSync";
+import { revealCredential } from "./credentialVault";
+
+// A WooCommerce operation that can't go ahead
+export class WooCommerceError extends HttpError {}
+
+export interface WooCommerceCredentials {
+  consumerKey: string;
+  consumerSecret: string;
+}
+
+// The store details analyses and the rule engine read, from the store's general settings
+export interface WooCommerceStoreInfo {
+  name: string;
+  siteUrl: string;
+  email: string;
+  currency: string;
+  countryCode: string;
+  addressLines: string[];
+}
+
+/**
+ * Normalizes a store URL to the WordPress site root the REST API hangs off.
+ * Credentials go in a Basic auth header, so anything but a local mock server must use https.
+ * Local hosts are refused unless WOOCOMMERCE_ALLOW_LOCAL=true, otherwise any user could point
+ * the server's API calls at internal ports.
+ */
+export function getWooCommerceSiteUrl(storeUrl: string): string {
+  let url: URL;
+  try {
+    url = new URL(/^https?:\/\//i.test(storeUrl) ? storeUrl : `https://${storeUrl}`);
+  } catch {
+    throw new WooCommerceError('Invalid store URL');
+  }
+
+  const isLocalHost = (WOOCOMMERCE.LOCAL_HOSTS as readonly string[]).includes(url.hostname);
+  if (isLocalHost && process.env.WOOCOMMERCE_ALLOW_LOCAL !== 'true') {
+    throw new WooCommerceError('Invalid store URL');
+  }
+  if (url.protocol !== 'https:' && !isLocalHost) {
+    throw new WooCommerceError('WooCommerce stores must be served over https to connect');
+  }
+  // WordPress can be installed in a subdirectory
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`;
+}
+
+function getConnection(store: UserStore): { siteUrl: string; credentials: WooCommerceCredentials } {
+  if (store.storeType !== 'woocommerce' || !store.storeUrl || !store.wooConsumerKey || !store.wooConsumerSecret) {
+    throw new WooCommerceError('Store not connected to WooCommerce');
+  }
+  return {
+    siteUrl: getWooCommerceSiteUrl(store.storeUrl),
+    credentials: { consumerKey: store.wooConsumerKey, consumerSecret: store.wooConsumerSecret },
+  };
+}
+
+/**
+ * Calls the WooCommerce REST API. Returns the parsed body and the page count
+ * WordPress reports for list endpoints.
+ */
+async function wooCommerceRequest(
+  siteUrl: string,
+  credentials: WooCommerceCredentials,
+  method: string,
+  path: string,
+  body?: unknown
+): Promise<{ data: any; totalPages: number }> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), WOOCOMMERCE.REQUEST_TIMEOUT_MS);
+
+  try {
+    const response = await fetch(`${siteUrl}${WOOCOMMERCE.API_PATH}${path}`, {
+      method,
+      headers: {
+        'Authorization': `Basic ${Buffer.from(`${revealCredential(credentials.consumerKey)}:${revealCredential(credentials.consumerSecret)}`).toString('base64')}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok) {
+      const detail: any = await response.json().catch(() => null);
+      const message = detail?.message || response.statusText;
+      if (response.status === 401 || response.status === 403) {
+        throw new WooCommerceError(`WooCommerce rejected the API keys: ${message}`, 401);
+      }
+      if (response.status === 404) {
+        throw new WooCommerceError(`WooCommerce resource not found: ${message}`, 404);
+      }
+      // 429s and 5xx are worth retrying, which isTransientError reads from statusCode
+      throw new WooCommerceError(`WooCommerce API error (${response.status}): ${message}`, response.status === 429 ? 429 : 502);
+    }
+
+    return {
+      data: await response.json(),
+      totalPages: parseInt(response.headers.get('x-wp-totalpages') || '1', 10) || 1,
+    };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Checks the key pair can read products before it is saved
+ */
+export async function verifyWooCommerceCredentials(storeUrl: string, credentials: WooCommerceCredentials): Promise<void> {
+  await wooCommerceRequest(getWooCommerceSiteUrl(storeUrl), credentials, 'GET', '/products?per_page=1');
+}
+
+const toDate = (gmt: string | null | undefined) => gmt ? new Date(/Z$/.test(gmt) ? gmt : `${gmt}Z`) : null;
+
+// WooCommerce statuses mapped onto the Shopify ones the rest of the app filters on
+const STATUS_MAP: Record<string, string> = {
+  publish: 'active',
+  draft: 'draft',
+  pending: 'draft',
+  private: 'archived',
+};
+
+/**
+ * Converts a REST API product into mirror rows. Simple products become a single variant
+ * that shares the product's id; variable products page through their variations.
+ */
+async function toMirrorInput(siteUrl: string, credentials: WooCommerceCredentials, product: any): Promise<MirroredShopifyProductInput> {
+  let variations: any[] = [product];
+  if (product.type === 'variable' && product.variations?.length > 0) {
+    variations = [];
+    let page = 1;
+    let totalPages = 1;
+    do {
+      const result = await wooCommerceRequest(siteUrl, credentials, 'GET', `/products/${product.id}/variations?per_page=${WOOCOMMERCE.PAGE_SIZE}&page=${page}`);
+      variations.push(...result.data);
+      totalPages = result.totalPages;
+    } while (++page <= totalPages);
+  }
+
+  return {
+    shopifyProductId: String(product.id),
+    title: product.name,
+    handle: product.slug,
+    descriptionHtml: product.description || null,
+    productType: product.categories?.[0]?.name || null,
+    vendor: null,
+    tags: (product.tags || []).map((tag: any) => tag.name),
+    status: STATUS_MAP[product.status] || product.status,
+    seoTitle: null,
+    seoDescription: null,
+    shopifyCreatedAt: toDate(product.date_created_gmt),
+    shopifyUpdatedAt: toDate(product.date_modified_gmt),
+    variants: variations.map((variation: any, position: number) => ({
+      shopifyVariantId: String(variation.id),
+      title: variation === product
+        ? 'Default Title'
+        : (variation.attributes || []).map((attribute: any) => attribute.option).join(' / ') || `Variation ${variation.id}`,
+      price: variation.price || null,
+      compareAtPrice: variation.on_sale ? variation.regular_price || null : null,
+      sku: variation.sku || null,
+      inventoryQuantity: variation.manage_stock ? variation.stock_quantity : null,
+      position,
+    })),
+    images: (product.images || []).map((image: any, position: number) => ({
+      shopifyImageId: String(image.id),
+      src: image.src,
+      altText: image.alt || null,
+      position,
+    })),
+  };
+}
+
+/**
+ * Walks the store's catalog into the product mirror. Full syncs prune products that are gone;
+ * incremental ones only ask for products modified since the last successful sync.
+ */
+export async function runWooCommerceSync(store: UserStore, full: boolean): Promise<ProductSyncResult> {
+  const { siteUrl, credentials } = getConnection(store);
+  const startedAt = new Date();
+  const mode = full ? 'full' : 'incremental';
+  const modifiedAfter = full
+    ? ''
+    : `&modified_after=${encodeURIComponent(new Date(store.productsSyncedAt!.getTime() - SHOPIFY_SYNC.UPDATED_AT_OVERLAP_MS).toISOString())}&dates_are_gmt=true`;
+
+  await storage.updateUserStore(store.id, { productSyncStatus: 'syncing', productSyncError: null });
+  logInfo('WooCommerce Sync', `Starting ${mode} product sync for store ${store.id}`);
+
+  try {
+    let synced = 0;
+    let page = 1;
+    let totalPages = 1;
+
+    do {
+      const result = await wooCommerceRequest(siteUrl, credentials, 'GET', `/products?per_page=${WOOCOMMERCE.PAGE_SIZE}&page=${page}&orderby=id&order=asc${modifiedAfter}`);
+
+      const batch: MirroredShopifyProductInput[] = [];
+      for (const product of result.data) {
+        batch.push(await toMirrorInput(siteUrl, credentials, product));
+      }
+      await storage.upsertShopifyProducts(store.id, batch, startedAt);
+      synced += batch.length;
+      totalPages = result.totalPages;
+    } while (++page <= totalPages);
+
+    const removed = full ? await storage.deleteStaleShopifyProducts(store.id, startedAt) : 0;
+
+    await storage.updateUserStore(store.id, {
+      productSyncStatus: 'idle',
+      productSyncError: null,
+      productsSyncedAt: startedAt,
+      lastSyncAt: new Date(),
+    });
+
+    logInfo('WooCommerce Sync', `Finished ${mode} sync for store ${store.id}`, { synced, removed });
+    return { mode, synced, removed };
+  } catch (error: any) {
+    await storage.updateUserStore(store.id, {
+      productSyncStatus: 'error',
+      productSyncError: error.message || 'Product sync failed',
+    });
+    throw error;
+  }
+}
+
+/**
+ * Re-reads one product into the mirror and returns it in the REST-style shape,
+ * or null when the product no longer exists
+ */
+export async function fetchWooCommerceProduct(store: UserStore, productId: string): Promise<{ product: ReturnType<typeof toRestProduct> | null }> {
+  const { siteUrl, credentials } = getConnection(store);
+
+  let product: any;
+  try {
+    product = (await wooCommerceRequest(siteUrl, credentials, 'GET', `/products/${productId}`)).data;
+  } catch (error) {
+    if (error instanceof WooCommerceError && error.statusCode === 404) return { product: null };
+    throw error;
+  }
+
+  await storage.upsertShopifyProducts(store.id, [await toMirrorInput(siteUrl, credentials, product)], new Date());
+  const mirrored = await storage.getShopifyProduct(store.id, productId);
+  return { product: mirrored ? toRestProduct(mirrored) : null };
+}
+
+/**
+ * Applies a Shopify-style product update (title, body_html, tags, variants[].price)
+ * so optimization and revert code can stay platform-agnostic
+ */
+export async function updateWooCommerceProduct(store: UserStore, productId: string, updateData: any): Promise<void> {
+  const { siteUrl, credentials } = getConnection(store);
+
+  const fields: Record<string, unknown> = {};
+  if (updateData.title !== undefined) fields.name = updateData.title;
+  if (updateData.body_html !== undefined) fields.description = updateData.body_html;
+  if (updateData.tags !== undefined) {
+    fields.tags = String(updateData.tags).split(',').map(tag => tag.trim()).filter(Boolean).map(name => ({ name }));
+  }
+  if (Object.keys(fields).length > 0) {
+    await wooCommerceRequest(siteUrl, credentials, 'PUT', `/products/${productId}`, fields);
+  }
+
+  for (const variant of updateData.variants || []) {
+    const path = String(variant.id) === String(productId)
+      ? `/products/${productId}`
+      : `/products/${productId}/variations/${variant.id}`;
+    // Change whichever price is in effect: the sale price while one is set, otherwise the regular price
+    const { data: current } = await wooCommerceRequest(siteUrl, credentials, 'GET', path);
+    const priceField = current.sale_price ? 'sale_price' : 'regular_price';
+    await wooCommerceRequest(siteUrl, credentials, 'PUT', path, { [priceField]: String(variant.price) });
+  }
+}
+
+/**
+ * Reads the store's address, country and currency from its general settings
+ */
+export async function getWooCommerceStoreInfo(store: UserStore): Promise<WooCommerceStoreInfo> {
+  const { siteUrl, credentials } = getConnection(store);
+  const { data } = await wooCommerceRequest(siteUrl, credentials, 'GET', '/settings/general');
+  const settings: Record<string, string> = Object.fromEntries((data as any[]).map(setting => [setting.id, setting.value]));
+
+  // The default country is stored as "US:CA" when a state is chosen
+  const [countryCode, state] = (settings.woocommerce_default_country || '').split(':');
+  const cityLine = [settings.woocommerce_store_postcode, settings.woocommerce_store_city, state].filter(Boolean).join(' ');
+
+  return {
+    name: store.name,
+    siteUrl,
+    email: settings.woocommerce_email_from_address || '',
+    currency: settings.woocommerce_currency || '',
+    countryCode: countryCode || '',
+    addressLines: [settings.woocommerce_store_address, settings.woocommerce_store_address_2, cityLine].filter(Boolean),
+  };
+}
+
+/**
+ * The subset of Shopify shop fields the rule engine checks, filled from WooCommerce settings
+ */
+export function toRuleShopInfo(info: WooCommerceStoreInfo): Partial<ShopifyStore> {
+  return {
+    name: info.name,
+    customer_email: info.email,
+    currency: info.currency,
+    country_code: info.countryCode,
+    force_ssl: info.siteUrl.startsWith('https://'),
+  };
+}
+
+/**
+ * Create store analysis content from WooCommerce API data
+ */
+export function createWooCommerceAnalysisContent(info: WooCommerceStoreInfo, products: any[]): string {
+  const productDescriptions = products.map(p => ({
+    title: p.title,
+    description: p.body_html?.replace(/<[^>]*>/g, '').substring(0, 200) || '',
+    price: p.variants?.[0]?.price || '0',
+    images: p.images?.length || 0
+  }));
+
+  return `
+WOOCOMMERCE STORE ANALYSIS - ${info.name}
+
+Store Information:
+- Store Name: ${info.name}
+- Site: ${info.siteUrl}
+- Currency: ${info.currency}
+- Country: ${info.countryCode}
+- Address: ${info.addressLines.join(', ') || 'Not set'}
+- Contact Email: ${info.email || 'Not set'}
+- SSL Enabled: ${info.siteUrl.startsWith('https://')}
+
+Product Catalog:
+- Total Products Analyzed: ${products.length}
+- Product Details: ${JSON.stringify(productDescriptions.slice(0, 10), null, 2)}
+
+This is a WooCommerce (WordPress) store that should be analyzed for:
+1. Product catalog optimization
+2. SEO and content quality
+3. Trust signals and policies
+4. Conversion optimization
+5. Mobile responsiveness
+6. Site performance
+`;
+}
+
+/**
+ * Reads products from the public Store API for storefront analyses, where we have no keys.
+ * Prices come in minor units. Returns REST-style products, or an empty array if the API is unavailable.
+ */
+export async function fetchWooCommerceStorefrontProducts(storeUrl: string): Promise<any[]> {
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), WOOCOMMERCE.REQUEST_TIMEOUT_MS);
+    const response = await fetch(`${getWooCommerceSiteUrl(storeUrl)}${WOOCOMMERCE.STORE_API_PATH}/products?per_page=${WOOCOMMERCE.PAGE_SIZE}`, {
+      headers: { 'Accept': 'application/json' },
+      signal: controller.signal,
+    });
+    clearTimeout(timeoutId);
+
+    if (!response.ok) return [];
+    const products = await response.json();
+    if (!Array.isArray(products)) return [];
+
+    return products.map((product: any) => {
+      const minorUnit = product.prices?.currency_minor_unit ?? 2;
+      const toPrice = (value: string | undefined) => value ? (parseInt(value, 10) / 10 ** minorUnit).toFixed(minorUnit) : null;
+      return {
+        id: String(product.id),
+        title: product.name,
+        handle: product.slug,
+        body_html: product.description || '',
+        product_type: product.categories?.[0]?.name || null,
+        tags: (product.tags || []).map((tag: any) => tag.name).join(','),
+        images: (product.images || []).map((image: any) => ({ id: image.id, src: image.src, alt: image.alt || null })),
+        variants: [{
+          id: String(product.id),
+          price: toPrice(product.prices?.price),
+          compare_at_price: product.on_sale ? toPrice(product.prices?.regular_price) : null,
+        }],
+      };
+    });
+  } catch (error) {
+    return [];
+  }
+}
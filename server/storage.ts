@@ -3,12 +3,31 @@ import {
   users,
   userStores,
   creditTransactions,
+  creditReservations,
   userSessions,
+  oauthStates,
   productOptimizations,
   subscriptionPlans,
   userSubscriptions,
+  adminAuditLogs,
+  processedStripeEvents,
   alexChatSessions,
   alexChatMessages,
+  analysisJobs,
+  notifications,
+  shopifyProducts,
+  shopifyProductVariants,
+  shopifyProductImages,
+  complianceRequests,
+  suggestionDrafts,
+  bulkOptimizationJobs,
+  bulkOptimizationItems,
+  themePreviews,
+  legalDocumentVersions,
+  conversionActions,
+  trustOptimizationChanges,
+  storeCompetitors,
+  competitorAnalyses,
   type StoreAnalysis, 
   type InsertStoreAnalysis,
   type User,
@@ -16,14 +35,55 @@ import {
   type UserStore,
   type InsertUserStore,
   type CreditTransaction,
+  type CreditReservation,
   type UserSession,
+  type OAuthState,
+  type InsertOAuthState,
+  type AdminAuditLog,
+  type InsertAdminAuditLog,
+  type ProcessedStripeEvent,
+  type InsertProcessedStripeEvent,
+  type StripeEventStatus,
   type ProductOptimization,
+  type ProductOptimizationType,
   type SubscriptionPlan,
   type UserSubscription,
   type AlexChatSession,
-  type AlexChatMessage
+  type AlexChatMessage,
+  type AnalysisJob,
+  type InsertAnalysisJob,
+  type Notification,
+  type InsertNotification,
+  type MirroredShopifyProduct,
+  type MirroredShopifyProductInput,
+  type ComplianceRequest,
+  type InsertComplianceRequest,
+  type SuggestionDraft,
+  type InsertSuggestionDraft,
+  type SuggestionDraftStatus,
+  type BulkOptimizationJob,
+  type InsertBulkOptimizationJob,
+  type BulkOptimizationItem,
+  type BulkOptimizationItemStatus,
+  type ThemePreview,
+  type InsertThemePreview,
+  type LegalDocumentVersion,
+  type InsertLegalDocumentVersion,
+  type LegalDocumentType,
+  type ConversionAction,
+  type InsertConversionAction,
+  type ConversionActionType,
+  type TrustOptimizationChange,
+  type InsertTrustOptimizationChange,
+  type TrustOptimizationType,
+  type TrustResourceType,
+  type StoreCompetitor,
+  type InsertStoreCompetitor,
+  type CompetitorAnalysis,
+  type InsertCompetitorAnalysis,
+  type StoreDataPurgeResult
 } from "@shared/schema";
-import { eq, desc, and, gt } from "drizzle-orm";
+import { eq, desc, asc, and, or, gt, gte, lt, lte, ne, sql, ilike, inArray, isNull } from "drizzle-orm";
 import bcrypt from "bcryptjs";
 import { randomUUID } from "crypto";
 import { db } from "./db";
@@ -34,8 +94,10 @@ export interface IStorage {
   // Store analysis methods
   getStoreAnalysis(id: number): Promise<StoreAnalysis | undefined>;
   createStoreAnalysis(analysis: Omit<InsertStoreAnalysis, 'id'>): Promise<StoreAnalysis>;
+  updateStoreAnalysis(id: number, updates: Partial<StoreAnalysis>): Promise<StoreAnalysis | undefined>;
   getRecentAnalyses(limit?: number): Promise<StoreAnalysis[]>;
   getUserAnalyses(userId: number, limit?: number): Promise<StoreAnalysis[]>;
+  getUserStoreAnalyses(userStoreId: number, limit?: number): Promise<StoreAnalysis[]>;
   
   // User management methods
   createUser(userData: Omit<InsertUser, 'id' | 'createdAt' | 'updatedAt'>): Promise<User>;
@@ -43,37 +105,78 @@ export interface IStorage {
   getUserById(id: number): Promise<User | undefined>;
   updateUser(id: number, updates: Partial<User>): Promise<User | undefined>;
   validateUserCredentials(email: string, password: string): Promise<User | null>;
+  // Matches email or name, or the user id when the query is a number
+  searchUsers(query: string, limit?: number): Promise<User[]>;
   
   // User stores methods
   createUserStore(storeData: Omit<InsertUserStore, 'id' | 'createdAt' | 'updatedAt'>): Promise<UserStore>;
   getUserStores(userId: number): Promise<UserStore[]>;
   getUserStore(id: number): Promise<UserStore | undefined>;
   updateUserStore(id: number, updates: Partial<UserStore>): Promise<UserStore | undefined>;
+  getStoresDueForAnalysis(now: Date, limit: number): Promise<UserStore[]>;
+  getUserStoresByShopifyDomain(shopDomain: string): Promise<UserStore[]>;
   deleteUserStore(id: number): Promise<boolean>;
+  purgeUserStoreData(userStoreId: number): Promise<StoreDataPurgeResult>;
   
   // Credit management methods
   getUserCredits(userId: number): Promise<number>;
   deductCredits(userId: number, amount: number, description: string, analysisId?: number): Promise<boolean>;
-  addCredits(userId: number, amount: number, description: string, stripePaymentId?: string): Promise<boolean>;
+  // With a stripeEventId the grant happens at most once per event; false when the user doesn't exist or the event was already granted
+  addCredits(userId: number, amount: number, description: string, stripePaymentId?: string, stripeEventId?: string): Promise<boolean>;
   getCreditTransactions(userId: number, limit?: number): Promise<CreditTransaction[]>;
+  // Signed admin adjustment; undefined when the user doesn't exist or the balance would go below zero
+  adjustCredits(userId: number, amount: number, type: 'bonus' | 'refund', description: string): Promise<User | undefined>;
+
+  // Credit reservation methods
+  // Takes the credits off the balance in one step; undefined when the balance doesn't cover them
+  reserveCredits(userId: number, amount: number, description: string, expiresAt: Date): Promise<CreditReservation | undefined>;
+  getCreditReservation(id: number): Promise<CreditReservation | undefined>;
+  // Charges part or all of an open hold as usage; undefined when the hold is closed or the amount exceeds what's left of it
+  commitCreditReservation(id: number, amount: number, description: string, analysisId?: number): Promise<CreditReservation | undefined>;
+  // Closes an open hold and returns what wasn't committed; undefined when it was already closed
+  releaseCreditReservation(id: number, status?: 'released' | 'expired'): Promise<CreditReservation | undefined>;
+  getExpiredCreditReservations(now: Date, limit: number): Promise<CreditReservation[]>;
+
+  // Subscription history methods
+  getUserSubscriptions(userId: number): Promise<UserSubscription[]>;
   
   // Session management methods
-  createSession(userId: number): Promise<UserSession>;
+  createSession(userId: number, options?: { impersonatedBy?: number; ttlMs?: number }): Promise<UserSession>;
   getSession(sessionId: string): Promise<UserSession | undefined>;
   deleteSession(sessionId: string): Promise<boolean>;
   cleanExpiredSessions(): Promise<void>;
+
+  // OAuth state methods
+  createOAuthState(state: InsertOAuthState): Promise<OAuthState>;
+  // Marks the state used and returns it; undefined when it doesn't exist or was already used
+  consumeOAuthState(state: string): Promise<OAuthState | undefined>;
+  deleteExpiredOAuthStates(before: Date): Promise<number>;
   
   // Product optimization tracking methods
   recordProductOptimization(data: {
     userId: number;
     userStoreId: number;
     shopifyProductId: string;
-    optimizationType: 'title' | 'description' | 'pricing' | 'keywords';
+    optimizationType: ProductOptimizationType;
     originalValue: string;
     optimizedValue: string;
     creditsUsed: number;
+    shopifyVariantId?: string | null;
   }): Promise<ProductOptimization>;
   getProductOptimizations(userStoreId: number, optimizationType?: string): Promise<ProductOptimization[]>;
+  getProductOptimization(id: number): Promise<ProductOptimization | undefined>;
+  updateProductOptimization(id: number, updates: Partial<ProductOptimization>): Promise<ProductOptimization | undefined>;
+  // Only updates the row while it is still in fromStatus; undefined otherwise
+  transitionProductOptimization(id: number, fromStatus: ProductOptimization['status'], updates: Partial<ProductOptimization>): Promise<ProductOptimization | undefined>;
+
+  // Suggestion draft methods
+  createSuggestionDraft(draft: InsertSuggestionDraft): Promise<SuggestionDraft>;
+  getSuggestionDraft(id: number): Promise<SuggestionDraft | undefined>;
+  getSuggestionDrafts(userStoreId: number, status?: SuggestionDraftStatus): Promise<SuggestionDraft[]>;
+  getSuggestionDraftByOptimizationId(optimizationId: number): Promise<SuggestionDraft | undefined>;
+  updateSuggestionDraft(id: number, updates: Partial<SuggestionDraft>): Promise<SuggestionDraft | undefined>;
+  transitionSuggestionDraft(id: number, fromStatus: SuggestionDraftStatus, updates: Partial<SuggestionDraft>): Promise<SuggestionDraft | undefined>;
+  deleteSuggestionDraft(id: number): Promise<boolean>;
   isProductOptimized(userStoreId: number, shopifyProductId: string, optimizationType: string): Promise<boolean>;
 
   // Alex chat methods
@@ -86,8 +189,112 @@ export interface IStorage {
   addChatMessage(sessionId: number, userId: number, content: string, isFromAlex: boolean, actions?: any[]): Promise<AlexChatMessage>;
   getChatMessages(sessionId: number, limit?: number): Promise<AlexChatMessage[]>;
   clearChatHistory(sessionId: number): Promise<boolean>;
+  findChatMessagesContaining(userId: number, terms: string[]): Promise<AlexChatMessage[]>;
+  redactChatMessages(userId: number, terms: string[]): Promise<number>;
+
+  // Analysis job queue methods
+  createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob>;
+  getAnalysisJob(id: number): Promise<AnalysisJob | undefined>;
+  updateAnalysisJob(id: number, updates: Partial<AnalysisJob>): Promise<AnalysisJob | undefined>;
+  claimNextAnalysisJob(): Promise<AnalysisJob | undefined>;
+  requeueStaleAnalysisJobs(lockedBefore: Date): Promise<number>;
+  refreshAnalysisJobLock(id: number): Promise<void>;
+
+  // Bulk optimization job methods
+  createBulkOptimizationJob(job: InsertBulkOptimizationJob, productIds: string[]): Promise<BulkOptimizationJob>;
+  getBulkOptimizationJob(id: number): Promise<BulkOptimizationJob | undefined>;
+  getBulkOptimizationJobs(userStoreId: number, limit?: number): Promise<BulkOptimizationJob[]>;
+  updateBulkOptimizationJob(id: number, updates: Partial<BulkOptimizationJob>): Promise<BulkOptimizationJob | undefined>;
+  incrementBulkOptimizationJobCounts(id: number, counts: { succeededItems?: number; failedItems?: number; creditsUsed?: number }): Promise<void>;
+  claimNextBulkOptimizationJob(): Promise<BulkOptimizationJob | undefined>;
+  refreshBulkOptimizationJobLock(id: number): Promise<void>;
+  requeueStaleBulkOptimizationJobs(lockedBefore: Date): Promise<number>;
+  getBulkOptimizationItems(jobId: number): Promise<BulkOptimizationItem[]>;
+  claimNextBulkOptimizationItem(jobId: number): Promise<BulkOptimizationItem | undefined>;
+  updateBulkOptimizationItem(id: number, updates: Partial<BulkOptimizationItem>): Promise<BulkOptimizationItem | undefined>;
+  transitionBulkOptimizationItem(id: number, fromStatus: BulkOptimizationItemStatus, claimedAt: Date | null, updates: Partial<BulkOptimizationItem>): Promise<BulkOptimizationItem | undefined>;
+  cancelPendingBulkOptimizationItems(jobId: number): Promise<number>;
+
+  // Shopify product mirror methods
+  upsertShopifyProducts(userStoreId: number, products: MirroredShopifyProductInput[], syncedAt: Date): Promise<void>;
+  getShopifyProducts(userStoreId: number): Promise<MirroredShopifyProduct[]>;
+  getShopifyProduct(userStoreId: number, shopifyProductId: string): Promise<MirroredShopifyProduct | undefined>;
+  getShopifyProductCount(userStoreId: number): Promise<number>;
+  deleteStaleShopifyProducts(userStoreId: number, syncedBefore: Date): Promise<number>;
+  deleteShopifyProduct(userStoreId: number, shopifyProductId: string): Promise<boolean>;
+
+  // Notification methods
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getUserNotifications(userId: number, limit?: number): Promise<Notification[]>;
+  markNotificationRead(id: number, userId: number): Promise<Notification | undefined>;
+  markAllNotificationsRead(userId: number): Promise<number>;
+
+  // Compliance request methods
+  createComplianceRequest(request: InsertComplianceRequest): Promise<ComplianceRequest>;
+  updateComplianceRequest(id: number, updates: Partial<ComplianceRequest>): Promise<ComplianceRequest | undefined>;
+  getComplianceRequest(id: number): Promise<ComplianceRequest | undefined>;
+  getComplianceRequests(limit?: number): Promise<ComplianceRequest[]>;
+
+  // Admin audit log methods
+  createAdminAuditLog(entry: InsertAdminAuditLog): Promise<AdminAuditLog>;
+  getAdminAuditLogs(filter?: { targetUserId?: number; limit?: number }): Promise<AdminAuditLog[]>;
+
+  // Stripe webhook ledger methods
+  // Records the event as 'processing', or takes over a failed one or one abandoned mid-way (last updated before staleBefore).
+  // undefined when the event was already handled or is being handled right now
+  claimStripeEvent(event: InsertProcessedStripeEvent, staleBefore: Date): Promise<ProcessedStripeEvent | undefined>;
+  getStripeEvent(id: string): Promise<ProcessedStripeEvent | undefined>;
+  getStripeEvents(filter?: { status?: StripeEventStatus; limit?: number }): Promise<ProcessedStripeEvent[]>;
+  updateStripeEvent(id: string, updates: Partial<ProcessedStripeEvent>): Promise<ProcessedStripeEvent | undefined>;
+
+  // Theme preview methods
+  createThemePreview(preview: InsertThemePreview): Promise<ThemePreview>;
+  getThemePreview(id: number): Promise<ThemePreview | undefined>;
+  getThemePreviews(userStoreId: number): Promise<ThemePreview[]>;
+  updateThemePreview(id: number, updates: Partial<ThemePreview>): Promise<ThemePreview | undefined>;
+
+  // Legal document methods; versions are numbered per store and document type
+  createLegalDocumentVersion(document: Omit<InsertLegalDocumentVersion, 'version'>): Promise<LegalDocumentVersion>;
+  getLegalDocumentVersion(id: number): Promise<LegalDocumentVersion | undefined>;
+  getLegalDocumentVersions(userStoreId: number, documentType?: LegalDocumentType): Promise<LegalDocumentVersion[]>;
+  getLatestLegalDocumentVersion(userStoreId: number, documentType: LegalDocumentType): Promise<LegalDocumentVersion | undefined>;
+
+  // Conversion action methods
+  createConversionAction(action: InsertConversionAction): Promise<ConversionAction>;
+  getConversionAction(id: number): Promise<ConversionAction | undefined>;
+  getConversionActions(userStoreId: number): Promise<ConversionAction[]>;
+  getAppliedConversionAction(userStoreId: number, actionType: ConversionActionType): Promise<ConversionAction | undefined>;
+  updateConversionAction(id: number, updates: Partial<ConversionAction>): Promise<ConversionAction | undefined>;
+
+  // Trust optimization change methods
+  createTrustOptimizationChange(change: InsertTrustOptimizationChange): Promise<TrustOptimizationChange>;
+  getTrustOptimizationChanges(userStoreId: number, trustType?: TrustOptimizationType): Promise<TrustOptimizationChange[]>;
+  getAppliedTrustOptimizationChange(userStoreId: number, trustType: TrustOptimizationType, resourceType: TrustResourceType, resourceId: string): Promise<TrustOptimizationChange | undefined>;
+  updateTrustOptimizationChange(id: number, updates: Partial<TrustOptimizationChange>): Promise<TrustOptimizationChange | undefined>;
+
+  // Competitor benchmark methods
+  // undefined when the store already has maxPerStore competitors
+  createStoreCompetitor(competitor: InsertStoreCompetitor, maxPerStore: number): Promise<StoreCompetitor | undefined>;
+  getStoreCompetitor(id: number): Promise<StoreCompetitor | undefined>;
+  getStoreCompetitors(userStoreId: number): Promise<StoreCompetitor[]>;
+  deleteStoreCompetitor(id: number): Promise<boolean>;
+  createCompetitorAnalysis(analysis: InsertCompetitorAnalysis): Promise<CompetitorAnalysis>;
+  updateCompetitorAnalysis(id: number, updates: Partial<CompetitorAnalysis>): Promise<CompetitorAnalysis | undefined>;
+  getCompetitorAnalysis(id: number): Promise<CompetitorAnalysis | undefined>;
+  getLatestCompetitorAnalysis(competitorId: number): Promise<CompetitorAnalysis | undefined>;
+}
+
+// Replaces every case-insensitive occurrence of the terms in a chat message
+function redactTerms(content: string, terms: string[]): string {
+  return terms.reduce((text, term) => {
+    const pattern = new RegExp(term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'), 'gi');
+    return text.replace(pattern, '[redacted]');
+  }, content);
 }
 
+// Recorded on bulk items whose worker died between starting the store update and recording it
+const STALE_PUBLISHING_ITEM_ERROR = 'The worker stopped while updating this product; check the product before optimizing it again';
+
 export class DatabaseStorage implements IStorage {
 
   // Store analysis methods
@@ -103,12 +310,27 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async updateStoreAnalysis(id: number, updates: Partial<StoreAnalysis>): Promise<StoreAnalysis | undefined> {
+    const result = await db.update(storeAnalyses)
+      .set(updates)
+      .where(eq(storeAnalyses.id, id))
+      .returning();
+    return result[0];
+  }
+
   async getRecentAnalyses(limit: number = 10): Promise<StoreAnalysis[]> {
     return await db.select().from(storeAnalyses)
       .orderBy(desc(storeAnalyses.createdAt))
       .limit(limit);
   }
 
+  async getUserStoreAnalyses(userStoreId: number, limit: number = 20): Promise<StoreAnalysis[]> {
+    return await db.select().from(storeAnalyses)
+      .where(eq(storeAnalyses.userStoreId, userStoreId))
+      .orderBy(desc(storeAnalyses.createdAt))
+      .limit(limit);
+  }
+
   async getUserAnalyses(userId: number, limit: number = 20): Promise<StoreAnalysis[]> {
     return await db.select().from(storeAnalyses)
       .where(eq(storeAnalyses.userId, userId))
@@ -155,6 +377,23 @@ export class DatabaseStorage implements IStorage {
     return isValid ? user : null;
   }
 
+  async searchUsers(query: string, limit: number = 25): Promise<User[]> {
+    const pattern = `%${query.replace(/[\\%_]/g, '\\$&')}%`;
+    const conditions = [
+      ilike(users.email, pattern),
+      ilike(users.firstName, pattern),
+      ilike(users.lastName, pattern),
+    ];
+    if (/^\d+$/.test(query)) {
+      conditions.push(eq(users.id, parseInt(query)));
+    }
+
+    return await db.select().from(users)
+      .where(or(...conditions))
+      .orderBy(desc(users.createdAt))
+      .limit(limit);
+  }
+
   // User stores methods
   async createUserStore(storeData: Omit<InsertUserStore, 'id' | 'createdAt' | 'updatedAt'>): Promise<UserStore> {
     const result = await db.insert(userStores).values(storeData).returning();
@@ -180,11 +419,69 @@ export class DatabaseStorage implements IStorage {
     return result[0];
   }
 
+  async getStoresDueForAnalysis(now: Date, limit: number): Promise<UserStore[]> {
+    return await db.select().from(userStores)
+      .where(and(
+        ne(userStores.analysisSchedule, 'off'),
+        lte(userStores.nextScheduledAnalysisAt, now)
+      ))
+      .orderBy(userStores.nextScheduledAnalysisAt)
+      .limit(limit);
+  }
+
+  async getUserStoresByShopifyDomain(shopDomain: string): Promise<UserStore[]> {
+    return await db.select().from(userStores)
+      .where(eq(userStores.shopifyDomain, shopDomain));
+  }
+
   async deleteUserStore(id: number): Promise<boolean> {
     const result = await db.delete(userStores).where(eq(userStores.id, id));
     return result.rowCount > 0;
   }
 
+  async purgeUserStoreData(userStoreId: number): Promise<StoreDataPurgeResult> {
+    return await db.transaction(async (tx) => {
+      const analysisIds = (await tx.select({ id: storeAnalyses.id }).from(storeAnalyses)
+        .where(eq(storeAnalyses.userStoreId, userStoreId)))
+        .map(row => row.id);
+
+      const jobs = await tx.delete(analysisJobs)
+        .where(eq(analysisJobs.userStoreId, userStoreId))
+        .returning({ id: analysisJobs.id });
+
+      if (analysisIds.length > 0) {
+        // The credit ledger is kept for accounting, only its link to the deleted analyses is dropped
+        await tx.update(creditTransactions)
+          .set({ relatedAnalysisId: null })
+          .where(inArray(creditTransactions.relatedAnalysisId, analysisIds));
+      }
+
+      const analyses = await tx.delete(storeAnalyses)
+        .where(eq(storeAnalyses.userStoreId, userStoreId))
+        .returning({ id: storeAnalyses.id });
+      // Drafts and bulk job items point at optimizations, so they go first
+      await tx.delete(suggestionDrafts).where(eq(suggestionDrafts.userStoreId, userStoreId));
+      await tx.delete(bulkOptimizationJobs).where(eq(bulkOptimizationJobs.userStoreId, userStoreId));
+      const optimizations = await tx.delete(productOptimizations)
+        .where(eq(productOptimizations.userStoreId, userStoreId))
+        .returning({ id: productOptimizations.id });
+      const products = await tx.delete(shopifyProducts)
+        .where(eq(shopifyProducts.userStoreId, userStoreId))
+        .returning({ id: shopifyProducts.id });
+
+      // Removing the store drops its tokens; notifications, theme previews, legal documents, conversion actions,
+      // competitors with their analyses and pending OAuth states cascade with it
+      await tx.delete(userStores).where(eq(userStores.id, userStoreId));
+
+      return {
+        analysesDeleted: analyses.length,
+        optimizationsDeleted: optimizations.length,
+        analysisJobsDeleted: jobs.length,
+        productsDeleted: products.length,
+      };
+    });
+  }
+
   // Credit management methods
   async getUserCredits(userId: number): Promise<number> {
     const user = await this.getUserById(userId);
@@ -192,41 +489,44 @@ export class DatabaseStorage implements IStorage {
   }
 
   async deductCredits(userId: number, amount: number, description: string, analysisId?: number): Promise<boolean> {
-    const user = await this.getUserById(userId);
-    if (!user || user.aiCredits < amount) return false;
-
-    // Update user credits
-    await this.updateUser(userId, { aiCredits: user.aiCredits - amount });
-
-    // Record transaction
-    await db.insert(creditTransactions).values({
-      userId,
-      type: 'usage',
-      amount: -amount,
-      description,
-      relatedAnalysisId: analysisId,
+    return await db.transaction(async (tx) => {
+      // Balance check and deduction in one statement, so concurrent charges can't overdraw
+      const [user] = await tx.update(users)
+        .set({ aiCredits: sql`${users.aiCredits} - ${amount}`, updatedAt: new Date() })
+        .where(and(eq(users.id, userId), gte(users.aiCredits, amount)))
+        .returning();
+      if (!user) return false;
+
+      // Record transaction
+      await tx.insert(creditTransactions).values({
+        userId,
+        type: 'usage',
+        amount: -amount,
+        description,
+        relatedAnalysisId: analysisId,
+      });
+
+      return true;
     });
-
-    return true;
   }
 
-  async addCredits(userId: number, amount: number, description: string, stripePaymentId?: string): Promise<boolean> {
-    const user = await this.getUserById(userId);
-    if (!user) return false;
+  async addCredits(userId: number, amount: number, description: string, stripePaymentId?: string, stripeEventId?: string): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.select({ id: users.id }).from(users).where(eq(users.id, userId));
+      if (!user) return false;
 
-    // Update user credits
-    await this.updateUser(userId, { aiCredits: user.aiCredits + amount });
+      // The unique event id makes the insert the duplicate check; a redelivered event finds its transaction already there
+      const [transaction] = await tx.insert(creditTransactions)
+        .values({ userId, type: 'purchase', amount, description, stripePaymentId, stripeEventId })
+        .onConflictDoNothing({ target: creditTransactions.stripeEventId })
+        .returning({ id: creditTransactions.id });
+      if (!transaction) return false;
 
-    // Record transaction
-    await db.insert(creditTransactions).values({
-      userId,
-      type: 'purchase',
-      amount,
-      description,
-      stripePaymentId,
+      await tx.update(users)
+        .set({ aiCredits: sql`${users.aiCredits} + ${amount}`, updatedAt: new Date() })
+        .where(eq(users.id, userId));
+      return true;
     });
-
-    return true;
   }
 
   async getCreditTransactions(userId: number, limit: number = 50): Promise<CreditTransaction[]> {
@@ -236,14 +536,110 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async adjustCredits(userId: number, amount: number, type: 'bonus' | 'refund', description: string): Promise<User | undefined> {
+    return await db.transaction(async (tx) => {
+      // The balance check lives in the update itself so a concurrent deduction can't take it negative
+      const [user] = await tx.update(users)
+        .set({ aiCredits: sql`${users.aiCredits} + ${amount}`, updatedAt: new Date() })
+        .where(and(eq(users.id, userId), sql`${users.aiCredits} + ${amount} >= 0`))
+        .returning();
+      if (!user) return undefined;
+
+      await tx.insert(creditTransactions).values({ userId, type, amount, description });
+      return user;
+    });
+  }
+
+  // Credit reservation methods
+  async reserveCredits(userId: number, amount: number, description: string, expiresAt: Date): Promise<CreditReservation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [user] = await tx.update(users)
+        .set({ aiCredits: sql`${users.aiCredits} - ${amount}`, updatedAt: new Date() })
+        .where(and(eq(users.id, userId), gte(users.aiCredits, amount)))
+        .returning();
+      if (!user) return undefined;
+
+      const [reservation] = await tx.insert(creditReservations)
+        .values({ userId, amount, description, expiresAt })
+        .returning();
+      return reservation;
+    });
+  }
+
+  async getCreditReservation(id: number): Promise<CreditReservation | undefined> {
+    const result = await db.select().from(creditReservations).where(eq(creditReservations.id, id));
+    return result[0];
+  }
+
+  async commitCreditReservation(id: number, amount: number, description: string, analysisId?: number): Promise<CreditReservation | undefined> {
+    return await db.transaction(async (tx) => {
+      const committed = sql`${creditReservations.committedAmount} + ${amount}`;
+      const [reservation] = await tx.update(creditReservations)
+        .set({
+          committedAmount: committed,
+          status: sql`case when ${committed} >= ${creditReservations.amount} then 'committed' else 'held' end`,
+          settledAt: sql`case when ${committed} >= ${creditReservations.amount} then now() end`,
+        })
+        .where(and(
+          eq(creditReservations.id, id),
+          eq(creditReservations.status, 'held'),
+          sql`${committed} <= ${creditReservations.amount}`
+        ))
+        .returning();
+      if (!reservation) return undefined;
+
+      await tx.insert(creditTransactions).values({
+        userId: reservation.userId,
+        type: 'usage',
+        amount: -amount,
+        description,
+        relatedAnalysisId: analysisId,
+      });
+      return reservation;
+    });
+  }
+
+  async releaseCreditReservation(id: number, status: 'released' | 'expired' = 'released'): Promise<CreditReservation | undefined> {
+    return await db.transaction(async (tx) => {
+      const [reservation] = await tx.update(creditReservations)
+        .set({ status, settledAt: new Date() })
+        .where(and(eq(creditReservations.id, id), eq(creditReservations.status, 'held')))
+        .returning();
+      if (!reservation) return undefined;
+
+      const unused = reservation.amount - reservation.committedAmount;
+      if (unused > 0) {
+        await tx.update(users)
+          .set({ aiCredits: sql`${users.aiCredits} + ${unused}`, updatedAt: new Date() })
+          .where(eq(users.id, reservation.userId));
+      }
+      return reservation;
+    });
+  }
+
+  async getExpiredCreditReservations(now: Date, limit: number): Promise<CreditReservation[]> {
+    return await db.select().from(creditReservations)
+      .where(and(eq(creditReservations.status, 'held'), lt(creditReservations.expiresAt, now)))
+      .orderBy(asc(creditReservations.expiresAt))
+      .limit(limit);
+  }
+
+  // Subscription history methods
+  async getUserSubscriptions(userId: number): Promise<UserSubscription[]> {
+    return await db.select().from(userSubscriptions)
+      .where(eq(userSubscriptions.userId, userId))
+      .orderBy(desc(userSubscriptions.createdAt));
+  }
+
   // Session management methods
-  async createSession(userId: number): Promise<UserSession> {
+  async createSession(userId: number, options: { impersonatedBy?: number; ttlMs?: number } = {}): Promise<UserSession> {
     const sessionId = randomUUID();
-    const expiresAt = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
+    const expiresAt = new Date(Date.now() + (options.ttlMs ?? 30 * 24 * 60 * 60 * 1000)); // 30 days
 
     const session = {
       id: sessionId,
       userId,
+      impersonatedBy: options.impersonatedBy ?? null,
       expiresAt,
     };
 
@@ -270,15 +666,36 @@ export class DatabaseStorage implements IStorage {
       .where(gt(new Date(), userSessions.expiresAt));
   }
 
+  // OAuth state methods
+  async createOAuthState(state: InsertOAuthState): Promise<OAuthState> {
+    const result = await db.insert(oauthStates).values(state).returning();
+    return result[0];
+  }
+
+  async consumeOAuthState(state: string): Promise<OAuthState | undefined> {
+    // A single conditional update, so two callbacks racing with the same state can't both win
+    const result = await db.update(oauthStates)
+      .set({ consumedAt: new Date() })
+      .where(and(eq(oauthStates.state, state), isNull(oauthStates.consumedAt)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteExpiredOAuthStates(before: Date): Promise<number> {
+    const result = await db.delete(oauthStates).where(lt(oauthStates.expiresAt, before));
+    return result.rowCount || 0;
+  }
+
   // Product optimization tracking methods
   async recordProductOptimization(data: {
     userId: number;
     userStoreId: number;
     shopifyProductId: string;
-    optimizationType: 'title' | 'description' | 'pricing' | 'keywords';
+    optimizationType: ProductOptimizationType;
     originalValue: string;
     optimizedValue: string;
     creditsUsed: number;
+    shopifyVariantId?: string | null;
   }): Promise<ProductOptimization> {
     const result = await db.insert(productOptimizations).values(data).returning();
     return result[0];
@@ -294,6 +711,76 @@ export class DatabaseStorage implements IStorage {
     return await query.orderBy(desc(productOptimizations.appliedAt));
   }
 
+  async getProductOptimization(id: number): Promise<ProductOptimization | undefined> {
+    const result = await db.select().from(productOptimizations).where(eq(productOptimizations.id, id));
+    return result[0];
+  }
+
+  async updateProductOptimization(id: number, updates: Partial<ProductOptimization>): Promise<ProductOptimization | undefined> {
+    const result = await db.update(productOptimizations)
+      .set(updates)
+      .where(eq(productOptimizations.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async transitionProductOptimization(id: number, fromStatus: ProductOptimization['status'], updates: Partial<ProductOptimization>): Promise<ProductOptimization | undefined> {
+    // Conditional on the current status so concurrent reverts can't both go through
+    const result = await db.update(productOptimizations)
+      .set(updates)
+      .where(and(eq(productOptimizations.id, id), eq(productOptimizations.status, fromStatus)))
+      .returning();
+    return result[0];
+  }
+
+  // Suggestion draft methods
+  async createSuggestionDraft(draft: InsertSuggestionDraft): Promise<SuggestionDraft> {
+    const result = await db.insert(suggestionDrafts).values(draft).returning();
+    return result[0];
+  }
+
+  async getSuggestionDraft(id: number): Promise<SuggestionDraft | undefined> {
+    const result = await db.select().from(suggestionDrafts).where(eq(suggestionDrafts.id, id));
+    return result[0];
+  }
+
+  async getSuggestionDrafts(userStoreId: number, status?: SuggestionDraftStatus): Promise<SuggestionDraft[]> {
+    return await db.select().from(suggestionDrafts)
+      .where(and(
+        eq(suggestionDrafts.userStoreId, userStoreId),
+        status ? eq(suggestionDrafts.status, status) : undefined
+      ))
+      .orderBy(desc(suggestionDrafts.createdAt));
+  }
+
+  async getSuggestionDraftByOptimizationId(optimizationId: number): Promise<SuggestionDraft | undefined> {
+    const result = await db.select().from(suggestionDrafts)
+      .where(eq(suggestionDrafts.optimizationId, optimizationId));
+    return result[0];
+  }
+
+  async updateSuggestionDraft(id: number, updates: Partial<SuggestionDraft>): Promise<SuggestionDraft | undefined> {
+    const result = await db.update(suggestionDrafts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(suggestionDrafts.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async transitionSuggestionDraft(id: number, fromStatus: SuggestionDraftStatus, updates: Partial<SuggestionDraft>): Promise<SuggestionDraft | undefined> {
+    // Conditional on the current status so concurrent requests can't both make the same transition
+    const result = await db.update(suggestionDrafts)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(and(eq(suggestionDrafts.id, id), eq(suggestionDrafts.status, fromStatus)))
+      .returning();
+    return result[0];
+  }
+
+  async deleteSuggestionDraft(id: number): Promise<boolean> {
+    const result = await db.delete(suggestionDrafts).where(eq(suggestionDrafts.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
   async isProductOptimized(userStoreId: number, shopifyProductId: string, optimizationType: string): Promise<boolean> {
     const result = await db.select()
       .from(productOptimizations)
@@ -301,7 +788,8 @@ export class DatabaseStorage implements IStorage {
         and(
           eq(productOptimizations.userStoreId, userStoreId),
           eq(productOptimizations.shopifyProductId, shopifyProductId),
-          eq(productOptimizations.optimizationType, optimizationType as any)
+          eq(productOptimizations.optimizationType, optimizationType as any),
+          eq(productOptimizations.status, 'applied')
         )
       )
       .limit(1);
@@ -374,157 +862,915 @@ export class DatabaseStorage implements IStorage {
       .where(eq(alexChatMessages.sessionId, sessionId));
     return (result.rowCount || 0) >= 0; // Returns true even if no messages to delete
   }
-}
 
-export class MemStorage implements IStorage {
-  private analyses: Map<number, StoreAnalysis>;
-  private users: Map<number, User>;
-  private userStores: Map<number, UserStore>;
-  private sessions: Map<string, UserSession>;
-  private creditTransactions: Map<number, CreditTransaction>;
-  private currentId: number;
-  private currentUserId: number;
-  private currentStoreId: number;
-  private currentTransactionId: number;
+  async findChatMessagesContaining(userId: number, terms: string[]): Promise<AlexChatMessage[]> {
+    if (terms.length === 0) return [];
 
-  constructor() {
-    this.analyses = new Map();
-    this.users = new Map();
-    this.userStores = new Map();
-    this.sessions = new Map();
-    this.creditTransactions = new Map();
-    this.currentId = 1;
-    this.currentUserId = 1;
-    this.currentStoreId = 1;
-    this.currentTransactionId = 1;
+    return await db.select().from(alexChatMessages)
+      .where(and(
+        eq(alexChatMessages.userId, userId),
+        or(...terms.map(term => ilike(alexChatMessages.content, `%${term.replace(/[\\%_]/g, '\\$&')}%`)))
+      ))
+      .orderBy(alexChatMessages.createdAt);
+  }
+
+  async redactChatMessages(userId: number, terms: string[]): Promise<number> {
+    const messages = await this.findChatMessagesContaining(userId, terms);
+    for (const message of messages) {
+      await db.update(alexChatMessages)
+        .set({ content: redactTerms(message.content, terms) })
+        .where(eq(alexChatMessages.id, message.id));
+    }
+    return messages.length;
   }
 
-  // Store analysis methods
-  async getStoreAnalysis(id: number): Promise<StoreAnalysis | undefined> {
-    return this.analyses.get(id);
+  // Analysis job queue methods
+  async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const result = await db.insert(analysisJobs).values(job).returning();
+    return result[0];
   }
 
-  async createStoreAnalysis(analysisData: any): Promise<StoreAnalysis> {
-    const id = this.currentId++;
-    const analysis: StoreAnalysis = {
-      id,
-      ...analysisData,
-      createdAt: new Date(),
-    };
-    this.analyses.set(id, analysis);
-    return analysis;
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    const result = await db.select().from(analysisJobs).where(eq(analysisJobs.id, id));
+    return result[0];
   }
 
-  async getRecentAnalyses(limit: number = 10): Promise<StoreAnalysis[]> {
-    return Array.from(this.analyses.values())
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, limit);
+  async updateAnalysisJob(id: number, updates: Partial<AnalysisJob>): Promise<AnalysisJob | undefined> {
+    const result = await db.update(analysisJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(analysisJobs.id, id))
+      .returning();
+    return result[0];
   }
 
-  async getUserAnalyses(userId: number, limit: number = 20): Promise<StoreAnalysis[]> {
-    const userAnalyses = Array.from(this.analyses.values())
-      .filter(analysis => analysis.userId === userId);
-    return userAnalyses
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
-      .slice(0, limit);
+  async claimNextAnalysisJob(): Promise<AnalysisJob | undefined> {
+    // SKIP LOCKED lets several workers poll the same table without claiming a job twice
+    const result = await db.update(analysisJobs)
+      .set({
+        status: 'running',
+        lockedAt: new Date(),
+        attempts: sql`${analysisJobs.attempts} + 1`,
+        updatedAt: new Date(),
+      })
+      .where(eq(analysisJobs.id, sql`(
+        SELECT id FROM analysis_jobs
+        WHERE status = 'queued' AND run_after <= now()
+        ORDER BY id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    return result[0];
   }
 
-  // User management methods
-  async createUser(userData: Omit<InsertUser, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
-    const hashedPassword = await bcrypt.hash(userData.passwordHash, 12);
-    const user: User = {
-      ...userData,
-      id: this.currentUserId++,
-      passwordHash: hashedPassword,
-      isAdmin: false,
-      aiCredits: 25,
-      stripeCustomerId: null,
-      subscriptionStatus: 'trial',
-      subscriptionId: null,
-      trialEndsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    
-    this.users.set(user.id, user);
-    return user;
+  async refreshAnalysisJobLock(id: number): Promise<void> {
+    // Only while running, so a late refresh can't put a lock back on a finished job
+    await db.update(analysisJobs)
+      .set({ lockedAt: new Date() })
+      .where(and(eq(analysisJobs.id, id), eq(analysisJobs.status, 'running')));
   }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(user => user.email === email);
+  async requeueStaleAnalysisJobs(lockedBefore: Date): Promise<number> {
+    const result = await db.update(analysisJobs)
+      .set({ status: 'queued', stage: 'queued', progress: 0, lockedAt: null, updatedAt: new Date() })
+      .where(and(
+        eq(analysisJobs.status, 'running'),
+        lt(analysisJobs.lockedAt, lockedBefore)
+      ))
+      .returning();
+    return result.length;
   }
 
-  async getUserById(id: number): Promise<User | undefined> {
-    return this.users.get(id);
+  // Bulk optimization job methods
+  async createBulkOptimizationJob(job: InsertBulkOptimizationJob, productIds: string[]): Promise<BulkOptimizationJob> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(bulkOptimizationJobs).values(job).returning();
+      await tx.insert(bulkOptimizationItems).values(
+        productIds.map(shopifyProductId => ({ jobId: created.id, shopifyProductId }))
+      );
+      return created;
+    });
   }
 
-  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
-    const user = this.users.get(id);
-    if (!user) return undefined;
-
-    const updatedUser = { ...user, ...updates, updatedAt: new Date() };
-    this.users.set(id, updatedUser);
-    return updatedUser;
+  async getBulkOptimizationJob(id: number): Promise<BulkOptimizationJob | undefined> {
+    const result = await db.select().from(bulkOptimizationJobs).where(eq(bulkOptimizationJobs.id, id));
+    return result[0];
   }
 
-  async validateUserCredentials(email: string, password: string): Promise<User | null> {
-    const user = await this.getUserByEmail(email);
-    if (!user) return null;
-    
-    const isValid = await bcrypt.compare(password, user.passwordHash);
-    return isValid ? user : null;
+  async getBulkOptimizationJobs(userStoreId: number, limit: number = 20): Promise<BulkOptimizationJob[]> {
+    return await db.select()
+      .from(bulkOptimizationJobs)
+      .where(eq(bulkOptimizationJobs.userStoreId, userStoreId))
+      .orderBy(desc(bulkOptimizationJobs.createdAt))
+      .limit(limit);
   }
 
-  // User stores methods
-  async createUserStore(storeData: Omit<InsertUserStore, 'id' | 'createdAt' | 'updatedAt'>): Promise<UserStore> {
-    const store: UserStore = {
-      ...storeData,
-      id: this.currentStoreId++,
-      shopifyAccessToken: null,
-      isConnected: false,
-      lastAnalyzedAt: null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    };
-    
-    this.userStores.set(store.id, store);
-    return store;
+  async updateBulkOptimizationJob(id: number, updates: Partial<BulkOptimizationJob>): Promise<BulkOptimizationJob | undefined> {
+    const result = await db.update(bulkOptimizationJobs)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(bulkOptimizationJobs.id, id))
+      .returning();
+    return result[0];
   }
 
-  async getUserStores(userId: number): Promise<UserStore[]> {
-    return Array.from(this.userStores.values())
-      .filter(store => store.userId === userId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  async incrementBulkOptimizationJobCounts(id: number, counts: { succeededItems?: number; failedItems?: number; creditsUsed?: number }): Promise<void> {
+    // Increments in SQL so concurrent items of the same job don't overwrite each other's counts
+    await db.update(bulkOptimizationJobs)
+      .set({
+        succeededItems: sql`${bulkOptimizationJobs.succeededItems} + ${counts.succeededItems || 0}`,
+        failedItems: sql`${bulkOptimizationJobs.failedItems} + ${counts.failedItems || 0}`,
+        creditsUsed: sql`${bulkOptimizationJobs.creditsUsed} + ${counts.creditsUsed || 0}`,
+        lockedAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(bulkOptimizationJobs.id, id));
+  }
+
+  async claimNextBulkOptimizationJob(): Promise<BulkOptimizationJob | undefined> {
+    const result = await db.update(bulkOptimizationJobs)
+      .set({
+        status: 'running',
+        lockedAt: new Date(),
+        startedAt: sql`coalesce(${bulkOptimizationJobs.startedAt}, now())`,
+        updatedAt: new Date(),
+      })
+      .where(eq(bulkOptimizationJobs.id, sql`(
+        SELECT id FROM bulk_optimization_jobs
+        WHERE status = 'queued'
+        ORDER BY id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    return result[0];
   }
 
-  async getUserStore(id: number): Promise<UserStore | undefined> {
-    return this.userStores.get(id);
+  async refreshBulkOptimizationJobLock(id: number): Promise<void> {
+    // Only while running, so a late refresh can't put a lock back on a finished job
+    await db.update(bulkOptimizationJobs)
+      .set({ lockedAt: new Date() })
+      .where(and(eq(bulkOptimizationJobs.id, id), eq(bulkOptimizationJobs.status, 'running')));
+  }
+
+  async requeueStaleBulkOptimizationJobs(lockedBefore: Date): Promise<number> {
+    return await db.transaction(async (tx) => {
+      const jobs = await tx.update(bulkOptimizationJobs)
+        .set({ status: 'queued', lockedAt: null, updatedAt: new Date() })
+        .where(and(
+          eq(bulkOptimizationJobs.status, 'running'),
+          lt(bulkOptimizationJobs.lockedAt, lockedBefore)
+        ))
+        .returning({ id: bulkOptimizationJobs.id });
+
+      if (jobs.length > 0) {
+        const jobIds = jobs.map(job => job.id);
+        await tx.update(bulkOptimizationItems)
+          .set({ status: 'pending', claimedAt: null })
+          .where(and(
+            inArray(bulkOptimizationItems.jobId, jobIds),
+            eq(bulkOptimizationItems.status, 'running')
+          ));
+
+        // The product may already have been changed, so these are failed rather than applied again
+        const interrupted = await tx.update(bulkOptimizationItems)
+          .set({ status: 'failed', error: STALE_PUBLISHING_ITEM_ERROR, completedAt: new Date() })
+          .where(and(
+            inArray(bulkOptimizationItems.jobId, jobIds),
+            eq(bulkOptimizationItems.status, 'publishing')
+          ))
+          .returning({ jobId: bulkOptimizationItems.jobId });
+        for (const jobId of jobIds) {
+          const failedItems = interrupted.filter(item => item.jobId === jobId).length;
+          if (failedItems > 0) {
+            await tx.update(bulkOptimizationJobs)
+              .set({ failedItems: sql`${bulkOptimizationJobs.failedItems} + ${failedItems}` })
+              .where(eq(bulkOptimizationJobs.id, jobId));
+          }
+        }
+      }
+      return jobs.length;
+    });
   }
 
-  async updateUserStore(id: number, updates: Partial<UserStore>): Promise<UserStore | undefined> {
-    const store = this.userStores.get(id);
-    if (!store) return undefined;
+  async getBulkOptimizationItems(jobId: number): Promise<BulkOptimizationItem[]> {
+    return await db.select()
+      .from(bulkOptimizationItems)
+      .where(eq(bulkOptimizationItems.jobId, jobId))
+      .orderBy(asc(bulkOptimizationItems.id));
+  }
 
-    const updatedStore = { ...store, ...updates, updatedAt: new Date() };
-    this.userStores.set(id, updatedStore);
-    return updatedStore;
+  async claimNextBulkOptimizationItem(jobId: number): Promise<BulkOptimizationItem | undefined> {
+    const result = await db.update(bulkOptimizationItems)
+      .set({ status: 'running', attempts: sql`${bulkOptimizationItems.attempts} + 1`, claimedAt: new Date() })
+      .where(eq(bulkOptimizationItems.id, sql`(
+        SELECT id FROM bulk_optimization_items
+        WHERE job_id = ${jobId} AND status = 'pending'
+        ORDER BY id
+        LIMIT 1
+        FOR UPDATE SKIP LOCKED
+      )`))
+      .returning();
+    return result[0];
   }
 
-  async deleteUserStore(id: number): Promise<boolean> {
-    return this.userStores.delete(id);
+  async updateBulkOptimizationItem(id: number, updates: Partial<BulkOptimizationItem>): Promise<BulkOptimizationItem | undefined> {
+    const result = await db.update(bulkOptimizationItems)
+      .set(updates)
+      .where(eq(bulkOptimizationItems.id, id))
+      .returning();
+    return result[0];
   }
 
-  // Credit management methods
-  async getUserCredits(userId: number): Promise<number> {
+  async transitionBulkOptimizationItem(id: number, fromStatus: BulkOptimizationItemStatus, claimedAt: Date | null, updates: Partial<BulkOptimizationItem>): Promise<BulkOptimizationItem | undefined> {
+    // Conditional on the status and the claim, so a worker whose item was requeued and claimed again can't touch it
+    const result = await db.update(bulkOptimizationItems)
+      .set(updates)
+      .where(and(
+        eq(bulkOptimizationItems.id, id),
+        eq(bulkOptimizationItems.status, fromStatus),
+        claimedAt ? eq(bulkOptimizationItems.claimedAt, claimedAt) : isNull(bulkOptimizationItems.claimedAt)
+      ))
+      .returning();
+    return result[0];
+  }
+
+  async cancelPendingBulkOptimizationItems(jobId: number): Promise<number> {
+    const result = await db.update(bulkOptimizationItems)
+      .set({ status: 'cancelled', completedAt: new Date() })
+      .where(and(
+        eq(bulkOptimizationItems.jobId, jobId),
+        eq(bulkOptimizationItems.status, 'pending')
+      ))
+      .returning({ id: bulkOptimizationItems.id });
+    return result.length;
+  }
+
+  // Shopify product mirror methods
+  async upsertShopifyProducts(userStoreId: number, products: MirroredShopifyProductInput[], syncedAt: Date): Promise<void> {
+    if (products.length === 0) return;
+
+    await db.transaction(async (tx) => {
+      for (const { variants, images, ...product } of products) {
+        const [row] = await tx.insert(shopifyProducts)
+          .values({ ...product, userStoreId, syncedAt })
+          .onConflictDoUpdate({
+            target: [shopifyProducts.userStoreId, shopifyProducts.shopifyProductId],
+            set: { ...product, syncedAt },
+          })
+          .returning({ id: shopifyProducts.id });
+
+        // Child rows are replaced wholesale; Shopify has no per-variant change feed
+        await tx.delete(shopifyProductVariants).where(eq(shopifyProductVariants.productId, row.id));
+        await tx.delete(shopifyProductImages).where(eq(shopifyProductImages.productId, row.id));
+
+        if (variants.length > 0) {
+          await tx.insert(shopifyProductVariants).values(variants.map(variant => ({ ...variant, productId: row.id })));
+        }
+        if (images.length > 0) {
+          await tx.insert(shopifyProductImages).values(images.map(image => ({ ...image, productId: row.id })));
+        }
+      }
+    });
+  }
+
+  async getShopifyProducts(userStoreId: number): Promise<MirroredShopifyProduct[]> {
+    const products = await db.select().from(shopifyProducts)
+      .where(eq(shopifyProducts.userStoreId, userStoreId))
+      .orderBy(asc(shopifyProducts.id));
+
+    const variants = await db.select({ variant: shopifyProductVariants }).from(shopifyProductVariants)
+      .innerJoin(shopifyProducts, eq(shopifyProductVariants.productId, shopifyProducts.id))
+      .where(eq(shopifyProducts.userStoreId, userStoreId))
+      .orderBy(asc(shopifyProductVariants.position));
+
+    const images = await db.select({ image: shopifyProductImages }).from(shopifyProductImages)
+      .innerJoin(shopifyProducts, eq(shopifyProductImages.productId, shopifyProducts.id))
+      .where(eq(shopifyProducts.userStoreId, userStoreId))
+      .orderBy(asc(shopifyProductImages.position));
+
+    const byId = new Map<number, MirroredShopifyProduct>(
+      products.map(product => [product.id, { ...product, variants: [], images: [] }])
+    );
+    variants.forEach(({ variant }) => byId.get(variant.productId)?.variants.push(variant));
+    images.forEach(({ image }) => byId.get(image.productId)?.images.push(image));
+
+    return Array.from(byId.values());
+  }
+
+  async getShopifyProduct(userStoreId: number, shopifyProductId: string): Promise<MirroredShopifyProduct | undefined> {
+    const [product] = await db.select().from(shopifyProducts)
+      .where(and(
+        eq(shopifyProducts.userStoreId, userStoreId),
+        eq(shopifyProducts.shopifyProductId, shopifyProductId)
+      ));
+    if (!product) return undefined;
+
+    const variants = await db.select().from(shopifyProductVariants)
+      .where(eq(shopifyProductVariants.productId, product.id))
+      .orderBy(asc(shopifyProductVariants.position));
+    const images = await db.select().from(shopifyProductImages)
+      .where(eq(shopifyProductImages.productId, product.id))
+      .orderBy(asc(shopifyProductImages.position));
+
+    return { ...product, variants, images };
+  }
+
+  async getShopifyProductCount(userStoreId: number): Promise<number> {
+    const [result] = await db.select({ count: sql<number>`count(*)::int` }).from(shopifyProducts)
+      .where(eq(shopifyProducts.userStoreId, userStoreId));
+    return result?.count || 0;
+  }
+
+  async deleteStaleShopifyProducts(userStoreId: number, syncedBefore: Date): Promise<number> {
+    const result = await db.delete(shopifyProducts)
+      .where(and(
+        eq(shopifyProducts.userStoreId, userStoreId),
+        lt(shopifyProducts.syncedAt, syncedBefore)
+      ))
+      .returning({ id: shopifyProducts.id });
+    return result.length;
+  }
+
+  async deleteShopifyProduct(userStoreId: number, shopifyProductId: string): Promise<boolean> {
+    const result = await db.delete(shopifyProducts)
+      .where(and(
+        eq(shopifyProducts.userStoreId, userStoreId),
+        eq(shopifyProducts.shopifyProductId, shopifyProductId)
+      ))
+      .returning({ id: shopifyProducts.id });
+    return result.length > 0;
+  }
+
+  // Notification methods
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const result = await db.insert(notifications).values(notification).returning();
+    return result[0];
+  }
+
+  async getUserNotifications(userId: number, limit: number = 20): Promise<Notification[]> {
+    return await db.select().from(notifications)
+      .where(eq(notifications.userId, userId))
+      .orderBy(desc(notifications.createdAt))
+      .limit(limit);
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const result = await db.update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId)))
+      .returning();
+    return result[0];
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    const result = await db.update(notifications)
+      .set({ isRead: true })
+      .where(and(eq(notifications.userId, userId), eq(notifications.isRead, false)))
+      .returning();
+    return result.length;
+  }
+
+  // Compliance request methods
+  async createComplianceRequest(request: InsertComplianceRequest): Promise<ComplianceRequest> {
+    const result = await db.insert(complianceRequests).values(request).returning();
+    return result[0];
+  }
+
+  async updateComplianceRequest(id: number, updates: Partial<ComplianceRequest>): Promise<ComplianceRequest | undefined> {
+    const result = await db.update(complianceRequests)
+      .set(updates)
+      .where(eq(complianceRequests.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getComplianceRequest(id: number): Promise<ComplianceRequest | undefined> {
+    const result = await db.select().from(complianceRequests).where(eq(complianceRequests.id, id));
+    return result[0];
+  }
+
+  async getComplianceRequests(limit: number = 100): Promise<ComplianceRequest[]> {
+    return await db.select().from(complianceRequests)
+      .orderBy(desc(complianceRequests.receivedAt))
+      .limit(limit);
+  }
+
+  // Admin audit log methods
+  async createAdminAuditLog(entry: InsertAdminAuditLog): Promise<AdminAuditLog> {
+    const result = await db.insert(adminAuditLogs).values(entry).returning();
+    return result[0];
+  }
+
+  async getAdminAuditLogs(filter: { targetUserId?: number; limit?: number } = {}): Promise<AdminAuditLog[]> {
+    return await db.select().from(adminAuditLogs)
+      .where(filter.targetUserId !== undefined ? eq(adminAuditLogs.targetUserId, filter.targetUserId) : undefined)
+      .orderBy(desc(adminAuditLogs.createdAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  // Stripe webhook ledger methods
+  async claimStripeEvent(event: InsertProcessedStripeEvent, staleBefore: Date): Promise<ProcessedStripeEvent | undefined> {
+    const [claimed] = await db.insert(processedStripeEvents)
+      .values({ ...event, status: 'processing', attempts: 1 })
+      .onConflictDoUpdate({
+        target: processedStripeEvents.id,
+        set: {
+          status: 'processing',
+          attempts: sql`${processedStripeEvents.attempts} + 1`,
+          detail: null,
+          updatedAt: new Date(),
+        },
+        setWhere: or(
+          eq(processedStripeEvents.status, 'failed'),
+          and(eq(processedStripeEvents.status, 'processing'), lt(processedStripeEvents.updatedAt, staleBefore))
+        ),
+      })
+      .returning();
+    return claimed;
+  }
+
+  async getStripeEvent(id: string): Promise<ProcessedStripeEvent | undefined> {
+    const result = await db.select().from(processedStripeEvents).where(eq(processedStripeEvents.id, id));
+    return result[0];
+  }
+
+  async getStripeEvents(filter: { status?: StripeEventStatus; limit?: number } = {}): Promise<ProcessedStripeEvent[]> {
+    return await db.select().from(processedStripeEvents)
+      .where(filter.status ? eq(processedStripeEvents.status, filter.status) : undefined)
+      .orderBy(desc(processedStripeEvents.eventCreatedAt))
+      .limit(filter.limit ?? 100);
+  }
+
+  async updateStripeEvent(id: string, updates: Partial<ProcessedStripeEvent>): Promise<ProcessedStripeEvent | undefined> {
+    const result = await db.update(processedStripeEvents)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(processedStripeEvents.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Theme preview methods
+  async createThemePreview(preview: InsertThemePreview): Promise<ThemePreview> {
+    const result = await db.insert(themePreviews).values(preview).returning();
+    return result[0];
+  }
+
+  async getThemePreview(id: number): Promise<ThemePreview | undefined> {
+    const result = await db.select().from(themePreviews).where(eq(themePreviews.id, id));
+    return result[0];
+  }
+
+  async getThemePreviews(userStoreId: number): Promise<ThemePreview[]> {
+    return await db.select().from(themePreviews)
+      .where(eq(themePreviews.userStoreId, userStoreId))
+      .orderBy(desc(themePreviews.createdAt));
+  }
+
+  async updateThemePreview(id: number, updates: Partial<ThemePreview>): Promise<ThemePreview | undefined> {
+    const result = await db.update(themePreviews)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(themePreviews.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Legal document methods
+  async createLegalDocumentVersion(document: Omit<InsertLegalDocumentVersion, 'version'>): Promise<LegalDocumentVersion> {
+    // The unique (store, type, version) index rejects a concurrent insert that picked the same number
+    const result = await db.insert(legalDocumentVersions).values({
+      ...document,
+      version: sql`(
+        SELECT COALESCE(MAX(${legalDocumentVersions.version}), 0) + 1 FROM ${legalDocumentVersions}
+        WHERE ${legalDocumentVersions.userStoreId} = ${document.userStoreId}
+          AND ${legalDocumentVersions.documentType} = ${document.documentType}
+      )`,
+    }).returning();
+    return result[0];
+  }
+
+  async getLegalDocumentVersion(id: number): Promise<LegalDocumentVersion | undefined> {
+    const result = await db.select().from(legalDocumentVersions).where(eq(legalDocumentVersions.id, id));
+    return result[0];
+  }
+
+  async getLegalDocumentVersions(userStoreId: number, documentType?: LegalDocumentType): Promise<LegalDocumentVersion[]> {
+    const conditions = [eq(legalDocumentVersions.userStoreId, userStoreId)];
+    if (documentType) {
+      conditions.push(eq(legalDocumentVersions.documentType, documentType));
+    }
+
+    return await db.select().from(legalDocumentVersions)
+      .where(and(...conditions))
+      .orderBy(asc(legalDocumentVersions.documentType), desc(legalDocumentVersions.version));
+  }
+
+  async getLatestLegalDocumentVersion(userStoreId: number, documentType: LegalDocumentType): Promise<LegalDocumentVersion | undefined> {
+    const result = await db.select().from(legalDocumentVersions)
+      .where(and(
+        eq(legalDocumentVersions.userStoreId, userStoreId),
+        eq(legalDocumentVersions.documentType, documentType)
+      ))
+      .orderBy(desc(legalDocumentVersions.version))
+      .limit(1);
+    return result[0];
+  }
+
+  // Conversion action methods
+  async createConversionAction(action: InsertConversionAction): Promise<ConversionAction> {
+    const result = await db.insert(conversionActions).values(action).returning();
+    return result[0];
+  }
+
+  async getConversionAction(id: number): Promise<ConversionAction | undefined> {
+    const result = await db.select().from(conversionActions).where(eq(conversionActions.id, id));
+    return result[0];
+  }
+
+  async getConversionActions(userStoreId: number): Promise<ConversionAction[]> {
+    return await db.select().from(conversionActions)
+      .where(eq(conversionActions.userStoreId, userStoreId))
+      .orderBy(desc(conversionActions.appliedAt));
+  }
+
+  async getAppliedConversionAction(userStoreId: number, actionType: ConversionActionType): Promise<ConversionAction | undefined> {
+    const result = await db.select().from(conversionActions)
+      .where(and(
+        eq(conversionActions.userStoreId, userStoreId),
+        eq(conversionActions.actionType, actionType),
+        eq(conversionActions.status, 'applied')
+      ))
+      .orderBy(desc(conversionActions.appliedAt))
+      .limit(1);
+    return result[0];
+  }
+
+  async updateConversionAction(id: number, updates: Partial<ConversionAction>): Promise<ConversionAction | undefined> {
+    const result = await db.update(conversionActions)
+      .set(updates)
+      .where(eq(conversionActions.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Trust optimization change methods
+  async createTrustOptimizationChange(change: InsertTrustOptimizationChange): Promise<TrustOptimizationChange> {
+    const result = await db.insert(trustOptimizationChanges).values(change).returning();
+    return result[0];
+  }
+
+  async getTrustOptimizationChanges(userStoreId: number, trustType?: TrustOptimizationType): Promise<TrustOptimizationChange[]> {
+    const conditions = [eq(trustOptimizationChanges.userStoreId, userStoreId)];
+    if (trustType) conditions.push(eq(trustOptimizationChanges.trustType, trustType));
+
+    return await db.select().from(trustOptimizationChanges)
+      .where(and(...conditions))
+      .orderBy(desc(trustOptimizationChanges.appliedAt));
+  }
+
+  async getAppliedTrustOptimizationChange(userStoreId: number, trustType: TrustOptimizationType, resourceType: TrustResourceType, resourceId: string): Promise<TrustOptimizationChange | undefined> {
+    const result = await db.select().from(trustOptimizationChanges)
+      .where(and(
+        eq(trustOptimizationChanges.userStoreId, userStoreId),
+        eq(trustOptimizationChanges.trustType, trustType),
+        eq(trustOptimizationChanges.resourceType, resourceType),
+        eq(trustOptimizationChanges.resourceId, resourceId),
+        eq(trustOptimizationChanges.status, 'applied')
+      ))
+      .limit(1);
+    return result[0];
+  }
+
+  async updateTrustOptimizationChange(id: number, updates: Partial<TrustOptimizationChange>): Promise<TrustOptimizationChange | undefined> {
+    const result = await db.update(trustOptimizationChanges)
+      .set(updates)
+      .where(eq(trustOptimizationChanges.id, id))
+      .returning();
+    return result[0];
+  }
+
+  // Competitor benchmark methods
+  async createStoreCompetitor(competitor: InsertStoreCompetitor, maxPerStore: number): Promise<StoreCompetitor | undefined> {
+    return await db.transaction(async (tx) => {
+      // Locking the store row serializes concurrent adds, so the count can't go stale before the insert
+      await tx.select({ id: userStores.id }).from(userStores)
+        .where(eq(userStores.id, competitor.userStoreId))
+        .for('update');
+
+      const [{ count }] = await tx.select({ count: sql<number>`count(*)::int` }).from(storeCompetitors)
+        .where(eq(storeCompetitors.userStoreId, competitor.userStoreId));
+      if (count >= maxPerStore) return undefined;
+
+      const result = await tx.insert(storeCompetitors).values(competitor).returning();
+      return result[0];
+    });
+  }
+
+  async getStoreCompetitor(id: number): Promise<StoreCompetitor | undefined> {
+    const result = await db.select().from(storeCompetitors).where(eq(storeCompetitors.id, id));
+    return result[0];
+  }
+
+  async getStoreCompetitors(userStoreId: number): Promise<StoreCompetitor[]> {
+    return await db.select().from(storeCompetitors)
+      .where(eq(storeCompetitors.userStoreId, userStoreId))
+      .orderBy(asc(storeCompetitors.createdAt));
+  }
+
+  async deleteStoreCompetitor(id: number): Promise<boolean> {
+    const result = await db.delete(storeCompetitors).where(eq(storeCompetitors.id, id));
+    return (result.rowCount || 0) > 0;
+  }
+
+  async createCompetitorAnalysis(analysis: InsertCompetitorAnalysis): Promise<CompetitorAnalysis> {
+    const result = await db.insert(competitorAnalyses).values(analysis).returning();
+    return result[0];
+  }
+
+  async updateCompetitorAnalysis(id: number, updates: Partial<CompetitorAnalysis>): Promise<CompetitorAnalysis | undefined> {
+    const result = await db.update(competitorAnalyses)
+      .set(updates)
+      .where(eq(competitorAnalyses.id, id))
+      .returning();
+    return result[0];
+  }
+
+  async getCompetitorAnalysis(id: number): Promise<CompetitorAnalysis | undefined> {
+    const result = await db.select().from(competitorAnalyses).where(eq(competitorAnalyses.id, id));
+    return result[0];
+  }
+
+  async getLatestCompetitorAnalysis(competitorId: number): Promise<CompetitorAnalysis | undefined> {
+    const result = await db.select().from(competitorAnalyses)
+      .where(eq(competitorAnalyses.competitorId, competitorId))
+      .orderBy(desc(competitorAnalyses.createdAt), desc(competitorAnalyses.id))
+      .limit(1);
+    return result[0];
+  }
+}
+
+export class MemStorage implements IStorage {
+  private analyses: Map<number, StoreAnalysis>;
+  private users: Map<number, User>;
+  private userStores: Map<number, UserStore>;
+  private sessions: Map<string, UserSession>;
+  private oauthStates: Map<number, OAuthState>;
+  private creditTransactions: Map<number, CreditTransaction>;
+  private analysisJobs: Map<number, AnalysisJob>;
+  private notifications: Map<number, Notification>;
+  private shopifyProducts: Map<number, MirroredShopifyProduct>;
+  private complianceRequests: Map<number, ComplianceRequest>;
+  private productOptimizations: Map<number, ProductOptimization>;
+  private suggestionDrafts: Map<number, SuggestionDraft>;
+  private bulkOptimizationJobs: Map<number, BulkOptimizationJob>;
+  private bulkOptimizationItems: Map<number, BulkOptimizationItem>;
+  private themePreviews: Map<number, ThemePreview>;
+  private legalDocumentVersions: Map<number, LegalDocumentVersion>;
+  private conversionActions: Map<number, ConversionAction>;
+  private trustOptimizationChanges: Map<number, TrustOptimizationChange>;
+  private storeCompetitors: Map<number, StoreCompetitor>;
+  private competitorAnalyses: Map<number, CompetitorAnalysis>;
+  private adminAuditLogs: Map<number, AdminAuditLog>;
+  private stripeEvents: Map<string, ProcessedStripeEvent>;
+  private creditReservations: Map<number, CreditReservation>;
+  private currentId: number;
+  private currentUserId: number;
+  private currentStoreId: number;
+  private currentTransactionId: number;
+
+  constructor() {
+    this.analyses = new Map();
+    this.users = new Map();
+    this.userStores = new Map();
+    this.sessions = new Map();
+    this.oauthStates = new Map();
+    this.creditTransactions = new Map();
+    this.analysisJobs = new Map();
+    this.notifications = new Map();
+    this.shopifyProducts = new Map();
+    this.complianceRequests = new Map();
+    this.productOptimizations = new Map();
+    this.suggestionDrafts = new Map();
+    this.bulkOptimizationJobs = new Map();
+    this.bulkOptimizationItems = new Map();
+    this.themePreviews = new Map();
+    this.legalDocumentVersions = new Map();
+    this.conversionActions = new Map();
+    this.trustOptimizationChanges = new Map();
+    this.storeCompetitors = new Map();
+    this.competitorAnalyses = new Map();
+    this.adminAuditLogs = new Map();
+    this.stripeEvents = new Map();
+    this.creditReservations = new Map();
+    this.currentId = 1;
+    this.currentUserId = 1;
+    this.currentStoreId = 1;
+    this.currentTransactionId = 1;
+  }
+
+  // Store analysis methods
+  async getStoreAnalysis(id: number): Promise<StoreAnalysis | undefined> {
+    return this.analyses.get(id);
+  }
+
+  async createStoreAnalysis(analysisData: any): Promise<StoreAnalysis> {
+    const id = this.currentId++;
+    const analysis: StoreAnalysis = {
+      id,
+      ...analysisData,
+      degraded: analysisData.degraded ?? false,
+      validationErrors: analysisData.validationErrors ?? null,
+      createdAt: new Date(),
+    };
+    this.analyses.set(id, analysis);
+    return analysis;
+  }
+
+  async updateStoreAnalysis(id: number, updates: Partial<StoreAnalysis>): Promise<StoreAnalysis | undefined> {
+    const analysis = this.analyses.get(id);
+    if (!analysis) return undefined;
+
+    const updated = { ...analysis, ...updates };
+    this.analyses.set(id, updated);
+    return updated;
+  }
+
+  async getRecentAnalyses(limit: number = 10): Promise<StoreAnalysis[]> {
+    return Array.from(this.analyses.values())
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getUserStoreAnalyses(userStoreId: number, limit: number = 20): Promise<StoreAnalysis[]> {
+    return Array.from(this.analyses.values())
+      .filter(analysis => analysis.userStoreId === userStoreId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async getUserAnalyses(userId: number, limit: number = 20): Promise<StoreAnalysis[]> {
+    const userAnalyses = Array.from(this.analyses.values())
+      .filter(analysis => analysis.userId === userId);
+    return userAnalyses
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  // User management methods
+  async createUser(userData: Omit<InsertUser, 'id' | 'createdAt' | 'updatedAt'>): Promise<User> {
+    const hashedPassword = await bcrypt.hash(userData.passwordHash, 12);
+    const user: User = {
+      ...userData,
+      id: this.currentUserId++,
+      passwordHash: hashedPassword,
+      isAdmin: false,
+      aiCredits: 25,
+      stripeCustomerId: null,
+      subscriptionStatus: 'trial',
+      subscriptionId: null,
+      trialEndsAt: new Date(Date.now() + 14 * 24 * 60 * 60 * 1000),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(user => user.email === email);
+  }
+
+  async getUserById(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const user = this.users.get(id);
+    if (!user) return undefined;
+
+    const updatedUser = { ...user, ...updates, updatedAt: new Date() };
+    this.users.set(id, updatedUser);
+    return updatedUser;
+  }
+
+  async validateUserCredentials(email: string, password: string): Promise<User | null> {
+    const user = await this.getUserByEmail(email);
+    if (!user) return null;
+    
+    const isValid = await bcrypt.compare(password, user.passwordHash);
+    return isValid ? user : null;
+  }
+
+  async searchUsers(query: string, limit: number = 25): Promise<User[]> {
+    const needle = query.toLowerCase();
+    return Array.from(this.users.values())
+      .filter(user =>
+        String(user.id) === query ||
+        [user.email, user.firstName, user.lastName].some(value => value?.toLowerCase().includes(needle))
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  // User stores methods
+  async createUserStore(storeData: Omit<InsertUserStore, 'id' | 'createdAt' | 'updatedAt'>): Promise<UserStore> {
+    const store: UserStore = {
+      ...storeData,
+      id: this.currentStoreId++,
+      shopifyAccessToken: null,
+      isConnected: false,
+      lastAnalyzedAt: null,
+      analysisSchedule: 'off',
+      nextScheduledAnalysisAt: null,
+      scoreAlertThreshold: 5,
+      productSyncStatus: 'idle',
+      productSyncError: null,
+      productsSyncedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    
+    this.userStores.set(store.id, store);
+    return store;
+  }
+
+  async getUserStores(userId: number): Promise<UserStore[]> {
+    return Array.from(this.userStores.values())
+      .filter(store => store.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getUserStore(id: number): Promise<UserStore | undefined> {
+    return this.userStores.get(id);
+  }
+
+  async updateUserStore(id: number, updates: Partial<UserStore>): Promise<UserStore | undefined> {
+    const store = this.userStores.get(id);
+    if (!store) return undefined;
+
+    const updatedStore = { ...store, ...updates, updatedAt: new Date() };
+    this.userStores.set(id, updatedStore);
+    return updatedStore;
+  }
+
+  async getStoresDueForAnalysis(now: Date, limit: number): Promise<UserStore[]> {
+    return Array.from(this.userStores.values())
+      .filter(store => store.analysisSchedule !== 'off' && store.nextScheduledAnalysisAt && store.nextScheduledAnalysisAt <= now)
+      .sort((a, b) => a.nextScheduledAnalysisAt!.getTime() - b.nextScheduledAnalysisAt!.getTime())
+      .slice(0, limit);
+  }
+
+  async getUserStoresByShopifyDomain(shopDomain: string): Promise<UserStore[]> {
+    return Array.from(this.userStores.values())
+      .filter(store => store.shopifyDomain === shopDomain);
+  }
+
+  async deleteUserStore(id: number): Promise<boolean> {
+    return this.userStores.delete(id);
+  }
+
+  async purgeUserStoreData(userStoreId: number): Promise<StoreDataPurgeResult> {
+    const removeWhere = <T extends { id: number }>(map: Map<number, T>, matches: (item: T) => boolean) => {
+      const ids = Array.from(map.values()).filter(matches).map(item => item.id);
+      ids.forEach(id => map.delete(id));
+      return ids.length;
+    };
+
+    const analysisJobsDeleted = removeWhere(this.analysisJobs, job => job.userStoreId === userStoreId);
+    const analysesDeleted = removeWhere(this.analyses, analysis => analysis.userStoreId === userStoreId);
+    const productsDeleted = removeWhere(this.shopifyProducts, product => product.userStoreId === userStoreId);
+    removeWhere(this.notifications, notification => notification.userStoreId === userStoreId);
+    removeWhere(this.suggestionDrafts, draft => draft.userStoreId === userStoreId);
+    const bulkJobIds = Array.from(this.bulkOptimizationJobs.values())
+      .filter(job => job.userStoreId === userStoreId)
+      .map(job => job.id);
+    removeWhere(this.bulkOptimizationItems, item => bulkJobIds.includes(item.jobId));
+    removeWhere(this.bulkOptimizationJobs, job => job.userStoreId === userStoreId);
+    removeWhere(this.themePreviews, preview => preview.userStoreId === userStoreId);
+    removeWhere(this.legalDocumentVersions, document => document.userStoreId === userStoreId);
+    removeWhere(this.conversionActions, action => action.userStoreId === userStoreId);
+    removeWhere(this.trustOptimizationChanges, change => change.userStoreId === userStoreId);
+    removeWhere(this.competitorAnalyses, analysis => analysis.userStoreId === userStoreId);
+    removeWhere(this.storeCompetitors, competitor => competitor.userStoreId === userStoreId);
+    removeWhere(this.oauthStates, state => state.userStoreId === userStoreId);
+    const optimizationsDeleted = removeWhere(this.productOptimizations, optimization => optimization.userStoreId === userStoreId);
+    this.userStores.delete(userStoreId);
+
+    return { analysesDeleted, optimizationsDeleted, analysisJobsDeleted, productsDeleted };
+  }
+
+  // Credit management methods
+  async getUserCredits(userId: number): Promise<number> {
     const user = await this.getUserById(userId);
     return user?.aiCredits || 0;
   }
 
   async deductCredits(userId: number, amount: number, description: string, analysisId?: number): Promise<boolean> {
-    const user = await this.getUserById(userId);
+    // No await between the balance check and the update, so concurrent charges can't overdraw
+    const user = this.users.get(userId);
     if (!user || user.aiCredits < amount) return false;
 
-    await this.updateUser(userId, { aiCredits: user.aiCredits - amount });
+    this.users.set(userId, { ...user, aiCredits: user.aiCredits - amount, updatedAt: new Date() });
 
     const transaction: CreditTransaction = {
       id: this.currentTransactionId++,
@@ -533,6 +1779,7 @@ export class MemStorage implements IStorage {
       amount: -amount,
       description,
       stripePaymentId: null,
+      stripeEventId: null,
       relatedAnalysisId: analysisId || null,
       createdAt: new Date(),
     };
@@ -541,11 +1788,15 @@ export class MemStorage implements IStorage {
     return true;
   }
 
-  async addCredits(userId: number, amount: number, description: string, stripePaymentId?: string): Promise<boolean> {
-    const user = await this.getUserById(userId);
+  async addCredits(userId: number, amount: number, description: string, stripePaymentId?: string, stripeEventId?: string): Promise<boolean> {
+    const user = this.users.get(userId);
     if (!user) return false;
 
-    await this.updateUser(userId, { aiCredits: user.aiCredits + amount });
+    if (stripeEventId && Array.from(this.creditTransactions.values()).some(transaction => transaction.stripeEventId === stripeEventId)) {
+      return false;
+    }
+
+    this.users.set(userId, { ...user, aiCredits: user.aiCredits + amount, updatedAt: new Date() });
 
     const transaction: CreditTransaction = {
       id: this.currentTransactionId++,
@@ -554,6 +1805,7 @@ export class MemStorage implements IStorage {
       amount,
       description,
       stripePaymentId: stripePaymentId || null,
+      stripeEventId: stripeEventId || null,
       relatedAnalysisId: null,
       createdAt: new Date(),
     };
@@ -569,13 +1821,123 @@ export class MemStorage implements IStorage {
       .slice(0, limit);
   }
 
+  async adjustCredits(userId: number, amount: number, type: 'bonus' | 'refund', description: string): Promise<User | undefined> {
+    const user = await this.getUserById(userId);
+    if (!user || user.aiCredits + amount < 0) return undefined;
+
+    const updated = await this.updateUser(userId, { aiCredits: user.aiCredits + amount });
+
+    const transaction: CreditTransaction = {
+      id: this.currentTransactionId++,
+      userId,
+      type,
+      amount,
+      description,
+      stripePaymentId: null,
+      stripeEventId: null,
+      relatedAnalysisId: null,
+      createdAt: new Date(),
+    };
+
+    this.creditTransactions.set(transaction.id, transaction);
+    return updated;
+  }
+
+  // Credit reservation methods
+  // Nothing below awaits between the balance check and the update, so each call is atomic on the event loop
+  async reserveCredits(userId: number, amount: number, description: string, expiresAt: Date): Promise<CreditReservation | undefined> {
+    const user = this.users.get(userId);
+    if (!user || user.aiCredits < amount) return undefined;
+
+    this.users.set(userId, { ...user, aiCredits: user.aiCredits - amount, updatedAt: new Date() });
+
+    const id = this.currentId++;
+    const reservation: CreditReservation = {
+      id,
+      userId,
+      amount,
+      committedAmount: 0,
+      status: 'held',
+      description,
+      expiresAt,
+      settledAt: null,
+      createdAt: new Date(),
+    };
+    this.creditReservations.set(id, reservation);
+    return reservation;
+  }
+
+  async getCreditReservation(id: number): Promise<CreditReservation | undefined> {
+    return this.creditReservations.get(id);
+  }
+
+  async commitCreditReservation(id: number, amount: number, description: string, analysisId?: number): Promise<CreditReservation | undefined> {
+    const reservation = this.creditReservations.get(id);
+    if (!reservation || reservation.status !== 'held' || reservation.committedAmount + amount > reservation.amount) {
+      return undefined;
+    }
+
+    const committedAmount = reservation.committedAmount + amount;
+    const fullyCommitted = committedAmount >= reservation.amount;
+    const updated: CreditReservation = {
+      ...reservation,
+      committedAmount,
+      status: fullyCommitted ? 'committed' : 'held',
+      settledAt: fullyCommitted ? new Date() : null,
+    };
+    this.creditReservations.set(id, updated);
+
+    const transaction: CreditTransaction = {
+      id: this.currentTransactionId++,
+      userId: reservation.userId,
+      type: 'usage',
+      amount: -amount,
+      description,
+      stripePaymentId: null,
+      stripeEventId: null,
+      relatedAnalysisId: analysisId || null,
+      createdAt: new Date(),
+    };
+    this.creditTransactions.set(transaction.id, transaction);
+    return updated;
+  }
+
+  async releaseCreditReservation(id: number, status: 'released' | 'expired' = 'released'): Promise<CreditReservation | undefined> {
+    const reservation = this.creditReservations.get(id);
+    if (!reservation || reservation.status !== 'held') return undefined;
+
+    const updated: CreditReservation = { ...reservation, status, settledAt: new Date() };
+    this.creditReservations.set(id, updated);
+
+    const user = this.users.get(reservation.userId);
+    const unused = reservation.amount - reservation.committedAmount;
+    if (user && unused > 0) {
+      this.users.set(user.id, { ...user, aiCredits: user.aiCredits + unused, updatedAt: new Date() });
+    }
+    return updated;
+  }
+
+  async getExpiredCreditReservations(now: Date, limit: number): Promise<CreditReservation[]> {
+    return Array.from(this.creditReservations.values())
+      .filter(reservation => reservation.status === 'held' && reservation.expiresAt < now)
+      .sort((a, b) => a.expiresAt.getTime() - b.expiresAt.getTime())
+      .slice(0, limit);
+  }
+
+  // Subscription history methods
+  async getUserSubscriptions(userId: number): Promise<UserSubscription[]> {
+    // Subscriptions are managed through Stripe and not kept in memory storage
+    return [];
+  }
+
   // Session management methods
-  async createSession(userId: number): Promise<UserSession> {
+  async createSession(userId: number, options: { impersonatedBy?: number; ttlMs?: number } = {}): Promise<UserSession> {
     const sessionId = randomUUID();
     const session: UserSession = {
       id: sessionId,
       userId,
-      expiresAt: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000), // 30 days
+      impersonatedBy: options.impersonatedBy ?? null,
+      expiresAt: new Date(Date.now() + (options.ttlMs ?? 30 * 24 * 60 * 60 * 1000)), // 30 days
       createdAt: new Date(),
     };
 
@@ -605,32 +1967,159 @@ export class MemStorage implements IStorage {
     }
   }
 
-  // Product optimization tracking methods (stub implementation for memory storage)
+  // OAuth state methods
+  async createOAuthState(state: InsertOAuthState): Promise<OAuthState> {
+    const id = this.currentId++;
+    const created: OAuthState = {
+      id,
+      state: state.state,
+      provider: state.provider,
+      userId: state.userId,
+      sessionId: state.sessionId,
+      userStoreId: state.userStoreId ?? null,
+      shopDomain: state.shopDomain ?? null,
+      expiresAt: state.expiresAt,
+      consumedAt: null,
+      createdAt: new Date(),
+    };
+    this.oauthStates.set(id, created);
+    return created;
+  }
+
+  async consumeOAuthState(state: string): Promise<OAuthState | undefined> {
+    const stored = Array.from(this.oauthStates.values()).find(item => item.state === state);
+    if (!stored || stored.consumedAt) return undefined;
+
+    const consumed = { ...stored, consumedAt: new Date() };
+    this.oauthStates.set(stored.id, consumed);
+    return consumed;
+  }
+
+  async deleteExpiredOAuthStates(before: Date): Promise<number> {
+    const expired = Array.from(this.oauthStates.values()).filter(item => item.expiresAt < before);
+    expired.forEach(item => this.oauthStates.delete(item.id));
+    return expired.length;
+  }
+
+  // Product optimization tracking methods
   async recordProductOptimization(data: {
     userId: number;
     userStoreId: number;
     shopifyProductId: string;
-    optimizationType: 'title' | 'description' | 'pricing' | 'keywords';
+    optimizationType: ProductOptimizationType;
     originalValue: string;
     optimizedValue: string;
     creditsUsed: number;
+    shopifyVariantId?: string | null;
   }): Promise<ProductOptimization> {
-    // Stub implementation for memory storage
-    return {
-      id: Math.floor(Math.random() * 10000),
+    const id = this.currentId++;
+    const optimization: ProductOptimization = {
+      id,
       ...data,
+      shopifyVariantId: data.shopifyVariantId ?? null,
+      status: 'applied',
+      creditsRefunded: 0,
       appliedAt: new Date(),
+      revertedAt: null,
     };
+    this.productOptimizations.set(id, optimization);
+    return optimization;
   }
 
   async getProductOptimizations(userStoreId: number, optimizationType?: string): Promise<ProductOptimization[]> {
-    // Stub implementation for memory storage
-    return [];
+    return Array.from(this.productOptimizations.values())
+      .filter(optimization => optimization.userStoreId === userStoreId)
+      .filter(optimization => !optimizationType || optimization.optimizationType === optimizationType)
+      .sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+  }
+
+  async getProductOptimization(id: number): Promise<ProductOptimization | undefined> {
+    return this.productOptimizations.get(id);
+  }
+
+  async updateProductOptimization(id: number, updates: Partial<ProductOptimization>): Promise<ProductOptimization | undefined> {
+    const optimization = this.productOptimizations.get(id);
+    if (!optimization) return undefined;
+
+    const updated = { ...optimization, ...updates };
+    this.productOptimizations.set(id, updated);
+    return updated;
+  }
+
+  async transitionProductOptimization(id: number, fromStatus: ProductOptimization['status'], updates: Partial<ProductOptimization>): Promise<ProductOptimization | undefined> {
+    const optimization = this.productOptimizations.get(id);
+    if (!optimization || optimization.status !== fromStatus) return undefined;
+    return this.updateProductOptimization(id, updates);
+  }
+
+  // Suggestion draft methods
+  async createSuggestionDraft(draft: InsertSuggestionDraft): Promise<SuggestionDraft> {
+    const id = this.currentId++;
+    const now = new Date();
+    const created: SuggestionDraft = {
+      id,
+      userId: draft.userId,
+      userStoreId: draft.userStoreId,
+      shopifyProductId: draft.shopifyProductId,
+      shopifyVariantId: draft.shopifyVariantId ?? null,
+      optimizationType: draft.optimizationType,
+      originalValue: draft.originalValue ?? null,
+      suggestedValue: draft.suggestedValue,
+      content: draft.content,
+      status: draft.status ?? 'draft',
+      creditsCharged: draft.creditsCharged ?? 0,
+      optimizationId: draft.optimizationId ?? null,
+      createdAt: now,
+      updatedAt: now,
+      approvedAt: null,
+      appliedAt: null,
+      revertedAt: null,
+    };
+    this.suggestionDrafts.set(id, created);
+    return created;
+  }
+
+  async getSuggestionDraft(id: number): Promise<SuggestionDraft | undefined> {
+    return this.suggestionDrafts.get(id);
+  }
+
+  async getSuggestionDrafts(userStoreId: number, status?: SuggestionDraftStatus): Promise<SuggestionDraft[]> {
+    return Array.from(this.suggestionDrafts.values())
+      .filter(draft => draft.userStoreId === userStoreId && (!status || draft.status === status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async getSuggestionDraftByOptimizationId(optimizationId: number): Promise<SuggestionDraft | undefined> {
+    return Array.from(this.suggestionDrafts.values())
+      .find(draft => draft.optimizationId === optimizationId);
+  }
+
+  async updateSuggestionDraft(id: number, updates: Partial<SuggestionDraft>): Promise<SuggestionDraft | undefined> {
+    const draft = this.suggestionDrafts.get(id);
+    if (!draft) return undefined;
+
+    const updated = { ...draft, ...updates, updatedAt: new Date() };
+    this.suggestionDrafts.set(id, updated);
+    return updated;
+  }
+
+  async transitionSuggestionDraft(id: number, fromStatus: SuggestionDraftStatus, updates: Partial<SuggestionDraft>): Promise<SuggestionDraft | undefined> {
+    const draft = this.suggestionDrafts.get(id);
+    if (!draft || draft.status !== fromStatus) return undefined;
+    return this.updateSuggestionDraft(id, updates);
+  }
+
+  async deleteSuggestionDraft(id: number): Promise<boolean> {
+    return this.suggestionDrafts.delete(id);
   }
 
   async isProductOptimized(userStoreId: number, shopifyProductId: string, optimizationType: string): Promise<boolean> {
-    // Stub implementation for memory storage - always return false so optimizations can be applied
-    return false;
+    return Array.from(this.productOptimizations.values()).some(optimization =>
+      optimization.userStoreId === userStoreId &&
+      optimization.shopifyProductId === shopifyProductId &&
+      optimization.optimizationType === optimizationType &&
+      optimization.status === 'applied'
+    );
   }
 
   // Alex chat methods (stub implementation for memory storage)
@@ -680,6 +2169,734 @@ export class MemStorage implements IStorage {
   async clearChatHistory(sessionId: number): Promise<boolean> {
     return true;
   }
+
+  async findChatMessagesContaining(userId: number, terms: string[]): Promise<AlexChatMessage[]> {
+    return [];
+  }
+
+  async redactChatMessages(userId: number, terms: string[]): Promise<number> {
+    return 0;
+  }
+
+  // Analysis job queue methods (in-process queue for memory storage)
+  async createAnalysisJob(job: InsertAnalysisJob): Promise<AnalysisJob> {
+    const id = this.currentId++;
+    const analysisJob: AnalysisJob = {
+      id,
+      userId: job.userId ?? null,
+      userStoreId: job.userStoreId ?? null,
+      jobType: job.jobType,
+      payload: job.payload,
+      status: job.status ?? 'queued',
+      stage: job.stage ?? 'queued',
+      progress: job.progress ?? 0,
+      attempts: job.attempts ?? 0,
+      maxAttempts: job.maxAttempts ?? 3,
+      creditCost: job.creditCost ?? 0,
+      creditReservationId: job.creditReservationId ?? null,
+      error: job.error ?? null,
+      analysisId: job.analysisId ?? null,
+      competitorAnalysisId: job.competitorAnalysisId ?? null,
+      runAfter: job.runAfter ?? new Date(),
+      lockedAt: null,
+      completedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.analysisJobs.set(id, analysisJob);
+    return analysisJob;
+  }
+
+  async getAnalysisJob(id: number): Promise<AnalysisJob | undefined> {
+    return this.analysisJobs.get(id);
+  }
+
+  async updateAnalysisJob(id: number, updates: Partial<AnalysisJob>): Promise<AnalysisJob | undefined> {
+    const job = this.analysisJobs.get(id);
+    if (!job) return undefined;
+
+    const updatedJob = { ...job, ...updates, updatedAt: new Date() };
+    this.analysisJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+
+  async claimNextAnalysisJob(): Promise<AnalysisJob | undefined> {
+    // Single process, so finding and marking the job without awaiting is atomic
+    const now = new Date();
+    const next = Array.from(this.analysisJobs.values())
+      .filter(job => job.status === 'queued' && job.runAfter <= now)
+      .sort((a, b) => a.id - b.id)[0];
+    if (!next) return undefined;
+
+    const claimed: AnalysisJob = { ...next, status: 'running', lockedAt: now, attempts: next.attempts + 1, updatedAt: now };
+    this.analysisJobs.set(next.id, claimed);
+    return claimed;
+  }
+
+  async refreshAnalysisJobLock(id: number): Promise<void> {
+    const job = this.analysisJobs.get(id);
+    if (job?.status === 'running') {
+      this.analysisJobs.set(id, { ...job, lockedAt: new Date() });
+    }
+  }
+
+  async requeueStaleAnalysisJobs(lockedBefore: Date): Promise<number> {
+    let count = 0;
+    for (const job of Array.from(this.analysisJobs.values())) {
+      if (job.status === 'running' && job.lockedAt && job.lockedAt < lockedBefore) {
+        this.analysisJobs.set(job.id, { ...job, status: 'queued', stage: 'queued', progress: 0, lockedAt: null, updatedAt: new Date() });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  // Bulk optimization job methods
+  async createBulkOptimizationJob(job: InsertBulkOptimizationJob, productIds: string[]): Promise<BulkOptimizationJob> {
+    const id = this.currentId++;
+    const created: BulkOptimizationJob = {
+      id,
+      userId: job.userId,
+      userStoreId: job.userStoreId,
+      optimizationType: job.optimizationType,
+      status: job.status ?? 'queued',
+      totalItems: job.totalItems,
+      succeededItems: 0,
+      failedItems: 0,
+      creditsUsed: 0,
+      creditReservationId: job.creditReservationId ?? null,
+      cancelRequestedAt: null,
+      error: null,
+      lockedAt: null,
+      startedAt: null,
+      completedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.bulkOptimizationJobs.set(id, created);
+
+    for (const shopifyProductId of productIds) {
+      const itemId = this.currentId++;
+      this.bulkOptimizationItems.set(itemId, {
+        id: itemId,
+        jobId: id,
+        shopifyProductId,
+        productTitle: null,
+        status: 'pending',
+        attempts: 0,
+        originalValue: null,
+        optimizedValue: null,
+        optimizationId: null,
+        error: null,
+        claimedAt: null,
+        completedAt: null,
+      });
+    }
+    return created;
+  }
+
+  async getBulkOptimizationJob(id: number): Promise<BulkOptimizationJob | undefined> {
+    return this.bulkOptimizationJobs.get(id);
+  }
+
+  async getBulkOptimizationJobs(userStoreId: number, limit: number = 20): Promise<BulkOptimizationJob[]> {
+    return Array.from(this.bulkOptimizationJobs.values())
+      .filter(job => job.userStoreId === userStoreId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async updateBulkOptimizationJob(id: number, updates: Partial<BulkOptimizationJob>): Promise<BulkOptimizationJob | undefined> {
+    const job = this.bulkOptimizationJobs.get(id);
+    if (!job) return undefined;
+
+    const updated = { ...job, ...updates, updatedAt: new Date() };
+    this.bulkOptimizationJobs.set(id, updated);
+    return updated;
+  }
+
+  async incrementBulkOptimizationJobCounts(id: number, counts: { succeededItems?: number; failedItems?: number; creditsUsed?: number }): Promise<void> {
+    const job = this.bulkOptimizationJobs.get(id);
+    if (!job) return;
+
+    await this.updateBulkOptimizationJob(id, {
+      succeededItems: job.succeededItems + (counts.succeededItems || 0),
+      failedItems: job.failedItems + (counts.failedItems || 0),
+      creditsUsed: job.creditsUsed + (counts.creditsUsed || 0),
+      lockedAt: new Date(),
+    });
+  }
+
+  async claimNextBulkOptimizationJob(): Promise<BulkOptimizationJob | undefined> {
+    const next = Array.from(this.bulkOptimizationJobs.values())
+      .filter(job => job.status === 'queued')
+      .sort((a, b) => a.id - b.id)[0];
+    if (!next) return undefined;
+
+    const now = new Date();
+    const claimed: BulkOptimizationJob = { ...next, status: 'running', lockedAt: now, startedAt: next.startedAt ?? now, updatedAt: now };
+    this.bulkOptimizationJobs.set(next.id, claimed);
+    return claimed;
+  }
+
+  async refreshBulkOptimizationJobLock(id: number): Promise<void> {
+    const job = this.bulkOptimizationJobs.get(id);
+    if (job?.status === 'running') {
+      this.bulkOptimizationJobs.set(id, { ...job, lockedAt: new Date() });
+    }
+  }
+
+  async requeueStaleBulkOptimizationJobs(lockedBefore: Date): Promise<number> {
+    let count = 0;
+    for (const job of Array.from(this.bulkOptimizationJobs.values())) {
+      if (job.status === 'running' && job.lockedAt && job.lockedAt < lockedBefore) {
+        let failedItems = 0;
+        for (const item of Array.from(this.bulkOptimizationItems.values())) {
+          if (item.jobId !== job.id) continue;
+          if (item.status === 'running') {
+            this.bulkOptimizationItems.set(item.id, { ...item, status: 'pending', claimedAt: null });
+          } else if (item.status === 'publishing') {
+            this.bulkOptimizationItems.set(item.id, { ...item, status: 'failed', error: STALE_PUBLISHING_ITEM_ERROR, completedAt: new Date() });
+            failedItems++;
+          }
+        }
+        this.bulkOptimizationJobs.set(job.id, { ...job, status: 'queued', failedItems: job.failedItems + failedItems, lockedAt: null, updatedAt: new Date() });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async getBulkOptimizationItems(jobId: number): Promise<BulkOptimizationItem[]> {
+    return Array.from(this.bulkOptimizationItems.values())
+      .filter(item => item.jobId === jobId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async claimNextBulkOptimizationItem(jobId: number): Promise<BulkOptimizationItem | undefined> {
+    // Found and marked without awaiting, so concurrent workers never claim the same item
+    const next = Array.from(this.bulkOptimizationItems.values())
+      .filter(item => item.jobId === jobId && item.status === 'pending')
+      .sort((a, b) => a.id - b.id)[0];
+    if (!next) return undefined;
+
+    const claimed: BulkOptimizationItem = { ...next, status: 'running', attempts: next.attempts + 1, claimedAt: new Date() };
+    this.bulkOptimizationItems.set(next.id, claimed);
+    return claimed;
+  }
+
+  async updateBulkOptimizationItem(id: number, updates: Partial<BulkOptimizationItem>): Promise<BulkOptimizationItem | undefined> {
+    const item = this.bulkOptimizationItems.get(id);
+    if (!item) return undefined;
+
+    const updated = { ...item, ...updates };
+    this.bulkOptimizationItems.set(id, updated);
+    return updated;
+  }
+
+  async transitionBulkOptimizationItem(id: number, fromStatus: BulkOptimizationItemStatus, claimedAt: Date | null, updates: Partial<BulkOptimizationItem>): Promise<BulkOptimizationItem | undefined> {
+    const item = this.bulkOptimizationItems.get(id);
+    if (!item || item.status !== fromStatus || item.claimedAt?.getTime() !== claimedAt?.getTime()) return undefined;
+    return this.updateBulkOptimizationItem(id, updates);
+  }
+
+  async cancelPendingBulkOptimizationItems(jobId: number): Promise<number> {
+    let count = 0;
+    for (const item of Array.from(this.bulkOptimizationItems.values())) {
+      if (item.jobId === jobId && item.status === 'pending') {
+        this.bulkOptimizationItems.set(item.id, { ...item, status: 'cancelled', completedAt: new Date() });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  // Shopify product mirror methods
+  async upsertShopifyProducts(userStoreId: number, products: MirroredShopifyProductInput[], syncedAt: Date): Promise<void> {
+    for (const { variants, images, ...product } of products) {
+      const existing = Array.from(this.shopifyProducts.values())
+        .find(item => item.userStoreId === userStoreId && item.shopifyProductId === product.shopifyProductId);
+      const id = existing?.id ?? this.currentId++;
+
+      this.shopifyProducts.set(id, {
+        id,
+        userStoreId,
+        shopifyProductId: product.shopifyProductId,
+        title: product.title,
+        handle: product.handle,
+        descriptionHtml: product.descriptionHtml ?? null,
+        productType: product.productType ?? null,
+        vendor: product.vendor ?? null,
+        tags: product.tags ?? [],
+        status: product.status,
+        seoTitle: product.seoTitle ?? null,
+        seoDescription: product.seoDescription ?? null,
+        shopifyCreatedAt: product.shopifyCreatedAt ?? null,
+        shopifyUpdatedAt: product.shopifyUpdatedAt ?? null,
+        syncedAt,
+        variants: variants.map((variant, index) => ({
+          id: this.currentId++,
+          productId: id,
+          shopifyVariantId: variant.shopifyVariantId,
+          title: variant.title ?? null,
+          price: variant.price ?? null,
+          compareAtPrice: variant.compareAtPrice ?? null,
+          sku: variant.sku ?? null,
+          inventoryQuantity: variant.inventoryQuantity ?? null,
+          position: variant.position ?? index,
+        })),
+        images: images.map((image, index) => ({
+          id: this.currentId++,
+          productId: id,
+          shopifyImageId: image.shopifyImageId,
+          src: image.src,
+          altText: image.altText ?? null,
+          position: image.position ?? index,
+        })),
+      });
+    }
+  }
+
+  async getShopifyProducts(userStoreId: number): Promise<MirroredShopifyProduct[]> {
+    return Array.from(this.shopifyProducts.values())
+      .filter(product => product.userStoreId === userStoreId)
+      .sort((a, b) => a.id - b.id);
+  }
+
+  async getShopifyProduct(userStoreId: number, shopifyProductId: string): Promise<MirroredShopifyProduct | undefined> {
+    return Array.from(this.shopifyProducts.values())
+      .find(product => product.userStoreId === userStoreId && product.shopifyProductId === shopifyProductId);
+  }
+
+  async getShopifyProductCount(userStoreId: number): Promise<number> {
+    return (await this.getShopifyProducts(userStoreId)).length;
+  }
+
+  async deleteStaleShopifyProducts(userStoreId: number, syncedBefore: Date): Promise<number> {
+    let count = 0;
+    for (const product of Array.from(this.shopifyProducts.values())) {
+      if (product.userStoreId === userStoreId && product.syncedAt < syncedBefore) {
+        this.shopifyProducts.delete(product.id);
+        count++;
+      }
+    }
+    return count;
+  }
+
+  async deleteShopifyProduct(userStoreId: number, shopifyProductId: string): Promise<boolean> {
+    const product = await this.getShopifyProduct(userStoreId, shopifyProductId);
+    return product ? this.shopifyProducts.delete(product.id) : false;
+  }
+
+  // Notification methods
+  async createNotification(notification: InsertNotification): Promise<Notification> {
+    const id = this.currentId++;
+    const created: Notification = {
+      id,
+      userId: notification.userId,
+      userStoreId: notification.userStoreId ?? null,
+      type: notification.type,
+      title: notification.title,
+      message: notification.message,
+      data: notification.data ?? null,
+      isRead: notification.isRead ?? false,
+      createdAt: new Date(),
+    };
+    this.notifications.set(id, created);
+    return created;
+  }
+
+  async getUserNotifications(userId: number, limit: number = 20): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())
+      .slice(0, limit);
+  }
+
+  async markNotificationRead(id: number, userId: number): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId) return undefined;
+
+    const updated = { ...notification, isRead: true };
+    this.notifications.set(id, updated);
+    return updated;
+  }
+
+  async markAllNotificationsRead(userId: number): Promise<number> {
+    let count = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId === userId && !notification.isRead) {
+        this.notifications.set(notification.id, { ...notification, isRead: true });
+        count++;
+      }
+    }
+    return count;
+  }
+
+  // Compliance request methods
+  async createComplianceRequest(request: InsertComplianceRequest): Promise<ComplianceRequest> {
+    const id = this.currentId++;
+    const created: ComplianceRequest = {
+      id,
+      topic: request.topic,
+      shopDomain: request.shopDomain,
+      shopifyShopId: request.shopifyShopId ?? null,
+      shopifyCustomerId: request.shopifyCustomerId ?? null,
+      payload: request.payload,
+      status: request.status ?? 'received',
+      result: request.result ?? null,
+      exportData: request.exportData ?? null,
+      error: request.error ?? null,
+      receivedAt: new Date(),
+      completedAt: null,
+    };
+    this.complianceRequests.set(id, created);
+    return created;
+  }
+
+  async updateComplianceRequest(id: number, updates: Partial<ComplianceRequest>): Promise<ComplianceRequest | undefined> {
+    const request = this.complianceRequests.get(id);
+    if (!request) return undefined;
+
+    const updated = { ...request, ...updates };
+    this.complianceRequests.set(id, updated);
+    return updated;
+  }
+
+  async getComplianceRequest(id: number): Promise<ComplianceRequest | undefined> {
+    return this.complianceRequests.get(id);
+  }
+
+  async getComplianceRequests(limit: number = 100): Promise<ComplianceRequest[]> {
+    return Array.from(this.complianceRequests.values())
+      .sort((a, b) => b.receivedAt.getTime() - a.receivedAt.getTime())
+      .slice(0, limit);
+  }
+
+  // Admin audit log methods
+  async createAdminAuditLog(entry: InsertAdminAuditLog): Promise<AdminAuditLog> {
+    const id = this.currentId++;
+    const created: AdminAuditLog = {
+      id,
+      adminUserId: entry.adminUserId,
+      action: entry.action,
+      targetUserId: entry.targetUserId ?? null,
+      targetStoreId: entry.targetStoreId ?? null,
+      reason: entry.reason ?? null,
+      details: entry.details ?? null,
+      createdAt: new Date(),
+    };
+    this.adminAuditLogs.set(id, created);
+    return created;
+  }
+
+  async getAdminAuditLogs(filter: { targetUserId?: number; limit?: number } = {}): Promise<AdminAuditLog[]> {
+    return Array.from(this.adminAuditLogs.values())
+      .filter(entry => filter.targetUserId === undefined || entry.targetUserId === filter.targetUserId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)
+      .slice(0, filter.limit ?? 100);
+  }
+
+  // Stripe webhook ledger methods
+  async claimStripeEvent(event: InsertProcessedStripeEvent, staleBefore: Date): Promise<ProcessedStripeEvent | undefined> {
+    const existing = this.stripeEvents.get(event.id);
+    if (existing) {
+      const abandoned = existing.status === 'processing' && existing.updatedAt < staleBefore;
+      if (existing.status !== 'failed' && !abandoned) return undefined;
+
+      const claimed: ProcessedStripeEvent = { ...existing, status: 'processing', attempts: existing.attempts + 1, detail: null, updatedAt: new Date() };
+      this.stripeEvents.set(event.id, claimed);
+      return claimed;
+    }
+
+    const created: ProcessedStripeEvent = {
+      id: event.id,
+      type: event.type,
+      objectId: event.objectId ?? null,
+      status: 'processing',
+      attempts: 1,
+      detail: null,
+      payload: event.payload,
+      eventCreatedAt: event.eventCreatedAt,
+      processedAt: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.stripeEvents.set(event.id, created);
+    return created;
+  }
+
+  async getStripeEvent(id: string): Promise<ProcessedStripeEvent | undefined> {
+    return this.stripeEvents.get(id);
+  }
+
+  async getStripeEvents(filter: { status?: StripeEventStatus; limit?: number } = {}): Promise<ProcessedStripeEvent[]> {
+    return Array.from(this.stripeEvents.values())
+      .filter(event => !filter.status || event.status === filter.status)
+      .sort((a, b) => b.eventCreatedAt.getTime() - a.eventCreatedAt.getTime())
+      .slice(0, filter.limit ?? 100);
+  }
+
+  async updateStripeEvent(id: string, updates: Partial<ProcessedStripeEvent>): Promise<ProcessedStripeEvent | undefined> {
+    const event = this.stripeEvents.get(id);
+    if (!event) return undefined;
+
+    const updated = { ...event, ...updates, updatedAt: new Date() };
+    this.stripeEvents.set(id, updated);
+    return updated;
+  }
+
+  // Theme preview methods
+  async createThemePreview(preview: InsertThemePreview): Promise<ThemePreview> {
+    const id = this.currentId++;
+    const created: ThemePreview = {
+      id,
+      userId: preview.userId,
+      userStoreId: preview.userStoreId,
+      suggestionId: preview.suggestionId,
+      recommendation: preview.recommendation,
+      sourceThemeId: preview.sourceThemeId,
+      previewThemeId: preview.previewThemeId ?? null,
+      previewThemeName: preview.previewThemeName,
+      status: preview.status ?? 'creating',
+      cssChanges: preview.cssChanges ?? null,
+      settingsChanged: preview.settingsChanged ?? [],
+      creditsUsed: preview.creditsUsed ?? 0,
+      error: preview.error ?? null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      publishedAt: null,
+      discardedAt: null,
+    };
+    this.themePreviews.set(id, created);
+    return created;
+  }
+
+  async getThemePreview(id: number): Promise<ThemePreview | undefined> {
+    return this.themePreviews.get(id);
+  }
+
+  async getThemePreviews(userStoreId: number): Promise<ThemePreview[]> {
+    return Array.from(this.themePreviews.values())
+      .filter(preview => preview.userStoreId === userStoreId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+
+  async updateThemePreview(id: number, updates: Partial<ThemePreview>): Promise<ThemePreview | undefined> {
+    const preview = this.themePreviews.get(id);
+    if (!preview) return undefined;
+
+    const updated = { ...preview, ...updates, updatedAt: new Date() };
+    this.themePreviews.set(id, updated);
+    return updated;
+  }
+
+  // Legal document methods
+  async createLegalDocumentVersion(document: Omit<InsertLegalDocumentVersion, 'version'>): Promise<LegalDocumentVersion> {
+    const versions = Array.from(this.legalDocumentVersions.values())
+      .filter(item => item.userStoreId === document.userStoreId && item.documentType === document.documentType)
+      .map(item => item.version);
+    const id = this.currentId++;
+    const created: LegalDocumentVersion = {
+      id,
+      userId: document.userId,
+      userStoreId: document.userStoreId,
+      documentType: document.documentType,
+      version: Math.max(0, ...versions) + 1,
+      source: document.source,
+      title: document.title,
+      body: document.body,
+      shopifyResourceId: document.shopifyResourceId ?? null,
+      suggestionId: document.suggestionId ?? null,
+      restoredFromVersionId: document.restoredFromVersionId ?? null,
+      creditsUsed: document.creditsUsed ?? 0,
+      createdAt: new Date(),
+    };
+    this.legalDocumentVersions.set(id, created);
+    return created;
+  }
+
+  async getLegalDocumentVersion(id: number): Promise<LegalDocumentVersion | undefined> {
+    return this.legalDocumentVersions.get(id);
+  }
+
+  async getLegalDocumentVersions(userStoreId: number, documentType?: LegalDocumentType): Promise<LegalDocumentVersion[]> {
+    return Array.from(this.legalDocumentVersions.values())
+      .filter(document => document.userStoreId === userStoreId && (!documentType || document.documentType === documentType))
+      .sort((a, b) => a.documentType.localeCompare(b.documentType) || b.version - a.version);
+  }
+
+  async getLatestLegalDocumentVersion(userStoreId: number, documentType: LegalDocumentType): Promise<LegalDocumentVersion | undefined> {
+    return (await this.getLegalDocumentVersions(userStoreId, documentType))[0];
+  }
+
+  // Conversion action methods
+  async createConversionAction(action: InsertConversionAction): Promise<ConversionAction> {
+    const id = this.currentId++;
+    const created: ConversionAction = {
+      id,
+      userId: action.userId,
+      userStoreId: action.userStoreId,
+      suggestionId: action.suggestionId,
+      actionType: action.actionType,
+      settings: action.settings ?? {},
+      themeId: action.themeId,
+      snippetKey: action.snippetKey,
+      status: action.status ?? 'applied',
+      creditsUsed: action.creditsUsed ?? 0,
+      appliedAt: new Date(),
+      revertedAt: null,
+    };
+    this.conversionActions.set(id, created);
+    return created;
+  }
+
+  async getConversionAction(id: number): Promise<ConversionAction | undefined> {
+    return this.conversionActions.get(id);
+  }
+
+  async getConversionActions(userStoreId: number): Promise<ConversionAction[]> {
+    return Array.from(this.conversionActions.values())
+      .filter(action => action.userStoreId === userStoreId)
+      .sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+  }
+
+  async getAppliedConversionAction(userStoreId: number, actionType: ConversionActionType): Promise<ConversionAction | undefined> {
+    return (await this.getConversionActions(userStoreId))
+      .find(action => action.actionType === actionType && action.status === 'applied');
+  }
+
+  async updateConversionAction(id: number, updates: Partial<ConversionAction>): Promise<ConversionAction | undefined> {
+    const action = this.conversionActions.get(id);
+    if (!action) return undefined;
+
+    const updated = { ...action, ...updates };
+    this.conversionActions.set(id, updated);
+    return updated;
+  }
+
+  // Trust optimization change methods
+  async createTrustOptimizationChange(change: InsertTrustOptimizationChange): Promise<TrustOptimizationChange> {
+    const id = this.currentId++;
+    const created: TrustOptimizationChange = {
+      id,
+      userId: change.userId,
+      userStoreId: change.userStoreId,
+      suggestionId: change.suggestionId,
+      trustType: change.trustType,
+      resourceType: change.resourceType,
+      resourceId: change.resourceId,
+      resourceTitle: change.resourceTitle,
+      marker: change.marker,
+      createdResource: change.createdResource ?? false,
+      status: change.status ?? 'applied',
+      appliedAt: new Date(),
+      updatedAt: new Date(),
+      removedAt: null,
+    };
+    this.trustOptimizationChanges.set(id, created);
+    return created;
+  }
+
+  async getTrustOptimizationChanges(userStoreId: number, trustType?: TrustOptimizationType): Promise<TrustOptimizationChange[]> {
+    return Array.from(this.trustOptimizationChanges.values())
+      .filter(change => change.userStoreId === userStoreId && (!trustType || change.trustType === trustType))
+      .sort((a, b) => b.appliedAt.getTime() - a.appliedAt.getTime());
+  }
+
+  async getAppliedTrustOptimizationChange(userStoreId: number, trustType: TrustOptimizationType, resourceType: TrustResourceType, resourceId: string): Promise<TrustOptimizationChange | undefined> {
+    return (await this.getTrustOptimizationChanges(userStoreId, trustType)).find(change =>
+      change.resourceType === resourceType && change.resourceId === resourceId && change.status === 'applied'
+    );
+  }
+
+  async updateTrustOptimizationChange(id: number, updates: Partial<TrustOptimizationChange>): Promise<TrustOptimizationChange | undefined> {
+    const change = this.trustOptimizationChanges.get(id);
+    if (!change) return undefined;
+
+    const updated = { ...change, ...updates };
+    this.trustOptimizationChanges.set(id, updated);
+    return updated;
+  }
+
+  // Competitor benchmark methods
+  async createStoreCompetitor(competitor: InsertStoreCompetitor, maxPerStore: number): Promise<StoreCompetitor | undefined> {
+    const count = Array.from(this.storeCompetitors.values())
+      .filter(item => item.userStoreId === competitor.userStoreId).length;
+    if (count >= maxPerStore) return undefined;
+
+    const id = this.currentId++;
+    const created: StoreCompetitor = {
+      id,
+      userId: competitor.userId,
+      userStoreId: competitor.userStoreId,
+      name: competitor.name,
+      storeUrl: competitor.storeUrl,
+      createdAt: new Date(),
+    };
+    this.storeCompetitors.set(id, created);
+    return created;
+  }
+
+  async getStoreCompetitor(id: number): Promise<StoreCompetitor | undefined> {
+    return this.storeCompetitors.get(id);
+  }
+
+  async getStoreCompetitors(userStoreId: number): Promise<StoreCompetitor[]> {
+    return Array.from(this.storeCompetitors.values())
+      .filter(competitor => competitor.userStoreId === userStoreId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime());
+  }
+
+  async deleteStoreCompetitor(id: number): Promise<boolean> {
+    // Analyses cascade with their competitor
+    Array.from(this.competitorAnalyses.values())
+      .filter(analysis => analysis.competitorId === id)
+      .forEach(analysis => this.competitorAnalyses.delete(analysis.id));
+    return this.storeCompetitors.delete(id);
+  }
+
+  async createCompetitorAnalysis(analysis: InsertCompetitorAnalysis): Promise<CompetitorAnalysis> {
+    const id = this.currentId++;
+    const created: CompetitorAnalysis = {
+      id,
+      competitorId: analysis.competitorId,
+      userStoreId: analysis.userStoreId,
+      overallScore: analysis.overallScore,
+      designScore: analysis.designScore,
+      productScore: analysis.productScore,
+      seoScore: analysis.seoScore,
+      trustScore: analysis.trustScore,
+      pricingScore: analysis.pricingScore,
+      conversionScore: analysis.conversionScore,
+      priceRange: analysis.priceRange ?? null,
+      analysisData: analysis.analysisData,
+      creditsUsed: analysis.creditsUsed ?? 1,
+      degraded: analysis.degraded ?? false,
+      createdAt: new Date(),
+    };
+    this.competitorAnalyses.set(id, created);
+    return created;
+  }
+
+  async updateCompetitorAnalysis(id: number, updates: Partial<CompetitorAnalysis>): Promise<CompetitorAnalysis | undefined> {
+    const analysis = this.competitorAnalyses.get(id);
+    if (!analysis) return undefined;
+
+    const updated = { ...analysis, ...updates };
+    this.competitorAnalyses.set(id, updated);
+    return updated;
+  }
+
+  async getCompetitorAnalysis(id: number): Promise<CompetitorAnalysis | undefined> {
+    return this.competitorAnalyses.get(id);
+  }
+
+  async getLatestCompetitorAnalysis(competitorId: number): Promise<CompetitorAnalysis | undefined> {
+    return Array.from(this.competitorAnalyses.values())
+      .filter(analysis => analysis.competitorId === competitorId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id)[0];
+  }
 }
 
 // Use database storage if available, otherwise fallback to memory storage
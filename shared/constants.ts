@@ -7,6 +7,7 @@ export const ANALYSIS = {
   DEFAULT_LIMIT: 20,
   CREDIT_COST: 1,
   MAX_CONTENT_LENGTH: 8000,
+  MAX_REPAIR_ATTEMPTS: 2, // Re-asks allowed when AI output fails validation
   SCORES: {
     MAX_DESIGN: 20,
     MAX_PRODUCT: 25,
@@ -23,6 +24,34 @@ export const ANALYSIS = {
   }
 } as const;
 
+export const ANALYSIS_JOBS = {
+  POLL_INTERVAL: 2000,        // Worker checks for queued jobs every 2 seconds
+  CONCURRENCY: 2,             // Screenshots are memory heavy, keep this low
+  MAX_ATTEMPTS: 3,
+  RETRY_BASE_DELAY: 5000,     // Doubles on each retry
+  STALE_LOCK_MS: 600000,      // 10 minutes - running jobs whose lock wasn't refreshed for this long are requeued
+  LOCK_REFRESH_MS: 60000,     // A running job refreshes its lock every minute
+  STAGE_PROGRESS: {
+    queued: 0,
+    fetching: 10,
+    screenshot: 35,
+    ai: 60,
+    saving: 90,
+    done: 100
+  }
+} as const;
+
+export const ANALYSIS_SCHEDULER = {
+  CHECK_INTERVAL: 15 * 60 * 1000,   // Look for due stores every 15 minutes
+  BATCH_SIZE: 20,                   // Max stores enqueued per check
+  DEFAULT_ALERT_THRESHOLD: 5,       // Score points
+  INTERVAL_DAYS: {
+    daily: 1,
+    weekly: 7,
+    monthly: 30
+  }
+} as const;
+
 export const CREDITS = {
   DEFAULT_NEW_USER: 25,
   ANALYSIS_COST: 1,
@@ -101,6 +130,135 @@ export const SHOPIFY = {
   API_VERSION: '2024-04'
 } as const;
 
+export const SHOPIFY_SYNC = {
+  PAGE_SIZE: 25,                    // Products per GraphQL page, sized to stay well under the 1000-point query cost cap
+  VARIANTS_PER_PAGE: 20,            // Products with more variants/images page through them separately
+  IMAGES_PER_PAGE: 10,
+  CHILD_PAGE_SIZE: 100,
+  STALE_AFTER_MS: 60 * 60 * 1000,   // Mirror older than 1 hour triggers a background incremental sync
+  UPDATED_AT_OVERLAP_MS: 60 * 1000, // Re-read a minute before the watermark to cover clock skew
+  MAX_THROTTLE_RETRIES: 5
+} as const;
+
+export const WOOCOMMERCE = {
+  API_PATH: '/wp-json/wc/v3',
+  STORE_API_PATH: '/wp-json/wc/store/v1', // public storefront API, no credentials needed
+  PAGE_SIZE: 100,                   // the REST API's per_page maximum
+  REQUEST_TIMEOUT_MS: 15000,
+  // Only accepted with WOOCOMMERCE_ALLOW_LOCAL=true, where plain http is fine too, so a local mock server can stand in for a store
+  LOCAL_HOSTS: ['localhost', '127.0.0.1']
+} as const;
+
+export const EBAY = {
+  // EBAY_ENVIRONMENT=sandbox switches every call to the sandbox hosts
+  API_BASE: { production: 'https://api.ebay.com', sandbox: 'https://api.sandbox.ebay.com' },
+  AUTH_BASE: { production: 'https://auth.ebay.com', sandbox: 'https://auth.sandbox.ebay.com' },
+  SCOPES: [
+    'https://api.ebay.com/oauth/api_scope',
+    'https://api.ebay.com/oauth/api_scope/sell.inventory',
+    'https://api.ebay.com/oauth/api_scope/sell.account.readonly'
+  ],
+  MARKETPLACE_ID: 'EBAY_US',
+  CONTENT_LANGUAGE: 'en-US',
+  TRADING_SITE_ID: '0',
+  TRADING_COMPATIBILITY_LEVEL: '1193',
+  PAGE_SIZE: 100,                   // inventory_item page maximum is 200, offers are fetched per item
+  TITLE_MAX_LENGTH: 80,
+  ANALYSIS_LISTING_LIMIT: 50,       // listings read live for each analysis
+  TOKEN_REFRESH_MARGIN_MS: 5 * 60 * 1000,
+  REQUEST_TIMEOUT_MS: 15000
+} as const;
+
+export const SHOPIFY_WEBHOOKS = {
+  CALLBACK_PATH: '/api/webhooks/shopify/events',
+  TOPICS: ['PRODUCTS_CREATE', 'PRODUCTS_UPDATE', 'PRODUCTS_DELETE', 'APP_UNINSTALLED', 'SHOP_UPDATE']
+} as const;
+
+export const OPTIMIZATION_REVERT = {
+  REVERTIBLE_TYPES: ['title', 'description', 'pricing', 'keywords', 'item_specifics'],
+  REFUND_WINDOW_MS: 24 * 60 * 60 * 1000 // Credits are only refunded for changes undone within a day
+} as const;
+
+export const BULK_OPTIMIZATION = {
+  POLL_INTERVAL: 2000,
+  CONCURRENCY: 2,             // Bulk jobs running at once
+  ITEM_CONCURRENCY: 3,        // Products in flight per job; each one waits on an AI completion
+  MAX_ITEM_ATTEMPTS: 3,
+  RETRY_BASE_DELAY: 5000,     // Doubles on each retry
+  STALE_LOCK_MS: 300000,      // 5 minutes - running jobs whose lock wasn't refreshed for this long are requeued
+  LOCK_REFRESH_MS: 60000,     // A running job refreshes its lock every minute
+  CREDITS_PER_ITEM: 1
+} as const;
+
+export const THEME_CUSTOMIZATION = {
+  API_VERSION: '2025-01',           // themeDuplicate is not available in the default Admin API version
+  CUSTOM_CSS_ASSET: 'assets/storescore-custom.css',
+  LAYOUT_ASSET: 'layout/theme.liquid',
+  SETTINGS_ASSET: 'config/settings_data.json',
+  PREVIEW_NAME_PREFIX: 'StoreScore preview',
+  PROCESSING_POLL_MS: 2000,
+  PROCESSING_TIMEOUT_MS: 120000,    // Duplicating a large theme can take a while
+  CREDIT_COST: 1
+} as const;
+
+export const LEGAL_DOCUMENTS = {
+  API_VERSION: '2025-01',           // Pages are only in the Admin GraphQL API from 2024-10
+  IMPRINT_PAGE_HANDLE: 'imprint',
+  CREDIT_COST: 1,
+  // Stores based here get an imprint (Impressum) page and EU consumer rights in their policies
+  EU_COUNTRY_CODES: [
+    'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+    'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE'
+  ]
+} as const;
+
+export const CONVERSION_ACTIONS = {
+  SNIPPET_PREFIX: 'snippets/storescore-',
+  CREDIT_COST: 1
+} as const;
+
+export const TRUST_OPTIMIZATION = {
+  API_VERSION: '2024-04',
+  MARKER_PREFIX: 'storescore-trust',
+  PRODUCT_LIMIT: 5, // products that get a review prompt
+  CREDIT_COST: 1
+} as const;
+
+export const CREDENTIAL_VAULT = {
+  PREFIX: 'vault:v1' // sealed values read vault:v1:<keyId>:<wrapped data key>:<ciphertext>
+} as const;
+
+export const OAUTH_STATE = {
+  TTL_MS: 10 * 60 * 1000 // consent has to be granted within this window
+} as const;
+
+export const CREDIT_RESERVATIONS = {
+  HOLD_TTL_MS: 15 * 60 * 1000,       // request handlers: AI and platform calls finish well within this
+  JOB_HOLD_TTL_MS: 6 * 60 * 60 * 1000, // queued analyses and bulk runs wait in the queue and retry
+  SWEEP_INTERVAL_MS: 60 * 1000,
+  SWEEP_BATCH_SIZE: 100
+} as const;
+
+export const STRIPE_EVENTS = {
+  STALE_PROCESSING_MS: 10 * 60 * 1000, // an event still 'processing' after this is assumed abandoned and can be picked up again
+  LIST_LIMIT: 100
+} as const;
+
+export const ADMIN_CONSOLE = {
+  SEARCH_LIMIT: 25,
+  MAX_CREDIT_ADJUSTMENT: 10000, // per grant or revoke
+  IMPERSONATION_TTL_MS: 60 * 60 * 1000, // support sessions end on their own after an hour
+  AUDIT_LOG_LIMIT: 200
+} as const;
+
+export const COMPETITOR_BENCHMARKS = {
+  MAX_PER_STORE: 3,
+  CREDIT_COST: 1, // per competitor analysis
+  SCORE_GAP_THRESHOLD: 3, // category points behind a competitor before it becomes a suggestion
+  PRICE_GAP_RATIO: 0.25, // median price difference worth pointing out
+  MAX_SUGGESTIONS: 10
+} as const;
+
 export const OPTIMIZATION_TYPES = {
   TITLE: 'title',
   DESCRIPTION: 'description',
@@ -123,4 +281,20 @@ export const AD_STYLES = {
   PROBLEM_SOLUTION: 'problem-solution',
   SCARCITY: 'scarcity',
   SOCIAL_PROOF: 'social-proof'
-} as const;
\ No newline at end of file
+} as const;
+
+export const LLM = {
+  PROVIDERS: ['openai', 'anthropic', 'azure', 'local', 'fixture'],
+  DEFAULT_PROVIDER: 'openai',
+  DEFAULT_MODELS: {
+    openai: 'gpt-4o',
+    anthropic: 'claude-3-5-sonnet-latest',
+    azure: 'gpt-4o',
+    local: 'llama3.1',
+    fixture: 'fixture'
+  },
+  DEFAULT_IMAGE_MODEL: 'dall-e-3',
+  DEFAULT_MAX_TOKENS: 1500,
+  ANTHROPIC_API_VERSION: '2023-06-01',
+  AZURE_API_VERSION: '2024-06-01'
+} as const;
@@ -16,6 +16,15 @@ export interface ApiError {
   path?: string;
 }
 
+/**
+ * An error a service throws when a request can't go ahead; routes answer with its statusCode and message
+ */
+export class HttpError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+  }
+}
+
 /**
  * Creates a standardized error response
  * @param error - The error that occurred
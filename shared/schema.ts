@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, jsonb, timestamp, boolean, varchar, index } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, jsonb, timestamp, boolean, varchar, index, uniqueIndex } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -30,22 +30,34 @@ export const userStores = pgTable("user_stores", {
   userId: integer("user_id").references(() => users.id).notNull(),
   name: text("name").notNull(),
   storeUrl: text("store_url"),
-  storeType: text("store_type").$type<'shopify' | 'ebay'>().notNull(),
+  storeType: text("store_type").$type<StoreType>().notNull(),
   ebayUsername: text("ebay_username"),
   shopifyAccessToken: text("shopify_access_token"),
   shopifyDomain: text("shopify_domain"),
   shopifyScope: text("shopify_scope"),
+  wooConsumerKey: text("woo_consumer_key"), // WooCommerce REST API key pair; storeUrl is the site
+  wooConsumerSecret: text("woo_consumer_secret"),
+  ebayAccessToken: text("ebay_access_token"), // eBay user token from OAuth; short-lived, renewed with the refresh token
+  ebayRefreshToken: text("ebay_refresh_token"),
+  ebayTokenExpiresAt: timestamp("ebay_token_expires_at"),
   isConnected: boolean("is_connected").default(false).notNull(),
   connectionStatus: text("connection_status").$type<'pending' | 'connected' | 'error' | 'disconnected'>().default('disconnected'),
   lastSyncAt: timestamp("last_sync_at"),
   lastAnalyzedAt: timestamp("last_analyzed_at"),
   lastAnalysisScore: integer("last_analysis_score"),
   aiRecommendationsCount: integer("ai_recommendations_count").default(0),
+  analysisSchedule: text("analysis_schedule").$type<AnalysisSchedule>().default('off').notNull(),
+  nextScheduledAnalysisAt: timestamp("next_scheduled_analysis_at"),
+  scoreAlertThreshold: integer("score_alert_threshold").default(5).notNull(), // points of movement that trigger a notification
+  productSyncStatus: text("product_sync_status").$type<'idle' | 'syncing' | 'error'>().default('idle').notNull(),
+  productSyncError: text("product_sync_error"),
+  productsSyncedAt: timestamp("products_synced_at"), // start of the last successful sync, used as the incremental watermark
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => {
   return {
     userIdIdx: index("user_stores_user_id_idx").on(table.userId),
+    nextScheduledAnalysisIdx: index("user_stores_next_scheduled_analysis_idx").on(table.nextScheduledAnalysisAt),
   };
 });
 
@@ -55,7 +67,7 @@ export const storeAnalyses = pgTable("store_analyses", {
   userId: integer("user_id").references(() => users.id),
   userStoreId: integer("user_store_id").references(() => userStores.id),
   storeUrl: text("store_url"),
-  storeType: text("store_type").$type<'shopify' | 'ebay'>().notNull(),
+  storeType: text("store_type").$type<StoreType>().notNull(),
   ebayUsername: text("ebay_username"),
   overallScore: integer("overall_score").notNull(),
   strengths: jsonb("strengths").$type<string[]>().notNull(),
@@ -79,6 +91,8 @@ export const storeAnalyses = pgTable("store_analyses", {
   storeRecap: jsonb("store_recap").$type<any>().notNull(),
   creditsUsed: integer("credits_used").default(1).notNull(),
   contentHash: text("content_hash"), // Hash of store content for change detection
+  degraded: boolean("degraded").default(false).notNull(), // AI output failed validation; scores are not trustworthy
+  validationErrors: jsonb("validation_errors").$type<string[]>(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => {
   return {
@@ -95,6 +109,7 @@ export const creditTransactions = pgTable("credit_transactions", {
   amount: integer("amount").notNull(), // positive for purchase/bonus, negative for usage
   description: text("description").notNull(),
   stripePaymentId: text("stripe_payment_id"),
+  stripeEventId: text("stripe_event_id").unique(), // the webhook event that granted these credits, so a redelivery can't grant them twice
   relatedAnalysisId: integer("related_analysis_id").references(() => storeAnalyses.id),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => {
@@ -103,6 +118,25 @@ export const creditTransactions = pgTable("credit_transactions", {
   };
 });
 
+// Credit reservations - credits held for work in progress. The hold comes off the balance right away;
+// commits turn (part of) it into usage transactions and releasing returns whatever wasn't committed.
+export const creditReservations = pgTable("credit_reservations", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  amount: integer("amount").notNull(),
+  committedAmount: integer("committed_amount").default(0).notNull(),
+  status: text("status").$type<CreditReservationStatus>().default('held').notNull(),
+  description: text("description").notNull(),
+  expiresAt: timestamp("expires_at").notNull(), // holds still open by then are released by the sweeper
+  settledAt: timestamp("settled_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdIdx: index("credit_reservations_user_id_idx").on(table.userId),
+    statusExpiresAtIdx: index("credit_reservations_status_expires_at_idx").on(table.status, table.expiresAt),
+  };
+});
+
 // Subscription plans table
 export const subscriptionPlans = pgTable("subscription_plans", {
   id: serial("id").primaryKey(),
@@ -140,6 +174,7 @@ export const userSubscriptions = pgTable("user_subscriptions", {
   trialEnd: timestamp("trial_end"),
   canceledAt: timestamp("canceled_at"),
   cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false).notNull(),
+  lastStripeEventAt: timestamp("last_stripe_event_at"), // creation time of the newest webhook event applied; older ones arriving late are skipped
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 }, (table) => {
@@ -149,12 +184,34 @@ export const userSubscriptions = pgTable("user_subscriptions", {
   };
 });
 
+// Stripe webhook ledger - one row per Stripe event id, so a redelivered event is only handled once.
+// The event itself is kept so failed ones can be replayed from the admin console.
+export const processedStripeEvents = pgTable("processed_stripe_events", {
+  id: text("id").primaryKey(), // Stripe event id
+  type: text("type").notNull(),
+  objectId: text("object_id"), // id of the event's data.object, e.g. the subscription
+  status: text("status").$type<StripeEventStatus>().default('processing').notNull(),
+  attempts: integer("attempts").default(1).notNull(),
+  detail: text("detail"), // error for failed events, why it was ignored for skipped ones
+  payload: jsonb("payload").$type<Record<string, any>>().notNull(),
+  eventCreatedAt: timestamp("event_created_at").notNull(),
+  processedAt: timestamp("processed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    statusIdx: index("processed_stripe_events_status_idx").on(table.status),
+    objectIdIdx: index("processed_stripe_events_object_id_idx").on(table.objectId),
+  };
+});
+
 
 
 // User sessions table
 export const userSessions = pgTable("user_sessions", {
   id: text("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
+  impersonatedBy: integer("impersonated_by").references(() => users.id, { onDelete: "cascade" }), // admin viewing the account read-only for support
   expiresAt: timestamp("expires_at").notNull(),
   createdAt: timestamp("created_at").defaultNow().notNull(),
 }, (table) => {
@@ -164,17 +221,39 @@ export const userSessions = pgTable("user_sessions", {
   };
 });
 
+// OAuth state handed to a platform's consent page; single-use and bound to the session that started the flow
+export const oauthStates = pgTable("oauth_states", {
+  id: serial("id").primaryKey(),
+  state: text("state").notNull().unique(),
+  provider: text("provider").$type<OAuthProvider>().notNull(),
+  userId: integer("user_id").references(() => users.id, { onDelete: "cascade" }).notNull(),
+  sessionId: text("session_id").references(() => userSessions.id, { onDelete: "cascade" }).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }), // null when the connection creates the store
+  shopDomain: text("shop_domain"), // Shopify: the shop the consent was requested from
+  expiresAt: timestamp("expires_at").notNull(),
+  consumedAt: timestamp("consumed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    expiresAtIdx: index("oauth_states_expires_at_idx").on(table.expiresAt),
+  };
+});
+
 // Product optimizations table - tracks AI optimizations applied to products
 export const productOptimizations = pgTable("product_optimizations", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id).notNull(),
   userStoreId: integer("user_store_id").references(() => userStores.id).notNull(),
   shopifyProductId: text("shopify_product_id").notNull(),
-  optimizationType: text("optimization_type").$type<'title' | 'description' | 'pricing' | 'keywords'>().notNull(),
+  shopifyVariantId: text("shopify_variant_id"), // variant whose price was changed, for pricing optimizations
+  optimizationType: text("optimization_type").$type<ProductOptimizationType>().notNull(),
   originalValue: text("original_value"),
   optimizedValue: text("optimized_value").notNull(),
   creditsUsed: integer("credits_used").default(1).notNull(),
+  status: text("status").$type<'applied' | 'reverted'>().default('applied').notNull(),
+  creditsRefunded: integer("credits_refunded").default(0).notNull(),
   appliedAt: timestamp("applied_at").defaultNow().notNull(),
+  revertedAt: timestamp("reverted_at"),
 }, (table) => {
   return {
     userStoreProductIdx: index("product_optimizations_user_store_product_idx").on(table.userStoreId, table.shopifyProductId),
@@ -182,6 +261,203 @@ export const productOptimizations = pgTable("product_optimizations", {
   };
 });
 
+// AI product suggestion drafts - previewed, optionally edited, then approved and applied verbatim
+export const suggestionDrafts = pgTable("suggestion_drafts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }).notNull(),
+  shopifyProductId: text("shopify_product_id").notNull(),
+  shopifyVariantId: text("shopify_variant_id"), // variant to reprice, for pricing drafts
+  optimizationType: text("optimization_type").$type<ProductOptimizationType>().notNull(),
+  originalValue: text("original_value"), // value when the suggestion was generated, for the preview
+  suggestedValue: text("suggested_value").notNull(), // AI output as generated
+  content: text("content").notNull(), // what will be published; starts as the suggestion and may be edited
+  status: text("status").$type<SuggestionDraftStatus>().default('draft').notNull(),
+  creditsCharged: integer("credits_charged").default(0).notNull(),
+  optimizationId: integer("optimization_id").references(() => productOptimizations.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  approvedAt: timestamp("approved_at"),
+  appliedAt: timestamp("applied_at"),
+  revertedAt: timestamp("reverted_at"),
+}, (table) => {
+  return {
+    userStoreStatusIdx: index("suggestion_drafts_user_store_status_idx").on(table.userStoreId, table.status),
+    optimizationIdIdx: index("suggestion_drafts_optimization_id_idx").on(table.optimizationId),
+  };
+});
+
+// Bulk optimization jobs - one row per bulk run, processed in the background with per-product items
+export const bulkOptimizationJobs = pgTable("bulk_optimization_jobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }).notNull(),
+  optimizationType: text("optimization_type").$type<'title' | 'description' | 'pricing' | 'keywords'>().notNull(),
+  status: text("status").$type<BulkOptimizationJobStatus>().default('queued').notNull(),
+  totalItems: integer("total_items").notNull(),
+  succeededItems: integer("succeeded_items").default(0).notNull(),
+  failedItems: integer("failed_items").default(0).notNull(),
+  creditsUsed: integer("credits_used").default(0).notNull(), // charged per successful item
+  creditReservationId: integer("credit_reservation_id").references(() => creditReservations.id), // one credit per item, held when the job is queued
+  cancelRequestedAt: timestamp("cancel_requested_at"),
+  error: text("error"),
+  lockedAt: timestamp("locked_at"), // refreshed as items finish, so a crashed worker's job goes stale
+  startedAt: timestamp("started_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    statusIdx: index("bulk_optimization_jobs_status_idx").on(table.status),
+    userStoreIdIdx: index("bulk_optimization_jobs_user_store_id_idx").on(table.userStoreId),
+  };
+});
+
+export const bulkOptimizationItems = pgTable("bulk_optimization_items", {
+  id: serial("id").primaryKey(),
+  jobId: integer("job_id").references(() => bulkOptimizationJobs.id, { onDelete: "cascade" }).notNull(),
+  shopifyProductId: text("shopify_product_id").notNull(),
+  productTitle: text("product_title"),
+  status: text("status").$type<BulkOptimizationItemStatus>().default('pending').notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  originalValue: text("original_value"),
+  optimizedValue: text("optimized_value"),
+  optimizationId: integer("optimization_id").references(() => productOptimizations.id),
+  error: text("error"),
+  claimedAt: timestamp("claimed_at"), // set on every claim; only the worker holding this claim may apply the item
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return {
+    jobStatusIdx: index("bulk_optimization_items_job_status_idx").on(table.jobId, table.status),
+  };
+});
+
+// Theme previews - unpublished copies of the live theme with a design suggestion applied
+export const themePreviews = pgTable("theme_previews", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }).notNull(),
+  suggestionId: text("suggestion_id").notNull(),
+  recommendation: text("recommendation").notNull(),
+  sourceThemeId: text("source_theme_id").notNull(), // live theme the preview was copied from
+  previewThemeId: text("preview_theme_id"),
+  previewThemeName: text("preview_theme_name").notNull(),
+  status: text("status").$type<ThemePreviewStatus>().default('creating').notNull(),
+  cssChanges: text("css_changes"),
+  settingsChanged: jsonb("settings_changed").$type<string[]>().default([]).notNull(), // settings_data.json keys that were updated
+  creditsUsed: integer("credits_used").default(0).notNull(),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  publishedAt: timestamp("published_at"),
+  discardedAt: timestamp("discarded_at"),
+}, (table) => {
+  return {
+    userStoreIdIdx: index("theme_previews_user_store_id_idx").on(table.userStoreId),
+  };
+});
+
+// Every version of a legal document published to a store, kept so it can be diffed and rolled back
+export const legalDocumentVersions = pgTable("legal_document_versions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }).notNull(),
+  documentType: text("document_type").$type<LegalDocumentType>().notNull(),
+  version: integer("version").notNull(),
+  source: text("source").$type<LegalDocumentSource>().notNull(),
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  shopifyResourceId: text("shopify_resource_id"), // shop policy or page gid
+  suggestionId: text("suggestion_id"),
+  restoredFromVersionId: integer("restored_from_version_id"), // set on rollbacks
+  creditsUsed: integer("credits_used").default(0).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    storeTypeVersionIdx: uniqueIndex("legal_document_versions_store_type_version_idx").on(table.userStoreId, table.documentType, table.version),
+  };
+});
+
+// Conversion actions installed into a store's live theme from conversion suggestions
+export const conversionActions = pgTable("conversion_actions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }).notNull(),
+  suggestionId: text("suggestion_id").notNull(),
+  actionType: text("action_type").$type<ConversionActionType>().notNull(),
+  settings: jsonb("settings").$type<Record<string, unknown>>().default({}).notNull(),
+  themeId: text("theme_id").notNull(), // live theme the snippet was installed in
+  snippetKey: text("snippet_key").notNull(),
+  status: text("status").$type<ConversionActionStatus>().default('applied').notNull(),
+  creditsUsed: integer("credits_used").default(0).notNull(),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+  revertedAt: timestamp("reverted_at"),
+}, (table) => {
+  return {
+    userStoreIdIdx: index("conversion_actions_user_store_id_idx").on(table.userStoreId),
+  };
+});
+
+// Content the trust optimizer inserted into or created in a store, one row per resource and trust type.
+// Inserted content sits between HTML comment markers so it can be replaced in place or stripped again.
+export const trustOptimizationChanges = pgTable("trust_optimization_changes", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }).notNull(),
+  suggestionId: text("suggestion_id").notNull(), // the suggestion that last wrote the content
+  trustType: text("trust_type").$type<TrustOptimizationType>().notNull(),
+  resourceType: text("resource_type").$type<TrustResourceType>().notNull(),
+  resourceId: text("resource_id").notNull(), // Shopify product or page id
+  resourceTitle: text("resource_title").notNull(),
+  marker: text("marker").notNull(),
+  createdResource: boolean("created_resource").default(false).notNull(), // we created the page, so removal deletes it
+  status: text("status").$type<TrustOptimizationChangeStatus>().default('applied').notNull(),
+  appliedAt: timestamp("applied_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  removedAt: timestamp("removed_at"),
+}, (table) => {
+  return {
+    userStoreIdIdx: index("trust_optimization_changes_user_store_id_idx").on(table.userStoreId),
+  };
+});
+
+// Competitor storefronts a user benchmarks one of their stores against
+export const storeCompetitors = pgTable("store_competitors", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }).notNull(),
+  name: text("name").notNull(),
+  storeUrl: text("store_url").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userStoreIdIdx: index("store_competitors_user_store_id_idx").on(table.userStoreId),
+  };
+});
+
+// Storefront analyses of competitors, kept apart from store_analyses so they never show up as the user's own
+export const competitorAnalyses = pgTable("competitor_analyses", {
+  id: serial("id").primaryKey(),
+  competitorId: integer("competitor_id").references(() => storeCompetitors.id, { onDelete: "cascade" }).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }).notNull(),
+  overallScore: integer("overall_score").notNull(),
+  designScore: integer("design_score").notNull(),
+  productScore: integer("product_score").notNull(),
+  seoScore: integer("seo_score").notNull(),
+  trustScore: integer("trust_score").notNull(),
+  pricingScore: integer("pricing_score").notNull(),
+  conversionScore: integer("conversion_score").notNull(),
+  priceRange: jsonb("price_range").$type<PriceRangeSummary | null>(), // from the public product feed, null when it is closed
+  analysisData: jsonb("analysis_data").$type<any>().notNull(),
+  creditsUsed: integer("credits_used").default(1).notNull(),
+  degraded: boolean("degraded").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    competitorIdIdx: index("competitor_analyses_competitor_id_idx").on(table.competitorId),
+  };
+});
+
 // Alex chat sessions table
 export const alexChatSessions = pgTable("alex_chat_sessions", {
   id: serial("id").primaryKey(),
@@ -220,6 +496,147 @@ export const alexChatMessages = pgTable("alex_chat_messages", {
   };
 });
 
+// Analysis jobs table - background queue for store analyses
+export const analysisJobs = pgTable("analysis_jobs", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id), // null for guest analyses
+  userStoreId: integer("user_store_id").references(() => userStores.id),
+  jobType: text("job_type").$type<'storefront' | 'shopify_admin' | 'woocommerce' | 'ebay_api' | 'competitor'>().notNull(),
+  payload: jsonb("payload").$type<AnalysisJobPayload>().notNull(),
+  status: text("status").$type<'queued' | 'running' | 'completed' | 'failed'>().default('queued').notNull(),
+  stage: text("stage").$type<AnalysisJobStage>().default('queued').notNull(),
+  progress: integer("progress").default(0).notNull(),
+  attempts: integer("attempts").default(0).notNull(),
+  maxAttempts: integer("max_attempts").default(3).notNull(),
+  creditCost: integer("credit_cost").default(0).notNull(), // held when queued, committed only when the job completes
+  creditReservationId: integer("credit_reservation_id").references(() => creditReservations.id),
+  error: text("error"),
+  analysisId: integer("analysis_id").references(() => storeAnalyses.id),
+  competitorAnalysisId: integer("competitor_analysis_id").references(() => competitorAnalyses.id, { onDelete: "set null" }),
+  runAfter: timestamp("run_after").defaultNow().notNull(), // retry backoff
+  lockedAt: timestamp("locked_at"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    statusRunAfterIdx: index("analysis_jobs_status_run_after_idx").on(table.status, table.runAfter),
+    userIdIdx: index("analysis_jobs_user_id_idx").on(table.userId),
+  };
+});
+
+// Shopify product mirror - full catalog synced from the Admin API so pages don't hit Shopify on every view.
+// WooCommerce stores mirror their catalog here too, with simple products as a single variant,
+// and so do eBay stores, keyed by inventory item SKU with the listing's offer as the variant.
+export const shopifyProducts = pgTable("shopify_products", {
+  id: serial("id").primaryKey(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }).notNull(),
+  shopifyProductId: text("shopify_product_id").notNull(), // numeric id, matching the REST-style ids used elsewhere
+  title: text("title").notNull(),
+  handle: text("handle").notNull(),
+  descriptionHtml: text("description_html"),
+  productType: text("product_type"),
+  vendor: text("vendor"),
+  tags: jsonb("tags").$type<string[]>().default([]).notNull(),
+  status: text("status").notNull(),
+  seoTitle: text("seo_title"),
+  seoDescription: text("seo_description"),
+  shopifyCreatedAt: timestamp("shopify_created_at"),
+  shopifyUpdatedAt: timestamp("shopify_updated_at"),
+  syncedAt: timestamp("synced_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    storeProductIdx: uniqueIndex("shopify_products_store_product_idx").on(table.userStoreId, table.shopifyProductId),
+    storeUpdatedAtIdx: index("shopify_products_store_updated_at_idx").on(table.userStoreId, table.shopifyUpdatedAt),
+  };
+});
+
+export const shopifyProductVariants = pgTable("shopify_product_variants", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => shopifyProducts.id, { onDelete: "cascade" }).notNull(),
+  shopifyVariantId: text("shopify_variant_id").notNull(),
+  title: text("title"),
+  price: text("price"),
+  compareAtPrice: text("compare_at_price"),
+  sku: text("sku"),
+  inventoryQuantity: integer("inventory_quantity"),
+  position: integer("position").default(0).notNull(),
+}, (table) => {
+  return {
+    productIdIdx: index("shopify_product_variants_product_id_idx").on(table.productId),
+  };
+});
+
+export const shopifyProductImages = pgTable("shopify_product_images", {
+  id: serial("id").primaryKey(),
+  productId: integer("product_id").references(() => shopifyProducts.id, { onDelete: "cascade" }).notNull(),
+  shopifyImageId: text("shopify_image_id").notNull(),
+  src: text("src").notNull(),
+  altText: text("alt_text"),
+  position: integer("position").default(0).notNull(),
+}, (table) => {
+  return {
+    productIdIdx: index("shopify_product_images_product_id_idx").on(table.productId),
+  };
+});
+
+// In-app notifications table
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  userStoreId: integer("user_store_id").references(() => userStores.id, { onDelete: "cascade" }),
+  type: text("type").$type<'score_change'>().notNull(),
+  title: text("title").notNull(),
+  message: text("message").notNull(),
+  data: jsonb("data").$type<ScoreChangeNotificationData>(),
+  isRead: boolean("is_read").default(false).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    userIdIdx: index("notifications_user_id_idx").on(table.userId),
+    userIdIsReadIdx: index("notifications_user_id_is_read_idx").on(table.userId, table.isRead),
+  };
+});
+
+// Compliance requests table - audit trail of Shopify GDPR webhooks and how each was handled
+export const complianceRequests = pgTable("compliance_requests", {
+  id: serial("id").primaryKey(),
+  topic: text("topic").$type<ComplianceTopic>().notNull(),
+  shopDomain: text("shop_domain").notNull(),
+  shopifyShopId: text("shopify_shop_id"),
+  shopifyCustomerId: text("shopify_customer_id"),
+  payload: jsonb("payload").notNull(), // webhook body exactly as received
+  status: text("status").$type<'received' | 'completed' | 'failed'>().default('received').notNull(),
+  result: jsonb("result").$type<ComplianceRequestResult>(),
+  exportData: jsonb("export_data").$type<CustomerDataExport>(), // data_request bundle, downloadable by admins
+  error: text("error"),
+  receivedAt: timestamp("received_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+}, (table) => {
+  return {
+    shopDomainIdx: index("compliance_requests_shop_domain_idx").on(table.shopDomain),
+    receivedAtIdx: index("compliance_requests_received_at_idx").on(table.receivedAt),
+  };
+});
+
+// Admin audit log - one row per action taken from the admin console
+export const adminAuditLogs = pgTable("admin_audit_logs", {
+  id: serial("id").primaryKey(),
+  adminUserId: integer("admin_user_id").references(() => users.id).notNull(),
+  action: text("action").$type<AdminAuditAction>().notNull(),
+  targetUserId: integer("target_user_id").references(() => users.id, { onDelete: "set null" }),
+  targetStoreId: integer("target_store_id"), // kept as a plain id so the entry outlives the store
+  reason: text("reason"),
+  details: jsonb("details").$type<Record<string, unknown>>(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => {
+  return {
+    adminUserIdIdx: index("admin_audit_logs_admin_user_id_idx").on(table.adminUserId),
+    targetUserIdIdx: index("admin_audit_logs_target_user_id_idx").on(table.targetUserId),
+    createdAtIdx: index("admin_audit_logs_created_at_idx").on(table.createdAt),
+  };
+});
+
 // Schema validation
 export const insertUserSchema = createInsertSchema(users).pick({
   email: true,
@@ -257,15 +674,18 @@ export const insertStoreAnalysisSchema = createInsertSchema(storeAnalyses).pick(
   summary: true,
   storeRecap: true,
   creditsUsed: true,
+  contentHash: true,
+  degraded: true,
+  validationErrors: true,
 });
 
 export const analyzeStoreRequestSchema = z.object({
   storeUrl: z.string().optional(),
-  storeType: z.enum(['shopify', 'ebay']),
+  storeType: z.enum(['shopify', 'ebay', 'woocommerce']),
   ebayUsername: z.string().optional(),
   userStoreId: z.number().optional(),
 }).refine((data) => {
-  if (data.storeType === 'shopify' && !data.storeUrl) {
+  if ((data.storeType === 'shopify' || data.storeType === 'woocommerce') && !data.storeUrl) {
     return false;
   }
   if (data.storeType === 'ebay' && !data.ebayUsername) {
@@ -273,7 +693,146 @@ export const analyzeStoreRequestSchema = z.object({
   }
   return true;
 }, {
-  message: "storeUrl is required for Shopify stores, ebayUsername is required for eBay stores"
+  message: "storeUrl is required for Shopify and WooCommerce stores, ebayUsername is required for eBay stores"
+});
+
+export const updateStoreScheduleSchema = z.object({
+  schedule: z.enum(['off', 'daily', 'weekly', 'monthly']),
+  scoreAlertThreshold: z.number().int().min(1).max(100).optional(),
+});
+
+export const updateSuggestionDraftSchema = z.object({
+  content: z.string().trim().min(1),
+});
+
+export const createBulkOptimizationSchema = z.object({
+  storeId: z.coerce.number().int().positive(),
+  recommendationType: z.enum(['title', 'description', 'pricing', 'keywords']),
+  productIds: z.array(z.coerce.string().min(1)).min(1).max(250),
+});
+
+export const applyDesignSchema = z.object({
+  storeId: z.coerce.number().int().positive(),
+  suggestionId: z.string().min(1),
+  changes: z.object({
+    current: z.string().optional(),
+    recommended: z.string().min(1),
+    cssChanges: z.string().optional(),
+    themeSettings: z.object({
+      colors: z.record(z.string()).optional(),
+      typography: z.record(z.string()).optional(),
+    }).optional(),
+  }),
+});
+
+const shopifyHandleSchema = z.string().regex(/^[a-z0-9]+(?:-[a-z0-9]+)*$/, "Handles may only contain lowercase letters, numbers and hyphens");
+
+// One concrete change an SEO suggestion makes; ids are the numeric Shopify ids
+export const seoOperationSchema = z.discriminatedUnion('resource', [
+  z.object({
+    resource: z.literal('product'),
+    id: z.coerce.string().min(1),
+    field: z.enum(['seo_title', 'seo_description', 'handle']),
+    value: z.string().trim().min(1),
+  }),
+  z.object({
+    resource: z.literal('collection'),
+    id: z.coerce.string().min(1),
+    field: z.enum(['seo_title', 'seo_description', 'handle']),
+    value: z.string().trim().min(1),
+  }),
+  z.object({
+    resource: z.literal('image'),
+    productId: z.coerce.string().min(1),
+    id: z.coerce.string().min(1),
+    field: z.literal('alt'),
+    value: z.string().trim().min(1).max(512),
+  }),
+  z.object({
+    resource: z.literal('shop'),
+    field: z.literal('meta_description'),
+    value: z.string().trim().min(1).max(320),
+  }),
+]).superRefine((operation, ctx) => {
+  if (operation.field === 'handle' && !shopifyHandleSchema.safeParse(operation.value).success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['value'], message: 'Invalid handle' });
+  }
+});
+
+export const applySeoRecommendationSchema = z.object({
+  storeId: z.coerce.number().int().positive(),
+  suggestionId: z.string().min(1),
+  changes: z.object({
+    current: z.string().optional(),
+    recommended: z.string().min(1),
+    operations: z.array(seoOperationSchema).min(1, "This suggestion has no changes that can be applied automatically").max(50),
+  }),
+});
+
+export const applyLegalRecommendationSchema = z.object({
+  storeId: z.coerce.number().int().positive(),
+  suggestionId: z.string().min(1),
+  documentType: z.enum(['refund', 'privacy', 'terms', 'shipping', 'imprint']),
+});
+
+// The concrete change a conversion suggestion maps to; 'manual' means it can't be applied automatically
+export const conversionActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('compare_at_badge') }),
+  z.object({
+    type: z.literal('free_shipping_bar'),
+    settings: z.object({ threshold: z.coerce.number().positive().max(100000) }), // in the shop's currency
+  }),
+  z.object({
+    type: z.literal('low_stock_urgency'),
+    settings: z.object({ threshold: z.coerce.number().int().min(1).max(100).default(5) }).default({}),
+  }),
+  z.object({ type: z.literal('sticky_add_to_cart') }),
+  z.object({ type: z.literal('manual') }),
+]);
+
+export const applyConversionRecommendationSchema = z.object({
+  storeId: z.coerce.number().int().positive(),
+  suggestionId: z.string().min(1),
+  action: conversionActionSchema,
+});
+
+export const applyTrustRecommendationSchema = z.object({
+  storeId: z.coerce.number().int().positive(),
+  suggestionId: z.string().min(1),
+  type: z.enum(['reviews', 'testimonials', 'badges', 'security', 'guarantees', 'contact', 'general']),
+  changes: z.object({
+    current: z.string().default(''),
+    recommended: z.string().min(1),
+    implementation: z.string().default(''),
+  }),
+});
+
+export const createCompetitorSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  storeUrl: z.string().trim().url().refine(url => /^https?:\/\//i.test(url), "Competitor URL must start with http:// or https://"),
+});
+
+const adminReasonSchema = z.string().trim().min(3).max(500);
+
+export const adminCreditAdjustmentSchema = z.object({
+  action: z.enum(['grant', 'revoke']),
+  amount: z.coerce.number().int().positive(),
+  reason: adminReasonSchema,
+});
+
+export const adminReasonRequestSchema = z.object({
+  reason: adminReasonSchema,
+});
+
+export const stripeEventStatusSchema = z.enum(['processing', 'processed', 'skipped', 'failed']);
+
+export const revertOptimizationSchema = z.object({
+  refundCredit: z.boolean().optional(),
+});
+
+export const revertStoreOptimizationsSchema = z.object({
+  since: z.coerce.date(),
+  refundCredit: z.boolean().optional(),
 });
 
 export const registerUserSchema = z.object({
@@ -291,10 +850,10 @@ export const loginUserSchema = z.object({
 export const createUserStoreSchema = z.object({
   name: z.string().min(1),
   storeUrl: z.string().optional(),
-  storeType: z.enum(['shopify', 'ebay']),
+  storeType: z.enum(['shopify', 'ebay', 'woocommerce']),
   ebayUsername: z.string().optional(),
 }).refine((data) => {
-  if (data.storeType === 'shopify' && !data.storeUrl) {
+  if ((data.storeType === 'shopify' || data.storeType === 'woocommerce') && !data.storeUrl) {
     return false;
   }
   if (data.storeType === 'ebay' && !data.ebayUsername) {
@@ -302,7 +861,12 @@ export const createUserStoreSchema = z.object({
   }
   return true;
 }, {
-  message: "storeUrl is required for Shopify stores, ebayUsername is required for eBay stores"
+  message: "storeUrl is required for Shopify and WooCommerce stores, ebayUsername is required for eBay stores"
+});
+
+export const connectWooCommerceSchema = z.object({
+  consumerKey: z.string().trim().regex(/^ck_\w+$/, "Consumer key should start with ck_"),
+  consumerSecret: z.string().trim().regex(/^cs_\w+$/, "Consumer secret should start with cs_"),
 });
 
 export const createSubscriptionSchema = z.object({
@@ -334,19 +898,65 @@ export type StoreAnalysis = typeof storeAnalyses.$inferSelect;
 export type User = typeof users.$inferSelect;
 export type UserStore = typeof userStores.$inferSelect;
 export type CreditTransaction = typeof creditTransactions.$inferSelect;
+export type CreditReservation = typeof creditReservations.$inferSelect;
 export type UserSession = typeof userSessions.$inferSelect;
+export type OAuthState = typeof oauthStates.$inferSelect;
+export type InsertOAuthState = typeof oauthStates.$inferInsert;
+export type ProcessedStripeEvent = typeof processedStripeEvents.$inferSelect;
+export type InsertProcessedStripeEvent = typeof processedStripeEvents.$inferInsert;
+export type AdminAuditLog = typeof adminAuditLogs.$inferSelect;
+export type InsertAdminAuditLog = typeof adminAuditLogs.$inferInsert;
 export type ProductOptimization = typeof productOptimizations.$inferSelect;
 export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
 export type UserSubscription = typeof userSubscriptions.$inferSelect;
 export type AlexChatSession = typeof alexChatSessions.$inferSelect;
 export type AlexChatMessage = typeof alexChatMessages.$inferSelect;
+export type AnalysisJob = typeof analysisJobs.$inferSelect;
+export type Notification = typeof notifications.$inferSelect;
+export type ShopifyProduct = typeof shopifyProducts.$inferSelect;
+export type ShopifyProductVariant = typeof shopifyProductVariants.$inferSelect;
+export type ShopifyProductImage = typeof shopifyProductImages.$inferSelect;
+export type InsertNotification = typeof notifications.$inferInsert;
+export type SuggestionDraft = typeof suggestionDrafts.$inferSelect;
+export type InsertSuggestionDraft = typeof suggestionDrafts.$inferInsert;
+export type BulkOptimizationJob = typeof bulkOptimizationJobs.$inferSelect;
+export type InsertBulkOptimizationJob = typeof bulkOptimizationJobs.$inferInsert;
+export type BulkOptimizationItem = typeof bulkOptimizationItems.$inferSelect;
+export type ThemePreview = typeof themePreviews.$inferSelect;
+export type InsertThemePreview = typeof themePreviews.$inferInsert;
+export type LegalDocumentVersion = typeof legalDocumentVersions.$inferSelect;
+export type ConversionAction = typeof conversionActions.$inferSelect;
+export type InsertConversionAction = typeof conversionActions.$inferInsert;
+export type TrustOptimizationChange = typeof trustOptimizationChanges.$inferSelect;
+export type InsertTrustOptimizationChange = typeof trustOptimizationChanges.$inferInsert;
+export type StoreCompetitor = typeof storeCompetitors.$inferSelect;
+export type InsertStoreCompetitor = typeof storeCompetitors.$inferInsert;
+export type CompetitorAnalysis = typeof competitorAnalyses.$inferSelect;
+export type InsertCompetitorAnalysis = typeof competitorAnalyses.$inferInsert;
+export type InsertLegalDocumentVersion = typeof legalDocumentVersions.$inferInsert;
+export type ComplianceRequest = typeof complianceRequests.$inferSelect;
+export type InsertComplianceRequest = typeof complianceRequests.$inferInsert;
+export type InsertAnalysisJob = typeof analysisJobs.$inferInsert;
 export type AnalyzeStoreRequest = z.infer<typeof analyzeStoreRequestSchema>;
 export type RegisterUserRequest = z.infer<typeof registerUserSchema>;
 export type LoginUserRequest = z.infer<typeof loginUserSchema>;
 export type CreateUserStoreRequest = z.infer<typeof createUserStoreSchema>;
+export type UpdateStoreScheduleRequest = z.infer<typeof updateStoreScheduleSchema>;
+export type RevertStoreOptimizationsRequest = z.infer<typeof revertStoreOptimizationsSchema>;
+export type CreateBulkOptimizationRequest = z.infer<typeof createBulkOptimizationSchema>;
+export type ApplyDesignRequest = z.infer<typeof applyDesignSchema>;
+export type SeoOperation = z.infer<typeof seoOperationSchema>;
+export type ApplySeoRecommendationRequest = z.infer<typeof applySeoRecommendationSchema>;
+export type ApplyLegalRecommendationRequest = z.infer<typeof applyLegalRecommendationSchema>;
+export type ConversionActionRequest = z.infer<typeof conversionActionSchema>;
+export type ApplyConversionRecommendationRequest = z.infer<typeof applyConversionRecommendationSchema>;
+export type ApplyTrustRecommendationRequest = z.infer<typeof applyTrustRecommendationSchema>;
+export type CreateCompetitorRequest = z.infer<typeof createCompetitorSchema>;
+export type AdminCreditAdjustmentRequest = z.infer<typeof adminCreditAdjustmentSchema>;
 export type CreateSubscriptionRequest = z.infer<typeof createSubscriptionSchema>;
 export type UpdateSubscriptionRequest = z.infer<typeof updateSubscriptionSchema>;
 export type UpdatePaymentMethodRequest = z.infer<typeof updatePaymentMethodSchema>;
+export type ConnectWooCommerceRequest = z.infer<typeof connectWooCommerceSchema>;
 
 export interface StoreAnalysisResult {
   // Overall scoring section
@@ -439,4 +1049,304 @@ export interface StoreAnalysisResult {
     businessModel: string;
     competitiveAdvantage: string;
   };
-}
\ No newline at end of file
+
+  // Per-category rule results from the deterministic scoring engine
+  scoreBreakdown?: ScoreBreakdown;
+
+  // Set when the AI output could not be validated or repaired
+  degraded?: boolean;
+  validationErrors?: string[];
+}
+
+export type AnalysisJobStage = 'queued' | 'fetching' | 'screenshot' | 'ai' | 'saving' | 'done';
+
+export interface AnalysisJobPayload {
+  storeType: StoreType;
+  storeUrl?: string;
+  ebayUsername?: string;
+  scheduled?: boolean; // queued by the re-analysis scheduler rather than a user request
+  competitorId?: number; // competitor jobs analyze this competitor's storefront
+}
+
+export type StoreType = 'shopify' | 'ebay' | 'woocommerce';
+
+export type AnalysisSchedule = 'off' | 'daily' | 'weekly' | 'monthly';
+
+export type SuggestionDraftStatus = 'draft' | 'approved' | 'applied' | 'reverted';
+
+// item_specifics only applies to eBay listings
+export type ProductOptimizationType = 'title' | 'description' | 'pricing' | 'keywords' | 'item_specifics';
+
+export type BulkOptimizationJobStatus = 'queued' | 'running' | 'completed' | 'cancelled' | 'failed';
+
+export type BulkOptimizationItemStatus = 'pending' | 'running' | 'publishing' | 'succeeded' | 'failed' | 'cancelled';
+
+export type ThemePreviewStatus = 'creating' | 'preview' | 'published' | 'discarded' | 'failed';
+
+export type ConversionActionType = 'compare_at_badge' | 'free_shipping_bar' | 'low_stock_urgency' | 'sticky_add_to_cart';
+// 'replaced' when the same action was applied again with new settings
+export type ConversionActionStatus = 'applied' | 'replaced' | 'reverted';
+
+export type TrustOptimizationType = 'reviews' | 'testimonials' | 'badges' | 'security' | 'guarantees' | 'contact' | 'general';
+
+export type TrustResourceType = 'product' | 'page';
+
+export type TrustOptimizationChangeStatus = 'applied' | 'removed';
+
+export type OAuthProvider = 'shopify' | 'ebay';
+
+// 'committed' once the whole hold was charged; 'released'/'expired' holds returned what was left of them
+export type CreditReservationStatus = 'held' | 'committed' | 'released' | 'expired';
+
+// 'skipped' events were delivered after a newer one for the same object and changed nothing
+export type StripeEventStatus = 'processing' | 'processed' | 'skipped' | 'failed';
+
+export type AdminAuditAction =
+  | 'user_search'
+  | 'user_view'
+  | 'credits_grant'
+  | 'credits_revoke'
+  | 'store_disconnect'
+  | 'impersonation_start'
+  | 'impersonation_end'
+  | 'stripe_event_replay'
+  | 'audit_log_view'
+  | 'stripe_events_view'
+  | 'compliance_requests_view'
+  | 'compliance_export_download';
+
+export interface PriceRangeSummary {
+  min: number;
+  max: number;
+  median: number;
+  productCount: number;
+}
+
+export type LegalDocumentType = 'refund' | 'privacy' | 'terms' | 'shipping' | 'imprint';
+
+// generated from a template, imported from what Shopify had before our first publish, or a rollback
+export type LegalDocumentSource = 'generated' | 'imported' | 'rollback';
+
+export interface LegalDocumentDiffLine {
+  type: 'added' | 'removed' | 'unchanged';
+  line: string;
+}
+
+// A resource field changed by an SEO operation, with the values either side of the change
+export interface SeoChange {
+  resource: SeoOperation['resource'];
+  id: string;
+  title: string | null;
+  field: SeoOperation['field'];
+  before: string | null;
+  after: string;
+  redirect?: { from: string; to: string }; // created when a handle changes
+}
+
+// A mirrored product with its variants and images, ordered by position
+export type MirroredShopifyProduct = ShopifyProduct & {
+  variants: ShopifyProductVariant[];
+  images: ShopifyProductImage[];
+};
+
+// Sync input: product columns plus child rows, without the generated ids
+export type MirroredShopifyProductInput = Omit<typeof shopifyProducts.$inferInsert, 'id' | 'userStoreId' | 'syncedAt'> & {
+  variants: Array<Omit<typeof shopifyProductVariants.$inferInsert, 'id' | 'productId'>>;
+  images: Array<Omit<typeof shopifyProductImages.$inferInsert, 'id' | 'productId'>>;
+};
+
+export type ComplianceTopic = 'customers/data_request' | 'customers/redact' | 'shop/redact';
+
+// Counts of what a compliance request touched, kept on the audit record
+export interface ComplianceRequestResult {
+  storesAffected: number;
+  analysesDeleted?: number;
+  optimizationsDeleted?: number;
+  analysisJobsDeleted?: number;
+  productsDeleted?: number;
+  chatMessagesRedacted?: number;
+  chatMessagesExported?: number;
+}
+
+// What a customers/data_request returns: every record we hold that references the customer
+export interface CustomerDataExport {
+  generatedAt: string;
+  shopDomain: string;
+  customer: { id: string | null; email: string | null; phone: string | null };
+  ordersRequested: string[];
+  records: {
+    chatMessages: Array<{ id: number; createdAt: string; content: string }>;
+  };
+}
+
+// Rows removed when a store's data is purged for shop/redact
+export interface StoreDataPurgeResult {
+  analysesDeleted: number;
+  optimizationsDeleted: number;
+  analysisJobsDeleted: number;
+  productsDeleted: number;
+}
+
+export interface ScoreChangeNotificationData {
+  analysisId: number;
+  previousAnalysisId: number;
+  changes: Array<{
+    category: 'overall' | ScoreCategory;
+    previous: number;
+    current: number;
+    delta: number;
+  }>;
+}
+
+export type ScoreCategory = 'design' | 'product' | 'seo' | 'trust' | 'pricing' | 'conversion';
+
+// One side of a competitor benchmark, read from that store's latest analysis
+export interface BenchmarkProfile {
+  analysisId: number | null;
+  analyzedAt: string | null;
+  overallScore: number | null;
+  categoryScores: Record<ScoreCategory, number> | null;
+  priceRange: PriceRangeSummary | null;
+  trustSignals: Array<{ id: string; label: string; passed: boolean }>;
+  mainCategories: string[];
+}
+
+export interface CompetitorComparison {
+  store: BenchmarkProfile;
+  competitors: Array<{
+    competitor: { id: number; name: string; storeUrl: string };
+    profile: BenchmarkProfile | null; // null until the competitor has been analyzed
+    sharedCategories: string[];
+  }>;
+  suggestions: StoreAnalysisResult['suggestions'];
+}
+
+export interface ScoringRuleResult {
+  id: string;
+  label: string;
+  passed: boolean;
+  points: number;
+  maxPoints: number;
+  detail?: string;
+}
+
+export interface CategoryScoreBreakdown {
+  score: number;
+  maxScore: number;
+  source: 'rules' | 'ai'; // 'ai' when there was no store data to evaluate rules against
+  rules: ScoringRuleResult[];
+}
+
+export type ScoreBreakdown = Record<ScoreCategory, CategoryScoreBreakdown>;
+
+const categoryScore = (max: number) => z.number().int().min(0).max(max);
+
+// Runtime validation for AI-generated analyses. Mirrors StoreAnalysisResult.
+export const storeAnalysisResultSchema = z.object({
+  overallScore: z.number().int().min(0).max(100),
+  strengths: z.array(z.string()),
+  warnings: z.array(z.string()),
+  critical: z.array(z.string()),
+
+  designScore: categoryScore(20),
+  productScore: categoryScore(25),
+  seoScore: categoryScore(20),
+  trustScore: categoryScore(15),
+  pricingScore: categoryScore(10),
+  conversionScore: categoryScore(10),
+
+  designAnalysis: z.object({
+    mobileResponsive: z.boolean(),
+    pageSpeed: z.number().min(0),
+    navigationClarity: z.boolean(),
+    brandingConsistency: z.boolean(),
+    score: categoryScore(20),
+  }),
+  productAnalysis: z.object({
+    productCount: z.number().int().min(0),
+    highQualityImages: z.boolean(),
+    detailedDescriptions: z.number().min(0).max(100),
+    structuredTitles: z.boolean(),
+    trendingProducts: z.boolean(),
+    score: categoryScore(25),
+  }),
+  seoAnalysis: z.object({
+    metaTitlesPresent: z.boolean(),
+    keywordOptimization: z.boolean(),
+    categoriesUsed: z.boolean(),
+    cleanUrls: z.boolean(),
+    score: categoryScore(20),
+  }),
+  trustAnalysis: z.object({
+    returnPolicy: z.boolean(),
+    aboutPage: z.boolean(),
+    contactInfo: z.boolean(),
+    sslSecurity: z.boolean(),
+    socialProof: z.number().min(0),
+    score: categoryScore(15),
+  }),
+  pricingAnalysis: z.object({
+    competitive: z.boolean(),
+    priceRange: z.enum(['low', 'medium', 'high']),
+    valuePerception: z.enum(['underpriced', 'fair', 'overpriced']),
+    score: categoryScore(10),
+  }),
+  conversionAnalysis: z.object({
+    clearCtas: z.boolean(),
+    reviewsDisplayed: z.boolean(),
+    promotions: z.boolean(),
+    supportOptions: z.boolean(),
+    score: categoryScore(10),
+  }),
+
+  suggestions: z.array(z.object({
+    title: z.string().min(1),
+    description: z.string().min(1),
+    impact: z.string(),
+    category: z.enum(['design', 'product', 'seo', 'trust', 'pricing', 'conversion']),
+    priority: z.enum(['low', 'medium', 'high', 'critical']),
+  })),
+
+  summary: z.string().min(1),
+  storeRecap: z.object({
+    mainCategories: z.array(z.object({
+      name: z.string(),
+      viralScore: z.number().min(1).max(10),
+      demandScore: z.number().min(1).max(10),
+      description: z.string(),
+    })),
+    storeSize: z.enum(['small', 'medium', 'large', 'enterprise']),
+    estimatedProducts: z.string(),
+    targetAudience: z.string(),
+    businessModel: z.string(),
+    competitiveAdvantage: z.string(),
+  }),
+}).superRefine((result, ctx) => {
+  const categorySum = result.designScore + result.productScore + result.seoScore +
+    result.trustScore + result.pricingScore + result.conversionScore;
+  if (result.overallScore !== categorySum) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['overallScore'],
+      message: `overallScore must equal the sum of category scores (${categorySum})`,
+    });
+  }
+
+  const sectionScores = [
+    ['designAnalysis', result.designAnalysis.score, result.designScore],
+    ['productAnalysis', result.productAnalysis.score, result.productScore],
+    ['seoAnalysis', result.seoAnalysis.score, result.seoScore],
+    ['trustAnalysis', result.trustAnalysis.score, result.trustScore],
+    ['pricingAnalysis', result.pricingAnalysis.score, result.pricingScore],
+    ['conversionAnalysis', result.conversionAnalysis.score, result.conversionScore],
+  ] as const;
+  for (const [section, sectionScore, categoryValue] of sectionScores) {
+    if (sectionScore !== categoryValue) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [section, 'score'],
+        message: `${section}.score must match its category score (${categoryValue})`,
+      });
+    }
+  }
+});
\ No newline at end of file